@@ -0,0 +1,41 @@
+#!/usr/bin/env node
+// tsc keeps the "@/" path alias in emitted declarations, which library users cannot resolve. Rewrites them to
+// relative paths inside dist-lib/types.
+import fs from "node:fs/promises";
+import path from "node:path";
+
+const ROOT = path.resolve(path.dirname(new URL(import.meta.url).pathname), "..");
+const TYPES_DIR = path.join(ROOT, "dist-lib", "types");
+
+async function listDeclarations(dir) {
+  const files = [];
+  for (const entry of await fs.readdir(dir, { withFileTypes: true })) {
+    const full = path.join(dir, entry.name);
+    if (entry.isDirectory()) files.push(...(await listDeclarations(full)));
+    else if (entry.name.endsWith(".d.ts")) files.push(full);
+  }
+  return files;
+}
+
+function toRelative(file, target) {
+  const relative = path.relative(path.dirname(file), path.join(TYPES_DIR, target)).split(path.sep).join("/");
+  return relative.startsWith(".") ? relative : `./${relative}`;
+}
+
+async function main() {
+  let rewritten = 0;
+  for (const file of await listDeclarations(TYPES_DIR)) {
+    const text = await fs.readFile(file, "utf8");
+    const next = text.replace(/(["'])@\/([^"']+)\1/g, (_m, quote, target) => `${quote}${toRelative(file, target)}${quote}`);
+    if (next !== text) {
+      await fs.writeFile(file, next);
+      ++rewritten;
+    }
+  }
+  console.log(`Resolved path aliases in ${rewritten} declaration files.`);
+}
+
+main().catch(err => {
+  console.error(err);
+  process.exit(1);
+});
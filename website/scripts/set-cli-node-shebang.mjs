@@ -0,0 +1,21 @@
+#!/usr/bin/env node
+// bun build keeps the CLI source's bun shebang and marks the bundle with a "// @bun" pragma, so the published bin
+// would need Bun to start. The bundle targets Node, so both are replaced with a node shebang.
+import fs from "node:fs/promises";
+import path from "node:path";
+
+const ROOT = path.resolve(path.dirname(new URL(import.meta.url).pathname), "..");
+const CLI_FILE = path.join(ROOT, "dist-cli", "png2nbt.mjs");
+const NODE_SHEBANG = "#!/usr/bin/env node";
+
+async function main() {
+  const text = await fs.readFile(CLI_FILE, "utf8");
+  const body = text.replace(/^#![^\n]*\n/, "").replace(/^\/\/ @bun[^\n]*\n/, "");
+  await fs.writeFile(CLI_FILE, `${NODE_SHEBANG}\n${body}`);
+  console.log(`Set the node shebang on ${path.relative(ROOT, CLI_FILE)}.`);
+}
+
+main().catch(err => {
+  console.error(err);
+  process.exit(1);
+});
@@ -3,30 +3,77 @@ import { Moon, Sun, Plus, Minus, Glasses } from "lucide-react";
 import { BASE_COLORS, WATER_BASE_INDEX, getShadedRgb, type Shade } from "@/data/mapColors";
 import { DEFAULT_COLOR_ROW_ORDER } from "@/data/colorSortOrder";
 import { EXCLUDED_BLOCKS } from "@/data/excludedColors";
-import { convertToNbt } from "@/lib/nbtExport";
-import { generateShapeMap } from "@/lib/shapeGeneration";
-import { convertFileToColorGrid, convertImageToColorGrid } from "@/lib/colorGridParsing";
-import { computeColorGridStats } from "@/lib/colorGridAnalysis";
+import { getAvailableBlockMapping, isBlockAvailable } from "@/data/javaVersions";
+import { type RegionPlacement, WORLD_MAX_Y, WORLD_MIN_Y, getMapGridCorner } from "@/lib/anvilWriter";
+import { DEFAULT_MAX_COMMAND_CHAIN_LENGTH } from "@/lib/datapackWriter";
+import { type GeneratedShape, getPaletteSeedOffset } from "@/lib/shapeGeneration";
+import { type ShapeSet, ShapeWorkerClient } from "@/lib/shapeWorkerClient";
+import {
+  type ColorConversionOptions,
+  buildPaletteMask,
+  convertImageToColorGrid,
+  convertMapColorsToColorGrid,
+  isMapDatFile,
+  loadImageFramesFromFile,
+  loadMapColorsFromFile,
+} from "@/lib/colorGridParsing";
+import { computeWallColorGridStats } from "@/lib/colorGridAnalysis";
+import { type ColorGridTile, MAP_SIZE } from "@/lib/colorGridTypes";
+import { DEFAULT_IMAGE_FIT, type ImageFitOptions, MAX_FIT_MAPS, fitOffGridImage, normalizeImageFitOptions } from "@/lib/imageFitting";
+import { type MapDatOptions, MAX_MAP_SCALE } from "@/lib/mapDatWriter";
+import {
+  type MapArtProject,
+  type ProjectRange,
+  PROJECT_FILE_EXTENSION,
+  createProjectSource,
+  isProjectFile,
+  parseProjectFile,
+  projectSourceToFile,
+  serializeProject,
+} from "@/lib/projectFile";
+import {
+  type StructureImport,
+  isStructureFile,
+  loadStructureFromFile,
+  matchStructureBuildMode,
+} from "@/lib/structureReader";
+import { alignWallSeams } from "@/lib/wallSeams";
 import {
-  analyzeMaterialNeeds,
   analyzeFillerNeeds,
   hasColorHeightVariance as generatedShapeHasColorHeightVariance,
   northRowIsSingleLine as generatedShapeNorthRowIsSingleLine,
 } from "@/lib/shapeAnalysis";
 import { canonicalizeBlockEntry, normalizeBlockId, stripBlockNamespace } from "@/lib/blockId";
-import { isFillerDisabled, isShadeFillerDisabled, isWaterSideSupportFillerValid } from "@/lib/fillerRules";
+import {
+  DEFAULT_FILLER_BLOCKS,
+  createFillerAssignments,
+  isFillerDisabled,
+  isShadeFillerDisabled,
+  isWaterSideSupportFillerValid,
+} from "@/lib/fillerRules";
 import { messages, PaletteNoticeKind, type PaletteNotice } from "@/lib/messages";
 import { isShapeFillerCell, parseShapeCoordKey } from "@/lib/shapeTypes";
 import { type BlockDisplayMode, type ColumnId, SupportMode } from "@/lib/uiTypes";
 import { getSupportedColorAbove, isWithinShapeBounds } from "@/lib/shapeCellRules";
 import {
   BuildMode,
+  ColorMetric,
+  DitherMethod,
+  PaletteShadeSet,
+  getPaletteShadeSetShades,
+  ExportFormat,
+  ImageFitMode,
+  MapDimension,
+  MinecraftVersion,
+  ResampleFilter,
   type FillerAssignment,
   FillerRole,
   buildModeUsesLayerGap,
   buildModeUsesMixSteps,
   buildModeUsesPaletteSeed,
+  getBuildModeFileSuffix,
   getBuildModeRangeMax,
+  getExportFormatExtension,
   isStaircaseBuildMode,
   isSuppressBuildMode,
   type CustomColor,
@@ -119,60 +166,72 @@ function normalizeStoredBuildMode(raw: unknown): BuildMode {
   return Object.values(BuildMode).includes(raw as BuildMode) ? (raw as BuildMode) : BuildMode.StaircaseClassic;
 }
 
-function createFillerAssignments(
-  supportFillerBlock: string,
-  shadeFillerBlock: string,
-  dominateVoidFillerBlock: string,
-  recessiveVoidFillerBlock: string,
-  suppress2LayerLateFillerBlock: string,
-  supportMode: SupportMode,
-  usesDirectWaterBlock: boolean,
-  usesIceWaterBlock: boolean,
-): FillerAssignment[] {
-  const assignments: FillerAssignment[] = [
-    { role: FillerRole.ShadeSuppress, block: shadeFillerBlock },
-    { role: FillerRole.ShadeNorthRow, block: shadeFillerBlock },
-    { role: FillerRole.ShadeVoidDominant, block: dominateVoidFillerBlock || shadeFillerBlock },
-    { role: FillerRole.ShadeVoidRecessive, block: recessiveVoidFillerBlock || shadeFillerBlock },
-    { role: FillerRole.ShadeSuppressLate, block: suppress2LayerLateFillerBlock || shadeFillerBlock },
-  ];
-  switch (supportMode) {
-    case SupportMode.Steps:
-      assignments.push({ role: FillerRole.StairStep, block: supportFillerBlock });
-      assignments.push({ role: FillerRole.WaterPath, block: supportFillerBlock });
-      break;
-    case SupportMode.All:
-      assignments.push({ role: FillerRole.SupportAll, block: supportFillerBlock });
-      if (usesDirectWaterBlock) {
-        assignments.push({ role: FillerRole.SupportWaterSides, block: supportFillerBlock });
-        assignments.push({ role: FillerRole.SupportWaterSidesCovered, block: supportFillerBlock });
-      }
-      assignments.push({ role: FillerRole.WaterPath, block: supportFillerBlock });
-      break;
-    case SupportMode.Fragile:
-      assignments.push({ role: FillerRole.SupportFragile, block: supportFillerBlock });
-      break;
-    case SupportMode.Water:
-      if (usesDirectWaterBlock) {
-        assignments.push({ role: FillerRole.SupportWaterSides, block: supportFillerBlock });
-        assignments.push({ role: FillerRole.SupportWaterSidesCovered, block: supportFillerBlock });
-      } else {
-        // Already handled by SupportWaterSidesCovered, so can be safely else-gated
-        assignments.push({ role: FillerRole.SupportWaterBase, block: supportFillerBlock });
-      }
-      assignments.push({ role: FillerRole.WaterPath, block: supportFillerBlock });
-      break;
-    case SupportMode.None:
-      break;
-  }
-  if (
-    supportMode !== SupportMode.None &&
-    usesIceWaterBlock &&
-    !assignments.some(({ role }) => role === FillerRole.SupportWaterBase)
-  ) {
-    assignments.push({ role: FillerRole.SupportWaterBase, block: supportFillerBlock });
-  }
-  return assignments;
+function normalizeStoredExportFormat(raw: unknown): ExportFormat {
+  return Object.values(ExportFormat).includes(raw as ExportFormat) ? (raw as ExportFormat) : ExportFormat.Structure;
+}
+
+function normalizeStoredDitherMethod(raw: unknown): DitherMethod {
+  return Object.values(DitherMethod).includes(raw as DitherMethod) ? (raw as DitherMethod) : DitherMethod.None;
+}
+
+function normalizeStoredColorMetric(raw: unknown): ColorMetric {
+  return Object.values(ColorMetric).includes(raw as ColorMetric) ? (raw as ColorMetric) : ColorMetric.Rgb;
+}
+
+function isMapGridSize(imageData: ImageData): boolean {
+  return imageData.width % MAP_SIZE === 0 && imageData.height % MAP_SIZE === 0;
+}
+
+function toHexColor({ r, g, b }: { r: number; g: number; b: number }): string {
+  return `#${[r, g, b].map(c => c.toString(16).padStart(2, "0")).join("")}`;
+}
+
+const DEFAULT_MAP_DAT: MapDatOptions = {
+  firstMapId: 0,
+  scale: 0,
+  dimension: MapDimension.Overworld,
+  centerX: 64,
+  centerZ: 64,
+};
+
+function normalizeStoredMapDat(raw: unknown): MapDatOptions {
+  const stored = (raw && typeof raw === "object" ? raw : {}) as Partial<MapDatOptions>;
+  const toInt = (value: unknown, fallback: number) => (Number.isFinite(Number(value)) ? Math.trunc(Number(value)) : fallback);
+  return {
+    firstMapId: Math.max(0, toInt(stored.firstMapId, DEFAULT_MAP_DAT.firstMapId)),
+    scale: Math.max(0, Math.min(MAX_MAP_SCALE, toInt(stored.scale, DEFAULT_MAP_DAT.scale))),
+    dimension: Object.values(MapDimension).includes(stored.dimension) ? stored.dimension : DEFAULT_MAP_DAT.dimension,
+    centerX: toInt(stored.centerX, DEFAULT_MAP_DAT.centerX),
+    centerZ: toInt(stored.centerZ, DEFAULT_MAP_DAT.centerZ),
+  };
+}
+
+const DEFAULT_REGION_PLACEMENT: RegionPlacement = { mapX: 0, mapZ: 0, baseY: 64 };
+
+function normalizeStoredRegionPlacement(raw: unknown): RegionPlacement {
+  const stored = (raw && typeof raw === "object" ? raw : {}) as Partial<RegionPlacement>;
+  const toInt = (value: unknown, fallback: number) => (Number.isFinite(Number(value)) ? Math.trunc(Number(value)) : fallback);
+  return {
+    mapX: toInt(stored.mapX, DEFAULT_REGION_PLACEMENT.mapX),
+    mapZ: toInt(stored.mapZ, DEFAULT_REGION_PLACEMENT.mapZ),
+    baseY: Math.max(WORLD_MIN_Y, Math.min(WORLD_MAX_Y - 1, toInt(stored.baseY, DEFAULT_REGION_PLACEMENT.baseY))),
+  };
+}
+
+// The build needs a few commands per tick besides its own, so tiny limits are raised.
+const MIN_COMMAND_CHAIN_LENGTH = 16;
+
+function normalizeStoredCommandChainLength(raw: unknown): number {
+  const value = Math.trunc(Number(raw));
+  return Number.isFinite(value) ? Math.max(MIN_COMMAND_CHAIN_LENGTH, value) : DEFAULT_MAX_COMMAND_CHAIN_LENGTH;
+}
+
+function normalizeStoredTargetVersion(raw: unknown): MinecraftVersion {
+  return Object.values(MinecraftVersion).includes(raw as MinecraftVersion) ? (raw as MinecraftVersion) : MinecraftVersion.Latest;
+}
+
+function normalizeStoredPaletteShadeSet(raw: unknown): PaletteShadeSet {
+  return Object.values(PaletteShadeSet).includes(raw as PaletteShadeSet) ? (raw as PaletteShadeSet) : PaletteShadeSet.All;
 }
 
 function isStaircaseLikeMode(mode: BuildMode): boolean {
@@ -203,20 +262,6 @@ const BASE_SUPPRESS_OPTIONS: ModeOption[] = [
   { value: BuildMode.Suppress2LayerLatePairs, label: messages.buildMode.optionLabel(BuildMode.Suppress2LayerLatePairs) },
 ];
 
-function hashString32(input: string): number {
-  let h = 2166136261 >>> 0;
-  for (let i = 0; i < input.length; ++i) {
-    h ^= input.charCodeAt(i);
-    h = Math.imul(h, 16777619) >>> 0;
-  }
-  return h >>> 0;
-}
-
-function getPaletteSeedOffset(blockMapping: Record<number, string>): number {
-  const serialized = Array.from({ length: BASE_COLORS.length - 1 }, (_, i) => `${i + 1}:${blockMapping[i + 1] ?? ""}`).join("|");
-  return hashString32(serialized);
-}
-
 function formatStacks(count: number): string {
   if (count < 64) return String(count);
   const sb = Math.floor(count / (64 * 27));
@@ -230,7 +275,7 @@ function encodePreset(
   preset: Preset, supportFillerBlock: string, shadeFillerBlock: string, supportMode: SupportMode,
   buildMode: BuildMode, customColors: CustomColor[], convertUnsupported: boolean,
   suppress2LayerLateFillerBlock: string, proPaletteSeed: boolean, mixSteps: boolean,
-  dominateVoidFillerBlock: string, recessiveVoidFillerBlock: string,
+  dominateVoidFillerBlock: string, recessiveVoidFillerBlock: string, colorMetric: ColorMetric,
 ): string {
   const parts = Array.from({ length: BASE_COLORS.length - 1 }, (_, i) => {
     const block = canonicalizeBlockEntry(preset.blocks[i + 1] || "");
@@ -252,6 +297,7 @@ function encodePreset(
     canonicalizeBlockEntry(dominateVoidFillerBlock),
     canonicalizeBlockEntry(recessiveVoidFillerBlock),
     mixSteps ? "1" : "0",
+    colorMetric,
   ].join("|");
   return btoa(s).replace(/=+$/, "").replace(/\+/g, "-").replace(/\//g, "_");
 }
@@ -260,7 +306,7 @@ function decodePreset(encoded: string): {
   preset: Preset; supportFiller?: string; shadeFiller?: string; supportMode?: SupportMode;
   buildMode?: BuildMode; customColors?: CustomColor[]; convertUnsupported?: boolean;
   suppress2LayerLateFillerBlock?: string; proPaletteSeed?: boolean; mixSteps?: boolean;
-  dominateVoidFillerBlock?: string; recessiveVoidFillerBlock?: string;
+  dominateVoidFillerBlock?: string; recessiveVoidFillerBlock?: string; colorMetric?: ColorMetric;
 } | null {
   try {
     let s = encoded.replace(/-/g, "+").replace(/_/g, "/");
@@ -297,13 +343,14 @@ function decodePreset(encoded: string): {
     const dominateVoidFillerBlock = sections[10] || undefined;
     const recessiveVoidFillerBlock = sections[11] || undefined;
     const mixSteps = sections[12] === "1" ? true : sections[12] === "0" ? false : undefined;
+    const colorMetric = sections[13] ? normalizeStoredColorMetric(sections[13]) : undefined;
 
     return {
       preset: { name: sections[0], blocks },
       supportFiller: sections[2] ? canonicalizeBlockEntry(sections[2]) : undefined,
       shadeFiller: sections[3] ? canonicalizeBlockEntry(sections[3]) : undefined,
       supportMode, buildMode: sections[5] ? normalizeStoredBuildMode(sections[5]) : undefined,
-      customColors, convertUnsupported, proPaletteSeed, mixSteps,
+      customColors, convertUnsupported, proPaletteSeed, mixSteps, colorMetric,
       suppress2LayerLateFillerBlock: suppress2LayerLateFillerBlock ? canonicalizeBlockEntry(suppress2LayerLateFillerBlock) : undefined,
       dominateVoidFillerBlock: dominateVoidFillerBlock ? canonicalizeBlockEntry(dominateVoidFillerBlock) : undefined,
       recessiveVoidFillerBlock: recessiveVoidFillerBlock ? canonicalizeBlockEntry(recessiveVoidFillerBlock) : undefined,
@@ -342,6 +389,17 @@ const LS_KEYS = {
   showVsFillerWarnings: "mapart_secret_showVsFillerWarnings",
   showAlignmentReminder: "mapart_secret_showAlignmentReminder",
   showNooblineWarnings: "mapart_secret_showNooblineWarnings",
+  exportFormat: "mapart_exportFormat",
+  ditherMethod: "mapart_ditherMethod",
+  colorMetric: "mapart_colorMetric",
+  paletteShadeSet: "mapart_paletteShadeSet",
+  imageFit: "mapart_imageFit",
+  includeMapDat: "mapart_includeMapDat",
+  mapDat: "mapart_mapDat",
+  targetVersion: "mapart_targetVersion",
+  regionPlacement: "mapart_regionPlacement",
+  structureBlockTiles: "mapart_structureBlockTiles",
+  maxCommandChainLength: "mapart_maxCommandChainLength",
 } as const;
 
 const getStoredTheme = (): "light" | "dark" | null => {
@@ -377,23 +435,68 @@ const Index = () => {
     return 0;
   });
   const [supportFillerBlock, setSupportFillerBlock] = useState(() =>
-    canonicalizeBlockEntry(loadCached(LS_KEYS.supportFiller, loadCached("mapart_filler", "resin_block"))),
+    canonicalizeBlockEntry(loadCached(LS_KEYS.supportFiller, loadCached("mapart_filler", DEFAULT_FILLER_BLOCKS.support))),
   );
   const [shadeFillerBlock, setShadeFillerBlock] = useState(() =>
-    canonicalizeBlockEntry(loadCached(LS_KEYS.shadeFiller, loadCached("mapart_filler", "resin_block"))),
+    canonicalizeBlockEntry(loadCached(LS_KEYS.shadeFiller, loadCached("mapart_filler", DEFAULT_FILLER_BLOCKS.shade))),
   );
   const [suppress2LayerLateFillerBlock, setSuppress2LayerLateFillerBlock] = useState(() =>
-    canonicalizeBlockEntry(loadCached(LS_KEYS.suppress2LayerLateFiller, "slime_block")),
+    canonicalizeBlockEntry(loadCached(LS_KEYS.suppress2LayerLateFiller, DEFAULT_FILLER_BLOCKS.suppress2LayerLate)),
   );
   const [dominateVoidFillerBlock, setDominateVoidFillerBlock] = useState(() =>
-    canonicalizeBlockEntry(loadCached(LS_KEYS.dominateVoidFiller, "slime_block")),
+    canonicalizeBlockEntry(loadCached(LS_KEYS.dominateVoidFiller, DEFAULT_FILLER_BLOCKS.dominateVoid)),
   );
   const [recessiveVoidFillerBlock, setRecessiveVoidFillerBlock] = useState(() =>
-    canonicalizeBlockEntry(loadCached(LS_KEYS.recessiveVoidFiller, "honey_block")),
+    canonicalizeBlockEntry(loadCached(LS_KEYS.recessiveVoidFiller, DEFAULT_FILLER_BLOCKS.recessiveVoid)),
   );
   const [buildMode, setBuildMode] = useState<BuildMode>(() =>
     normalizeStoredBuildMode(loadCached(LS_KEYS.buildMode, BuildMode.StaircaseClassic)),
   );
+  const [exportFormat, setExportFormat] = useState<ExportFormat>(() =>
+    normalizeStoredExportFormat(loadCached(LS_KEYS.exportFormat, ExportFormat.Structure)),
+  );
+  const [ditherMethod, setDitherMethod] = useState<DitherMethod>(() =>
+    normalizeStoredDitherMethod(loadCached(LS_KEYS.ditherMethod, DitherMethod.None)),
+  );
+  const calcDitherMethod = useDeferredValue(ditherMethod);
+  const [colorMetric, setColorMetric] = useState<ColorMetric>(() =>
+    normalizeStoredColorMetric(loadCached(LS_KEYS.colorMetric, ColorMetric.Rgb)),
+  );
+  const calcColorMetric = useDeferredValue(colorMetric);
+  const [paletteShadeSet, setPaletteShadeSet] = useState<PaletteShadeSet>(() =>
+    normalizeStoredPaletteShadeSet(loadCached(LS_KEYS.paletteShadeSet, PaletteShadeSet.All)),
+  );
+  const calcPaletteShadeSet = useDeferredValue(paletteShadeSet);
+  const [imageFit, setImageFit] = useState<ImageFitOptions>(() =>
+    normalizeImageFitOptions(loadCached(LS_KEYS.imageFit, DEFAULT_IMAGE_FIT)),
+  );
+  const calcImageFit = useDeferredValue(imageFit);
+  const updateImageFit = useCallback((patch: Partial<ImageFitOptions>) => setImageFit(prev => ({ ...prev, ...patch })), []);
+  const updateImageCrop = useCallback(
+    (edge: keyof ImageFitOptions["crop"], value: string) =>
+      setImageFit(prev => ({ ...prev, crop: { ...prev.crop, [edge]: Math.max(0, parseInt(value) || 0) } })),
+    [],
+  );
+  const [targetVersion, setTargetVersion] = useState<MinecraftVersion>(() =>
+    normalizeStoredTargetVersion(loadCached(LS_KEYS.targetVersion, MinecraftVersion.Latest)),
+  );
+  const calcTargetVersion = useDeferredValue(targetVersion);
+  const [structureBlockTiles, setStructureBlockTiles] = useState(() => loadCached(LS_KEYS.structureBlockTiles, false));
+  const [maxCommandChainLength, setMaxCommandChainLength] = useState(() =>
+    normalizeStoredCommandChainLength(loadCached(LS_KEYS.maxCommandChainLength, DEFAULT_MAX_COMMAND_CHAIN_LENGTH)),
+  );
+  const [includeMapDat, setIncludeMapDat] = useState(() => loadCached(LS_KEYS.includeMapDat, false));
+  const [mapDat, setMapDat] = useState<MapDatOptions>(() =>
+    normalizeStoredMapDat(loadCached(LS_KEYS.mapDat, DEFAULT_MAP_DAT)),
+  );
+  const updateMapDat = useCallback((patch: Partial<MapDatOptions>) => setMapDat(prev => ({ ...prev, ...patch })), []);
+  const [regionPlacement, setRegionPlacement] = useState<RegionPlacement>(() =>
+    normalizeStoredRegionPlacement(loadCached(LS_KEYS.regionPlacement, DEFAULT_REGION_PLACEMENT)),
+  );
+  const updateRegionPlacement = useCallback(
+    (patch: Partial<RegionPlacement>) => setRegionPlacement(prev => ({ ...prev, ...patch })),
+    [],
+  );
   const [proPaletteSeed, setProPaletteSeed] = useState(() => loadCached(LS_KEYS.paletteSeed, false));
   const calcProPaletteSeed = useDeferredValue(proPaletteSeed);
   const [layerGap, setLayerGap] = useState(() => loadCached(LS_KEYS.layerGap, 5));
@@ -413,11 +516,38 @@ const Index = () => {
   const [customColors, setCustomColors] = useState<CustomColor[]>([]);
   const [customMode, setCustomMode] = useState<"custom" | number>("custom");
   const [newCustom, setNewCustom] = useState({ r: "", g: "", b: "", block: "" });
+  // The decoded source image; palette conversion and dithering run in parsedImage so previews follow the options.
   const [imageData, setImageData] = useState<ImageData | null>(null);
+  // Every decoded frame of an animated or multi-page file; empty for still images. Frame 0 is imageData.
+  const [animationFrames, setAnimationFrames] = useState<ImageData[]>([]);
+  // Raw colors of an imported map_<id>.dat; when set they replace imageData as the conversion source.
+  const [mapDatColors, setMapDatColors] = useState<Uint8Array | null>(null);
+  // An imported structure .nbt; its color grid was read from the blocks and no longer depends on the preset.
+  const [structureImport, setStructureImport] = useState<StructureImport | null>(null);
+  const [structureBuildModePending, setStructureBuildModePending] = useState(false);
+  // The file the image came from, kept for saving a project.
+  const [sourceFile, setSourceFile] = useState<File | null>(null);
+  // A loaded project's source waits for its settings to take effect, and its mode and range for the shapes.
+  const [projectSourcePending, setProjectSourcePending] = useState<{ file: File; buildMode: BuildMode; range: ProjectRange | null } | null>(null);
+  const [projectModePending, setProjectModePending] = useState<{ buildMode: BuildMode; range: ProjectRange | null } | null>(null);
   const [imageName, setImageName] = useState("");
   const [imageValid, setImageValid] = useState(false);
   const [paletteNotices, setPaletteNotices] = useState<PaletteNotice[]>([]);
   const [converting, setConverting] = useState(false);
+  // Shape generation, material analysis and export run in a worker; created on first use, ended on unmount.
+  const shapeWorkerRef = useRef<ShapeWorkerClient | null>(null);
+  const getShapeWorker = useCallback(() => (shapeWorkerRef.current ??= new ShapeWorkerClient()), []);
+  useEffect(
+    () => () => {
+      shapeWorkerRef.current?.terminate();
+      shapeWorkerRef.current = null;
+    },
+    [],
+  );
+  const reportWorkerError = useCallback(
+    (e: unknown) => setPaletteNotices([messages.parsing.errorNotice((e as Error).message || messages.parsing.conversionFailed)]),
+    [],
+  );
   const [showNames, setShowNames] = useState(() => loadCached(LS_KEYS.showNames, false));
   const [showIds, setShowIds] = useState(() => loadCached(LS_KEYS.showIds, false));
   const [showOptions, setShowOptions] = useState(() => loadCached(LS_KEYS.showOptions, false));
@@ -440,11 +570,6 @@ const Index = () => {
   const [showAlignmentReminder, setShowAlignmentReminder] = useState(() => loadCached(LS_KEYS.showAlignmentReminder, true));
   const [showNooblineWarnings, setShowNooblineWarnings] = useState(() => loadCached(LS_KEYS.showNooblineWarnings, false));
   const [showSecretsDialog, setShowSecretsDialog] = useState(false);
-  const parsedImage = useMemo(
-    () => imageData ? convertImageToColorGrid(imageData, customColors, convertUnsupported) : null,
-    [imageData, customColors, convertUnsupported],
-  );
-  const imageColorGrid = parsedImage?.colorGrid ?? null;
   const dragColRef = useRef<ColumnId | null>(null);
   const [swatchTooltip, setSwatchTooltip] = useState<{ text: string; x: number; y: number } | null>(null);
   const swatchTooltipRafRef = useRef<number | null>(null);
@@ -493,6 +618,38 @@ const Index = () => {
   );
 
   const preset = presets[activeIdx] || getBuiltinPreset("PistonClear")!;
+  // Assignments the target version cannot place leave the palette, so the image avoids their colors.
+  const availableBlocks = useMemo(
+    () => getAvailableBlockMapping(preset.blocks, calcTargetVersion),
+    [preset.blocks, calcTargetVersion],
+  );
+  const paletteMask = useMemo(
+    () => buildPaletteMask(availableBlocks, getPaletteShadeSetShades(calcPaletteShadeSet)),
+    [availableBlocks, calcPaletteShadeSet],
+  );
+  const conversionOptions = useMemo<ColorConversionOptions>(
+    () => ({
+      dither: calcDitherMethod,
+      metric: calcColorMetric,
+      paletteMask,
+      flatOnly: calcPaletteShadeSet === PaletteShadeSet.FlatOnly,
+      fit: calcImageFit,
+    }),
+    [calcDitherMethod, calcColorMetric, paletteMask, calcPaletteShadeSet, calcImageFit],
+  );
+  const parsedImage = useMemo(
+    () => structureImport
+      ? structureImport
+      : mapDatColors
+        ? convertMapColorsToColorGrid(mapDatColors, convertUnsupported)
+        : imageData
+          ? convertImageToColorGrid(imageData, customColors, convertUnsupported, conversionOptions)
+          : null,
+    [structureImport, mapDatColors, imageData, customColors, convertUnsupported, conversionOptions],
+  );
+  const previewImageData = parsedImage?.imageData ?? imageData;
+  const imageTiles = parsedImage?.tiles ?? null;
+  const isMapWall = (imageTiles?.length ?? 0) > 1;
   const activePresetBuiltinTooltip = useMemo(
     () => (activeIdx < BUILTIN_PRESET_NAMES.length ? messages.presets.builtinTooltip(preset.name) : undefined),
     [activeIdx, preset.name],
@@ -572,6 +729,17 @@ const Index = () => {
       [LS_KEYS.showVsFillerWarnings]: showVsFillerWarnings,
       [LS_KEYS.showAlignmentReminder]: showAlignmentReminder,
       [LS_KEYS.showNooblineWarnings]: showNooblineWarnings,
+      [LS_KEYS.exportFormat]: exportFormat,
+      [LS_KEYS.ditherMethod]: ditherMethod,
+      [LS_KEYS.colorMetric]: colorMetric,
+      [LS_KEYS.paletteShadeSet]: paletteShadeSet,
+      [LS_KEYS.imageFit]: imageFit,
+      [LS_KEYS.includeMapDat]: includeMapDat,
+      [LS_KEYS.mapDat]: mapDat,
+      [LS_KEYS.targetVersion]: targetVersion,
+      [LS_KEYS.regionPlacement]: regionPlacement,
+      [LS_KEYS.structureBlockTiles]: structureBlockTiles,
+      [LS_KEYS.maxCommandChainLength]: maxCommandChainLength,
     }),
     [
       supportFillerBlock,
@@ -601,6 +769,17 @@ const Index = () => {
       showVsFillerWarnings,
       showAlignmentReminder,
       showNooblineWarnings,
+      exportFormat,
+      ditherMethod,
+      colorMetric,
+      paletteShadeSet,
+      imageFit,
+      includeMapDat,
+      mapDat,
+      targetVersion,
+      regionPlacement,
+      structureBlockTiles,
+      maxCommandChainLength,
     ],
   );
   const persistedSettingsRef = useRef<Record<string, unknown>>({});
@@ -619,8 +798,8 @@ const Index = () => {
     [showPaletteSeedToggle, calcProPaletteSeed, preset.blocks],
   );
   const imageStats = useMemo(
-    () => (imageColorGrid && imageValid ? computeColorGridStats(imageColorGrid) : null),
-    [imageColorGrid, imageValid],
+    () => (imageTiles && imageValid ? computeWallColorGridStats(imageTiles.map(tile => tile.colorGrid)) : null),
+    [imageTiles, imageValid],
   );
   const selectedWaterBlock = preset.blocks[WATER_BASE_INDEX] || BASE_COLORS[WATER_BASE_INDEX].blocks[0] || "";
   const usesWaterForWater = normalizeBlockId(selectedWaterBlock) === "water";
@@ -638,28 +817,58 @@ const Index = () => {
     () => buildModeSupportsMixSteps && !!imageStats?.hasStepMixOpportunity,
     [buildModeSupportsMixSteps, imageStats],
   );
-  const shapeMap = useMemo(
-    () => imageColorGrid && imageValid
-      ? generateShapeMap(imageColorGrid, {
-          layerGap: calcLayerGap,
-          mixSteps: showMixStepsToggle && calcMixSteps,
-          paletteSeed: paletteSeedOffset,
-          waterFillerOffset,
-        }, imageStats ? {
-          hasWater: imageStats.hasWater,
-          hasTransparency: imageStats.hasTransparency,
-          uniformNonFlatDirection: imageStats.uniformNonFlatDirection,
-          hasTwoLayerLateVoidNeed: imageStats.voidShadowStats.dominant > 0,
-        } : undefined)
-      : null,
-    [imageColorGrid, imageValid, calcLayerGap, showMixStepsToggle, calcMixSteps, paletteSeedOffset, waterFillerOffset, imageStats],
+  const shapeOptions = useMemo(
+    () => ({
+      layerGap: calcLayerGap,
+      mixSteps: showMixStepsToggle && calcMixSteps,
+      paletteSeed: paletteSeedOffset,
+      waterFillerOffset,
+    }),
+    [calcLayerGap, showMixStepsToggle, calcMixSteps, paletteSeedOffset, waterFillerOffset],
+  );
+  // Shapes come from the worker. While a new set is computed, the previous set of the same image stays on screen
+  // and downloads wait; a new image has no shapes until its first set arrives.
+  const [shapeResult, setShapeResult] = useState<{
+    tiles: ColorGridTile[];
+    options: typeof shapeOptions;
+    // Null when the worker failed on these tiles.
+    shapes: ShapeSet | null;
+  } | null>(null);
+  useEffect(() => {
+    if (!imageTiles || !imageValid) return;
+    let active = true;
+    getShapeWorker()
+      .generateShapes(imageTiles, shapeOptions, imageStats ? {
+        hasWater: imageStats.hasWater,
+        hasTransparency: imageStats.hasTransparency,
+        uniformNonFlatDirection: imageStats.uniformNonFlatDirection,
+        hasTwoLayerLateVoidNeed: imageStats.voidShadowStats.dominant > 0,
+      } : undefined)
+      .then(shapes => {
+        if (active && shapes) setShapeResult({ tiles: imageTiles, options: shapeOptions, shapes });
+      })
+      .catch((e: unknown) => {
+        if (active) setShapeResult({ tiles: imageTiles, options: shapeOptions, shapes: null });
+        reportWorkerError(e);
+      });
+    return () => {
+      active = false;
+    };
+  }, [getShapeWorker, reportWorkerError, imageTiles, imageValid, shapeOptions, imageStats]);
+  const shapeSet = imageValid && shapeResult?.tiles === imageTiles ? shapeResult.shapes : null;
+  const shapesPending = !!imageTiles && imageValid && (shapeResult?.tiles !== imageTiles || shapeResult.options !== shapeOptions);
+  // A wall offers every mode that is distinct on at least one tile; the first tile stands in for the mode lists.
+  const shapeModes = useMemo(() => new Set(shapeSet?.modes ?? []), [shapeSet]);
+  const getTileShapes = useCallback(
+    (mode: BuildMode): GeneratedShape[] | null => shapeSet?.getTileShapes(mode) ?? null,
+    [shapeSet],
   );
   const hasNonFlatShades = imageStats?.hasNonFlatShades ?? false;
   const hasSuppressPattern = imageStats?.hasSuppressPattern ?? false;
-  const northlineShape = shapeMap?.[BuildMode.StaircaseNorthline] ?? null;
+  const northlineShapes = useMemo(() => getTileShapes(BuildMode.StaircaseNorthline), [getTileShapes]);
   const isFlatShape = useMemo(
-    () => !!northlineShape && !generatedShapeHasColorHeightVariance(northlineShape),
-    [northlineShape],
+    () => !!northlineShapes && !northlineShapes.some(shape => generatedShapeHasColorHeightVariance(shape)),
+    [northlineShapes],
   );
   const fullImageUsedShadesByBase = imageStats?.usedShadesByBase ?? new Map<number, Set<number>>();
   const usedBaseColors = imageStats?.usedBaseColors ?? new Set<number>();
@@ -722,8 +931,9 @@ const Index = () => {
 
   const missingBlocks = useMemo(() => {
     if (!imageValid || usedBaseColors.size === 0) return [];
-    return [...usedBaseColors].filter(idx => idx > 0 && !preset.blocks[idx]);
-  }, [imageValid, usedBaseColors, preset.blocks]);
+    return [...usedBaseColors].filter(idx => idx > 0 && !availableBlocks[idx]);
+  }, [imageValid, usedBaseColors, availableBlocks]);
+  const versionMissingBlockCount = missingBlocks.filter(idx => !!preset.blocks[idx]).length;
 
   const imageInfo = imageStats?.imageInfo ?? null;
 
@@ -731,31 +941,31 @@ const Index = () => {
   const isStepRangeMode = effectiveBuildMode === BuildMode.SuppressPairsEW || effectiveBuildMode === BuildMode.SuppressCheckerEW;
   const maxRangeIndex = useMemo(() => getBuildModeRangeMax(effectiveBuildMode), [effectiveBuildMode]);
   const minLayerGap = supportMode === SupportMode.Fragile || supportMode === SupportMode.All ? 3 : 2;
-  const supportShape = useMemo(
+  const tileSupportShapes = useMemo(
     () => effectiveBuildMode === BuildMode.Flat
-      ? northlineShape
-      : (shapeMap?.[effectiveBuildMode] ?? null),
-    [shapeMap, effectiveBuildMode, northlineShape],
+      ? northlineShapes
+      : getTileShapes(effectiveBuildMode),
+    [getTileShapes, effectiveBuildMode, northlineShapes],
   );
   const candidateVisibleInPart = useCallback(
-    (part: NonNullable<typeof supportShape>["parts"][number], candidate: { x: number; y: number; z: number }) =>
+    (part: GeneratedShape["parts"][number], candidate: { x: number; y: number; z: number }) =>
       isWithinShapeBounds(candidate, part.bounds, assumeFloor),
     [assumeFloor],
   );
-  const enableStepsSupportOption = !imageData || !!supportShape?.parts.some(part =>
+  const enableStepsSupportOption = !imageData || !!tileSupportShapes?.some(shape => shape.parts.some(part =>
       [...part.cells.entries()].some(([coord, cell]) => {
       if (!isShapeFillerCell(cell) || !cell.includes(FillerRole.StairStep)) return false;
       const [x, y, z] = parseShapeCoordKey(coord);
       return candidateVisibleInPart(part, { x, y, z });
     }),
-  );
+  ));
   const enableFragileSupportOption = useMemo(() => {
     const hasFragileMappedBlock = (block: string) => !!block && isFragileBlock(normalizeBlockId(block));
     if (!imageData) {
       return Object.values(preset.blocks).some(hasFragileMappedBlock) || customColors.some(color => hasFragileMappedBlock(color.block));
     }
-    if (!supportShape) return false;
-    return supportShape.parts.some(part =>
+    if (!tileSupportShapes) return false;
+    return tileSupportShapes.some(shape => shape.parts.some(part =>
       [...part.cells.entries()].some(([coord, cell]) => {
         if (!isShapeFillerCell(cell)) return false;
         const [x, y, z] = parseShapeCoordKey(coord);
@@ -768,30 +978,36 @@ const Index = () => {
           : (preset.blocks[color.id] || BASE_COLORS[color.id].blocks[0] || "");
         return hasFragileMappedBlock(mapped);
       }),
-    );
-  }, [imageData, supportShape, preset.blocks, customColors, candidateVisibleInPart]);
+    ));
+  }, [imageData, tileSupportShapes, preset.blocks, customColors, candidateVisibleInPart]);
   const staircaseModeOptions = useMemo((): ModeOption[] => {
-    if (!shapeMap || !imageValid || isFlatShape) {
+    if (!shapeSet || !imageValid || isFlatShape) {
       return DEFAULT_STAIRCASE_OPTIONS;
     }
-    return DEFAULT_STAIRCASE_OPTIONS.filter(option => option.value !== BuildMode.Flat && !!shapeMap[option.value]);
-  }, [shapeMap, imageValid, isFlatShape]);
+    return DEFAULT_STAIRCASE_OPTIONS.filter(option => option.value !== BuildMode.Flat && shapeModes.has(option.value));
+  }, [shapeSet, shapeModes, imageValid, isFlatShape]);
 
-  const twoLayerHasLateVoidNeed = !!shapeMap?.[BuildMode.Suppress2LayerLatePairs];
+  const twoLayerHasLateVoidNeed = shapeModes.has(BuildMode.Suppress2LayerLatePairs);
 
   const suppressModeOptions = useMemo((): ModeOption[] => {
     const suppressModes = BASE_SUPPRESS_OPTIONS
       .map(option => option.value)
-      .filter(mode => !!shapeMap?.[mode]);
+      .filter(mode => shapeModes.has(mode));
     return suppressModes.map(mode => {
       return BASE_SUPPRESS_OPTIONS.find(option => option.value === mode) || { value: mode, label: mode };
     });
-  }, [shapeMap]);
+  }, [shapeModes]);
 
   const shadingMethodTooltip = useMemo(() => messages.buildMode.tooltip(buildMode), [buildMode]);
   const supportModeTooltip = useMemo(() => messages.supportMode.tooltip(supportMode), [supportMode]);
 
-  const effectiveShape = supportShape;
+  // Southern wall tiles shade against the real blocks of the tile above instead of their own north row.
+  const effectiveTileShapes = useMemo(
+    () => imageTiles && tileSupportShapes && isMapWall && isStaircaseBuildMode(effectiveBuildMode)
+      ? alignWallSeams(imageTiles, tileSupportShapes)
+      : tileSupportShapes,
+    [imageTiles, tileSupportShapes, isMapWall, effectiveBuildMode],
+  );
   const buildMaterialAnalysisOptions = useCallback(
     (fillerAssignments: FillerAssignment[]) => ({
       blockMapping: preset.blocks,
@@ -803,51 +1019,30 @@ const Index = () => {
     [preset.blocks, assumeFloor, customColors, colRangeEnabled, isStepRangeMode, colStart, colEnd],
   );
 
-  const materialNeedStats = useMemo(() => {
-    if (!effectiveShape || !imageValid) return null;
-    return analyzeMaterialNeeds(imageColorGrid, effectiveShape, buildMaterialAnalysisOptions(uiFillerAssignments));
-  }, [effectiveShape, imageValid, imageColorGrid, buildMaterialAnalysisOptions, uiFillerAssignments]);
-  const supportModeRoleCounts = useMemo(() => {
-    if (!effectiveShape || !imageValid) return null;
-
-    const analyzeMode = (mode: SupportMode) => {
+  // The support mode options are judged by analyzing the shapes with each mode's fillers. The current mode reuses
+  // the UI assignments unless its water sides need a substitute filler.
+  const supportModeFillerAssignments = useMemo(() => {
+    const getAssignments = (mode: SupportMode) => {
       const modeUsesDirectWaterSides =
         usesWaterForWater &&
         (mode === SupportMode.All || mode === SupportMode.Water);
-      const waterAvailabilitySupportFiller =
-        modeUsesDirectWaterSides && !supportWaterSidesFillerValid
-          ? (BASE_COLORS[0].blocks[0] || supportFillerBlock)
-          : supportFillerBlock;
-      const shouldReuseCurrentStats =
-        mode === supportMode &&
-        materialNeedStats &&
-        !(modeUsesDirectWaterSides && !supportWaterSidesFillerValid);
-      if (shouldReuseCurrentStats) return materialNeedStats.fillerRoleCounts;
-      return analyzeMaterialNeeds(imageColorGrid, effectiveShape, buildMaterialAnalysisOptions(
-        createFillerAssignments(
-          waterAvailabilitySupportFiller,
-          shadeFillerBlock,
-          dominateVoidFillerBlock,
-          recessiveVoidFillerBlock,
-          suppress2LayerLateFillerBlock,
-          mode,
-          usesWaterForWater,
-          usesIceForWater,
-        ),
-      )).fillerRoleCounts;
-    };
-
-    return {
-      [SupportMode.All]: analyzeMode(SupportMode.All),
-      [SupportMode.Water]: analyzeMode(SupportMode.Water),
+      const needsSubstituteFiller = modeUsesDirectWaterSides && !supportWaterSidesFillerValid;
+      if (mode === supportMode && !needsSubstituteFiller) return uiFillerAssignments;
+      return createFillerAssignments(
+        needsSubstituteFiller ? (BASE_COLORS[0].blocks[0] || supportFillerBlock) : supportFillerBlock,
+        shadeFillerBlock,
+        dominateVoidFillerBlock,
+        recessiveVoidFillerBlock,
+        suppress2LayerLateFillerBlock,
+        mode,
+        usesWaterForWater,
+        usesIceForWater,
+      );
     };
+    return { [SupportMode.All]: getAssignments(SupportMode.All), [SupportMode.Water]: getAssignments(SupportMode.Water) };
   }, [
-    effectiveShape,
-    imageValid,
-    imageColorGrid,
-    buildMaterialAnalysisOptions,
+    uiFillerAssignments,
     supportMode,
-    materialNeedStats,
     supportFillerBlock,
     shadeFillerBlock,
     dominateVoidFillerBlock,
@@ -857,6 +1052,55 @@ const Index = () => {
     usesIceForWater,
     supportWaterSidesFillerValid,
   ]);
+  // Like the shapes, the previous analysis of the same image stays on screen until the new one arrives.
+  const [materialResult, setMaterialResult] = useState<{
+    tiles: ColorGridTile[];
+    stats: Awaited<ReturnType<ShapeWorkerClient["analyze"]>>;
+    statIndex: { ui: number; [SupportMode.All]: number; [SupportMode.Water]: number };
+  } | null>(null);
+  useEffect(() => {
+    if (!imageTiles || !effectiveTileShapes || !imageValid) return;
+    let active = true;
+    const assignmentSets = [...new Set([
+      uiFillerAssignments,
+      supportModeFillerAssignments[SupportMode.All],
+      supportModeFillerAssignments[SupportMode.Water],
+    ])];
+    const statIndex = {
+      ui: 0,
+      [SupportMode.All]: assignmentSets.indexOf(supportModeFillerAssignments[SupportMode.All]),
+      [SupportMode.Water]: assignmentSets.indexOf(supportModeFillerAssignments[SupportMode.Water]),
+    };
+    getShapeWorker()
+      .analyze(imageTiles, effectiveTileShapes, assignmentSets.map(buildMaterialAnalysisOptions))
+      .then(stats => {
+        if (active && stats) setMaterialResult({ tiles: imageTiles, stats, statIndex });
+      })
+      .catch(reportWorkerError);
+    return () => {
+      active = false;
+    };
+  }, [
+    getShapeWorker,
+    reportWorkerError,
+    imageTiles,
+    effectiveTileShapes,
+    imageValid,
+    buildMaterialAnalysisOptions,
+    uiFillerAssignments,
+    supportModeFillerAssignments,
+  ]);
+  const currentMaterialResult =
+    imageValid && effectiveTileShapes && materialResult?.tiles === imageTiles ? materialResult : null;
+  const materialNeedStats = currentMaterialResult?.stats[currentMaterialResult.statIndex.ui] ?? null;
+  const supportModeRoleCounts = useMemo(() => {
+    if (!currentMaterialResult) return null;
+    const { stats, statIndex } = currentMaterialResult;
+    return {
+      [SupportMode.All]: stats[statIndex[SupportMode.All]].fillerRoleCounts,
+      [SupportMode.Water]: stats[statIndex[SupportMode.Water]].fillerRoleCounts,
+    };
+  }, [currentMaterialResult]);
   const getSupportModeRoleCount = useCallback(
     (mode: SupportMode, ...roles: FillerRole[]) =>
       roles.reduce((sum, role) => sum + (supportModeRoleCounts?.[mode]?.get(role) ?? 0), 0),
@@ -915,22 +1159,27 @@ const Index = () => {
     if (clampedEnd !== colEnd) setColEnd(clampedEnd);
   }, [colStart, colEnd, maxRangeIndex]);
 
-  useEffect(() => {
-    const encoded = new URLSearchParams(window.location.search).get("preset");
-    if (!encoded) return;
-    const decoded = decodePreset(encoded);
-    if (!decoded) return;
+  // Shared presets replace the saved preset of the same name.
+  const selectImportedPreset = useCallback((imported: Preset) => {
     setPresets(prev => {
-      const exists = prev.findIndex(p => p.name === decoded.preset.name);
+      const exists = prev.findIndex(p => p.name === imported.name);
       if (exists >= 0) {
         const n = [...prev];
-        n[exists] = decoded.preset;
+        n[exists] = imported;
         setActiveIdx(exists);
         return n;
       }
       setActiveIdx(prev.length);
-      return [...prev, decoded.preset];
+      return [...prev, imported];
     });
+  }, []);
+
+  useEffect(() => {
+    const encoded = new URLSearchParams(window.location.search).get("preset");
+    if (!encoded) return;
+    const decoded = decodePreset(encoded);
+    if (!decoded) return;
+    selectImportedPreset(decoded.preset);
     if (decoded.supportFiller) setSupportFillerBlock(decoded.supportFiller);
     if (decoded.shadeFiller) setShadeFillerBlock(decoded.shadeFiller);
     if (decoded.supportMode !== undefined) setSupportMode(decoded.supportMode);
@@ -943,8 +1192,9 @@ const Index = () => {
     if (decoded.mixSteps !== undefined) setMixSteps(decoded.mixSteps);
     if (decoded.dominateVoidFillerBlock) setDominateVoidFillerBlock(decoded.dominateVoidFillerBlock);
     if (decoded.recessiveVoidFillerBlock) setRecessiveVoidFillerBlock(decoded.recessiveVoidFillerBlock);
+    if (decoded.colorMetric) setColorMetric(decoded.colorMetric);
     // if (decoded.convertUnsupported !== undefined) setConvertUnsupported(decoded.convertUnsupported);
-  }, []);
+  }, [selectImportedPreset]);
 
   // Auto-select mode when image changes
   useEffect(() => {
@@ -955,8 +1205,9 @@ const Index = () => {
     else setBuildMode(prev => prev === BuildMode.Flat ? BuildMode.StaircaseClassic : prev);
   }, [imageData, isFlatShape, hasSuppressPattern, twoLayerHasLateVoidNeed]);
 
+  // Mode and support options are only known once the shapes (and their analysis) of the image have arrived.
   useEffect(() => {
-    if (!imageData || isFlatShape) return;
+    if (!imageData || !shapeSet || isFlatShape) return;
     const visible = new Set<BuildMode>([
       ...staircaseModeOptions.map(o => o.value),
       ...suppressModeOptions.map(o => o.value),
@@ -972,15 +1223,37 @@ const Index = () => {
         setBuildMode(staircaseModeOptions[0]?.value ?? BuildMode.StaircaseClassic);
       }
     }
-  }, [imageData, isFlatShape, buildMode, staircaseModeOptions, suppressModeOptions]);
+  }, [imageData, shapeSet, isFlatShape, buildMode, staircaseModeOptions, suppressModeOptions]);
 
+  // A re-imported structure keeps the mode it was built with when one of the offered modes reproduces it.
   useEffect(() => {
-    if (!imageData) return;
+    if (!structureBuildModePending || !structureImport || !shapeSet) return;
+    const firstTileShapes = Object.fromEntries(shapeSet.modes.map(mode => [mode, shapeSet.getTileShapes(mode)![0]]));
+    const mode = matchStructureBuildMode(structureImport.heights[0], firstTileShapes);
+    if (mode) setBuildMode(mode);
+    setStructureBuildModePending(false);
+  }, [structureBuildModePending, structureImport, shapeSet]);
+
+  // A loaded project keeps its saved mode and range over the ones picked for its image.
+  useEffect(() => {
+    if (!projectModePending || !shapeSet) return;
+    const { buildMode, range } = projectModePending;
+    setBuildMode(buildMode);
+    setColRangeEnabled(!!range);
+    if (range) {
+      setColStart(range.start);
+      setColEnd(range.end);
+    }
+    setProjectModePending(null);
+  }, [projectModePending, shapeSet]);
+
+  useEffect(() => {
+    if (!imageData || !supportModeRoleCounts) return;
     if (supportMode === SupportMode.All && !enableAllSupportOption) { setSupportMode(SupportMode.None); return; }
     if (supportMode === SupportMode.Fragile && (supportFillerIsFragile || !enableFragileSupportOption)) { setSupportMode(SupportMode.None); return; }
     if (supportMode === SupportMode.Steps && !enableStepsSupportOption) setSupportMode(SupportMode.None);
     if (supportMode === SupportMode.Water && !enableWaterSupportOption) setSupportMode(SupportMode.None);
-  }, [imageData, enableAllSupportOption, enableStepsSupportOption, enableFragileSupportOption, enableWaterSupportOption, supportMode, supportFillerIsFragile]);
+  }, [imageData, supportModeRoleCounts, enableAllSupportOption, enableStepsSupportOption, enableFragileSupportOption, enableWaterSupportOption, supportMode, supportFillerIsFragile]);
 
   useEffect(() => {
     if ((supportMode === SupportMode.Fragile || supportMode === SupportMode.All) && layerGap < 3) setLayerGap(3);
@@ -1125,6 +1398,7 @@ const Index = () => {
       mixSteps,
       dominateVoidFillerBlock,
       recessiveVoidFillerBlock,
+      colorMetric,
     )}`;
     navigator.clipboard.writeText(url);
     alert(messages.presets.copiedUrlAlert);
@@ -1132,6 +1406,10 @@ const Index = () => {
 
   const clearImage = () => {
     setImageData(null);
+    setAnimationFrames([]);
+    setMapDatColors(null);
+    setStructureImport(null);
+    setSourceFile(null);
     setImageName("");
     setImageValid(false);
     setPaletteNotices([]);
@@ -1139,6 +1417,73 @@ const Index = () => {
     if (fileRef.current) fileRef.current.value = "";
   };
 
+  const saveProject = async () => {
+    const project: MapArtProject = {
+      source: sourceFile && (await createProjectSource(sourceFile)),
+      preset,
+      customColors,
+      fillers: {
+        support: supportFillerBlock,
+        shade: shadeFillerBlock,
+        suppress2LayerLate: suppress2LayerLateFillerBlock,
+        dominateVoid: dominateVoidFillerBlock,
+        recessiveVoid: recessiveVoidFillerBlock,
+      },
+      supportMode,
+      buildMode,
+      layerGap,
+      mixSteps,
+      paletteSeed: proPaletteSeed,
+      range: colRangeEnabled ? { start: colStart, end: colEnd } : null,
+      ditherMethod,
+      colorMetric,
+      paletteShadeSet,
+      imageFit,
+      exportFormat,
+      targetVersion,
+      forceZ129,
+      assumeFloor,
+    };
+    const a = Object.assign(document.createElement("a"), {
+      href: URL.createObjectURL(new Blob([serializeProject(project)], { type: "application/json" })),
+      download: `${imageName.replace(/\.[^/.]+$/, "") || "map"}${PROJECT_FILE_EXTENSION}`,
+    });
+    a.click();
+  };
+
+  // Settings apply at once; the source is opened by the effect below once they have, so it is read with them.
+  const applyProject = useCallback((project: MapArtProject) => {
+    selectImportedPreset(project.preset);
+    setCustomColors(project.customColors);
+    setSupportFillerBlock(project.fillers.support);
+    setShadeFillerBlock(project.fillers.shade);
+    setSuppress2LayerLateFillerBlock(project.fillers.suppress2LayerLate);
+    setDominateVoidFillerBlock(project.fillers.dominateVoid);
+    setRecessiveVoidFillerBlock(project.fillers.recessiveVoid);
+    setSupportMode(project.supportMode);
+    setLayerGap(project.layerGap);
+    setMixSteps(project.mixSteps);
+    setProPaletteSeed(project.paletteSeed);
+    setDitherMethod(project.ditherMethod);
+    setColorMetric(project.colorMetric);
+    setPaletteShadeSet(project.paletteShadeSet);
+    setImageFit(project.imageFit);
+    setExportFormat(project.exportFormat);
+    setTargetVersion(project.targetVersion);
+    setForceZ129(project.forceZ129);
+    setAssumeFloor(project.assumeFloor);
+    if (project.source) {
+      setProjectSourcePending({ file: projectSourceToFile(project.source), buildMode: project.buildMode, range: project.range });
+      return;
+    }
+    setBuildMode(project.buildMode);
+    setColRangeEnabled(!!project.range);
+    if (project.range) {
+      setColStart(project.range.start);
+      setColEnd(project.range.end);
+    }
+  }, [selectImportedPreset]);
+
   const isLikelyLossyImageFile = useCallback((file: File) => {
     const type = file.type.toLowerCase();
     const name = file.name.toLowerCase();
@@ -1166,11 +1511,93 @@ const Index = () => {
     return "lossy";
   }, []);
 
+  // `onAccepted` runs in the same update that shows the file's image.
   const handleFile = useCallback(
-    (file: File) => {
+    (file: File, onAccepted?: () => void) => {
       setPaletteNotices([]);
-      convertFileToColorGrid(file, customColors, convertUnsupported)
-        .then(analysis => {
+      const rejectFile = (notices: PaletteNotice[]) => {
+        setImageData(null);
+        setAnimationFrames([]);
+        setMapDatColors(null);
+        setStructureImport(null);
+        setSourceFile(null);
+        setImageName("");
+        setImageValid(false);
+        setPaletteNotices(notices);
+        if (fileRef.current) fileRef.current.value = "";
+      };
+      const acceptFile = (source: ImageData, notices: PaletteNotice[]) => {
+        setImageData(source);
+        setSourceFile(file);
+        setImageName(file.name);
+        setImageValid(true);
+        setPaletteNotices(notices);
+        setShowUnusedColors(false);
+        if (sortKey === "default") {
+          setSortKey("required");
+          setSortDir("desc");
+        }
+        onAccepted?.();
+      };
+      const rejectError = (err: unknown) =>
+        rejectFile([messages.parsing.errorNotice((err as Error)?.message || messages.parsing.genericDecodeFailure)]);
+
+      if (isProjectFile(file)) {
+        file
+          .text()
+          .then(text => applyProject(parseProjectFile(text)))
+          .catch(rejectError);
+        return;
+      }
+
+      if (isMapDatFile(file)) {
+        loadMapColorsFromFile(file)
+          .then(colors => {
+            const analysis = convertMapColorsToColorGrid(colors, convertUnsupported);
+            if (analysis.hasBlockingIssue) {
+              rejectFile(analysis.paletteNotices);
+              return;
+            }
+            acceptFile(analysis.imageData, analysis.paletteNotices);
+            setAnimationFrames([]);
+            setMapDatColors(colors);
+            setStructureImport(null);
+          })
+          .catch(rejectError);
+        return;
+      }
+      if (isStructureFile(file)) {
+        loadStructureFromFile(file, { blockMapping: preset.blocks, customColors })
+          .then(structure => {
+            if (structure.hasBlockingIssue) {
+              rejectFile(structure.paletteNotices);
+              return;
+            }
+            acceptFile(structure.imageData, structure.paletteNotices);
+            setAnimationFrames([]);
+            setMapDatColors(null);
+            setStructureImport(structure);
+            setStructureBuildModePending(true);
+          })
+          .catch(rejectError);
+        return;
+      }
+      loadImageFramesFromFile(file)
+        .then(frames => {
+        const source = frames[0];
+        const fit = fitOffGridImage(source, imageFit);
+        if (fit !== imageFit) setImageFit(fit);
+        const frameOptions = {
+          dither: ditherMethod,
+          metric: colorMetric,
+          paletteMask: buildPaletteMask(
+            getAvailableBlockMapping(preset.blocks, targetVersion),
+            getPaletteShadeSetShades(paletteShadeSet),
+          ),
+          flatOnly: paletteShadeSet === PaletteShadeSet.FlatOnly,
+          fit,
+        };
+        const analysis = convertImageToColorGrid(source, customColors, convertUnsupported, frameOptions);
         const paletteNotices =
           isLikelyLossyImageFile(file) && analysis.paletteNotices.some(notice => notice.kind === PaletteNoticeKind.ConvertedPaletteColors)
             ? [
@@ -1179,34 +1606,41 @@ const Index = () => {
               ]
             : analysis.paletteNotices;
         if (analysis.hasBlockingIssue) {
-          setImageData(null);
-          setImageName("");
-          setImageValid(false);
-          setPaletteNotices(paletteNotices);
-          if (fileRef.current) fileRef.current.value = "";
+          rejectFile(paletteNotices);
           return;
         }
-        setImageData(analysis.imageData);
-        setImageName(file.name);
-        setImageValid(true);
-        setPaletteNotices(paletteNotices);
-        setShowUnusedColors(false);
-        if (sortKey === "default") {
-          setSortKey("required");
-          setSortDir("desc");
+        // Every frame is exported with the first one's settings, so a frame that would fail or cover other maps
+        // refuses the whole file now rather than the download later.
+        for (let i = 1; i < frames.length; ++i) {
+          const frameAnalysis = convertImageToColorGrid(frames[i], customColors, convertUnsupported, frameOptions);
+          if (frameAnalysis.hasBlockingIssue) {
+            rejectFile([messages.parsing.errorNotice(messages.parsing.frameRejected(i + 1)), ...frameAnalysis.paletteNotices]);
+            return;
+          }
+          if (frameAnalysis.tiles.length !== analysis.tiles.length) {
+            rejectFile([messages.parsing.errorNotice(
+              messages.parsing.frameMapCountMismatch(i + 1, frameAnalysis.tiles.length, analysis.tiles.length),
+            )]);
+            return;
+          }
         }
+        acceptFile(source, paletteNotices);
+        setAnimationFrames(frames.length > 1 ? frames : []);
+        setMapDatColors(null);
+        setStructureImport(null);
         })
-        .catch((err: unknown) => {
-          setImageData(null);
-          setImageName("");
-          setImageValid(false);
-          setPaletteNotices([messages.parsing.errorNotice((err as Error)?.message || messages.parsing.genericDecodeFailure)]);
-          if (fileRef.current) fileRef.current.value = "";
-        });
+        .catch(rejectError);
     },
-    [customColors, convertUnsupported, getLossyImageFormatLabel, isLikelyLossyImageFile, preset.blocks],
+    [customColors, convertUnsupported, ditherMethod, colorMetric, paletteShadeSet, imageFit, getLossyImageFormatLabel, isLikelyLossyImageFile, preset.blocks, targetVersion, applyProject],
   );
 
+  useEffect(() => {
+    if (!projectSourcePending) return;
+    const { file, buildMode, range } = projectSourcePending;
+    setProjectSourcePending(null);
+    handleFile(file, () => setProjectModePending({ buildMode, range }));
+  }, [projectSourcePending, handleFile]);
+
   useEffect(() => {
     const onPaste = (event: ClipboardEvent) => {
       const file = getClipboardImageFile(event.clipboardData);
@@ -1219,39 +1653,60 @@ const Index = () => {
     return () => window.removeEventListener("paste", onPaste);
   }, [handleFile]);
 
+  const isAnimated = animationFrames.length > 1;
+  const downloadExtension =
+    isMapWall || isAnimated || includeMapDat || exportFormat === ExportFormat.Region ||
+    (exportFormat === ExportFormat.Structure && structureBlockTiles) || (
+      exportFormat !== ExportFormat.Litematic &&
+      (buildMode === BuildMode.SuppressSplitRow || buildMode === BuildMode.SuppressSplitChecker)
+    )
+      ? "zip"
+      : getExportFormatExtension(exportFormat);
+
   const handleConvertAndDownload = async () => {
-    if (!effectiveShape) return;
+    if (!imageTiles || !effectiveTileShapes) return;
     setConverting(true);
     try {
       const baseName = imageName.replace(/\.[^/.]+$/, "");
-      const result = await convertToNbt(effectiveShape, {
+      const exportOptions = {
         blockMapping: preset.blocks,
         fillerAssignments: uiFillerAssignments,
         assumeFloor,
         forceZ129,
         customColors,
         baseName,
-      });
-      const suffixMap: Record<BuildMode, string> = {
-        [BuildMode.Flat]: "",
-        [BuildMode.InclineUp]: "-incline_up",
-        [BuildMode.InclineDown]: "-incline_down",
-        [BuildMode.StaircaseNorthline]: "-northline",
-        [BuildMode.StaircaseSouthline]: "-southline",
-        [BuildMode.StaircaseClassic]: "-classic",
-        [BuildMode.StaircaseValley]: "-valley",
-        [BuildMode.StaircaseGrouped]: "-grouped",
-        [BuildMode.StaircaseParty]: "-party",
-        [BuildMode.SuppressSplitRow]: "-split_row",
-        [BuildMode.SuppressSplitChecker]: "-split_checker",
-        [BuildMode.SuppressCheckerEW]: "-suppress_checker_EW",
-        [BuildMode.SuppressPairsEW]: "-suppress_pairs_EW",
-        [BuildMode.Suppress2Layer]: "-suppress_2layer",
-        [BuildMode.Suppress2LayerLateFillers]: "-suppress_2layer",
-        [BuildMode.Suppress2LayerLatePairs]: "-suppress_2layer",
+        format: exportFormat,
+        version: targetVersion,
+        mapDat: includeMapDat && exportFormat !== ExportFormat.Datapack ? mapDat : undefined,
+        region: regionPlacement,
+        structureBlockTiles,
+        maxCommandChainLength,
       };
-      const suffix = suffixMap[buildMode] ?? `-${buildMode}`;
-      const ext = result.isZip ? "zip" : "nbt";
+      // The worker converts and shapes the later frames of an animation and checks the build against the image.
+      const result = await getShapeWorker().export(
+        imageTiles,
+        effectiveTileShapes,
+        isAnimated ? animationFrames.slice(1) : [],
+        { customColors, convertUnsupported, options: conversionOptions },
+        effectiveBuildMode,
+        shapeOptions,
+        exportOptions,
+      );
+      if (!result) {
+        setConverting(false);
+        return;
+      }
+      setPaletteNotices(prev => [
+        ...prev.filter(notice =>
+          notice.kind !== PaletteNoticeKind.RenderMismatch &&
+          notice.kind !== PaletteNoticeKind.BedrockUnavailableBlocks &&
+          notice.kind !== PaletteNoticeKind.BedrockMapColorMismatch &&
+          notice.kind !== PaletteNoticeKind.VersionUnavailableBlocks
+        ),
+        ...result.paletteNotices,
+      ]);
+      const suffix = getBuildModeFileSuffix(buildMode);
+      const ext = result.fileExtension;
       const mime = result.isZip ? "application/zip" : "application/octet-stream";
       const a = Object.assign(document.createElement("a"), {
         href: URL.createObjectURL(new Blob([result.data.buffer as ArrayBuffer], { type: mime })),
@@ -1288,13 +1743,17 @@ const Index = () => {
     setIsDark(next === "dark");
   };
 
-  const fillerNeedStats = useMemo(
-    () => effectiveShape ? analyzeFillerNeeds(effectiveShape) : null,
-    [effectiveShape],
-  );
+  const fillerNeedStats = useMemo(() => {
+    if (!effectiveTileShapes) return null;
+    const roleCounts = new Map<FillerRole, number>();
+    for (const shape of effectiveTileShapes) {
+      for (const [role, count] of analyzeFillerNeeds(shape).roleCounts) roleCounts.set(role, (roleCounts.get(role) ?? 0) + count);
+    }
+    return { roleCounts };
+  }, [effectiveTileShapes]);
   const northRowSingleLine = useMemo(
-    () => effectiveShape ? generatedShapeNorthRowIsSingleLine(effectiveShape) : true,
-    [effectiveShape],
+    () => effectiveTileShapes ? effectiveTileShapes.every(shape => generatedShapeNorthRowIsSingleLine(shape)) : true,
+    [effectiveTileShapes],
   );
 
   const canGenerate = imageValid && missingBlocks.length === 0;
@@ -1813,7 +2272,8 @@ const Index = () => {
       ...excluded.filter(eb => !BASE_COLORS[idx].blocks.includes(eb)),
     ];
     const withCustom = [...withExcluded, ...extra.filter(eb => !withExcluded.includes(eb))];
-    return selected && !withCustom.includes(selected) ? [...withCustom, selected] : withCustom;
+    const available = withCustom.filter(b => isBlockAvailable(b, targetVersion));
+    return selected && !available.includes(selected) ? [...available, selected] : available;
   };
   const getNameBlocks = (blocks: string[]): string[] => [...blocks].sort();
   const getTextureBlocks = (blocks: string[]): string[] => blocks;
@@ -1914,6 +2374,7 @@ const Index = () => {
     const textureBlocks = getTextureBlocks(allBlocks);
     const selectedBlock = preset.blocks[idx] || "";
     const selectedIsIceWater = idx === WATER_BASE_INDEX && normalizeBlockId(selectedBlock) === "ice";
+    const selectedIsUnavailable = !!selectedBlock && !availableBlocks[idx];
     const textureCollapsed = blockDisplayMode === "textures" && !blockColExpanded;
     const reqCount = colorRequiredMap[idx] || 0;
     const cells: Record<ColumnId, React.ReactNode> = {
@@ -1980,13 +2441,15 @@ const Index = () => {
             key="block"
             ref={idx === usedIndices[0] ? blockMeasureSelectRef : undefined}
             className={`bg-input border rounded px-1 h-6 text-[11px] font-mono text-foreground min-w-0 w-full ${
-              selectedIsIceWater ? "border-warning/60 bg-warning/10" : "border-border"
+              selectedIsIceWater || selectedIsUnavailable ? "border-warning/60 bg-warning/10" : "border-border"
             }`}
             value={preset.blocks[idx] || ""}
             onChange={e => updateBlock(idx, e.target.value)}
             title={
               selectedBlock
-                ? selectedIsIceWater
+                ? selectedIsUnavailable
+                  ? messages.blocks.unavailableOptionTitle(selectedBlock, calcTargetVersion)
+                  : selectedIsIceWater
                   ? messages.blocks.iceWaterOptionTitle(selectedBlock)
                   : selectedBlock
                 : undefined
@@ -2034,6 +2497,7 @@ const Index = () => {
               ).map(b => {
                 const selected = selectedBlock === b;
                 const isIceWaterOption = idx === WATER_BASE_INDEX && normalizeBlockId(b) === "ice";
+                const isUnavailableOption = selected && selectedIsUnavailable;
                 const hasIcon = KNOWN_PRECOMPUTED_ICON_BLOCKS.has(b);
                 return (
                   <button
@@ -2043,14 +2507,18 @@ const Index = () => {
                       textureCollapsed
                         ? "border-border"
                         : selected
-                        ? isIceWaterOption
+                        ? isIceWaterOption || isUnavailableOption
                           ? "border-transparent shadow-[0_0_0_2px_hsl(var(--warning))]"
                           : "border-transparent shadow-[0_0_0_2px_hsl(var(--primary))]"
                         : isIceWaterOption
                           ? "border-border hover:shadow-[0_0_0_1px_hsl(var(--warning))]"
                           : "border-border hover:shadow-[0_0_0_1px_hsl(var(--primary))]"
                     }`}
-                    title={isIceWaterOption ? messages.blocks.iceWaterOptionTitle(b) : b}
+                    title={
+                      isUnavailableOption
+                        ? messages.blocks.unavailableOptionTitle(b, calcTargetVersion)
+                        : isIceWaterOption ? messages.blocks.iceWaterOptionTitle(b) : b
+                    }
                     onClick={() => updateBlock(idx, b)}
                   >
                     {hasIcon ? (
@@ -2777,7 +3245,7 @@ const Index = () => {
             <input
               ref={fileRef}
               type="file"
-              accept="image/*"
+              accept="image/*,.dat,.nbt,.json"
               className="hidden"
               onChange={e => {
                 const f = e.target.files?.[0];
@@ -2796,15 +3264,15 @@ const Index = () => {
                   if (f) handleFile(f);
                 }}
               >
-                {imageData ? (
+                {previewImageData ? (
                   <canvas
-                    className="w-full h-full"
+                    className="w-full h-full object-contain"
                     style={{ imageRendering: "pixelated" }}
                     ref={el => {
-                      if (el && imageData) {
-                        el.width = imageData.width;
-                        el.height = imageData.height;
-                        el.getContext("2d")?.putImageData(imageData, 0, 0);
+                      if (el && previewImageData) {
+                        el.width = previewImageData.width;
+                        el.height = previewImageData.height;
+                        el.getContext("2d")?.putImageData(previewImageData, 0, 0);
                       }
                     }}
                   />
@@ -2845,9 +3313,16 @@ const Index = () => {
 
             {imageValid && missingBlocks.length > 0 && (
               <div className="mt-2 bg-destructive/25 border-2 border-destructive/50 rounded p-2">
-                <p className="text-xs text-destructive font-medium">
-                  {messages.preview.missingBlockAssignments(missingBlocks.length)}
-                </p>
+                {missingBlocks.length > versionMissingBlockCount && (
+                  <p className="text-xs text-destructive font-medium">
+                    {messages.preview.missingBlockAssignments(missingBlocks.length - versionMissingBlockCount)}
+                  </p>
+                )}
+                {versionMissingBlockCount > 0 && (
+                  <p className="text-xs text-destructive font-medium">
+                    {messages.preview.versionUnavailableAssignments(versionMissingBlockCount, calcTargetVersion)}
+                  </p>
+                )}
               </div>
             )}
 
@@ -2883,6 +3358,25 @@ const Index = () => {
               </div>
             )}
 
+            {parsedImage?.flatAlteredPixelCount !== undefined && (
+              <div className="mt-2 bg-muted/30 border border-border rounded p-2">
+                <p className="text-xs text-muted-foreground font-medium whitespace-pre-line">
+                  {messages.preview.flatAlteredPixelsInfo(
+                    parsedImage.flatAlteredPixelCount,
+                    parsedImage.imageData.width * parsedImage.imageData.height,
+                  )}
+                </p>
+              </div>
+            )}
+
+            {isAnimated && (
+              <div className="mt-2 bg-muted/30 border border-border rounded p-2">
+                <p className="text-xs text-muted-foreground font-medium whitespace-pre-line">
+                  {messages.preview.animationFramesInfo(animationFrames.length)}
+                </p>
+              </div>
+            )}
+
             {showNorthRowAlignmentInfo && (
               <div className="mt-2 bg-muted/30 border border-border rounded p-2">
                 <p className="text-xs text-muted-foreground font-medium whitespace-pre-line">
@@ -2900,30 +3394,340 @@ const Index = () => {
             )}
 
             {imageData && (
-              <div className="mt-2 flex items-center gap-2">
+              <div className="mt-2 flex flex-wrap items-center gap-2">
                 <button
                   className="text-xs px-2 py-1.5 rounded border border-destructive text-destructive hover:bg-destructive/20 whitespace-nowrap"
                   onClick={clearImage}
                 >
                   {messages.common.remove}
                 </button>
+                <button
+                  className="text-xs px-2 py-1.5 rounded border border-border text-muted-foreground hover:text-foreground whitespace-nowrap"
+                  onClick={saveProject}
+                  title={messages.upload.saveProjectTooltip}
+                >
+                  {messages.upload.saveProjectButton}
+                </button>
+                <select
+                  className="bg-input border border-border rounded px-2 h-7 text-xs text-foreground cursor-help"
+                  value={ditherMethod}
+                  onChange={e => setDitherMethod(e.target.value as DitherMethod)}
+                  title={messages.upload.ditherTooltip}
+                  aria-label={messages.upload.ditherLabel}
+                >
+                  {Object.values(DitherMethod).map(method => (
+                    <option key={method} value={method}>
+                      {messages.upload.ditherOption(method)}
+                    </option>
+                  ))}
+                </select>
+                <select
+                  className="bg-input border border-border rounded px-2 h-7 text-xs text-foreground cursor-help"
+                  value={colorMetric}
+                  onChange={e => setColorMetric(e.target.value as ColorMetric)}
+                  title={messages.upload.colorMetricTooltip}
+                  aria-label={messages.upload.colorMetricLabel}
+                >
+                  {Object.values(ColorMetric).map(metric => (
+                    <option key={metric} value={metric}>
+                      {messages.upload.colorMetricOption(metric)}
+                    </option>
+                  ))}
+                </select>
+                <select
+                  className="bg-input border border-border rounded px-2 h-7 text-xs text-foreground cursor-help"
+                  value={paletteShadeSet}
+                  onChange={e => setPaletteShadeSet(e.target.value as PaletteShadeSet)}
+                  title={messages.upload.paletteShadeSetTooltip}
+                  aria-label={messages.upload.paletteShadeSetLabel}
+                >
+                  {Object.values(PaletteShadeSet).map(shadeSet => (
+                    <option key={shadeSet} value={shadeSet}>
+                      {messages.upload.paletteShadeSetOption(shadeSet)}
+                    </option>
+                  ))}
+                </select>
+                <select
+                  className="bg-input border border-border rounded px-2 h-7 text-xs text-foreground cursor-help"
+                  value={targetVersion}
+                  onChange={e => setTargetVersion(e.target.value as MinecraftVersion)}
+                  title={messages.upload.targetVersionTooltip}
+                  aria-label={messages.upload.targetVersionLabel}
+                >
+                  {Object.values(MinecraftVersion).map(version => (
+                    <option key={version} value={version}>
+                      {messages.upload.targetVersionOption(version)}
+                    </option>
+                  ))}
+                </select>
+                {canGenerate && (
+                  <select
+                    className="bg-input border border-border rounded px-2 h-7 text-xs text-foreground cursor-help"
+                    value={exportFormat}
+                    onChange={e => setExportFormat(e.target.value as ExportFormat)}
+                    title={messages.upload.exportFormatTooltip}
+                    aria-label={messages.upload.exportFormatLabel}
+                  >
+                    {Object.values(ExportFormat).map(format => (
+                      <option key={format} value={format}>
+                        {messages.upload.exportFormatOption(format)}
+                      </option>
+                    ))}
+                  </select>
+                )}
+                {canGenerate && exportFormat === ExportFormat.Structure && (
+                  <label
+                    className="text-xs text-muted-foreground whitespace-nowrap flex items-center gap-1 cursor-pointer"
+                    title={messages.upload.structureBlockTilesTooltip}
+                  >
+                    <input
+                      type="checkbox"
+                      checked={structureBlockTiles}
+                      onChange={e => setStructureBlockTiles(e.target.checked)}
+                      className="h-3.5 w-3.5 accent-primary"
+                    />
+                    {messages.upload.structureBlockTilesLabel}
+                  </label>
+                )}
+                {canGenerate && exportFormat === ExportFormat.Datapack && (
+                  <label
+                    className="text-xs text-muted-foreground whitespace-nowrap flex items-center gap-1 cursor-help"
+                    title={messages.upload.commandChainTooltip}
+                  >
+                    {messages.upload.commandChainLabel}
+                    <input
+                      type="number"
+                      min={MIN_COMMAND_CHAIN_LENGTH}
+                      value={maxCommandChainLength}
+                      onChange={e => setMaxCommandChainLength(parseInt(e.target.value) || DEFAULT_MAX_COMMAND_CHAIN_LENGTH)}
+                      onBlur={() => setMaxCommandChainLength(prev => normalizeStoredCommandChainLength(prev))}
+                      className="w-20 h-6 text-[11px] font-mono no-spinner px-1 bg-input border border-border rounded text-center"
+                    />
+                  </label>
+                )}
                 {canGenerate && (
                   <button
                     onClick={handleConvertAndDownload}
-                    disabled={converting}
+                    disabled={converting || shapesPending}
                     className="text-xs px-3 py-1.5 rounded bg-primary text-primary-foreground hover:bg-primary/90 disabled:opacity-50"
                   >
-                    {converting
-                      ? messages.upload.convertButton(true, false)
-                      : messages.upload.convertButton(
-                          false,
-                          buildMode === BuildMode.SuppressSplitRow || buildMode === BuildMode.SuppressSplitChecker,
-                        )}
+                    {messages.upload.convertButton(converting, downloadExtension)}
                   </button>
                 )}
               </div>
             )}
 
+            {canGenerate && exportFormat === ExportFormat.Region && (
+              <div className="mt-2 flex flex-wrap items-center gap-2">
+                <span
+                  className="text-xs text-muted-foreground whitespace-nowrap cursor-help"
+                  title={messages.upload.regionPlacementTooltip}
+                >
+                  {messages.upload.regionPlacementLabel}
+                </span>
+                {([
+                  ["mapX", messages.upload.regionMapXLabel],
+                  ["mapZ", messages.upload.regionMapZLabel],
+                  ["baseY", messages.upload.regionBaseYLabel],
+                ] as const).map(([field, label]) => (
+                  <input
+                    key={field}
+                    type="number"
+                    min={field === "baseY" ? WORLD_MIN_Y : undefined}
+                    max={field === "baseY" ? WORLD_MAX_Y - 1 : undefined}
+                    value={regionPlacement[field]}
+                    onChange={e => updateRegionPlacement({ [field]: parseInt(e.target.value) || 0 })}
+                    title={label}
+                    aria-label={label}
+                    className="w-16 h-6 text-[11px] font-mono no-spinner px-1 bg-input border border-border rounded text-center"
+                  />
+                ))}
+                <span className="text-xs font-mono text-muted-foreground whitespace-nowrap">
+                  {messages.upload.regionCornerText(getMapGridCorner(regionPlacement.mapX), getMapGridCorner(regionPlacement.mapZ))}
+                </span>
+              </div>
+            )}
+
+            {canGenerate && exportFormat !== ExportFormat.Datapack && (
+              <div className="mt-2 flex flex-wrap items-center gap-2">
+                <label
+                  className="text-xs text-muted-foreground whitespace-nowrap flex items-center gap-1 cursor-pointer"
+                  title={messages.upload.mapDatTooltip}
+                >
+                  <input
+                    type="checkbox"
+                    checked={includeMapDat}
+                    onChange={e => setIncludeMapDat(e.target.checked)}
+                    className="h-3.5 w-3.5 accent-primary"
+                  />
+                  {messages.upload.mapDatLabel}
+                </label>
+                {includeMapDat && (
+                  <>
+                    <input
+                      type="number"
+                      min={0}
+                      value={mapDat.firstMapId}
+                      onChange={e => updateMapDat({ firstMapId: Math.max(0, parseInt(e.target.value) || 0) })}
+                      title={messages.upload.mapIdLabel}
+                      aria-label={messages.upload.mapIdLabel}
+                      className="bg-input border border-border rounded px-1 h-6 text-foreground text-xs w-16 text-center"
+                    />
+                    <select
+                      className="bg-input border border-border rounded px-2 h-7 text-xs text-foreground cursor-help"
+                      value={mapDat.scale}
+                      onChange={e => updateMapDat({ scale: parseInt(e.target.value) || 0 })}
+                      title={messages.upload.mapScaleLabel}
+                      aria-label={messages.upload.mapScaleLabel}
+                    >
+                      {Array.from({ length: MAX_MAP_SCALE + 1 }, (_, scale) => (
+                        <option key={scale} value={scale}>
+                          {messages.upload.mapScaleOption(scale)}
+                        </option>
+                      ))}
+                    </select>
+                    <select
+                      className="bg-input border border-border rounded px-2 h-7 text-xs text-foreground cursor-help"
+                      value={mapDat.dimension}
+                      onChange={e => updateMapDat({ dimension: e.target.value as MapDimension })}
+                      title={messages.upload.mapDimensionLabel}
+                      aria-label={messages.upload.mapDimensionLabel}
+                    >
+                      {Object.values(MapDimension).map(dimension => (
+                        <option key={dimension} value={dimension}>
+                          {messages.upload.mapDimensionOption(dimension)}
+                        </option>
+                      ))}
+                    </select>
+                    <span
+                      className="flex items-center gap-0.5 text-xs text-muted-foreground whitespace-nowrap cursor-help"
+                      title={messages.upload.mapCenterTooltip}
+                    >
+                      {messages.upload.mapCenterLabel}
+                      {(["centerX", "centerZ"] as const).map(axis => (
+                        <input
+                          key={axis}
+                          type="number"
+                          value={mapDat[axis]}
+                          onChange={e => updateMapDat({ [axis]: parseInt(e.target.value) || 0 })}
+                          title={axis === "centerX" ? messages.upload.mapCenterXLabel : messages.upload.mapCenterZLabel}
+                          aria-label={axis === "centerX" ? messages.upload.mapCenterXLabel : messages.upload.mapCenterZLabel}
+                          className="w-16 h-6 text-[11px] font-mono no-spinner px-1 bg-input border border-border rounded text-center"
+                        />
+                      ))}
+                    </span>
+                  </>
+                )}
+              </div>
+            )}
+
+            {imageData && !mapDatColors && !structureImport && (
+              <div className="mt-2 flex flex-wrap items-center gap-2">
+                <span
+                  className="text-xs font-semibold text-accent whitespace-nowrap cursor-help"
+                  title={messages.upload.imageFitTooltip}
+                >
+                  {messages.upload.imageFitLabel}
+                </span>
+                <select
+                  className="bg-input border border-border rounded px-2 h-7 text-xs text-foreground cursor-help"
+                  value={imageFit.mode}
+                  onChange={e => updateImageFit({ mode: e.target.value as ImageFitMode })}
+                  title={messages.upload.imageFitTooltip}
+                  aria-label={messages.upload.imageFitLabel}
+                >
+                  {Object.values(ImageFitMode).map(mode => (
+                    <option key={mode} value={mode} disabled={mode === ImageFitMode.None && !isMapGridSize(imageData)}>
+                      {messages.upload.imageFitOption(mode)}
+                    </option>
+                  ))}
+                </select>
+                {imageFit.mode !== ImageFitMode.None && (
+                  <>
+                    <span className="flex items-center gap-1 text-xs text-muted-foreground whitespace-nowrap">
+                      <input
+                        type="number"
+                        min={1}
+                        max={MAX_FIT_MAPS}
+                        value={imageFit.mapsWide}
+                        onChange={e => updateImageFit({ mapsWide: Math.max(1, Math.min(MAX_FIT_MAPS, parseInt(e.target.value) || 1)) })}
+                        aria-label={messages.upload.mapsWideLabel}
+                        className="bg-input border border-border rounded px-1 h-6 text-foreground text-xs w-12 text-center"
+                      />
+                      ×
+                      <input
+                        type="number"
+                        min={1}
+                        max={MAX_FIT_MAPS}
+                        value={imageFit.mapsTall}
+                        onChange={e => updateImageFit({ mapsTall: Math.max(1, Math.min(MAX_FIT_MAPS, parseInt(e.target.value) || 1)) })}
+                        aria-label={messages.upload.mapsTallLabel}
+                        className="bg-input border border-border rounded px-1 h-6 text-foreground text-xs w-12 text-center"
+                      />
+                      {messages.upload.mapsUnit}
+                    </span>
+                    <select
+                      className="bg-input border border-border rounded px-2 h-7 text-xs text-foreground cursor-help"
+                      value={imageFit.filter}
+                      onChange={e => updateImageFit({ filter: e.target.value as ResampleFilter })}
+                      title={messages.upload.resampleFilterTooltip}
+                      aria-label={messages.upload.resampleFilterLabel}
+                    >
+                      {Object.values(ResampleFilter).map(filter => (
+                        <option key={filter} value={filter}>
+                          {messages.upload.resampleFilterOption(filter)}
+                        </option>
+                      ))}
+                    </select>
+                    {imageFit.mode === ImageFitMode.Fit && (
+                      <label
+                        className="text-xs text-muted-foreground whitespace-nowrap flex items-center gap-1 cursor-pointer"
+                        title={messages.upload.padColorTooltip}
+                      >
+                        <input
+                          type="checkbox"
+                          checked={imageFit.padColor !== null}
+                          onChange={e => updateImageFit({ padColor: e.target.checked ? { r: 255, g: 255, b: 255 } : null })}
+                          className="h-3.5 w-3.5 accent-primary"
+                        />
+                        {messages.upload.padColorLabel}
+                        {imageFit.padColor && (
+                          <input
+                            type="color"
+                            value={toHexColor(imageFit.padColor)}
+                            onChange={e => {
+                              const hex = parseInt(e.target.value.slice(1), 16);
+                              updateImageFit({ padColor: { r: (hex >> 16) & 255, g: (hex >> 8) & 255, b: hex & 255 } });
+                            }}
+                            aria-label={messages.upload.padColorLabel}
+                            className="h-6 w-8 bg-input border border-border rounded"
+                          />
+                        )}
+                      </label>
+                    )}
+                    <span
+                      className="flex items-center gap-0.5 text-xs text-muted-foreground whitespace-nowrap cursor-help"
+                      title={messages.upload.cropTooltip}
+                    >
+                      {messages.upload.cropLabel}
+                      {(["left", "top", "right", "bottom"] as const).map(edge => (
+                        <input
+                          key={edge}
+                          type="number"
+                          min={0}
+                          value={imageFit.crop[edge]}
+                          onChange={e => updateImageCrop(edge, e.target.value)}
+                          title={messages.upload.cropEdgeLabel(edge)}
+                          aria-label={messages.upload.cropEdgeLabel(edge)}
+                          className="w-12 h-6 text-[11px] font-mono no-spinner px-1 bg-input border border-border rounded text-center"
+                        />
+                      ))}
+                    </span>
+                  </>
+                )}
+              </div>
+            )}
+
             {imageInfo && imageValid && (
               <div className="mt-2 space-y-1">
                 <div className="flex gap-3 text-[11px] text-muted-foreground flex-wrap items-center">
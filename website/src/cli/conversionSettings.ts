@@ -0,0 +1,84 @@
+/**
+ * Public API:
+ * - UsageError
+ * - DEFAULT_PRESET
+ * - parseEnum()
+ * - parseInteger()
+ * - parseCustomColor()
+ * - parsePresetJson()
+ *
+ * Callers:
+ * - src/cli/png2nbt.ts
+ * - src/cli/png2nbtServer.ts
+ *
+ * Notes:
+ * - Checks the settings the command line and the local service take. Bad values throw a UsageError naming the
+ *   option, which the command line prints with its usage text and the service answers with a 400.
+ */
+import { BUILTIN_PRESET_NAMES, type Preset, canonicalizePreset } from "@/data/presets";
+import { canonicalizeBlockEntry } from "@/lib/blockId";
+import type { CustomColor } from "@/lib/conversionTypes";
+
+// Callers:
+// - src/cli/conversionSettings.ts
+// - src/cli/png2nbt.ts
+// - src/cli/png2nbtServer.ts
+export class UsageError extends Error {}
+
+// Callers:
+// - src/cli/png2nbt.ts
+// - src/cli/png2nbtServer.ts
+export const DEFAULT_PRESET = BUILTIN_PRESET_NAMES[0];
+
+// Callers:
+// - src/cli/png2nbt.ts
+// - src/cli/png2nbtServer.ts
+export function parseEnum<T extends string>(values: Record<string, T>, raw: string | undefined, flag: string): T | undefined {
+  if (raw === undefined) return undefined;
+  const value = Object.values(values).find(v => v.toLowerCase() === raw.toLowerCase());
+  if (!value) throw new UsageError(`Unknown ${flag} "${raw}". Expected one of: ${Object.values(values).join(", ")}.`);
+  return value;
+}
+
+// Callers:
+// - src/cli/png2nbt.ts
+// - src/cli/png2nbtServer.ts
+export function parseInteger(raw: string | undefined, flag: string, min: number, max = Number.MAX_SAFE_INTEGER): number | undefined {
+  if (raw === undefined) return undefined;
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < min || value > max) {
+    throw new UsageError(`${flag} must be a whole number from ${min}${max < Number.MAX_SAFE_INTEGER ? ` to ${max}` : ""}.`);
+  }
+  return value;
+}
+
+// Callers:
+// - src/cli/png2nbt.ts
+// - src/cli/png2nbtServer.ts
+export function parseCustomColor(raw: string, flag: string): CustomColor {
+  const match = /^#?([0-9a-f]{6})=(.+)$/i.exec(raw.trim());
+  const block = match && canonicalizeBlockEntry(match[2]);
+  if (!match || !block) throw new UsageError(`${flag} "${raw}" must look like #rrggbb=block.`);
+  const rgb = parseInt(match[1], 16);
+  return { r: rgb >> 16, g: (rgb >> 8) & 255, b: rgb & 255, block };
+}
+
+// A preset as saved by the page: a "blocks" mapping of base color index to block, and an optional name.
+//
+// Callers:
+// - src/cli/png2nbt.ts
+// - src/cli/png2nbtServer.ts
+export function parsePresetJson(value: unknown, fallbackName: string, source: string): Preset {
+  const parsed = value as Partial<Preset> | null;
+  if (!parsed || typeof parsed !== "object" || !parsed.blocks || typeof parsed.blocks !== "object") {
+    throw new UsageError(`${source} has no "blocks" mapping.`);
+  }
+  const blocks = Object.entries(parsed.blocks);
+  if (blocks.some(([baseIndex, block]) => !/^\d+$/.test(baseIndex) || typeof block !== "string")) {
+    throw new UsageError(`${source} must map base color indexes to block ids.`);
+  }
+  return canonicalizePreset({
+    name: typeof parsed.name === "string" && parsed.name ? parsed.name : fallbackName,
+    blocks: Object.fromEntries(blocks),
+  });
+}
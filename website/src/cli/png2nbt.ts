@@ -0,0 +1,262 @@
+#!/usr/bin/env bun
+/**
+ * Public API:
+ * - none; command line entry point (`bun run png2nbt convert ...` or `bun run png2nbt serve`, or
+ *   `node dist-cli/png2nbt.mjs` after `bun run build:cli`)
+ *
+ * Callers:
+ * - package.json
+ *
+ * Notes:
+ * - Converts images and map_<id>.dat files with the same pipeline as the page, without a browser. Folders are
+ *   converted file by file; one failing file is reported and the rest still run.
+ * - Settings not given on the command line take the values a fresh page starts with.
+ * - `serve` runs the local HTTP service of png2nbtServer.ts until the process is stopped.
+ */
+import { mkdir, readFile, readdir, stat, writeFile } from "node:fs/promises";
+import { basename, dirname, extname, join } from "node:path";
+import { parseArgs } from "node:util";
+import { BUILTIN_PRESET_NAMES, type Preset, canonicalizePreset, getBuiltinPreset } from "@/data/presets";
+import { canonicalizeBlockEntry } from "@/lib/blockId";
+import {
+  BuildMode,
+  ColorMetric,
+  DitherMethod,
+  ExportFormat,
+  ImageFitMode,
+  MinecraftVersion,
+  PaletteShadeSet,
+  ResampleFilter,
+} from "@/lib/conversionTypes";
+import { type FillerBlocks, type HeadlessConversionSettings, convertImageFile } from "@/lib/headlessConversion";
+import { DEFAULT_IMAGE_FIT, MAX_FIT_MAPS } from "@/lib/imageFitting";
+import { messages } from "@/lib/messages";
+import { SupportMode } from "@/lib/uiTypes";
+import {
+  DEFAULT_PRESET,
+  UsageError,
+  parseCustomColor,
+  parseEnum,
+  parseInteger,
+  parsePresetJson,
+} from "./conversionSettings";
+import { DEFAULT_SERVER_PORT, startConversionServer } from "./png2nbtServer";
+
+const INPUT_EXTENSIONS = new Set([".png", ".apng", ".gif", ".tif", ".tiff", ".dat"]);
+
+const USAGE = `Usage: png2nbt convert <image|folder>... [options]
+       png2nbt serve [--host <host>] [--port <port>]
+
+convert turns PNG, GIF and TIFF images (animated and multi-page files too) and map_<id>.dat files into builds.
+Folders convert every such file inside them.
+
+serve starts a local HTTP service: GET /presets, and POST /convert and POST /analyze with a multipart form of
+an image file and a settings JSON field (default: 127.0.0.1:${DEFAULT_SERVER_PORT}).
+
+Convert options:
+  -o, --output <path>            Output file for a single input, otherwise an output folder
+                                 (default: next to each input)
+  -r, --recursive                Also convert files in subfolders
+      --preset <name|file.json>  ${BUILTIN_PRESET_NAMES.join(", ")} or a JSON file with a "blocks" mapping
+                                 (default: ${DEFAULT_PRESET})
+      --mode <mode>              ${Object.values(BuildMode).join(", ")}
+                                 (default: ${BuildMode.StaircaseClassic})
+      --support <mode>           ${Object.values(SupportMode).join(", ")} (default: ${SupportMode.None})
+      --format <format>          ${Object.values(ExportFormat).join(", ")} (default: ${ExportFormat.Structure})
+      --version <version>        ${Object.values(MinecraftVersion).join(", ")} (default: ${MinecraftVersion.Latest})
+      --support-filler <block>   Support and convenience filler
+      --shade-filler <block>     Shade filler
+      --late-filler <block>      Late filler of two-layer suppress modes
+      --dominant-void-filler <block>
+      --recessive-void-filler <block>
+      --custom-color <#rrggbb=block>  Extra color, may be repeated
+      --layer-gap <n>            Two-layer suppress gap (default: 5)
+      --mix-steps                Mix suppress steps where the image allows it
+      --palette-seed             Seed party staircases with the block mapping
+      --dither <method>          ${Object.values(DitherMethod).join(", ")}
+      --metric <metric>          ${Object.values(ColorMetric).join(", ")}
+      --shades <set>             ${Object.values(PaletteShadeSet).join(", ")}
+      --fit <mode>               ${Object.values(ImageFitMode).join(", ")}
+      --maps <wide>x<tall>       Map count for --fit (1 to ${MAX_FIT_MAPS} each way)
+      --filter <filter>          ${Object.values(ResampleFilter).join(", ")}
+      --strict-palette           Fail on colors the palette lacks instead of snapping them to the nearest one
+      --no-assume-floor          Keep fillers below the lowest layer of the art
+      --force-z129               Always export 129 blocks along Z
+      --structure-block-tiles    Split .nbt files into 48x48x48 structure block pieces
+      --command-chain <n>        Commands per tick for datapacks
+  -h, --help                     Show this help
+`;
+
+async function loadPreset(raw: string | undefined): Promise<Preset> {
+  const builtin = getBuiltinPreset(raw ?? DEFAULT_PRESET);
+  if (builtin) return canonicalizePreset(builtin);
+  if (!raw?.toLowerCase().endsWith(".json")) {
+    throw new UsageError(`Unknown preset "${raw}". Expected ${BUILTIN_PRESET_NAMES.join(", ")} or a .json file.`);
+  }
+  return parsePresetJson(JSON.parse(await readFile(raw, "utf8")), basename(raw, ".json"), raw);
+}
+
+function parseFit(values: { fit?: string; maps?: string; filter?: string }): HeadlessConversionSettings["fit"] {
+  const mode = parseEnum(ImageFitMode, values.fit, "--fit");
+  const filter = parseEnum(ResampleFilter, values.filter, "--filter");
+  if (!mode && !filter && !values.maps) return undefined;
+  const maps = values.maps ? /^(\d+)x(\d+)$/i.exec(values.maps) : null;
+  if (values.maps && !maps) throw new UsageError(`--maps "${values.maps}" must look like 2x3.`);
+  return {
+    ...DEFAULT_IMAGE_FIT,
+    mode: mode ?? (maps ? ImageFitMode.Fit : DEFAULT_IMAGE_FIT.mode),
+    mapsWide: parseInteger(maps?.[1], "--maps width", 1, MAX_FIT_MAPS) ?? DEFAULT_IMAGE_FIT.mapsWide,
+    mapsTall: parseInteger(maps?.[2], "--maps height", 1, MAX_FIT_MAPS) ?? DEFAULT_IMAGE_FIT.mapsTall,
+    filter: filter ?? DEFAULT_IMAGE_FIT.filter,
+  };
+}
+
+async function collectInputs(paths: string[], recursive: boolean): Promise<{ path: string; root: string }[]> {
+  const inputs: { path: string; root: string }[] = [];
+  const walk = async (folder: string, root: string) => {
+    for (const entry of (await readdir(folder, { withFileTypes: true })).sort((a, b) => a.name.localeCompare(b.name))) {
+      const path = join(folder, entry.name);
+      if (entry.isDirectory()) {
+        if (recursive) await walk(path, root);
+      } else if (INPUT_EXTENSIONS.has(extname(entry.name).toLowerCase())) {
+        inputs.push({ path, root });
+      }
+    }
+  };
+  for (const path of paths) {
+    if ((await stat(path)).isDirectory()) await walk(path, path);
+    else inputs.push({ path, root: dirname(path) });
+  }
+  return inputs;
+}
+
+async function convert(args: string[]): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      output: { type: "string", short: "o" },
+      recursive: { type: "boolean", short: "r" },
+      preset: { type: "string" },
+      mode: { type: "string" },
+      support: { type: "string" },
+      format: { type: "string" },
+      version: { type: "string" },
+      "support-filler": { type: "string" },
+      "shade-filler": { type: "string" },
+      "late-filler": { type: "string" },
+      "dominant-void-filler": { type: "string" },
+      "recessive-void-filler": { type: "string" },
+      "custom-color": { type: "string", multiple: true },
+      "layer-gap": { type: "string" },
+      "mix-steps": { type: "boolean" },
+      "palette-seed": { type: "boolean" },
+      dither: { type: "string" },
+      metric: { type: "string" },
+      shades: { type: "string" },
+      fit: { type: "string" },
+      maps: { type: "string" },
+      filter: { type: "string" },
+      "strict-palette": { type: "boolean" },
+      "no-assume-floor": { type: "boolean" },
+      "force-z129": { type: "boolean" },
+      "structure-block-tiles": { type: "boolean" },
+      "command-chain": { type: "string" },
+    },
+  });
+  if (positionals.length === 0) throw new UsageError("No input given.");
+
+  const fillers: Partial<FillerBlocks> = {};
+  const fillerFlags: [keyof FillerBlocks, string | undefined][] = [
+    ["support", values["support-filler"]],
+    ["shade", values["shade-filler"]],
+    ["suppress2LayerLate", values["late-filler"]],
+    ["dominateVoid", values["dominant-void-filler"]],
+    ["recessiveVoid", values["recessive-void-filler"]],
+  ];
+  for (const [role, block] of fillerFlags) {
+    if (block !== undefined) fillers[role] = canonicalizeBlockEntry(block);
+  }
+  const settings: HeadlessConversionSettings = {
+    preset: await loadPreset(values.preset),
+    customColors: (values["custom-color"] ?? []).map(raw => parseCustomColor(raw, "--custom-color")),
+    buildMode: parseEnum(BuildMode, values.mode, "--mode"),
+    supportMode: parseEnum(SupportMode, values.support, "--support"),
+    fillers,
+    layerGap: parseInteger(values["layer-gap"], "--layer-gap", 2),
+    mixSteps: values["mix-steps"],
+    paletteSeed: values["palette-seed"],
+    convertUnsupported: values["strict-palette"] ? false : undefined,
+    dither: parseEnum(DitherMethod, values.dither, "--dither"),
+    metric: parseEnum(ColorMetric, values.metric, "--metric"),
+    paletteShadeSet: parseEnum(PaletteShadeSet, values.shades, "--shades"),
+    fit: parseFit(values),
+    format: parseEnum(ExportFormat, values.format, "--format"),
+    version: parseEnum(MinecraftVersion, values.version, "--version"),
+    assumeFloor: values["no-assume-floor"] ? false : undefined,
+    forceZ129: values["force-z129"],
+    structureBlockTiles: values["structure-block-tiles"],
+    maxCommandChainLength: parseInteger(values["command-chain"], "--command-chain", 16),
+  };
+
+  const inputs = await collectInputs(positionals, values.recursive ?? false);
+  if (inputs.length === 0) throw new UsageError("No convertible files found.");
+  // A lone file input may name its output file; everything else writes into a folder, keeping subfolders.
+  const singleFile = inputs.length === 1 && positionals.length === 1 && !(await stat(positionals[0])).isDirectory();
+  const outputIsFile = singleFile && !!values.output && !(await stat(values.output).catch(() => null))?.isDirectory();
+
+  let failed = 0;
+  for (const input of inputs) {
+    try {
+      const data = await readFile(input.path);
+      const result = await convertImageFile(new File([data], basename(input.path)), settings);
+      const outputPath = outputIsFile
+        ? values.output!
+        : join(values.output ? join(values.output, dirname(input.path).slice(input.root.length)) : dirname(input.path), result.fileName);
+      await mkdir(dirname(outputPath), { recursive: true });
+      await writeFile(outputPath, result.data);
+      console.log(`${input.path} -> ${outputPath} (${result.buildMode})`);
+      for (const notice of result.paletteNotices) console.log(`  ${messages.parsing.noticeText(notice)}`);
+    } catch (e: unknown) {
+      ++failed;
+      console.error(`${input.path}: ${(e as Error).message || messages.parsing.conversionFailed}`);
+    }
+  }
+  if (inputs.length > 1) console.log(`${inputs.length - failed} of ${inputs.length} converted.`);
+  return failed > 0 ? 1 : 0;
+}
+
+async function serve(args: string[]): Promise<number> {
+  const { values } = parseArgs({
+    args,
+    options: {
+      host: { type: "string" },
+      port: { type: "string" },
+    },
+  });
+  const host = values.host ?? "127.0.0.1";
+  const port = parseInteger(values.port, "--port", 0, 65535) ?? DEFAULT_SERVER_PORT;
+  const server = await startConversionServer(host, port);
+  const address = server.address();
+  console.log(`Listening on http://${host}:${typeof address === "object" && address ? address.port : port}`);
+  return new Promise(resolve => server.on("close", () => resolve(0)));
+}
+
+async function main(argv: string[]): Promise<number> {
+  const [command, ...args] = argv;
+  if (!command || command === "help" || command === "-h" || command === "--help" || args.includes("--help") || args.includes("-h")) {
+    console.log(USAGE);
+    return 0;
+  }
+  if (command === "serve") return serve(args);
+  if (command !== "convert") throw new UsageError(`Unknown command "${command}".`);
+  return convert(args);
+}
+
+main(process.argv.slice(2)).then(
+  code => process.exit(code),
+  (e: unknown) => {
+    console.error(e instanceof UsageError ? `${e.message}\n\n${USAGE}` : (e as Error).message);
+    process.exit(2);
+  },
+);
@@ -0,0 +1,307 @@
+/**
+ * Public API:
+ * - DEFAULT_SERVER_PORT
+ * - startConversionServer()
+ *
+ * Callers:
+ * - src/cli/png2nbt.ts
+ *
+ * Notes:
+ * - A small local HTTP service over the headless pipeline, for bots and server plugins:
+ *   - `GET /presets` lists the built-in preset names.
+ *   - `POST /convert` takes a multipart form with an `image` file and an optional `settings` JSON field and
+ *     answers with the .nbt, .schem, .litematic, datapack or zip bytes. The build mode and the page's notices come
+ *     back in the `X-Build-Mode` and `X-Palette-Notices` headers.
+ *   - `POST /analyze` takes the same form and answers with the image stats and the material list as JSON.
+ * - Settings use the field names of HeadlessConversionSettings. `preset` is a built-in name or a page preset
+ *   (`{ "name", "blocks" }`), custom colors are "#rrggbb=block" strings, and left-out settings take the values a
+ *   fresh page starts with.
+ * - Bad settings answer 400, images that cannot be converted answer 422, both with `{ "error": message }`.
+ */
+import { type IncomingMessage, type Server, type ServerResponse, createServer } from "node:http";
+import { BUILTIN_PRESET_NAMES, type Preset, canonicalizePreset, getBuiltinPreset } from "@/data/presets";
+import { canonicalizeBlockEntry } from "@/lib/blockId";
+import {
+  BuildMode,
+  ColorMetric,
+  DitherMethod,
+  ExportFormat,
+  type FillerAssignment,
+  FillerRole,
+  ImageFitMode,
+  MinecraftVersion,
+  PaletteShadeSet,
+  ResampleFilter,
+} from "@/lib/conversionTypes";
+import { DEFAULT_FILLER_BLOCKS } from "@/lib/fillerRules";
+import {
+  type FillerBlocks,
+  type HeadlessConversionSettings,
+  analyzeImageFile,
+  convertImageFile,
+} from "@/lib/headlessConversion";
+import { DEFAULT_IMAGE_FIT, MAX_FIT_MAPS } from "@/lib/imageFitting";
+import { messages } from "@/lib/messages";
+import { SupportMode } from "@/lib/uiTypes";
+import {
+  DEFAULT_PRESET,
+  UsageError,
+  parseCustomColor,
+  parseEnum,
+  parseInteger,
+  parsePresetJson,
+} from "./conversionSettings";
+
+// Callers:
+// - src/cli/png2nbt.ts
+export const DEFAULT_SERVER_PORT = 8787;
+
+const MAX_BODY_BYTES = 64 * 1024 * 1024;
+
+type JsonObject = Record<string, unknown>;
+
+class HttpError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+function isJsonObject(value: unknown): value is JsonObject {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+function readString(settings: JsonObject, key: string): string | undefined {
+  const value = settings[key];
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== "string") throw new UsageError(`settings.${key} must be a string.`);
+  return value;
+}
+
+function readBoolean(settings: JsonObject, key: string): boolean | undefined {
+  const value = settings[key];
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== "boolean") throw new UsageError(`settings.${key} must be true or false.`);
+  return value;
+}
+
+function readInteger(settings: JsonObject, key: string, min: number, max?: number): number | undefined {
+  const value = settings[key];
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== "number") throw new UsageError(`settings.${key} must be a number.`);
+  return parseInteger(String(value), `settings.${key}`, min, max);
+}
+
+function readArray(settings: JsonObject, key: string): unknown[] {
+  const value = settings[key];
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value)) throw new UsageError(`settings.${key} must be an array.`);
+  return value;
+}
+
+function readObject(settings: JsonObject, key: string): JsonObject | undefined {
+  const value = settings[key];
+  if (value === undefined || value === null) return undefined;
+  if (!isJsonObject(value)) throw new UsageError(`settings.${key} must be an object.`);
+  return value;
+}
+
+function readBlock(value: unknown, field: string): string {
+  const block = typeof value === "string" ? canonicalizeBlockEntry(value) : "";
+  if (!block) throw new UsageError(`${field} must be a block id.`);
+  return block;
+}
+
+function parsePreset(value: unknown): Preset {
+  if (value === undefined || value === null) return canonicalizePreset(getBuiltinPreset(DEFAULT_PRESET)!);
+  if (typeof value === "string") {
+    const builtin = getBuiltinPreset(value);
+    if (!builtin) throw new UsageError(`Unknown settings.preset "${value}". Expected ${BUILTIN_PRESET_NAMES.join(", ")}.`);
+    return canonicalizePreset(builtin);
+  }
+  return parsePresetJson(value, "Custom", "settings.preset");
+}
+
+function parseFillers(settings: JsonObject): Partial<FillerBlocks> {
+  const fillers: Partial<FillerBlocks> = {};
+  for (const [role, block] of Object.entries(readObject(settings, "fillers") ?? {})) {
+    if (!(role in DEFAULT_FILLER_BLOCKS)) {
+      throw new UsageError(`Unknown settings.fillers.${role}. Expected ${Object.keys(DEFAULT_FILLER_BLOCKS).join(", ")}.`);
+    }
+    fillers[role as keyof FillerBlocks] = readBlock(block, `settings.fillers.${role}`);
+  }
+  return fillers;
+}
+
+function parseFillerAssignments(settings: JsonObject): FillerAssignment[] | undefined {
+  if (settings.fillerAssignments === undefined || settings.fillerAssignments === null) return undefined;
+  return readArray(settings, "fillerAssignments").map((assignment, i) => {
+    const field = `settings.fillerAssignments[${i}]`;
+    if (!isJsonObject(assignment)) throw new UsageError(`${field} must be an object with a role and a block.`);
+    return {
+      role: parseEnum(FillerRole, readString(assignment, "role") ?? "", `${field}.role`)!,
+      block: readBlock(assignment.block, `${field}.block`),
+    };
+  });
+}
+
+function parseFit(settings: JsonObject): HeadlessConversionSettings["fit"] {
+  const fit = readObject(settings, "fit");
+  if (!fit) return undefined;
+  return {
+    ...DEFAULT_IMAGE_FIT,
+    mode: parseEnum(ImageFitMode, readString(fit, "mode"), "settings.fit.mode") ?? DEFAULT_IMAGE_FIT.mode,
+    mapsWide: readInteger(fit, "mapsWide", 1, MAX_FIT_MAPS) ?? DEFAULT_IMAGE_FIT.mapsWide,
+    mapsTall: readInteger(fit, "mapsTall", 1, MAX_FIT_MAPS) ?? DEFAULT_IMAGE_FIT.mapsTall,
+    filter: parseEnum(ResampleFilter, readString(fit, "filter"), "settings.fit.filter") ?? DEFAULT_IMAGE_FIT.filter,
+  };
+}
+
+function parseSettings(raw: string | null): HeadlessConversionSettings {
+  let settings: unknown = {};
+  if (raw) {
+    try {
+      settings = JSON.parse(raw);
+    } catch {
+      throw new UsageError("settings is not valid JSON.");
+    }
+  }
+  if (!isJsonObject(settings)) throw new UsageError("settings must be a JSON object.");
+  return {
+    preset: parsePreset(settings.preset),
+    customColors: readArray(settings, "customColors").map((color, i) => {
+      if (typeof color !== "string") throw new UsageError(`settings.customColors[${i}] must be a string.`);
+      return parseCustomColor(color, `settings.customColors[${i}]`);
+    }),
+    buildMode: parseEnum(BuildMode, readString(settings, "buildMode"), "settings.buildMode"),
+    supportMode: parseEnum(SupportMode, readString(settings, "supportMode"), "settings.supportMode"),
+    fillers: parseFillers(settings),
+    fillerAssignments: parseFillerAssignments(settings),
+    layerGap: readInteger(settings, "layerGap", 2),
+    mixSteps: readBoolean(settings, "mixSteps"),
+    paletteSeed: readBoolean(settings, "paletteSeed"),
+    convertUnsupported: readBoolean(settings, "convertUnsupported"),
+    dither: parseEnum(DitherMethod, readString(settings, "dither"), "settings.dither"),
+    metric: parseEnum(ColorMetric, readString(settings, "metric"), "settings.metric"),
+    paletteShadeSet: parseEnum(PaletteShadeSet, readString(settings, "paletteShadeSet"), "settings.paletteShadeSet"),
+    fit: parseFit(settings),
+    format: parseEnum(ExportFormat, readString(settings, "format"), "settings.format"),
+    version: parseEnum(MinecraftVersion, readString(settings, "version"), "settings.version"),
+    assumeFloor: readBoolean(settings, "assumeFloor"),
+    forceZ129: readBoolean(settings, "forceZ129"),
+    structureBlockTiles: readBoolean(settings, "structureBlockTiles"),
+    maxCommandChainLength: readInteger(settings, "maxCommandChainLength", 16),
+  };
+}
+
+async function readBody(req: IncomingMessage): Promise<Uint8Array<ArrayBuffer>> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req as AsyncIterable<Buffer>) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) throw new HttpError(413, `Requests are limited to ${MAX_BODY_BYTES >> 20} MiB.`);
+    chunks.push(chunk);
+  }
+  return new Uint8Array(Buffer.concat(chunks));
+}
+
+// The multipart form is handed to the fetch Request parser, which both Node and Bun ship.
+async function readConversionForm(req: IncomingMessage): Promise<{ file: File; settings: HeadlessConversionSettings }> {
+  const contentType = req.headers["content-type"] ?? "";
+  if (!contentType.startsWith("multipart/form-data")) {
+    throw new HttpError(415, "Send a multipart/form-data body with an image file and an optional settings field.");
+  }
+  const body = await readBody(req);
+  const form = await new Request("http://localhost/", { method: "POST", headers: { "content-type": contentType }, body })
+    .formData()
+    .catch(() => {
+      throw new UsageError("The multipart body could not be read.");
+    });
+  const file = form.get("image");
+  if (!(file instanceof File)) throw new UsageError("The form has no image file.");
+  const settings = form.get("settings");
+  if (settings instanceof File) throw new UsageError("settings must be a text field.");
+  return { file, settings: parseSettings(settings) };
+}
+
+// Sets and maps in the stats and material lists become arrays and objects.
+function toJson(body: unknown): string {
+  return JSON.stringify(body, (_key, value: unknown) => {
+    if (value instanceof Set) return [...value];
+    if (value instanceof Map) return Object.fromEntries(value);
+    return value;
+  });
+}
+
+// Header values must stay ASCII, so the JSON escapes everything else.
+function toHeaderJson(body: unknown): string {
+  return JSON.stringify(body).replace(/[^\x20-\x7e]/g, char => `\\u${char.charCodeAt(0).toString(16).padStart(4, "0")}`);
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { "Content-Type": "application/json; charset=utf-8" });
+  res.end(toJson(body));
+}
+
+async function convert(req: IncomingMessage, res: ServerResponse): Promise<void> {
+  const { file, settings } = await readConversionForm(req);
+  const result = await convertImageFile(file, settings).catch((e: unknown) => {
+    throw new HttpError(422, (e as Error).message || messages.parsing.conversionFailed);
+  });
+  res.writeHead(200, {
+    "Content-Type": result.isZip ? "application/zip" : "application/octet-stream",
+    "Content-Length": result.data.length,
+    "Content-Disposition": `attachment; filename*=UTF-8''${encodeURIComponent(result.fileName)}`,
+    "X-Build-Mode": result.buildMode,
+    "X-Palette-Notices": toHeaderJson(result.paletteNotices.map(messages.parsing.noticeText)),
+  });
+  res.end(result.data);
+}
+
+async function analyze(req: IncomingMessage, res: ServerResponse): Promise<void> {
+  const { file, settings } = await readConversionForm(req);
+  const result = await analyzeImageFile(file, settings).catch((e: unknown) => {
+    throw new HttpError(422, (e as Error).message || messages.parsing.conversionFailed);
+  });
+  sendJson(res, 200, { ...result, paletteNotices: result.paletteNotices.map(messages.parsing.noticeText) });
+}
+
+const ROUTES: Record<string, Partial<Record<string, (req: IncomingMessage, res: ServerResponse) => Promise<void>>>> = {
+  "/presets": { GET: async (_req, res) => sendJson(res, 200, BUILTIN_PRESET_NAMES) },
+  "/convert": { POST: convert },
+  "/analyze": { POST: analyze },
+};
+
+async function handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+  const path = new URL(req.url ?? "/", "http://localhost").pathname;
+  const route = ROUTES[path];
+  try {
+    if (!route) throw new HttpError(404, `No endpoint at ${path}.`);
+    const handler = route[req.method ?? ""];
+    if (!handler) {
+      res.setHeader("Allow", Object.keys(route).join(", "));
+      throw new HttpError(405, `${path} takes ${Object.keys(route).join(", ")}.`);
+    }
+    await handler(req, res);
+  } catch (e: unknown) {
+    const status = e instanceof HttpError ? e.status : e instanceof UsageError ? 400 : 500;
+    if (status === 500) console.error(e);
+    if (!res.headersSent) sendJson(res, status, { error: (e as Error).message });
+    else res.destroy();
+  }
+  console.log(`${req.method} ${path} ${res.statusCode}`);
+}
+
+// Resolves once the server listens.
+//
+// Callers:
+// - src/cli/png2nbt.ts
+export function startConversionServer(host: string, port: number): Promise<Server> {
+  const server = createServer((req, res) => void handleRequest(req, res));
+  return new Promise((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(port, host, () => {
+      server.off("error", reject);
+      resolve(server);
+    });
+  });
+}
@@ -0,0 +1,679 @@
+/**
+ * Public API:
+ * - BedrockBlockState
+ * - toBedrockBlockState()
+ * - hasBedrockMapColorDifference()
+ *
+ * Callers:
+ * - src/lib/mcstructureWriter.ts
+ * - src/lib/nbtExport.ts
+ *
+ * Notes:
+ * - Covers every block in `BASE_COLORS[].blocks`, keyed by bare Java id and grouped by map color ID.
+ *   Bedrock ids drop the `minecraft:` prefix here; the writer adds it.
+ * - Java properties are not part of the key: `axis` maps onto `pillar_axis`, and `waterlogged=true` is written
+ *   as water in the second block layer by the structure writer.
+ * - `null` marks blocks with no Bedrock equivalent. Blocks outside the table (custom fillers) keep their Java id.
+ */
+import { normalizeBlockId } from "@/lib/blockId";
+
+// Callers:
+// - src/lib/mcstructureWriter.ts
+export interface BedrockBlockState {
+  name: string;
+  states?: Record<string, string | number | boolean>;
+}
+
+const JAVA_TO_BEDROCK: Record<string, BedrockBlockState | null> = {
+  // 0 NONE
+  glass: { name: "glass" },
+  glass_pane: { name: "glass_pane" },
+  iron_bars: { name: "iron_bars" },
+  chain: { name: "chain" },
+  end_rod: { name: "end_rod" },
+  ladder: { name: "ladder" },
+  rail: { name: "rail" },
+  powered_rail: { name: "golden_rail" },
+  detector_rail: { name: "detector_rail" },
+  activator_rail: { name: "activator_rail" },
+  lever: { name: "lever" },
+  torch: { name: "torch" },
+  wall_torch: { name: "torch" },
+  soul_torch: { name: "soul_torch" },
+  soul_wall_torch: { name: "soul_torch" },
+  redstone_wire: { name: "redstone_wire" },
+  repeater: { name: "unpowered_repeater" },
+  comparator: { name: "unpowered_comparator" },
+  tripwire_hook: { name: "tripwire_hook" },
+  tripwire: { name: "trip_wire" },
+  flower_pot: { name: "flower_pot" },
+  cake: { name: "cake" },
+  // 1 GRASS
+  grass_block: { name: "grass_block" },
+  slime_block: { name: "slime" },
+  // 2 SAND
+  sand: { name: "sand" },
+  suspicious_sand: { name: "suspicious_sand" },
+  sandstone: { name: "sandstone" },
+  sandstone_slab: { name: "sandstone_slab", states: { "minecraft:vertical_half": "bottom" } },
+  cut_sandstone: { name: "cut_sandstone" },
+  cut_sandstone_slab: { name: "cut_sandstone_slab", states: { "minecraft:vertical_half": "bottom" } },
+  smooth_sandstone: { name: "smooth_sandstone" },
+  smooth_sandstone_slab: { name: "smooth_sandstone_slab", states: { "minecraft:vertical_half": "bottom" } },
+  chiseled_sandstone: { name: "chiseled_sandstone" },
+  candle: { name: "candle", states: { candles: 0, lit: false } },
+  ochre_froglight: { name: "ochre_froglight" },
+  glowstone: { name: "glowstone" },
+  end_stone: { name: "end_stone" },
+  end_stone_bricks: { name: "end_bricks" },
+  end_stone_brick_slab: { name: "end_stone_brick_slab", states: { "minecraft:vertical_half": "bottom" } },
+  bone_block: { name: "bone_block", states: { pillar_axis: "y" } },
+  scaffolding: { name: "scaffolding" },
+  birch_log: { name: "birch_log", states: { pillar_axis: "y" } },
+  stripped_birch_log: { name: "stripped_birch_log", states: { pillar_axis: "y" } },
+  birch_wood: { name: "birch_wood", states: { pillar_axis: "y" } },
+  stripped_birch_wood: { name: "stripped_birch_wood", states: { pillar_axis: "y" } },
+  birch_planks: { name: "birch_planks" },
+  birch_slab: { name: "birch_slab", states: { "minecraft:vertical_half": "bottom" } },
+  birch_pressure_plate: { name: "birch_pressure_plate", states: { redstone_signal: 0 } },
+  turtle_egg: { name: "turtle_egg" },
+  // 3 WOOL
+  mushroom_stem: { name: "brown_mushroom_block", states: { huge_mushroom_bits: 15 } },
+  cobweb: { name: "web" },
+  white_candle: { name: "white_candle", states: { candles: 0, lit: false } },
+  // 4 FIRE
+  redstone_block: { name: "redstone_block" },
+  tnt: { name: "tnt" },
+  lava: { name: "lava" },
+  fire: { name: "fire" },
+  // 5 ICE
+  ice: { name: "ice" },
+  packed_ice: { name: "packed_ice" },
+  blue_ice: { name: "blue_ice" },
+  frosted_ice: { name: "frosted_ice" },
+  // 6 METAL
+  iron_block: { name: "iron_block" },
+  heavy_weighted_pressure_plate: { name: "heavy_weighted_pressure_plate", states: { redstone_signal: 0 } },
+  lodestone: { name: "lodestone" },
+  pale_oak_leaves: { name: "pale_oak_leaves", states: { persistent_bit: true, update_bit: false } },
+  anvil: { name: "anvil" },
+  lantern: { name: "lantern" },
+  closed_eyeblossom: { name: "closed_eyeblossom" },
+  // 7 PLANT
+  oak_leaves: { name: "oak_leaves", states: { persistent_bit: true, update_bit: false } },
+  spruce_leaves: { name: "spruce_leaves", states: { persistent_bit: true, update_bit: false } },
+  birch_leaves: { name: "birch_leaves", states: { persistent_bit: true, update_bit: false } },
+  jungle_leaves: { name: "jungle_leaves", states: { persistent_bit: true, update_bit: false } },
+  acacia_leaves: { name: "acacia_leaves", states: { persistent_bit: true, update_bit: false } },
+  dark_oak_leaves: { name: "dark_oak_leaves", states: { persistent_bit: true, update_bit: false } },
+  azalea_leaves: { name: "azalea_leaves", states: { persistent_bit: true, update_bit: false } },
+  flowering_azalea_leaves: { name: "flowering_azalea_leaves", states: { persistent_bit: true, update_bit: false } },
+  cactus: { name: "cactus" },
+  vine: { name: "vine" },
+  sugar_cane: { name: "reeds" },
+  fern: { name: "fern" },
+  short_grass: { name: "short_grass" },
+  tall_grass: { name: "tall_grass" },
+  lily_pad: { name: "waterlily" },
+  pink_petals: { name: "pink_petals" },
+  wildflowers: { name: "wildflowers" },
+  // 8 SNOW
+  white_wool: { name: "white_wool" },
+  white_carpet: { name: "white_carpet" },
+  white_concrete: { name: "white_concrete" },
+  white_concrete_powder: { name: "white_concrete_powder" },
+  white_glazed_terracotta: { name: "white_glazed_terracotta" },
+  white_stained_glass: { name: "white_stained_glass" },
+  snow_block: { name: "snow" },
+  snow: { name: "snow_layer" },
+  powder_snow: { name: "powder_snow" },
+  // 9 CLAY
+  clay: { name: "clay" },
+  // 10 DIRT
+  dirt: { name: "dirt" },
+  coarse_dirt: { name: "coarse_dirt" },
+  granite: { name: "granite" },
+  granite_slab: { name: "granite_slab", states: { "minecraft:vertical_half": "bottom" } },
+  polished_granite: { name: "polished_granite" },
+  polished_granite_slab: { name: "polished_granite_slab", states: { "minecraft:vertical_half": "bottom" } },
+  packed_mud: { name: "packed_mud" },
+  jungle_log: { name: "jungle_log", states: { pillar_axis: "y" } },
+  stripped_jungle_log: { name: "stripped_jungle_log", states: { pillar_axis: "y" } },
+  jungle_wood: { name: "jungle_wood", states: { pillar_axis: "y" } },
+  stripped_jungle_wood: { name: "stripped_jungle_wood", states: { pillar_axis: "y" } },
+  jungle_planks: { name: "jungle_planks" },
+  jungle_slab: { name: "jungle_slab", states: { "minecraft:vertical_half": "bottom" } },
+  jungle_pressure_plate: { name: "jungle_pressure_plate", states: { redstone_signal: 0 } },
+  jukebox: { name: "jukebox" },
+  brown_mushroom_block: { name: "brown_mushroom_block", states: { huge_mushroom_bits: 14 } },
+  rooted_dirt: { name: "dirt_with_roots" },
+  hanging_roots: { name: "hanging_roots" },
+  // 11 STONE
+  cobblestone: { name: "cobblestone" },
+  cobblestone_slab: { name: "cobblestone_slab", states: { "minecraft:vertical_half": "bottom" } },
+  mossy_cobblestone: { name: "mossy_cobblestone" },
+  mossy_cobblestone_slab: { name: "mossy_cobblestone_slab", states: { "minecraft:vertical_half": "bottom" } },
+  stone: { name: "stone" },
+  stone_slab: { name: "normal_stone_slab", states: { "minecraft:vertical_half": "bottom" } },
+  stone_pressure_plate: { name: "stone_pressure_plate", states: { redstone_signal: 0 } },
+  smooth_stone: { name: "smooth_stone" },
+  smooth_stone_slab: { name: "smooth_stone_slab", states: { "minecraft:vertical_half": "bottom" } },
+  stone_bricks: { name: "stone_bricks" },
+  stone_brick_slab: { name: "stone_brick_slab", states: { "minecraft:vertical_half": "bottom" } },
+  mossy_stone_bricks: { name: "mossy_stone_bricks" },
+  mossy_stone_brick_slab: { name: "mossy_stone_brick_slab", states: { "minecraft:vertical_half": "bottom" } },
+  cracked_stone_bricks: { name: "cracked_stone_bricks" },
+  chiseled_stone_bricks: { name: "chiseled_stone_bricks" },
+  andesite: { name: "andesite" },
+  andesite_slab: { name: "andesite_slab", states: { "minecraft:vertical_half": "bottom" } },
+  polished_andesite: { name: "polished_andesite" },
+  polished_andesite_slab: { name: "polished_andesite_slab", states: { "minecraft:vertical_half": "bottom" } },
+  gravel: { name: "gravel" },
+  furnace: { name: "furnace" },
+  smoker: { name: "smoker" },
+  blast_furnace: { name: "blast_furnace" },
+  dispenser: { name: "dispenser" },
+  dropper: { name: "dropper" },
+  observer: { name: "observer" },
+  stonecutter: { name: "stonecutter_block" },
+  ender_chest: { name: "ender_chest" },
+  coal_ore: { name: "coal_ore" },
+  copper_ore: { name: "copper_ore" },
+  iron_ore: { name: "iron_ore" },
+  gold_ore: { name: "gold_ore" },
+  redstone_ore: { name: "redstone_ore" },
+  lapis_ore: { name: "lapis_ore" },
+  emerald_ore: { name: "emerald_ore" },
+  diamond_ore: { name: "diamond_ore" },
+  crafter: { name: "crafter" },
+  pale_oak_log: { name: "pale_oak_log", states: { pillar_axis: "y" } },
+  pale_oak_wood: { name: "pale_oak_wood", states: { pillar_axis: "y" } },
+  // 12 WATER
+  water: { name: "water" },
+  cherry_leaves: { name: "cherry_leaves", states: { persistent_bit: true, update_bit: false } },
+  mangrove_leaves: { name: "mangrove_leaves", states: { persistent_bit: true, update_bit: false } },
+  // 13 WOOD
+  oak_wood: { name: "oak_wood", states: { pillar_axis: "y" } },
+  stripped_oak_wood: { name: "stripped_oak_wood", states: { pillar_axis: "y" } },
+  oak_log: { name: "oak_log", states: { pillar_axis: "y" } },
+  stripped_oak_log: { name: "stripped_oak_log", states: { pillar_axis: "y" } },
+  oak_planks: { name: "oak_planks" },
+  oak_slab: { name: "oak_slab", states: { "minecraft:vertical_half": "bottom" } },
+  oak_pressure_plate: { name: "wooden_pressure_plate", states: { redstone_signal: 0 } },
+  crafting_table: { name: "crafting_table" },
+  bookshelf: { name: "bookshelf" },
+  note_block: { name: "noteblock" },
+  chest: { name: "chest" },
+  trapped_chest: { name: "trapped_chest" },
+  daylight_detector: { name: "daylight_detector" },
+  loom: { name: "loom" },
+  composter: { name: "composter" },
+  lectern: { name: "lectern" },
+  smithing_table: { name: "smithing_table" },
+  fletching_table: { name: "fletching_table" },
+  beehive: { name: "beehive" },
+  barrel: { name: "barrel" },
+  cartography_table: { name: "cartography_table" },
+  chiseled_bookshelf: { name: "chiseled_bookshelf" },
+  petrified_oak_slab: null,
+  bamboo_sapling: { name: "bamboo_sapling" },
+  dead_bush: { name: "deadbush" },
+  // 14 QUARTZ
+  quartz_block: { name: "quartz_block" },
+  smooth_quartz: { name: "smooth_quartz" },
+  smooth_quartz_slab: { name: "smooth_quartz_slab", states: { "minecraft:vertical_half": "bottom" } },
+  chiseled_quartz_block: { name: "chiseled_quartz_block" },
+  quartz_pillar: { name: "quartz_pillar", states: { pillar_axis: "y" } },
+  quartz_slab: { name: "quartz_slab", states: { "minecraft:vertical_half": "bottom" } },
+  diorite: { name: "diorite" },
+  diorite_slab: { name: "diorite_slab", states: { "minecraft:vertical_half": "bottom" } },
+  polished_diorite: { name: "polished_diorite" },
+  polished_diorite_slab: { name: "polished_diorite_slab", states: { "minecraft:vertical_half": "bottom" } },
+  sea_lantern: { name: "sea_lantern" },
+  target: { name: "target" },
+  stripped_pale_oak_log: { name: "stripped_pale_oak_log", states: { pillar_axis: "y" } },
+  pale_oak_planks: { name: "pale_oak_planks" },
+  pale_oak_slab: { name: "pale_oak_slab", states: { "minecraft:vertical_half": "bottom" } },
+  pale_oak_pressure_plate: { name: "pale_oak_pressure_plate", states: { redstone_signal: 0 } },
+  stripped_pale_oak_wood: { name: "stripped_pale_oak_wood", states: { pillar_axis: "y" } },
+  // 15 COLOR_ORANGE
+  orange_wool: { name: "orange_wool" },
+  orange_carpet: { name: "orange_carpet" },
+  orange_concrete: { name: "orange_concrete" },
+  orange_concrete_powder: { name: "orange_concrete_powder" },
+  orange_glazed_terracotta: { name: "orange_glazed_terracotta" },
+  orange_stained_glass: { name: "orange_stained_glass" },
+  orange_candle: { name: "orange_candle", states: { candles: 0, lit: false } },
+  acacia_log: { name: "acacia_log", states: { pillar_axis: "y" } },
+  stripped_acacia_log: { name: "stripped_acacia_log", states: { pillar_axis: "y" } },
+  stripped_acacia_wood: { name: "stripped_acacia_wood", states: { pillar_axis: "y" } },
+  acacia_planks: { name: "acacia_planks" },
+  acacia_slab: { name: "acacia_slab", states: { "minecraft:vertical_half": "bottom" } },
+  acacia_pressure_plate: { name: "acacia_pressure_plate", states: { redstone_signal: 0 } },
+  pumpkin: { name: "pumpkin" },
+  carved_pumpkin: { name: "carved_pumpkin" },
+  jack_o_lantern: { name: "lit_pumpkin" },
+  terracotta: { name: "hardened_clay" },
+  red_sand: { name: "red_sand" },
+  red_sandstone: { name: "red_sandstone" },
+  red_sandstone_slab: { name: "red_sandstone_slab", states: { "minecraft:vertical_half": "bottom" } },
+  cut_red_sandstone: { name: "cut_red_sandstone" },
+  cut_red_sandstone_slab: { name: "cut_red_sandstone_slab", states: { "minecraft:vertical_half": "bottom" } },
+  smooth_red_sandstone: { name: "smooth_red_sandstone" },
+  smooth_red_sandstone_slab: { name: "smooth_red_sandstone_slab", states: { "minecraft:vertical_half": "bottom" } },
+  chiseled_red_sandstone: { name: "chiseled_red_sandstone" },
+  honey_block: { name: "honey_block" },
+  honeycomb_block: { name: "honeycomb_block" },
+  waxed_copper_block: { name: "waxed_copper_block" },
+  waxed_cut_copper: { name: "waxed_cut_copper" },
+  waxed_cut_copper_slab: { name: "waxed_cut_copper_slab", states: { "minecraft:vertical_half": "bottom" } },
+  copper_block: { name: "copper_block" },
+  cut_copper: { name: "cut_copper" },
+  cut_copper_slab: { name: "cut_copper_slab", states: { "minecraft:vertical_half": "bottom" } },
+  raw_copper_block: { name: "raw_copper_block" },
+  creaking_heart: { name: "creaking_heart" },
+  open_eyeblossom: { name: "open_eyeblossom" },
+  // 16 COLOR_MAGENTA
+  magenta_wool: { name: "magenta_wool" },
+  magenta_carpet: { name: "magenta_carpet" },
+  magenta_concrete: { name: "magenta_concrete" },
+  magenta_concrete_powder: { name: "magenta_concrete_powder" },
+  magenta_glazed_terracotta: { name: "magenta_glazed_terracotta" },
+  magenta_stained_glass: { name: "magenta_stained_glass" },
+  magenta_candle: { name: "magenta_candle", states: { candles: 0, lit: false } },
+  purpur_block: { name: "purpur_block" },
+  purpur_pillar: { name: "purpur_pillar", states: { pillar_axis: "y" } },
+  purpur_slab: { name: "purpur_slab", states: { "minecraft:vertical_half": "bottom" } },
+  // 17 COLOR_LIGHT_BLUE
+  light_blue_wool: { name: "light_blue_wool" },
+  light_blue_carpet: { name: "light_blue_carpet" },
+  light_blue_concrete: { name: "light_blue_concrete" },
+  light_blue_concrete_powder: { name: "light_blue_concrete_powder" },
+  light_blue_glazed_terracotta: { name: "light_blue_glazed_terracotta" },
+  light_blue_stained_glass: { name: "light_blue_stained_glass" },
+  light_blue_candle: { name: "light_blue_candle", states: { candles: 0, lit: false } },
+  // 18 COLOR_YELLOW
+  yellow_wool: { name: "yellow_wool" },
+  yellow_carpet: { name: "yellow_carpet" },
+  yellow_concrete: { name: "yellow_concrete" },
+  yellow_concrete_powder: { name: "yellow_concrete_powder" },
+  yellow_glazed_terracotta: { name: "yellow_glazed_terracotta" },
+  yellow_stained_glass: { name: "yellow_stained_glass" },
+  yellow_candle: { name: "yellow_candle", states: { candles: 0, lit: false } },
+  sponge: { name: "sponge" },
+  wet_sponge: { name: "wet_sponge" },
+  hay_block: { name: "hay_block", states: { pillar_axis: "y" } },
+  bee_nest: { name: "bee_nest" },
+  bamboo_planks: { name: "bamboo_planks" },
+  // 19 COLOR_LIGHT_GREEN
+  lime_wool: { name: "lime_wool" },
+  lime_carpet: { name: "lime_carpet" },
+  lime_concrete: { name: "lime_concrete" },
+  lime_concrete_powder: { name: "lime_concrete_powder" },
+  lime_glazed_terracotta: { name: "lime_glazed_terracotta" },
+  lime_stained_glass: { name: "lime_stained_glass" },
+  lime_candle: { name: "lime_candle", states: { candles: 0, lit: false } },
+  melon: { name: "melon_block" },
+  // 20 COLOR_PINK
+  pink_wool: { name: "pink_wool" },
+  pink_carpet: { name: "pink_carpet" },
+  pink_concrete: { name: "pink_concrete" },
+  pink_concrete_powder: { name: "pink_concrete_powder" },
+  pink_glazed_terracotta: { name: "pink_glazed_terracotta" },
+  pink_stained_glass: { name: "pink_stained_glass" },
+  pink_candle: { name: "pink_candle", states: { candles: 0, lit: false } },
+  brain_coral_block: { name: "brain_coral_block" },
+  pearlescent_froglight: { name: "pearlescent_froglight" },
+  // 21 COLOR_GRAY
+  gray_wool: { name: "gray_wool" },
+  gray_carpet: { name: "gray_carpet" },
+  gray_concrete: { name: "gray_concrete" },
+  gray_concrete_powder: { name: "gray_concrete_powder" },
+  gray_glazed_terracotta: { name: "gray_glazed_terracotta" },
+  gray_stained_glass: { name: "gray_stained_glass" },
+  gray_candle: { name: "gray_candle", states: { candles: 0, lit: false } },
+  tinted_glass: { name: "tinted_glass" },
+  acacia_wood: { name: "acacia_wood", states: { pillar_axis: "y" } },
+  // 22 COLOR_LIGHT_GRAY
+  light_gray_wool: { name: "light_gray_wool" },
+  light_gray_carpet: { name: "light_gray_carpet" },
+  light_gray_concrete: { name: "light_gray_concrete" },
+  light_gray_concrete_powder: { name: "light_gray_concrete_powder" },
+  light_gray_glazed_terracotta: { name: "light_gray_glazed_terracotta" },
+  light_gray_stained_glass: { name: "light_gray_stained_glass" },
+  light_gray_candle: { name: "light_gray_candle", states: { candles: 0, lit: false } },
+  pale_moss_block: { name: "pale_moss_block" },
+  pale_moss_carpet: { name: "pale_moss_carpet" },
+  // 23 COLOR_CYAN
+  cyan_wool: { name: "cyan_wool" },
+  cyan_carpet: { name: "cyan_carpet" },
+  cyan_concrete: { name: "cyan_concrete" },
+  cyan_concrete_powder: { name: "cyan_concrete_powder" },
+  cyan_glazed_terracotta: { name: "cyan_glazed_terracotta" },
+  cyan_stained_glass: { name: "cyan_stained_glass" },
+  cyan_candle: { name: "cyan_candle", states: { candles: 0, lit: false } },
+  prismarine: { name: "prismarine" },
+  prismarine_slab: { name: "prismarine_slab", states: { "minecraft:vertical_half": "bottom" } },
+  sculk_sensor: { name: "sculk_sensor" },
+  warped_roots: { name: "warped_roots" },
+  nether_sprouts: { name: "nether_sprouts" },
+  twisting_vines: { name: "twisting_vines" },
+  calibrated_sculk_sensor: { name: "calibrated_sculk_sensor" },
+  warped_fungus: { name: "warped_fungus" },
+  // 24 COLOR_PURPLE
+  purple_wool: { name: "purple_wool" },
+  purple_carpet: { name: "purple_carpet" },
+  purple_concrete: { name: "purple_concrete" },
+  purple_concrete_powder: { name: "purple_concrete_powder" },
+  purple_glazed_terracotta: { name: "purple_glazed_terracotta" },
+  purple_stained_glass: { name: "purple_stained_glass" },
+  purple_candle: { name: "purple_candle", states: { candles: 0, lit: false } },
+  bubble_coral_block: { name: "bubble_coral_block" },
+  mycelium: { name: "mycelium" },
+  chorus_plant: { name: "chorus_plant" },
+  chorus_flower: { name: "chorus_flower" },
+  amethyst_block: { name: "amethyst_block" },
+  // 25 COLOR_BLUE
+  blue_wool: { name: "blue_wool" },
+  blue_carpet: { name: "blue_carpet" },
+  blue_concrete: { name: "blue_concrete" },
+  blue_concrete_powder: { name: "blue_concrete_powder" },
+  blue_glazed_terracotta: { name: "blue_glazed_terracotta" },
+  blue_stained_glass: { name: "blue_stained_glass" },
+  blue_candle: { name: "blue_candle", states: { candles: 0, lit: false } },
+  tube_coral_block: { name: "tube_coral_block" },
+  // 26 COLOR_BROWN
+  brown_wool: { name: "brown_wool" },
+  brown_carpet: { name: "brown_carpet" },
+  brown_concrete: { name: "brown_concrete" },
+  brown_concrete_powder: { name: "brown_concrete_powder" },
+  brown_glazed_terracotta: { name: "brown_glazed_terracotta" },
+  brown_stained_glass: { name: "brown_stained_glass" },
+  brown_candle: { name: "brown_candle", states: { candles: 0, lit: false } },
+  dark_oak_log: { name: "dark_oak_log", states: { pillar_axis: "y" } },
+  stripped_dark_oak_log: { name: "stripped_dark_oak_log", states: { pillar_axis: "y" } },
+  dark_oak_wood: { name: "dark_oak_wood", states: { pillar_axis: "y" } },
+  stripped_dark_oak_wood: { name: "stripped_dark_oak_wood", states: { pillar_axis: "y" } },
+  dark_oak_planks: { name: "dark_oak_planks" },
+  dark_oak_slab: { name: "dark_oak_slab", states: { "minecraft:vertical_half": "bottom" } },
+  dark_oak_pressure_plate: { name: "dark_oak_pressure_plate", states: { redstone_signal: 0 } },
+  spruce_log: { name: "spruce_log", states: { pillar_axis: "y" } },
+  soul_sand: { name: "soul_sand" },
+  soul_soil: { name: "soul_soil" },
+  brown_mushroom: { name: "brown_mushroom" },
+  leaf_litter: { name: "leaf_litter" },
+  // 27 COLOR_GREEN
+  green_wool: { name: "green_wool" },
+  green_carpet: { name: "green_carpet" },
+  green_concrete: { name: "green_concrete" },
+  green_concrete_powder: { name: "green_concrete_powder" },
+  green_glazed_terracotta: { name: "green_glazed_terracotta" },
+  green_stained_glass: { name: "green_stained_glass" },
+  green_candle: { name: "green_candle", states: { candles: 0, lit: false } },
+  moss_block: { name: "moss_block" },
+  moss_carpet: { name: "moss_carpet" },
+  dried_kelp_block: { name: "dried_kelp_block" },
+  sea_pickle: { name: "sea_pickle" },
+  // 28 COLOR_RED
+  red_wool: { name: "red_wool" },
+  red_carpet: { name: "red_carpet" },
+  red_concrete: { name: "red_concrete" },
+  red_concrete_powder: { name: "red_concrete_powder" },
+  red_glazed_terracotta: { name: "red_glazed_terracotta" },
+  red_stained_glass: { name: "red_stained_glass" },
+  red_candle: { name: "red_candle", states: { candles: 0, lit: false } },
+  fire_coral_block: { name: "fire_coral_block" },
+  bricks: { name: "brick_block" },
+  brick_slab: { name: "brick_slab", states: { "minecraft:vertical_half": "bottom" } },
+  nether_wart_block: { name: "nether_wart_block" },
+  nether_wart: { name: "nether_wart" },
+  enchanting_table: { name: "enchanting_table" },
+  red_mushroom_block: { name: "red_mushroom_block", states: { huge_mushroom_bits: 14 } },
+  red_mushroom: { name: "red_mushroom" },
+  shroomlight: { name: "shroomlight" },
+  mangrove_log: { name: "mangrove_log", states: { pillar_axis: "y" } },
+  stripped_mangrove_log: { name: "stripped_mangrove_log", states: { pillar_axis: "y" } },
+  mangrove_wood: { name: "mangrove_wood", states: { pillar_axis: "y" } },
+  stripped_mangrove_wood: { name: "stripped_mangrove_wood", states: { pillar_axis: "y" } },
+  mangrove_planks: { name: "mangrove_planks" },
+  mangrove_slab: { name: "mangrove_slab", states: { "minecraft:vertical_half": "bottom" } },
+  mangrove_pressure_plate: { name: "mangrove_pressure_plate", states: { redstone_signal: 0 } },
+  sniffer_egg: { name: "sniffer_egg" },
+  // 29 COLOR_BLACK
+  black_wool: { name: "black_wool" },
+  black_carpet: { name: "black_carpet" },
+  black_concrete: { name: "black_concrete" },
+  black_concrete_powder: { name: "black_concrete_powder" },
+  black_glazed_terracotta: { name: "black_glazed_terracotta" },
+  black_stained_glass: { name: "black_stained_glass" },
+  black_candle: { name: "black_candle", states: { candles: 0, lit: false } },
+  obsidian: { name: "obsidian" },
+  crying_obsidian: { name: "crying_obsidian" },
+  respawn_anchor: { name: "respawn_anchor" },
+  coal_block: { name: "coal_block" },
+  blackstone: { name: "blackstone" },
+  polished_blackstone: { name: "polished_blackstone" },
+  polished_blackstone_bricks: { name: "polished_blackstone_bricks" },
+  ancient_debris: { name: "ancient_debris" },
+  netherite_block: { name: "netherite_block" },
+  sculk: { name: "sculk" },
+  sculk_catalyst: { name: "sculk_catalyst" },
+  sculk_shrieker: { name: "sculk_shrieker" },
+  sculk_vein: { name: "sculk_vein" },
+  basalt: { name: "basalt", states: { pillar_axis: "y" } },
+  polished_basalt: { name: "polished_basalt", states: { pillar_axis: "y" } },
+  smooth_basalt: { name: "smooth_basalt" },
+  // 30 GOLD
+  gold_block: { name: "gold_block" },
+  light_weighted_pressure_plate: { name: "light_weighted_pressure_plate", states: { redstone_signal: 0 } },
+  raw_gold_block: { name: "raw_gold_block" },
+  bell: { name: "bell" },
+  // 31 DIAMOND
+  diamond_block: { name: "diamond_block" },
+  prismarine_bricks: { name: "prismarine_bricks" },
+  dark_prismarine: { name: "dark_prismarine" },
+  beacon: { name: "beacon" },
+  conduit: { name: "conduit" },
+  // 32 LAPIS
+  lapis_block: { name: "lapis_block" },
+  // 33 EMERALD
+  emerald_block: { name: "emerald_block" },
+  // 34 PODZOL
+  podzol: { name: "podzol" },
+  stripped_spruce_log: { name: "stripped_spruce_log", states: { pillar_axis: "y" } },
+  spruce_wood: { name: "spruce_wood", states: { pillar_axis: "y" } },
+  stripped_spruce_wood: { name: "stripped_spruce_wood", states: { pillar_axis: "y" } },
+  spruce_planks: { name: "spruce_planks" },
+  spruce_slab: { name: "spruce_slab", states: { "minecraft:vertical_half": "bottom" } },
+  spruce_pressure_plate: { name: "spruce_pressure_plate", states: { redstone_signal: 0 } },
+  mangrove_roots: { name: "mangrove_roots" },
+  muddy_mangrove_roots: { name: "muddy_mangrove_roots", states: { pillar_axis: "y" } },
+  campfire: { name: "campfire" },
+  soul_campfire: { name: "soul_campfire" },
+  // 35 NETHER
+  netherrack: { name: "netherrack" },
+  nether_bricks: { name: "nether_brick" },
+  nether_brick_slab: { name: "nether_brick_slab", states: { "minecraft:vertical_half": "bottom" } },
+  cracked_nether_bricks: { name: "cracked_nether_bricks" },
+  chiseled_nether_bricks: { name: "chiseled_nether_bricks" },
+  red_nether_bricks: { name: "red_nether_brick" },
+  red_nether_brick_slab: { name: "red_nether_brick_slab", states: { "minecraft:vertical_half": "bottom" } },
+  nether_gold_ore: { name: "nether_gold_ore" },
+  nether_quartz_ore: { name: "quartz_ore" },
+  magma_block: { name: "magma" },
+  crimson_roots: { name: "crimson_roots" },
+  crimson_fungus: { name: "crimson_fungus" },
+  weeping_vines: { name: "weeping_vines" },
+  // 36 TERRACOTTA_WHITE
+  white_terracotta: { name: "white_terracotta" },
+  calcite: { name: "calcite" },
+  cherry_log: { name: "cherry_log", states: { pillar_axis: "y" } },
+  cherry_planks: { name: "cherry_planks" },
+  cherry_slab: { name: "cherry_slab", states: { "minecraft:vertical_half": "bottom" } },
+  cherry_pressure_plate: { name: "cherry_pressure_plate", states: { redstone_signal: 0 } },
+  // 37 TERRACOTTA_ORANGE
+  orange_terracotta: { name: "orange_terracotta" },
+  redstone_lamp: { name: "redstone_lamp" },
+  resin_block: { name: "resin_block" },
+  resin_bricks: { name: "resin_bricks" },
+  resin_brick_slab: { name: "resin_brick_slab", states: { "minecraft:vertical_half": "bottom" } },
+  resin_clump: { name: "resin_clump", states: { multi_face_direction_bits: 1 } },
+  // 38 TERRACOTTA_MAGENTA
+  magenta_terracotta: { name: "magenta_terracotta" },
+  // 39 TERRACOTTA_LIGHT_BLUE
+  light_blue_terracotta: { name: "light_blue_terracotta" },
+  // 40 TERRACOTTA_YELLOW
+  yellow_terracotta: { name: "yellow_terracotta" },
+  // 41 TERRACOTTA_LIGHT_GREEN
+  lime_terracotta: { name: "lime_terracotta" },
+  // 42 TERRACOTTA_PINK
+  pink_terracotta: { name: "pink_terracotta" },
+  // 43 TERRACOTTA_GRAY
+  gray_terracotta: { name: "gray_terracotta" },
+  cherry_wood: { name: "cherry_wood", states: { pillar_axis: "y" } },
+  tuff: { name: "tuff" },
+  tuff_slab: { name: "tuff_slab", states: { "minecraft:vertical_half": "bottom" } },
+  polished_tuff: { name: "polished_tuff" },
+  polished_tuff_slab: { name: "polished_tuff_slab", states: { "minecraft:vertical_half": "bottom" } },
+  tuff_bricks: { name: "tuff_bricks" },
+  tuff_brick_slab: { name: "tuff_brick_slab", states: { "minecraft:vertical_half": "bottom" } },
+  chiseled_tuff: { name: "chiseled_tuff" },
+  chiseled_tuff_bricks: { name: "chiseled_tuff_bricks" },
+  // 44 TERRACOTTA_LIGHT_GRAY
+  light_gray_terracotta: { name: "light_gray_terracotta" },
+  waxed_exposed_copper: { name: "waxed_exposed_copper" },
+  waxed_exposed_cut_copper: { name: "waxed_exposed_cut_copper" },
+  waxed_exposed_cut_copper_slab: { name: "waxed_exposed_cut_copper_slab", states: { "minecraft:vertical_half": "bottom" } },
+  exposed_copper: { name: "exposed_copper" },
+  exposed_cut_copper: { name: "exposed_cut_copper" },
+  exposed_cut_copper_slab: { name: "exposed_cut_copper_slab", states: { "minecraft:vertical_half": "bottom" } },
+  mud_bricks: { name: "mud_bricks" },
+  mud_brick_slab: { name: "mud_brick_slab", states: { "minecraft:vertical_half": "bottom" } },
+  // 45 TERRACOTTA_CYAN
+  cyan_terracotta: { name: "cyan_terracotta" },
+  mud: { name: "mud" },
+  // 46 TERRACOTTA_PURPLE
+  purple_terracotta: { name: "purple_terracotta" },
+  // 47 TERRACOTTA_BLUE
+  blue_terracotta: { name: "blue_terracotta" },
+  // 48 TERRACOTTA_BROWN
+  brown_terracotta: { name: "brown_terracotta" },
+  dripstone_block: { name: "dripstone_block" },
+  pointed_dripstone: { name: "pointed_dripstone" },
+  // 49 TERRACOTTA_GREEN
+  green_terracotta: { name: "green_terracotta" },
+  // 50 TERRACOTTA_RED
+  red_terracotta: { name: "red_terracotta" },
+  decorated_pot: { name: "decorated_pot" },
+  // 51 TERRACOTTA_BLACK
+  black_terracotta: { name: "black_terracotta" },
+  // 52 CRIMSON_NYLIUM
+  crimson_nylium: { name: "crimson_nylium" },
+  // 53 CRIMSON_STEM
+  crimson_stem: { name: "crimson_stem", states: { pillar_axis: "y" } },
+  stripped_crimson_stem: { name: "stripped_crimson_stem", states: { pillar_axis: "y" } },
+  crimson_planks: { name: "crimson_planks" },
+  crimson_slab: { name: "crimson_slab", states: { "minecraft:vertical_half": "bottom" } },
+  crimson_pressure_plate: { name: "crimson_pressure_plate", states: { redstone_signal: 0 } },
+  // 54 CRIMSON_HYPHAE
+  crimson_hyphae: { name: "crimson_hyphae", states: { pillar_axis: "y" } },
+  stripped_crimson_hyphae: { name: "stripped_crimson_hyphae", states: { pillar_axis: "y" } },
+  // 55 WARPED_NYLIUM
+  warped_nylium: { name: "warped_nylium" },
+  waxed_oxidized_copper: { name: "waxed_oxidized_copper" },
+  waxed_oxidized_cut_copper: { name: "waxed_oxidized_cut_copper" },
+  waxed_oxidized_cut_copper_slab: { name: "waxed_oxidized_cut_copper_slab", states: { "minecraft:vertical_half": "bottom" } },
+  oxidized_copper: { name: "oxidized_copper" },
+  oxidized_cut_copper: { name: "oxidized_cut_copper" },
+  oxidized_cut_copper_slab: { name: "oxidized_cut_copper_slab", states: { "minecraft:vertical_half": "bottom" } },
+  // 56 WARPED_STEM
+  warped_stem: { name: "warped_stem", states: { pillar_axis: "y" } },
+  stripped_warped_stem: { name: "stripped_warped_stem", states: { pillar_axis: "y" } },
+  warped_planks: { name: "warped_planks" },
+  warped_slab: { name: "warped_slab", states: { "minecraft:vertical_half": "bottom" } },
+  warped_pressure_plate: { name: "warped_pressure_plate", states: { redstone_signal: 0 } },
+  waxed_weathered_copper: { name: "waxed_weathered_copper" },
+  waxed_weathered_cut_copper: { name: "waxed_weathered_cut_copper" },
+  waxed_weathered_cut_copper_slab: { name: "waxed_weathered_cut_copper_slab", states: { "minecraft:vertical_half": "bottom" } },
+  weathered_copper: { name: "weathered_copper" },
+  weathered_cut_copper: { name: "weathered_cut_copper" },
+  weathered_cut_copper_slab: { name: "weathered_cut_copper_slab", states: { "minecraft:vertical_half": "bottom" } },
+  // 57 WARPED_HYPHAE
+  warped_hyphae: { name: "warped_hyphae", states: { pillar_axis: "y" } },
+  stripped_warped_hyphae: { name: "stripped_warped_hyphae", states: { pillar_axis: "y" } },
+  // 58 WARPED_WART_BLOCK
+  warped_wart_block: { name: "warped_wart_block" },
+  // 59 DEEPSLATE
+  deepslate: { name: "deepslate", states: { pillar_axis: "y" } },
+  cobbled_deepslate: { name: "cobbled_deepslate" },
+  cobbled_deepslate_slab: { name: "cobbled_deepslate_slab", states: { "minecraft:vertical_half": "bottom" } },
+  polished_deepslate: { name: "polished_deepslate" },
+  deepslate_bricks: { name: "deepslate_bricks" },
+  deepslate_brick_slab: { name: "deepslate_brick_slab", states: { "minecraft:vertical_half": "bottom" } },
+  deepslate_tiles: { name: "deepslate_tiles" },
+  deepslate_tile_slab: { name: "deepslate_tile_slab", states: { "minecraft:vertical_half": "bottom" } },
+  chiseled_deepslate: { name: "chiseled_deepslate" },
+  cracked_deepslate_bricks: { name: "cracked_deepslate_bricks" },
+  cracked_deepslate_tiles: { name: "cracked_deepslate_tiles" },
+  deepslate_coal_ore: { name: "deepslate_coal_ore" },
+  deepslate_copper_ore: { name: "deepslate_copper_ore" },
+  deepslate_iron_ore: { name: "deepslate_iron_ore" },
+  deepslate_gold_ore: { name: "deepslate_gold_ore" },
+  deepslate_redstone_ore: { name: "deepslate_redstone_ore" },
+  deepslate_lapis_ore: { name: "deepslate_lapis_ore" },
+  deepslate_emerald_ore: { name: "deepslate_emerald_ore" },
+  deepslate_diamond_ore: { name: "deepslate_diamond_ore" },
+  // 60 RAW_IRON
+  raw_iron_block: { name: "raw_iron_block" },
+  // 61 GLOW_LICHEN
+  verdant_froglight: { name: "verdant_froglight" },
+  glow_lichen: { name: "glow_lichen", states: { multi_face_direction_bits: 1 } },
+};
+
+// Bedrock tints grass, foliage and water map colors by biome, so these will not match the Java palette.
+const BEDROCK_BIOME_TINTED_BLOCKS = new Set([
+  "grass_block",
+  "oak_leaves", "spruce_leaves", "birch_leaves", "jungle_leaves",
+  "acacia_leaves", "dark_oak_leaves", "mangrove_leaves",
+  "vine", "fern", "short_grass", "tall_grass", "sugar_cane",
+  "water",
+]);
+
+function parseJavaProps(blockName: string): Record<string, string> {
+  const bracketIdx = blockName.indexOf("[");
+  const props: Record<string, string> = {};
+  if (bracketIdx < 0) return props;
+  for (const part of blockName.slice(bracketIdx + 1, -1).split(",")) {
+    const eq = part.indexOf("=");
+    if (eq >= 0) props[part.slice(0, eq).trim().toLowerCase()] = part.slice(eq + 1).trim().toLowerCase();
+  }
+  return props;
+}
+
+// Returns `block: null` for blocks with no Bedrock equivalent.
+//
+// Callers:
+// - src/lib/mcstructureWriter.ts
+// - src/lib/nbtExport.ts
+export function toBedrockBlockState(javaBlockName: string): { block: BedrockBlockState | null; waterlogged: boolean } {
+  const id = normalizeBlockId(javaBlockName);
+  const props = parseJavaProps(javaBlockName);
+  const waterlogged = props.waterlogged === "true";
+  if (!Object.prototype.hasOwnProperty.call(JAVA_TO_BEDROCK, id)) return { block: { name: id }, waterlogged };
+
+  const mapped = JAVA_TO_BEDROCK[id];
+  if (!mapped) return { block: null, waterlogged };
+  if (mapped.states && "pillar_axis" in mapped.states && props.axis) {
+    return { block: { name: mapped.name, states: { ...mapped.states, pillar_axis: props.axis } }, waterlogged };
+  }
+  return { block: mapped, waterlogged };
+}
+
+// Waterlogged blocks render as water on maps, which Bedrock tints by biome as well.
+//
+// Callers:
+// - src/lib/nbtExport.ts
+export function hasBedrockMapColorDifference(javaBlockName: string): boolean {
+  const id = normalizeBlockId(javaBlockName);
+  return BEDROCK_BIOME_TINTED_BLOCKS.has(id) || parseJavaProps(javaBlockName).waterlogged === "true";
+}
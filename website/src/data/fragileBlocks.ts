@@ -4,6 +4,7 @@
  *
  * Callers:
  * - src/Index.tsx
+ * - src/lib/datapackWriter.ts
  * - src/lib/shapeCellRules.ts
  *
  * Notes:
@@ -71,6 +72,7 @@ const FRAGILE_BLOCKS = new Set([
  */
 // Callers:
 // - src/Index.tsx
+// - src/lib/datapackWriter.ts
 // - src/lib/shapeCellRules.ts
 export function isFragileBlock(blockId: string): boolean {
   const name = blockId.includes("[") ? blockId.slice(0, blockId.indexOf("[")) : blockId;
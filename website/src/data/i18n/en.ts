@@ -52,6 +52,7 @@ export const enCatalog = {
     iceWaterTooltip:
       "Ice can be built in place of water or waterlogged blocks, but must be converted to water in-game to get the correct map colors.",
     iceWaterOptionTitle: "{blockId} - {tooltip}",
+    unavailableOptionTitle: "{blockId} - not in {version}",
   },
   presets: {
     label: "Preset:",
@@ -218,19 +219,142 @@ export const enCatalog = {
   },
   upload: {
     title: "Image Preview",
-    placeholder: "Click or drop a 128×128 image",
+    placeholder:
+      "Click or drop an image, a map_#.dat, a structure .nbt or a .mapart.json project; other sizes are fitted to 128×128 maps",
     removeButton: "Remove",
+    saveProjectButton: "Save project",
+    saveProjectTooltip: "Download a .mapart.json with the image and every build setting, to open and rebuild it later.",
     convertButtonConverting: "Converting...",
-    convertButtonNbt: "Generate .nbt",
-    convertButtonZip: "Generate .zip",
+    convertButtonFile: "Generate .{extension}",
+    exportFormatLabel: "Format",
+    exportFormatTooltip: "File format of the generated download.",
+    exportFormatLabels: {
+      nbt: "Structure (.nbt)",
+      litematic: "Litematica (.litematic)",
+      schem: "Sponge schematic v3 (.schem)",
+      schem_v2: "Sponge schematic v2 (.schem)",
+      mcstructure: "Bedrock structure (.mcstructure)",
+      mca: "Region files (.mca)",
+      mcfunction: "Datapack (.mcfunction)",
+    },
+    ditherLabel: "Dithering",
+    ditherTooltip:
+      "How colors outside the map palette are converted.\nError diffusion suits photos; Bayer patterns give a regular texture.",
+    ditherMethodLabels: {
+      none: "No dithering",
+      floyd_steinberg: "Floyd–Steinberg",
+      atkinson: "Atkinson",
+      jarvis_judice_ninke: "Jarvis–Judice–Ninke",
+      bayer_2: "Bayer 2×2",
+      bayer_4: "Bayer 4×4",
+      bayer_8: "Bayer 8×8",
+    },
+    colorMetricLabel: "Color matching",
+    colorMetricTooltip:
+      "How the nearest map color is chosen for colors outside the palette.\nPerceptual metrics keep greens and browns closer to how they look.",
+    colorMetricLabels: {
+      rgb: "RGB distance",
+      cie76: "CIELAB ΔE76",
+      ciede2000: "CIELAB ΔE2000",
+      oklab: "Oklab",
+    },
+    paletteShadeSetLabel: "Palette shades",
+    paletteShadeSetTooltip:
+      "Which shades conversion may use. Only colors with a block assigned in the preset are used.\nDropping the light shade avoids blocks raised above their northern neighbor.",
+    paletteShadeSetLabels: {
+      all: "All shades",
+      no_light: "No light shade",
+      flat_only: "Flat only (no staircase)",
+    },
+    imageFitLabel: "Size",
+    imageFitTooltip:
+      "How the image is brought to whole maps before conversion.\nFit letterboxes, Fill crops the overflow, Stretch ignores the aspect ratio.",
+    imageFitLabels: {
+      none: "Original size",
+      fit: "Fit (letterbox)",
+      fill: "Fill (crop)",
+      stretch: "Stretch",
+    },
+    mapsWideLabel: "Maps wide",
+    mapsTallLabel: "Maps tall",
+    mapsUnit: "maps",
+    resampleFilterLabel: "Resampling",
+    resampleFilterTooltip: "Filter used when scaling.\nNearest keeps pixel art crisp; Lanczos keeps photos sharp.",
+    resampleFilterLabels: {
+      nearest: "Nearest",
+      bilinear: "Bilinear",
+      lanczos: "Lanczos",
+    },
+    padColorLabel: "Pad color",
+    padColorTooltip: "Fill the letterbox bars with a color instead of leaving them transparent.",
+    cropLabel: "Crop",
+    cropTooltip: "Pixels trimmed from the left, top, right and bottom edges before scaling.",
+    cropEdgeLabels: {
+      left: "Crop left",
+      top: "Crop top",
+      right: "Crop right",
+      bottom: "Crop bottom",
+    },
+    structureBlockTilesLabel: "48³ pieces",
+    structureBlockTilesTooltip:
+      "Split each .nbt into pieces of at most 48×48×48 so a structure block can load them without mods.\nPieces are named by their offset; the included manifest lists where each one goes.",
+    mapDatLabel: "Map item (.dat)",
+    mapDatTooltip:
+      "Also export a locked map_<id>.dat per map with the exact colors.\nDrop it into the world's data/ folder and raise data/idcounts.dat past the last id.",
+    mapIdLabel: "First map id",
+    mapScaleLabel: "Map scale",
+    mapScaleLabels: ["1:1", "1:2", "1:4", "1:8", "1:16"],
+    mapDimensionLabel: "Map dimension",
+    mapDimensionLabels: {
+      "minecraft:overworld": "Overworld",
+      "minecraft:the_nether": "Nether",
+      "minecraft:the_end": "End",
+    },
+    mapCenterLabel: "Center",
+    mapCenterTooltip: "Block coordinates of the first map's center. Other maps of a wall continue east and south.",
+    mapCenterXLabel: "Center X",
+    mapCenterZLabel: "Center Z",
+    regionPlacementLabel: "World position",
+    regionPlacementTooltip:
+      "Map grid cell the art is built in, and the Y of its lowest block.\nCopy the region/ files into the save's region/ folder; they replace any region file with the same name.",
+    regionMapXLabel: "Map grid X",
+    regionMapZLabel: "Map grid Z",
+    regionBaseYLabel: "Base Y",
+    regionCornerText: "corner {x}, {z}",
+    commandChainLabel: "Commands per tick",
+    commandChainTooltip:
+      "The world's maxCommandChainLength game rule. Longer builds are split into functions that run one tick apart.\nRun /function mapart:<name>/build where the lowest north-west block should go.",
+    targetVersionLabel: "Minecraft version",
+    targetVersionTooltip:
+      "Java release the download is made for.\nSets the DataVersion, hides blocks and map colors that release does not have, and writes renamed blocks under their old id.",
+    targetVersionLabels: {
+      "1.16.5": "Java 1.16.5",
+      "1.18.2": "Java 1.18.2",
+      "1.20.1": "Java 1.20.1",
+      "1.20.4": "Java 1.20.4",
+      "1.21.1": "Java 1.21.1",
+      latest: "Latest (1.21.5)",
+    },
   },
   preview: {
     missingBlockAssignments: {
       one: "{count} color in the image has no block assigned in the preset.",
       other: "{count} colors in the image have no block assigned in the preset.",
     } as PluralForms,
+    versionUnavailableAssignments: {
+      one: "{count} color in the image has no block or map color in {version}.",
+      other: "{count} colors in the image have no block or map color in {version}.",
+    } as PluralForms,
     northRowAlignmentInfo:
       "Note: Align 128x128 color area to the map grid.\nExpect 1 extra top north row (NBT is 128x129).",
+    animationFramesInfo: {
+      one: "{count} frame found.",
+      other: "{count} frames found; the preview shows the first.\nEach frame is converted with the same settings and exported as a numbered structure in one zip.",
+    } as PluralForms,
+    flatAlteredPixelsInfo: {
+      one: "Flat only: {count} pixel ({percent}%) differs from a conversion using every shade.\nThe map can be built flat, without a staircase.",
+      other: "Flat only: {count} pixels ({percent}%) differ from a conversion using every shade.\nThe map can be built flat, without a staircase.",
+    } as PluralForms,
     iceConversionInfo:
       "Note: Ice has been selected for water-color.\nConvert it to water in-game for colors to be accurate.",
     noFillerNorthRowLine: "North-row shading requires filler placements.",
@@ -318,10 +442,33 @@ export const enCatalog = {
     unableToCreateImageCanvas: "Unable to create image canvas.",
     failedToDecodeImage: "Failed to decode image.",
     browserDecodeFailure: "Unable to decode this image format in the browser.",
+    headlessUnsupportedFormat: "Only PNG, GIF and TIFF images can be decoded outside the browser.",
+    flatModeUnavailable: "This image has height changes, so it cannot be built flat. Choose another build mode, or convert with flat-only shades.",
     tiffNoImageData: "TIFF file contains no image data.",
+    gifInvalid: "GIF file is invalid or contains no frames.",
+    gifTruncated: "GIF file ends unexpectedly.",
+    pngInvalid: "PNG file is invalid or damaged.",
+    nbtInvalid: "NBT file is invalid or damaged.",
+    nbtTruncated: "NBT file ends unexpectedly.",
+    mapDatNoColors: "This .dat file is not a map (no 128×128 colors array found).",
+    mapDatUnknownColor: "Map uses color id {id}, which is not in this palette.",
+    unknownPreset: "Unknown preset \"{name}\". Built-in presets are {names}.",
+    structureInvalid: "This .nbt file is not a structure (no size, palette or blocks found).",
+    projectInvalid: "This .json file is not a map art project.",
+    projectTooNew: "This project was saved by a newer version of the page (project version {version}).",
+    structureTooLarge: "Structure is larger than 16×16 maps.",
+    structureEmpty: "Structure has no blocks that show on a map.",
+    regionUnsupportedVersion: "Region files can only be written for 1.18 or newer.",
+    regionUnsupportedShape: "Region files hold the finished build, so they need a still image and a single-pass build mode.",
+    regionOutOfBounds: "The build would span Y {minY} to {maxY}, outside the world height ({worldMinY} to {worldMaxY}).",
+    datapackUnsupportedShape: "Datapacks build one image; export animation frames one at a time.",
+    frameRejected: "Frame {frame} cannot be converted:",
+    frameMapCountMismatch: "Frame {frame} covers {count} maps but the first frame covers {firstCount}. Every frame must be the same size.",
+    emptyConversionPalette: "No colors are left to convert this image to: the preset has no blocks for the chosen shades and target version. Assign blocks to some colors first.",
     genericDecodeFailure: "Unable to decode this image format.",
     conversionFailed: "Conversion failed",
-    imageSizeError: "Image must be 128×128 pixels (got {width}×{height})",
+    workerFailed: "The background converter stopped unexpectedly. Try again.",
+    imageSizeError: "Image width and height must be multiples of 128 pixels (got {width}×{height}). Choose a size option to fit it.",
     unsupportedPaletteColors: {
       one: "Found {count} color not in Minecraft map palette:\n\n{colors}{ellipsis}",
       other: "Found {count} colors not in Minecraft map palette:\n\n{colors}{ellipsis}",
@@ -340,6 +487,34 @@ export const enCatalog = {
       other: "{count} fewer unique colors than source image.",
     } as PluralForms,
     lossyFormatHint: "This is likely due to {formatLabel} being a lossy format.",
+    renderMismatch: {
+      one: "Render check: {count} pixel would not match the image in-game (first at x={x}, z={z}).",
+      other: "Render check: {count} pixels would not match the image in-game (first at x={x}, z={z}).",
+    } as PluralForms,
+    bedrockUnavailableBlocks: {
+      one: "{count} block has no Bedrock equivalent and was left out: {blocks}",
+      other: "{count} blocks have no Bedrock equivalent and were left out: {blocks}",
+    } as PluralForms,
+    bedrockMapColorMismatch: {
+      one: "{count} block shows a different map color on Bedrock (biome tint): {blocks}",
+      other: "{count} blocks show a different map color on Bedrock (biome tint): {blocks}",
+    } as PluralForms,
+    unobtainableShade: {
+      one: "{count} map pixel uses the darkest shade, which cannot be placed in survival.",
+      other: "{count} map pixels use the darkest shade, which cannot be placed in survival.",
+    } as PluralForms,
+    unobtainableShadeConverted: {
+      one: "{count} map pixel used the unobtainable darkest shade and was moved to the dark shade.",
+      other: "{count} map pixels used the unobtainable darkest shade and were moved to the dark shade.",
+    } as PluralForms,
+    unresolvedStructureBlocks: {
+      one: "{count} block has no known map color and was left transparent: {blocks}",
+      other: "{count} blocks have no known map color and were left transparent: {blocks}",
+    } as PluralForms,
+    versionUnavailableBlocks: {
+      one: "{count} block does not exist in {version}; the file may fail to load: {blocks}",
+      other: "{count} blocks do not exist in {version}; the file may fail to load: {blocks}",
+    } as PluralForms,
   },
 } as const;
 
@@ -45,6 +45,7 @@ export const esCatalog = {
     iceWaterTooltip:
       "El hielo puede colocarse en lugar de agua o bloques anegados, pero debe convertirse a agua dentro del juego para obtener los colores correctos del mapa.",
     iceWaterOptionTitle: "{blockId} - {tooltip}",
+    unavailableOptionTitle: "{blockId} - no existe en {version}",
   },
   presets: {
     label: "Preset:",
@@ -214,19 +215,142 @@ export const esCatalog = {
   },
   upload: {
     title: "Vista previa de imagen",
-    placeholder: "Haz clic o suelta una imagen de 128×128",
+    placeholder:
+      "Haz clic o suelta una imagen, un map_#.dat, una estructura .nbt o un proyecto .mapart.json; otros tamaños se ajustan a mapas de 128×128",
     removeButton: "Quitar",
+    saveProjectButton: "Guardar proyecto",
+    saveProjectTooltip: "Descarga un .mapart.json con la imagen y todos los ajustes de construcción, para abrirlo y reconstruirlo más tarde.",
     convertButtonConverting: "Convirtiendo...",
-    convertButtonNbt: "Generar .nbt",
-    convertButtonZip: "Generar .zip",
+    convertButtonFile: "Generar .{extension}",
+    exportFormatLabel: "Formato",
+    exportFormatTooltip: "Formato de archivo de la descarga generada.",
+    exportFormatLabels: {
+      nbt: "Estructura (.nbt)",
+      litematic: "Litematica (.litematic)",
+      schem: "Esquemático Sponge v3 (.schem)",
+      schem_v2: "Esquemático Sponge v2 (.schem)",
+      mcstructure: "Estructura de Bedrock (.mcstructure)",
+      mca: "Archivos de región (.mca)",
+      mcfunction: "Datapack (.mcfunction)",
+    },
+    ditherLabel: "Tramado",
+    ditherTooltip:
+      "Cómo se convierten los colores fuera de la paleta del mapa.\nLa difusión de error va bien con fotos; los patrones Bayer dan una textura regular.",
+    ditherMethodLabels: {
+      none: "Sin tramado",
+      floyd_steinberg: "Floyd–Steinberg",
+      atkinson: "Atkinson",
+      jarvis_judice_ninke: "Jarvis–Judice–Ninke",
+      bayer_2: "Bayer 2×2",
+      bayer_4: "Bayer 4×4",
+      bayer_8: "Bayer 8×8",
+    },
+    colorMetricLabel: "Coincidencia de color",
+    colorMetricTooltip:
+      "Cómo se elige el color de mapa más cercano para los colores fuera de la paleta.\nLas métricas perceptuales mantienen verdes y marrones más fieles a cómo se ven.",
+    colorMetricLabels: {
+      rgb: "Distancia RGB",
+      cie76: "CIELAB ΔE76",
+      ciede2000: "CIELAB ΔE2000",
+      oklab: "Oklab",
+    },
+    paletteShadeSetLabel: "Tonos de la paleta",
+    paletteShadeSetTooltip:
+      "Qué tonos puede usar la conversión. Solo se usan los colores con un bloque asignado en el preset.\nSin el tono claro no hay bloques más altos que su vecino del norte.",
+    paletteShadeSetLabels: {
+      all: "Todos los tonos",
+      no_light: "Sin tono claro",
+      flat_only: "Solo plano (sin escalera)",
+    },
+    imageFitLabel: "Tamaño",
+    imageFitTooltip:
+      "Cómo se ajusta la imagen a mapas completos antes de la conversión.\nAjustar añade bandas, Rellenar recorta lo que sobra, Estirar ignora la proporción.",
+    imageFitLabels: {
+      none: "Tamaño original",
+      fit: "Ajustar (bandas)",
+      fill: "Rellenar (recortar)",
+      stretch: "Estirar",
+    },
+    mapsWideLabel: "Mapas de ancho",
+    mapsTallLabel: "Mapas de alto",
+    mapsUnit: "mapas",
+    resampleFilterLabel: "Remuestreo",
+    resampleFilterTooltip: "Filtro usado al escalar.\nVecino más cercano mantiene nítido el pixel art; Lanczos mantiene nítidas las fotos.",
+    resampleFilterLabels: {
+      nearest: "Vecino más cercano",
+      bilinear: "Bilineal",
+      lanczos: "Lanczos",
+    },
+    padColorLabel: "Color de relleno",
+    padColorTooltip: "Rellena las bandas con un color en lugar de dejarlas transparentes.",
+    cropLabel: "Recortar",
+    cropTooltip: "Píxeles recortados de los bordes izquierdo, superior, derecho e inferior antes de escalar.",
+    cropEdgeLabels: {
+      left: "Recortar izquierda",
+      top: "Recortar arriba",
+      right: "Recortar derecha",
+      bottom: "Recortar abajo",
+    },
+    structureBlockTilesLabel: "Piezas de 48³",
+    structureBlockTilesTooltip:
+      "Divide cada .nbt en piezas de como máximo 48×48×48 para que un bloque de estructuras pueda cargarlas sin mods.\nLas piezas se nombran por su desplazamiento; el manifiesto incluido indica dónde va cada una.",
+    mapDatLabel: "Mapa (.dat)",
+    mapDatTooltip:
+      "Exporta también un map_<id>.dat bloqueado por mapa con los colores exactos.\nColócalo en la carpeta data/ del mundo y sube data/idcounts.dat por encima del último id.",
+    mapIdLabel: "Primer id de mapa",
+    mapScaleLabel: "Escala del mapa",
+    mapScaleLabels: ["1:1", "1:2", "1:4", "1:8", "1:16"],
+    mapDimensionLabel: "Dimensión del mapa",
+    mapDimensionLabels: {
+      "minecraft:overworld": "Superficie",
+      "minecraft:the_nether": "Nether",
+      "minecraft:the_end": "End",
+    },
+    mapCenterLabel: "Centro",
+    mapCenterTooltip: "Coordenadas del centro del primer mapa. Los demás mapas de un muro siguen hacia el este y el sur.",
+    mapCenterXLabel: "Centro X",
+    mapCenterZLabel: "Centro Z",
+    regionPlacementLabel: "Posición en el mundo",
+    regionPlacementTooltip:
+      "Celda de la cuadrícula de mapas donde se construye el arte y la Y de su bloque más bajo.\nCopia los archivos de region/ en la carpeta region/ del mundo; reemplazan cualquier archivo de región con el mismo nombre.",
+    regionMapXLabel: "Cuadrícula X",
+    regionMapZLabel: "Cuadrícula Z",
+    regionBaseYLabel: "Y base",
+    regionCornerText: "esquina {x}, {z}",
+    commandChainLabel: "Comandos por tick",
+    commandChainTooltip:
+      "La regla maxCommandChainLength del mundo. Las construcciones más largas se dividen en funciones que se ejecutan con un tick de diferencia.\nEjecuta /function mapart:<nombre>/build donde deba ir el bloque noroeste más bajo.",
+    targetVersionLabel: "Versión de Minecraft",
+    targetVersionTooltip:
+      "Versión de Java para la que se genera la descarga.\nFija el DataVersion, oculta los bloques y colores de mapa que esa versión no tiene y escribe los bloques renombrados con su id antiguo.",
+    targetVersionLabels: {
+      "1.16.5": "Java 1.16.5",
+      "1.18.2": "Java 1.18.2",
+      "1.20.1": "Java 1.20.1",
+      "1.20.4": "Java 1.20.4",
+      "1.21.1": "Java 1.21.1",
+      latest: "Última (1.21.5)",
+    },
   },
   preview: {
     missingBlockAssignments: {
       one: "{count} color de la imagen no tiene bloque asignado en el preset.",
       other: "{count} colores de la imagen no tienen bloque asignado en el preset.",
     } as PluralForms,
+    versionUnavailableAssignments: {
+      one: "{count} color de la imagen no tiene bloque ni color de mapa en {version}.",
+      other: "{count} colores de la imagen no tienen bloque ni color de mapa en {version}.",
+    } as PluralForms,
     northRowAlignmentInfo:
       "Nota: Alinea el área de color 128x128 con la cuadrícula del mapa.\nEspera 1 fila norte adicional arriba (el NBT es 128x129).",
+    animationFramesInfo: {
+      one: "Se encontró {count} fotograma.",
+      other: "Se encontraron {count} fotogramas; la vista previa muestra el primero.\nCada fotograma se convierte con los mismos ajustes y se exporta como una estructura numerada en un zip.",
+    } as PluralForms,
+    flatAlteredPixelsInfo: {
+      one: "Solo plano: {count} píxel ({percent}%) difiere de una conversión con todos los tonos.\nEl mapa se puede construir plano, sin escalera.",
+      other: "Solo plano: {count} píxeles ({percent}%) difieren de una conversión con todos los tonos.\nEl mapa se puede construir plano, sin escalera.",
+    } as PluralForms,
     iceConversionInfo:
       "Nota: Se ha seleccionado hielo para el color del agua.\nConviértelo en agua dentro del juego para que los colores sean correctos.",
     noFillerNorthRowLine: "El sombreado de la fila norte requiere colocaciones de relleno.",
@@ -314,10 +438,33 @@ export const esCatalog = {
     unableToCreateImageCanvas: "No se pudo crear el lienzo de la imagen.",
     failedToDecodeImage: "No se pudo decodificar la imagen.",
     browserDecodeFailure: "No se puede decodificar este formato de imagen en el navegador.",
+    headlessUnsupportedFormat: "Fuera del navegador solo se pueden decodificar imágenes PNG, GIF y TIFF.",
+    flatModeUnavailable: "Esta imagen tiene cambios de altura, así que no se puede construir plana. Elige otro modo de construcción o convierte solo con tonos planos.",
     tiffNoImageData: "El archivo TIFF no contiene datos de imagen.",
+    gifInvalid: "El archivo GIF no es válido o no contiene fotogramas.",
+    gifTruncated: "El archivo GIF termina de forma inesperada.",
+    pngInvalid: "El archivo PNG no es válido o está dañado.",
+    nbtInvalid: "El archivo NBT no es válido o está dañado.",
+    nbtTruncated: "El archivo NBT termina de forma inesperada.",
+    mapDatNoColors: "Este archivo .dat no es un mapa (no se encontró una matriz de colores de 128×128).",
+    mapDatUnknownColor: "El mapa usa el id de color {id}, que no está en esta paleta.",
+    unknownPreset: "Preset desconocido \"{name}\". Los presets incluidos son {names}.",
+    structureInvalid: "Este archivo .nbt no es una estructura (no tiene tamaño, paleta o bloques).",
+    projectInvalid: "Este archivo .json no es un proyecto de map art.",
+    projectTooNew: "Este proyecto se guardó con una versión más reciente de la página (versión de proyecto {version}).",
+    structureTooLarge: "La estructura es mayor de 16×16 mapas.",
+    structureEmpty: "La estructura no tiene bloques que se vean en un mapa.",
+    regionUnsupportedVersion: "Los archivos de región solo pueden escribirse para 1.18 o posterior.",
+    regionUnsupportedShape: "Los archivos de región contienen la construcción terminada, así que necesitan una imagen fija y un modo de construcción de una sola pasada.",
+    regionOutOfBounds: "La construcción ocuparía Y {minY} a {maxY}, fuera de la altura del mundo ({worldMinY} a {worldMaxY}).",
+    datapackUnsupportedShape: "Los datapacks construyen una sola imagen; exporta los fotogramas de la animación uno a uno.",
+    frameRejected: "El fotograma {frame} no se puede convertir:",
+    frameMapCountMismatch: "El fotograma {frame} cubre {count} mapas pero el primero cubre {firstCount}. Todos los fotogramas deben tener el mismo tamaño.",
+    emptyConversionPalette: "No quedan colores a los que convertir esta imagen: el preset no tiene bloques para los tonos y la versión elegidos. Asigna bloques a algunos colores primero.",
     genericDecodeFailure: "No se puede decodificar este formato de imagen.",
     conversionFailed: "La conversión falló",
-    imageSizeError: "La imagen debe ser de 128×128 píxeles (se obtuvo {width}×{height})",
+    workerFailed: "El conversor en segundo plano se detuvo inesperadamente. Inténtalo de nuevo.",
+    imageSizeError: "El ancho y el alto de la imagen deben ser múltiplos de 128 píxeles (se obtuvo {width}×{height}). Elige una opción de tamaño para ajustarla.",
     unsupportedPaletteColors: {
       one: "Se encontró {count} color que no está en la paleta de mapas de Minecraft:\n\n{colors}{ellipsis}",
       other: "Se encontraron {count} colores que no están en la paleta de mapas de Minecraft:\n\n{colors}{ellipsis}",
@@ -336,5 +483,33 @@ export const esCatalog = {
       other: "{count} colores únicos menos que en la imagen fuente.",
     } as PluralForms,
     lossyFormatHint: "Esto probablemente se debe a que {formatLabel} es un formato con pérdida.",
+    renderMismatch: {
+      one: "Comprobación de renderizado: {count} píxel no coincidiría con la imagen en el juego (el primero en x={x}, z={z}).",
+      other: "Comprobación de renderizado: {count} píxeles no coincidirían con la imagen en el juego (el primero en x={x}, z={z}).",
+    } as PluralForms,
+    bedrockUnavailableBlocks: {
+      one: "{count} bloque no tiene equivalente en Bedrock y se omitió: {blocks}",
+      other: "{count} bloques no tienen equivalente en Bedrock y se omitieron: {blocks}",
+    } as PluralForms,
+    bedrockMapColorMismatch: {
+      one: "{count} bloque muestra otro color de mapa en Bedrock (tinte de bioma): {blocks}",
+      other: "{count} bloques muestran otro color de mapa en Bedrock (tinte de bioma): {blocks}",
+    } as PluralForms,
+    unobtainableShade: {
+      one: "{count} píxel del mapa usa el tono más oscuro, que no se puede colocar en supervivencia.",
+      other: "{count} píxeles del mapa usan el tono más oscuro, que no se puede colocar en supervivencia.",
+    } as PluralForms,
+    unobtainableShadeConverted: {
+      one: "{count} píxel del mapa usaba el tono más oscuro no obtenible y se pasó al tono oscuro.",
+      other: "{count} píxeles del mapa usaban el tono más oscuro no obtenible y se pasaron al tono oscuro.",
+    } as PluralForms,
+    unresolvedStructureBlocks: {
+      one: "{count} bloque no tiene un color de mapa conocido y se dejó transparente: {blocks}",
+      other: "{count} bloques no tienen un color de mapa conocido y se dejaron transparentes: {blocks}",
+    } as PluralForms,
+    versionUnavailableBlocks: {
+      one: "{count} bloque no existe en {version}; el archivo podría no cargar: {blocks}",
+      other: "{count} bloques no existen en {version}; el archivo podría no cargar: {blocks}",
+    } as PluralForms,
   },
 } satisfies MessageCatalog;
@@ -0,0 +1,206 @@
+/**
+ * Public API:
+ * - getDataVersion()
+ * - getDatapackFormat()
+ * - isBlockAvailable()
+ * - isBaseColorAvailable()
+ * - getAvailableBlockMapping()
+ * - toVersionBlockName()
+ *
+ * Callers:
+ * - src/Index.tsx
+ * - src/lib/headlessConversion.ts
+ * - src/lib/nbtExport.ts
+ *
+ * Notes:
+ * - Covers the blocks in `BASE_COLORS[].blocks` and `EXCLUDED_BLOCKS` that were added after 1.16. Each rule names
+ *   the first offered version that has the block, so 1.17 blocks start at 1.18.2. Blocks outside the rules
+ *   (custom fillers included) are treated as available everywhere.
+ * - Map colors 59-61 (DEEPSLATE, RAW_IRON, GLOW_LICHEN) only exist since 1.17; older maps cannot show them.
+ * - Renamed blocks keep their current id everywhere else and are only written with the old id on export.
+ */
+import { normalizeBlockId } from "@/lib/blockId";
+import { MinecraftVersion } from "@/lib/conversionTypes";
+
+const VERSION_ORDER: MinecraftVersion[] = Object.values(MinecraftVersion);
+
+const DATA_VERSIONS: Record<MinecraftVersion, number> = {
+  [MinecraftVersion.V1_16_5]: 2586,
+  [MinecraftVersion.V1_18_2]: 2975,
+  [MinecraftVersion.V1_20_1]: 3465,
+  [MinecraftVersion.V1_20_4]: 3700,
+  [MinecraftVersion.V1_21_1]: 3955,
+  // 1.21.5, the release that added wildflowers and leaf_litter.
+  [MinecraftVersion.Latest]: 4325,
+};
+
+const DATAPACK_FORMATS: Record<MinecraftVersion, number> = {
+  [MinecraftVersion.V1_16_5]: 6,
+  [MinecraftVersion.V1_18_2]: 9,
+  [MinecraftVersion.V1_20_1]: 15,
+  [MinecraftVersion.V1_20_4]: 26,
+  [MinecraftVersion.V1_21_1]: 48,
+  [MinecraftVersion.Latest]: 71,
+};
+
+// Newest rules first: the first match wins, so the 1.21 copper blocks (`copper_trapdoor`, `chiseled_copper`, ...) are
+// not caught by the 1.17 copper rule.
+const BLOCK_RULES: { since: MinecraftVersion; blocks: (string | RegExp)[] }[] = [
+  // 1.21.2 - 1.21.5
+  {
+    since: MinecraftVersion.Latest,
+    blocks: [
+      /^(stripped_)?pale_oak_/,
+      /^pale_moss_/,
+      /^resin_/,
+      "creaking_heart",
+      "closed_eyeblossom",
+      "open_eyeblossom",
+      "wildflowers",
+      "leaf_litter",
+    ],
+  },
+  // 1.21
+  {
+    since: MinecraftVersion.V1_21_1,
+    blocks: [
+      /tuff_|_tuff/,
+      /copper_(bulb|door|grate|trapdoor)$/,
+      /chiseled_copper$/,
+      "crafter",
+      "heavy_core",
+      "trial_spawner",
+      "vault",
+    ],
+  },
+  // 1.19 and 1.20
+  {
+    since: MinecraftVersion.V1_20_1,
+    blocks: [
+      /^(stripped_)?mangrove_/,
+      /^(stripped_)?cherry_/,
+      /^bamboo_(planks|button|trapdoor)$/,
+      /_hanging_sign$/,
+      /^mud/,
+      /froglight$/,
+      /^sculk_(catalyst|shrieker|vein)$/,
+      "sculk",
+      "packed_mud",
+      "reinforced_deepslate",
+      "calibrated_sculk_sensor",
+      "chiseled_bookshelf",
+      "decorated_pot",
+      "pink_petals",
+      "piglin_head",
+      "sniffer_egg",
+      "suspicious_sand",
+    ],
+  },
+  // 1.17
+  {
+    since: MinecraftVersion.V1_18_2,
+    blocks: [
+      /(^|_)candle$/,
+      /copper/,
+      /deepslate/,
+      /amethyst/,
+      /dripstone/,
+      /^moss_/,
+      /azalea_leaves$/,
+      /lightning_rod$/,
+      /^raw_\w+_block$/,
+      "calcite",
+      "glow_lichen",
+      "hanging_roots",
+      "powder_snow",
+      "rooted_dirt",
+      "sculk_sensor",
+      "smooth_basalt",
+      "tinted_glass",
+      "tuff",
+    ],
+  },
+];
+
+// Blocks renamed since 1.16: current id, old id and the first offered version with the current id.
+const RENAMED_BLOCKS: { id: string; oldId: string; since: MinecraftVersion }[] = [
+  { id: "short_grass", oldId: "grass", since: MinecraftVersion.V1_20_4 },
+  { id: "dirt_path", oldId: "grass_path", since: MinecraftVersion.V1_18_2 },
+];
+
+// Map color ids added after 1.16.
+const BASE_COLOR_SINCE: Partial<Record<number, MinecraftVersion>> = {
+  59: MinecraftVersion.V1_18_2,
+  60: MinecraftVersion.V1_18_2,
+  61: MinecraftVersion.V1_18_2,
+};
+
+function isAtLeast(version: MinecraftVersion, since: MinecraftVersion): boolean {
+  return VERSION_ORDER.indexOf(version) >= VERSION_ORDER.indexOf(since);
+}
+
+function getRenamedBlock(id: string, version: MinecraftVersion) {
+  return RENAMED_BLOCKS.find(rename => rename.id === id && !isAtLeast(version, rename.since));
+}
+
+// Callers:
+// - src/lib/nbtExport.ts
+export function getDataVersion(version: MinecraftVersion): number {
+  return DATA_VERSIONS[version];
+}
+
+// Callers:
+// - src/lib/nbtExport.ts
+export function getDatapackFormat(version: MinecraftVersion): number {
+  return DATAPACK_FORMATS[version];
+}
+
+// Renamed blocks count as available: they are written under their old id.
+//
+// Callers:
+// - src/Index.tsx
+// - src/data/javaVersions.ts
+// - src/lib/nbtExport.ts
+export function isBlockAvailable(javaBlockName: string, version: MinecraftVersion): boolean {
+  const id = normalizeBlockId(javaBlockName);
+  if (getRenamedBlock(id, version)) return true;
+  const rule = BLOCK_RULES.find(candidate =>
+    candidate.blocks.some(block => (typeof block === "string" ? block === id : block.test(id))),
+  );
+  return !rule || isAtLeast(version, rule.since);
+}
+
+// Callers:
+// - src/data/javaVersions.ts
+export function isBaseColorAvailable(baseIndex: number, version: MinecraftVersion): boolean {
+  const since = BASE_COLOR_SINCE[baseIndex];
+  return !since || isAtLeast(version, since);
+}
+
+// Drops the assignments a version cannot place, so those colors leave the palette and show as unassigned.
+//
+// Callers:
+// - src/Index.tsx
+// - src/lib/headlessConversion.ts
+export function getAvailableBlockMapping(
+  blocks: Record<number, string>,
+  version: MinecraftVersion,
+): Record<number, string> {
+  const available: Record<number, string> = {};
+  for (const [idx, block] of Object.entries(blocks)) {
+    if (block && isBaseColorAvailable(Number(idx), version) && isBlockAvailable(block, version)) {
+      available[Number(idx)] = block;
+    }
+  }
+  return available;
+}
+
+// Keeps the namespace and properties of the original entry.
+//
+// Callers:
+// - src/lib/nbtExport.ts
+export function toVersionBlockName(javaBlockName: string, version: MinecraftVersion): string {
+  const rename = getRenamedBlock(normalizeBlockId(javaBlockName), version);
+  if (!rename) return javaBlockName;
+  return javaBlockName.replace(new RegExp(`(^|:)${rename.id}(?=\\[|$)`, "i"), `$1${rename.oldId}`);
+}
@@ -15,12 +15,18 @@
  * - src/data/i18n/*
  * - src/data/excludedColors.ts
  * - src/data/presets.ts
+ * - src/lib/colorDistance.ts
  * - src/lib/colorGridTypes.ts
  * - src/lib/colorGridParsing.ts
+ * - src/lib/conversionTypes.ts
  * - src/lib/fillerRules.ts
+ * - src/lib/headlessConversion.ts
+ * - src/lib/mapDatWriter.ts
+ * - src/lib/mapRenderSimulation.ts
  * - src/lib/messages.ts
  * - src/lib/materialRules.ts
  * - src/lib/shapeCellRules.ts
+ * - src/lib/shapeGeneration.ts
  */
 
 /* Intentional omission policy (enforced/audited by `bun run audit:mapcolors`):
@@ -56,7 +62,10 @@
 // Callers:
 // - src/Index.tsx
 // - src/data/i18n/*
+// - src/lib/colorGridParsing.ts
 // - src/lib/colorGridTypes.ts
+// - src/lib/conversionTypes.ts
+// - src/lib/mapRenderSimulation.ts
 // - src/lib/messages.ts
 // Index 0=dark, 1=flat, 2=light, 3=darkest (not obtainable)
 export type Shade = 0 | 1 | 2 | 3;
@@ -77,6 +86,8 @@ interface BaseColor {
 // Callers:
 // - src/Index.tsx
 // - src/lib/colorGridTypes.ts
+// - src/lib/headlessConversion.ts
+// - src/lib/mapRenderSimulation.ts
 export const WATER_BASE_INDEX = 12;
 
 // 62 base colors (index 0 = transparent/NONE)
@@ -87,8 +98,12 @@ export const WATER_BASE_INDEX = 12;
 // - src/data/presets.ts
 // - src/lib/colorGridParsing.ts
 // - src/lib/fillerRules.ts
+// - src/lib/headlessConversion.ts
+// - src/lib/mapDatWriter.ts
+// - src/lib/mapRenderSimulation.ts
 // - src/lib/materialRules.ts
 // - src/lib/shapeCellRules.ts
+// - src/lib/shapeGeneration.ts
 export const BASE_COLORS: BaseColor[] = [
   { name: "NONE", r: 0, g: 0, b: 0, blocks: ["glass", "glass_pane", "iron_bars", "chain", "end_rod", "ladder", "rail", "powered_rail", "detector_rail", "activator_rail", "lever", "torch", "wall_torch", "soul_torch", "soul_wall_torch", "redstone_wire", "repeater", "comparator", "tripwire_hook", "tripwire", "flower_pot", "cake"] },
   { name: "GRASS", r: 127, g: 178, b: 56, blocks: ["grass_block", "slime_block"] },
@@ -163,6 +178,7 @@ export interface ColorShade {
 }
 
 // Callers:
+// - src/lib/colorDistance.ts
 // - src/lib/colorGridParsing.ts
 export function packRgb(r: number, g: number, b: number): number {
   return (r << 16) | (g << 8) | b;
@@ -178,6 +194,7 @@ export function unpackRgb(key: number): [number, number, number] {
 // Get the shaded RGB for display
 // Callers:
 // - src/Index.tsx
+// - src/lib/colorGridParsing.ts
 export function getShadedRgb(color: ColorShade): [number, number, number] {
   const { r, g, b } = BASE_COLORS[color.baseIndex];
   const m = SHADE_MULTIPLIERS[color.shade];
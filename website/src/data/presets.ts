@@ -5,15 +5,28 @@
  * - getBuiltinPreset
  * - isAutoCustomPresetName
  * - loadPresets()
+ * - canonicalizePreset()
  *
  * Callers:
  * - src/Index.tsx
+ * - src/cli/conversionSettings.ts
+ * - src/cli/png2nbt.ts
+ * - src/cli/png2nbtServer.ts
+ * - src/lib/headlessConversion.ts
+ * - src/lib/projectFile.ts
+ * - src/library/index.ts
  */
 import { BASE_COLORS } from "@/data/mapColors";
 import { canonicalizeBlockEntry } from "@/lib/blockId";
 
 // Callers:
 // - src/Index.tsx
+// - src/cli/conversionSettings.ts
+// - src/cli/png2nbt.ts
+// - src/cli/png2nbtServer.ts
+// - src/lib/headlessConversion.ts
+// - src/lib/projectFile.ts
+// - src/library/index.ts
 export interface Preset {
   name: string;
   blocks: Record<number, string>;
@@ -21,6 +34,11 @@ export interface Preset {
 
 // Callers:
 // - src/Index.tsx
+// - src/cli/conversionSettings.ts
+// - src/cli/png2nbt.ts
+// - src/cli/png2nbtServer.ts
+// - src/lib/projectFile.ts
+// - src/library/index.ts
 export const BUILTIN_PRESET_NAMES = ["Fullblock", "Carpets", "PistonClear"] as const;
 
 function buildPistonClearPreset(): Preset {
@@ -177,7 +195,14 @@ const BUILTIN_BUILDERS: Record<string, () => Preset> = {
   Fullblock: buildFullblockPreset,
 };
 
-function canonicalizePreset(preset: Preset): Preset {
+// Callers:
+// - src/cli/conversionSettings.ts
+// - src/cli/png2nbt.ts
+// - src/cli/png2nbtServer.ts
+// - src/data/presets.ts
+// - src/lib/projectFile.ts
+// - src/library/index.ts
+export function canonicalizePreset(preset: Preset): Preset {
   const blocks = Object.fromEntries(
     Object.entries(preset.blocks).map(([baseIndex, block]) => [Number(baseIndex), canonicalizeBlockEntry(block)]),
   ) as Record<number, string>;
@@ -186,6 +211,10 @@ function canonicalizePreset(preset: Preset): Preset {
 
 // Callers:
 // - src/Index.tsx
+// - src/cli/png2nbt.ts
+// - src/cli/png2nbtServer.ts
+// - src/lib/projectFile.ts
+// - src/library/index.ts
 export const getBuiltinPreset = (name: string): Preset | null => BUILTIN_BUILDERS[name]?.() ?? null;
 // Callers:
 // - src/Index.tsx
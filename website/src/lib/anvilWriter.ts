@@ -0,0 +1,196 @@
+/**
+ * Public API:
+ * - RegionPlacement
+ * - WORLD_MIN_Y
+ * - WORLD_MAX_Y
+ * - getMapGridCorner()
+ * - writeAnvilRegions()
+ *
+ * Callers:
+ * - src/Index.tsx
+ * - src/lib/nbtExport.ts
+ *
+ * Notes:
+ * - Writes Anvil region files (`r.<x>.<z>.mca`) in the 1.18+ chunk layout: one compound per chunk with
+ *   `sections` holding a block-state palette and bit-packed `data`, plus MOTION_BLOCKING and WORLD_SURFACE heightmaps.
+ * - Only chunks that contain blocks are written; every other chunk slot stays empty and is generated by the game.
+ *   Written chunks hold nothing but the map art, and light is recomputed on load (`isLightOn` = 0).
+ * - Block entities (barrels, signs, ...) are not written; the game creates them when the block is first used.
+ */
+import { canonicalizeBlockEntry } from "./blockId";
+import { MAP_SIZE } from "./colorGridTypes";
+import { type BlockEntry, NbtWriter, TAG, buildBlockPalette, writeBlockStateCompound, zlibCompress } from "./nbtWriter";
+
+// Map corner and base height of the art's north-west, lowest block. `mapX`/`mapZ` count maps on the vanilla map
+// grid, whose scale-0 maps cover -64 + 128·k through 63 + 128·k.
+//
+// Callers:
+// - src/Index.tsx
+// - src/lib/nbtExport.ts
+export interface RegionPlacement {
+  mapX: number;
+  mapZ: number;
+  baseY: number;
+}
+
+// Overworld build height since 1.18; the upper bound is exclusive.
+//
+// Callers:
+// - src/Index.tsx
+// - src/lib/anvilWriter.ts
+// - src/lib/nbtExport.ts
+export const WORLD_MIN_Y = -64;
+// Callers:
+// - src/Index.tsx
+// - src/lib/anvilWriter.ts
+// - src/lib/nbtExport.ts
+export const WORLD_MAX_Y = 320;
+
+const AIR_BLOCK = "minecraft:air";
+const SECTION_SIZE = 16;
+const REGION_CHUNKS = 32;
+const SECTOR_BYTES = 4096;
+const ZLIB_COMPRESSION = 2;
+const HEIGHTMAP_BITS = Math.ceil(Math.log2(WORLD_MAX_Y - WORLD_MIN_Y + 1));
+
+// Callers:
+// - src/Index.tsx
+// - src/lib/nbtExport.ts
+export function getMapGridCorner(index: number): number {
+  return -MAP_SIZE / 2 + index * MAP_SIZE;
+}
+
+// Packs values into longs the way chunks do since 1.16: entries never span two longs.
+function packLongs(values: ArrayLike<number>, bits: number): Uint32Array {
+  const perLong = Math.floor(64 / bits);
+  const words = new Uint32Array(Math.ceil(values.length / perLong) * 2);
+  for (let i = 0; i < values.length; ++i) {
+    const value = values[i];
+    if (value === 0) continue;
+    const offset = (i % perLong) * bits;
+    const word = Math.floor(i / perLong) * 2 + (offset >>> 5);
+    const shift = offset & 31;
+    words[word] |= value << shift;
+    if (shift + bits > 32) words[word + 1] |= value >>> (32 - shift);
+  }
+  return words;
+}
+
+function writeSection(w: NbtWriter, sectionY: number, blocks: BlockEntry[]) {
+  const { palette, indexOf } = buildBlockPalette(blocks, [AIR_BLOCK]);
+  w.byteTag("Y", sectionY);
+  w.beginCompound("block_states");
+  w.beginList("palette", TAG.Compound, palette.length);
+  for (const entry of palette) writeBlockStateCompound(w, entry);
+  const states = new Uint16Array(SECTION_SIZE ** 3);
+  for (const b of blocks) {
+    const index = ((b.y & 15) * SECTION_SIZE + (b.z & 15)) * SECTION_SIZE + (b.x & 15);
+    states[index] = indexOf.get(canonicalizeBlockEntry(b.blockName))!;
+  }
+  if (palette.length > 1) w.longArrayTag("data", packLongs(states, Math.max(4, Math.ceil(Math.log2(palette.length)))));
+  w.endCompound();
+  w.beginCompound("biomes");
+  w.beginList("palette", TAG.String, 1);
+  w.writeString("minecraft:plains");
+  w.endCompound();
+  w.endCompoundElement();
+}
+
+function writeChunk(chunkX: number, chunkZ: number, blocks: BlockEntry[], dataVersion: number): Uint8Array {
+  const sections = new Map<number, BlockEntry[]>();
+  const heights = new Uint16Array(SECTION_SIZE * SECTION_SIZE);
+  for (const b of blocks) {
+    const sectionY = Math.floor(b.y / SECTION_SIZE);
+    const section = sections.get(sectionY);
+    if (section) section.push(b);
+    else sections.set(sectionY, [b]);
+    const column = (b.z & 15) * SECTION_SIZE + (b.x & 15);
+    heights[column] = Math.max(heights[column], b.y - WORLD_MIN_Y + 1);
+  }
+
+  const w = new NbtWriter();
+  w.beginCompound("");
+  w.intTag("DataVersion", dataVersion);
+  w.intTag("xPos", chunkX);
+  w.intTag("zPos", chunkZ);
+  w.intTag("yPos", WORLD_MIN_Y / SECTION_SIZE);
+  w.stringTag("Status", "minecraft:full");
+  w.longTag("LastUpdate", 0n);
+  w.longTag("InhabitedTime", 0n);
+  w.byteTag("isLightOn", 0);
+  w.beginList("sections", TAG.Compound, sections.size);
+  for (const [sectionY, sectionBlocks] of [...sections].sort((a, b) => a[0] - b[0])) {
+    writeSection(w, sectionY, sectionBlocks);
+  }
+  w.beginCompound("Heightmaps");
+  const packedHeights = packLongs(heights, HEIGHTMAP_BITS);
+  w.longArrayTag("MOTION_BLOCKING", packedHeights);
+  w.longArrayTag("WORLD_SURFACE", packedHeights);
+  w.endCompound();
+  w.beginList("block_entities", TAG.Compound, 0);
+  w.beginList("block_ticks", TAG.Compound, 0);
+  w.beginList("fluid_ticks", TAG.Compound, 0);
+  w.endCompound();
+  return w.toUint8Array();
+}
+
+// Region header: 1024 location entries (sector offset << 8 | sector count) followed by 1024 timestamps.
+async function writeRegion(chunks: Map<number, BlockEntry[]>, regionX: number, regionZ: number, dataVersion: number) {
+  const header = new Uint8Array(SECTOR_BYTES * 2);
+  const headerView = new DataView(header.buffer);
+  const timestamp = Math.floor(Date.now() / 1000);
+  const payloads: Uint8Array[] = [];
+  let sector = 2;
+  for (const [slot, blocks] of [...chunks].sort((a, b) => a[0] - b[0])) {
+    const chunkX = regionX * REGION_CHUNKS + (slot % REGION_CHUNKS);
+    const chunkZ = regionZ * REGION_CHUNKS + Math.floor(slot / REGION_CHUNKS);
+    const compressed = await zlibCompress(writeChunk(chunkX, chunkZ, blocks, dataVersion));
+    const sectors = Math.ceil((compressed.length + 5) / SECTOR_BYTES);
+    const payload = new Uint8Array(sectors * SECTOR_BYTES);
+    new DataView(payload.buffer).setUint32(0, compressed.length + 1);
+    payload[4] = ZLIB_COMPRESSION;
+    payload.set(compressed, 5);
+    payloads.push(payload);
+    headerView.setUint32(slot * 4, (sector << 8) | sectors);
+    headerView.setUint32(SECTOR_BYTES + slot * 4, timestamp);
+    sector += sectors;
+  }
+  const data = new Uint8Array(sector * SECTOR_BYTES);
+  data.set(header);
+  let offset = header.length;
+  for (const payload of payloads) {
+    data.set(payload, offset);
+    offset += payload.length;
+  }
+  return data;
+}
+
+// `blocks` are in world coordinates and must lie within WORLD_MIN_Y..WORLD_MAX_Y. Files are named for the
+// save's `region/` folder.
+//
+// Callers:
+// - src/lib/nbtExport.ts
+export async function writeAnvilRegions(
+  blocks: BlockEntry[],
+  dataVersion: number,
+): Promise<{ name: string; data: Uint8Array }[]> {
+  // region key -> chunk slot (x + z * 32) -> blocks
+  const regions = new Map<string, Map<number, BlockEntry[]>>();
+  for (const b of blocks) {
+    const chunkX = Math.floor(b.x / SECTION_SIZE);
+    const chunkZ = Math.floor(b.z / SECTION_SIZE);
+    const key = `${Math.floor(chunkX / REGION_CHUNKS)}.${Math.floor(chunkZ / REGION_CHUNKS)}`;
+    const slot = (chunkX & (REGION_CHUNKS - 1)) + (chunkZ & (REGION_CHUNKS - 1)) * REGION_CHUNKS;
+    let chunks = regions.get(key);
+    if (!chunks) regions.set(key, chunks = new Map());
+    const chunk = chunks.get(slot);
+    if (chunk) chunk.push(b);
+    else chunks.set(slot, [b]);
+  }
+  const files: { name: string; data: Uint8Array }[] = [];
+  for (const [key, chunks] of regions) {
+    const [regionX, regionZ] = key.split(".").map(Number);
+    files.push({ name: `r.${key}.mca`, data: await writeRegion(chunks, regionX, regionZ, dataVersion) });
+  }
+  return files;
+}
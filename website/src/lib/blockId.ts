@@ -6,20 +6,39 @@
  *
  * Callers:
  * - src/Index.tsx
+ * - src/cli/conversionSettings.ts
+ * - src/cli/png2nbt.ts
+ * - src/cli/png2nbtServer.ts
+ * - src/data/bedrockBlocks.ts
+ * - src/data/javaVersions.ts
+ * - src/lib/anvilWriter.ts
  * - src/lib/fillerRules.ts
+ * - src/lib/headlessConversion.ts
+ * - src/lib/litematicWriter.ts
+ * - src/lib/mapRenderSimulation.ts
+ * - src/lib/nbtExport.ts
  * - src/lib/nbtWriter.ts
  * - src/data/presets.ts
+ * - src/lib/projectFile.ts
+ * - src/lib/schemWriter.ts
  * - src/lib/shapeCellRules.ts
+ * - src/lib/structureReader.ts
  */
 // Callers:
 // - src/Index.tsx
+// - src/lib/mapRenderSimulation.ts
+// - src/lib/nbtExport.ts
+// - src/lib/structureReader.ts
 export function stripBlockNamespace(raw: string): string {
   return raw.trim().replace(/^minecraft:/i, "");
 }
 
 // Callers:
 // - src/Index.tsx
+// - src/data/bedrockBlocks.ts
+// - src/data/javaVersions.ts
 // - src/lib/fillerRules.ts
+// - src/lib/headlessConversion.ts
 // - src/lib/shapeCellRules.ts
 export function normalizeBlockId(raw: string): string {
   return stripBlockNamespace(raw).toLowerCase().split("[")[0];
@@ -27,8 +46,15 @@ export function normalizeBlockId(raw: string): string {
 
 // Callers:
 // - src/Index.tsx
+// - src/cli/conversionSettings.ts
+// - src/cli/png2nbt.ts
+// - src/cli/png2nbtServer.ts
 // - src/data/presets.ts
+// - src/lib/anvilWriter.ts
+// - src/lib/litematicWriter.ts
 // - src/lib/nbtWriter.ts
+// - src/lib/projectFile.ts
+// - src/lib/schemWriter.ts
 export function canonicalizeBlockEntry(raw: string): string {
   const trimmed = raw.trim();
   const bracketIdx = trimmed.indexOf("[");
@@ -0,0 +1,175 @@
+/**
+ * Public API:
+ * - RgbColor
+ * - createNearestColorFinder()
+ *
+ * Callers:
+ * - src/lib/colorGridParsing.ts
+ * - src/lib/dithering.ts
+ * - src/lib/imageFitting.ts
+ *
+ * Notes:
+ * - Palette coordinates are converted once per palette array and metric and cached in a WeakMap, so callers should
+ *   keep reusing the same palette array (see `getBasePaletteSelection()` in colorGridParsing.ts).
+ * - Lab uses the D65 white point. CIE76 and Oklab compare squared Euclidean distances; CIEDE2000 returns ΔE00.
+ */
+import { packRgb } from "@/data/mapColors";
+import { ColorMetric } from "./conversionTypes";
+
+// Callers:
+// - src/lib/colorGridParsing.ts
+// - src/lib/dithering.ts
+// - src/lib/imageFitting.ts
+export interface RgbColor {
+  r: number;
+  g: number;
+  b: number;
+}
+
+type ColorCoords = [number, number, number];
+
+const D65_WHITE: ColorCoords = [0.95047, 1, 1.08883];
+const paletteCoordsCache = new WeakMap<RgbColor[], Map<ColorMetric, ColorCoords[]>>();
+
+function srgbToLinear(channel: number): number {
+  const c = channel / 255;
+  return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+}
+
+function rgbToLab(r: number, g: number, b: number): ColorCoords {
+  const lr = srgbToLinear(r), lg = srgbToLinear(g), lb = srgbToLinear(b);
+  const xyz = [
+    lr * 0.4124564 + lg * 0.3575761 + lb * 0.1804375,
+    lr * 0.2126729 + lg * 0.7151522 + lb * 0.072175,
+    lr * 0.0193339 + lg * 0.119192 + lb * 0.9503041,
+  ];
+  const [fx, fy, fz] = xyz.map((v, i) => {
+    const t = v / D65_WHITE[i];
+    return t > 216 / 24389 ? Math.cbrt(t) : (24389 / 27 * t + 16) / 116;
+  });
+  return [116 * fy - 16, 500 * (fx - fy), 200 * (fy - fz)];
+}
+
+function rgbToOklab(r: number, g: number, b: number): ColorCoords {
+  const lr = srgbToLinear(r), lg = srgbToLinear(g), lb = srgbToLinear(b);
+  const l = Math.cbrt(0.4122214708 * lr + 0.5363325363 * lg + 0.0514459929 * lb);
+  const m = Math.cbrt(0.2119034982 * lr + 0.6806995451 * lg + 0.1073969566 * lb);
+  const s = Math.cbrt(0.0883024619 * lr + 0.2817188376 * lg + 0.6299787005 * lb);
+  return [
+    0.2104542553 * l + 0.793617785 * m - 0.0040720468 * s,
+    1.9779984951 * l - 2.428592205 * m + 0.4505937099 * s,
+    0.0259040371 * l + 0.7827717662 * m - 0.808675766 * s,
+  ];
+}
+
+function toMetricCoords(metric: ColorMetric, r: number, g: number, b: number): ColorCoords {
+  switch (metric) {
+    case ColorMetric.Cie76:
+    case ColorMetric.Ciede2000:
+      return rgbToLab(r, g, b);
+    case ColorMetric.Oklab:
+      return rgbToOklab(r, g, b);
+    default:
+      return [r, g, b];
+  }
+}
+
+function squaredDistance(a: ColorCoords, b: ColorCoords): number {
+  const d0 = a[0] - b[0], d1 = a[1] - b[1], d2 = a[2] - b[2];
+  return d0 * d0 + d1 * d1 + d2 * d2;
+}
+
+function ciede2000(lab1: ColorCoords, lab2: ColorCoords): number {
+  const [l1, a1, b1] = lab1;
+  const [l2, a2, b2] = lab2;
+  const toDeg = (rad: number) => (rad * 180) / Math.PI;
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+
+  const cBar = (Math.hypot(a1, b1) + Math.hypot(a2, b2)) / 2;
+  const cBar7 = Math.pow(cBar, 7);
+  const g = 0.5 * (1 - Math.sqrt(cBar7 / (cBar7 + Math.pow(25, 7))));
+  const a1p = a1 * (1 + g), a2p = a2 * (1 + g);
+  const c1p = Math.hypot(a1p, b1), c2p = Math.hypot(a2p, b2);
+  const h1p = c1p === 0 ? 0 : (toDeg(Math.atan2(b1, a1p)) + 360) % 360;
+  const h2p = c2p === 0 ? 0 : (toDeg(Math.atan2(b2, a2p)) + 360) % 360;
+
+  const dLp = l2 - l1;
+  const dCp = c2p - c1p;
+  let dhp = 0;
+  if (c1p * c2p !== 0) {
+    dhp = h2p - h1p;
+    if (dhp > 180) dhp -= 360;
+    else if (dhp < -180) dhp += 360;
+  }
+  const dHp = 2 * Math.sqrt(c1p * c2p) * Math.sin(toRad(dhp / 2));
+
+  const lBarp = (l1 + l2) / 2;
+  const cBarp = (c1p + c2p) / 2;
+  let hBarp = h1p + h2p;
+  if (c1p * c2p !== 0) {
+    if (Math.abs(h1p - h2p) <= 180) hBarp /= 2;
+    else hBarp = h1p + h2p < 360 ? (hBarp + 360) / 2 : (hBarp - 360) / 2;
+  }
+
+  const t = 1
+    - 0.17 * Math.cos(toRad(hBarp - 30))
+    + 0.24 * Math.cos(toRad(2 * hBarp))
+    + 0.32 * Math.cos(toRad(3 * hBarp + 6))
+    - 0.2 * Math.cos(toRad(4 * hBarp - 63));
+  const dTheta = 30 * Math.exp(-Math.pow((hBarp - 275) / 25, 2));
+  const cBarp7 = Math.pow(cBarp, 7);
+  const rc = 2 * Math.sqrt(cBarp7 / (cBarp7 + Math.pow(25, 7)));
+  const lBarp50 = (lBarp - 50) * (lBarp - 50);
+  const sl = 1 + (0.015 * lBarp50) / Math.sqrt(20 + lBarp50);
+  const sc = 1 + 0.045 * cBarp;
+  const sh = 1 + 0.015 * cBarp * t;
+  const rt = -Math.sin(toRad(2 * dTheta)) * rc;
+
+  const lTerm = dLp / sl, cTerm = dCp / sc, hTerm = dHp / sh;
+  return Math.sqrt(lTerm * lTerm + cTerm * cTerm + hTerm * hTerm + rt * cTerm * hTerm);
+}
+
+function getPaletteCoords(palette: RgbColor[], metric: ColorMetric): ColorCoords[] {
+  let byMetric = paletteCoordsCache.get(palette);
+  if (!byMetric) {
+    byMetric = new Map();
+    paletteCoordsCache.set(palette, byMetric);
+  }
+  let coords = byMetric.get(metric);
+  if (!coords) {
+    coords = palette.map(color => toMetricCoords(metric, color.r, color.g, color.b));
+    byMetric.set(metric, coords);
+  }
+  return coords;
+}
+
+// Returns a memoized nearest-palette-color lookup for the given metric.
+//
+// Callers:
+// - src/lib/colorGridParsing.ts
+// - src/lib/dithering.ts
+export function createNearestColorFinder(
+  palette: RgbColor[],
+  metric: ColorMetric = ColorMetric.Rgb,
+): (r: number, g: number, b: number) => RgbColor {
+  const paletteCoords = getPaletteCoords(palette, metric);
+  const distance = metric === ColorMetric.Ciede2000 ? ciede2000 : squaredDistance;
+  const cache = new Map<number, RgbColor>();
+  return (r, g, b) => {
+    const key = packRgb(r, g, b);
+    const cached = cache.get(key);
+    if (cached) return cached;
+    const coords = toMetricCoords(metric, r, g, b);
+    let best = palette[0];
+    let bestDist = Infinity;
+    for (let i = 0; i < palette.length; ++i) {
+      const dist = distance(coords, paletteCoords[i]);
+      if (dist < bestDist) {
+        bestDist = dist;
+        best = palette[i];
+      }
+    }
+    cache.set(key, best);
+    return best;
+  };
+}
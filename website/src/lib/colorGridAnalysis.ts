@@ -4,9 +4,11 @@
  * - UniformNonFlatDirection
  * - getPixelParity()
  * - computeColorGridStats()
+ * - computeWallColorGridStats()
  *
  * Callers:
  * - src/Index.tsx
+ * - src/lib/headlessConversion.ts
  * - src/lib/shapeGeneration.ts
  */
 import { MAP_SIZE, type ColorGrid, isTransparentColor, isWaterColor } from "./colorGridTypes";
@@ -105,17 +107,19 @@ function analyzeVoidShadows(colorGrid: ColorGrid) {
   return stats;
 }
 
-function computeImageInfo(colorGrid: ColorGrid) {
+function computeImageInfo(colorGrids: ColorGrid[]) {
   const usedBaseColors = new Set<number>();
   const usedShades = new Set<string>();
-  for (let x = 0; x < MAP_SIZE; ++x) {
-    for (let z = 0; z < MAP_SIZE; ++z) {
-      const color = colorGrid[x][z];
-      if (isTransparentColor(color)) continue;
-      if (color.isCustom) usedShades.add(`custom:${color.id}:${color.shade}`);
-      else {
-        usedBaseColors.add(color.id);
-        usedShades.add(`${color.id}:${color.shade}`);
+  for (const colorGrid of colorGrids) {
+    for (let x = 0; x < MAP_SIZE; ++x) {
+      for (let z = 0; z < MAP_SIZE; ++z) {
+        const color = colorGrid[x][z];
+        if (isTransparentColor(color)) continue;
+        if (color.isCustom) usedShades.add(`custom:${color.id}:${color.shade}`);
+        else {
+          usedBaseColors.add(color.id);
+          usedShades.add(`${color.id}:${color.shade}`);
+        }
       }
     }
   }
@@ -205,7 +209,7 @@ function colorGridHasNonLightWater(colorGrid: ColorGrid): boolean {
 }
 
 // Callers:
-// - src/Index.tsx
+// - src/lib/colorGridAnalysis.ts
 export function computeColorGridStats(colorGrid: ColorGrid): ColorGridStats {
   const voidShadowStats = analyzeVoidShadows(colorGrid);
   return {
@@ -218,7 +222,46 @@ export function computeColorGridStats(colorGrid: ColorGrid): ColorGridStats {
     uniformNonFlatDirection: detectUniformNonFlatDirection(colorGrid),
     usedBaseColors: computeUsedBaseColors(colorGrid),
     voidShadowStats,
-    imageInfo: computeImageInfo(colorGrid),
+    imageInfo: computeImageInfo([colorGrid]),
     usedShadesByBase: computeUsedShadesByBase(colorGrid),
   };
 }
+
+// Merges per-tile stats for a multi-map wall. Every tile is its own map, so pattern scans stay per tile and
+// only their results are combined.
+//
+// Callers:
+// - src/Index.tsx
+// - src/lib/headlessConversion.ts
+export function computeWallColorGridStats(colorGrids: ColorGrid[]): ColorGridStats {
+  const [first, ...rest] = colorGrids.map(computeColorGridStats);
+  if (rest.length === 0) return first;
+
+  const combined: ColorGridStats = {
+    ...first,
+    usedBaseColors: new Set(first.usedBaseColors),
+    voidShadowStats: { ...first.voidShadowStats },
+    imageInfo: computeImageInfo(colorGrids),
+    usedShadesByBase: new Map([...first.usedShadesByBase].map(([baseIndex, shades]) => [baseIndex, new Set(shades)])),
+  };
+  for (const stats of rest) {
+    combined.hasNonFlatShades ||= stats.hasNonFlatShades;
+    combined.hasSuppressPattern ||= stats.hasSuppressPattern;
+    combined.hasStepMixOpportunity ||= stats.hasStepMixOpportunity;
+    combined.hasTransparency ||= stats.hasTransparency;
+    combined.hasWater ||= stats.hasWater;
+    combined.hasNonLightWater ||= stats.hasNonLightWater;
+    if (combined.uniformNonFlatDirection !== stats.uniformNonFlatDirection) {
+      combined.uniformNonFlatDirection = UniformNonFlatDirection.Mixed;
+    }
+    for (const baseIndex of stats.usedBaseColors) combined.usedBaseColors.add(baseIndex);
+    combined.voidShadowStats.dominant += stats.voidShadowStats.dominant;
+    combined.voidShadowStats.recessive += stats.voidShadowStats.recessive;
+    for (const [baseIndex, shades] of stats.usedShadesByBase) {
+      const into = combined.usedShadesByBase.get(baseIndex);
+      if (into) for (const shade of shades) into.add(shade);
+      else combined.usedShadesByBase.set(baseIndex, new Set(shades));
+    }
+  }
+  return combined;
+}
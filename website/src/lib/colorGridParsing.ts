@@ -1,15 +1,44 @@
 /**
  * Public API:
+ * - PaletteMask
+ * - buildPaletteMask()
+ * - ColorConversionOptions
+ * - ColorGridAnalysis
  * - convertImageToColorGrid()
- * - convertFileToColorGrid()
+ * - convertMapColorsToColorGrid()
+ * - isMapDatFile()
+ * - loadImageDataFromFile()
+ * - loadImageFramesFromFile()
+ * - loadMapColorsFromFile()
+ * - renderColorGridTiles()
  *
  * Callers:
  * - src/Index.tsx
+ * - src/lib/headlessConversion.ts
+ * - src/lib/shapeWorker.ts
+ * - src/lib/shapeWorkerProtocol.ts
+ * - src/lib/structureReader.ts
  */
 import * as UTIF from "utif";
-import { BASE_COLORS, type ColorShade, SHADE_MULTIPLIERS, packRgb, unpackRgb } from "@/data/mapColors";
+import {
+  BASE_COLORS,
+  type ColorShade,
+  SHADE_MULTIPLIERS,
+  type Shade,
+  getShadedRgb,
+  packRgb,
+  unpackRgb,
+} from "@/data/mapColors";
 import { messages, type PaletteNotice } from "@/lib/messages";
-import { type ColorData, type ColorGrid, MAP_SIZE, TRANSPARENT_COLOR } from "./colorGridTypes";
+import { type ColorData, type ColorGrid, type ColorGridTile, MAP_SIZE, TRANSPARENT_COLOR } from "./colorGridTypes";
+import { type RgbColor, createNearestColorFinder } from "./colorDistance";
+import { ColorMetric, DitherMethod } from "./conversionTypes";
+import { ditherImageData } from "./dithering";
+import { decodeGifFrames, isGifData } from "./gifDecoder";
+import { createImageData } from "./imageData";
+import { type ImageFitOptions, fitImageToMaps } from "./imageFitting";
+import { gunzipIfNeeded, isNbtCompound, readNbt } from "./nbtReader";
+import { decodePng, decodePngFrames, isAnimatedPng, isPngData } from "./pngDecoder";
 
 interface CustomColorLike {
   r: number;
@@ -18,14 +47,56 @@ interface CustomColorLike {
   block: string;
 }
 
-interface ColorGridAnalysis {
+// Base color index → shades conversion may snap to. Base colors missing from the mask are never picked.
+//
+// Callers:
+// - src/Index.tsx
+export type PaletteMask = ReadonlyMap<number, readonly Shade[]>;
+
+// Callers:
+// - src/Index.tsx
+export interface ColorConversionOptions {
+  dither?: DitherMethod;
+  metric?: ColorMetric;
+  paletteMask?: PaletteMask;
+  // Resize stage applied before the size check and scanning.
+  fit?: ImageFitOptions;
+  // Snaps every pixel, custom colors included, to the flat shade so the result never needs a staircase.
+  flatOnly?: boolean;
+}
+
+// Tiles are listed row by row; a plain 128x128 image yields a single tile. `flatAlteredPixelCount` is only set
+// for flat-only conversions and counts pixels that differ from a conversion allowed to use every shade.
+//
+// Callers:
+// - src/lib/headlessConversion.ts
+// - src/lib/structureReader.ts
+export interface ColorGridAnalysis {
   imageData: ImageData;
-  colorGrid: ColorGrid;
+  tiles: ColorGridTile[];
   paletteNotices: PaletteNotice[];
   hasBlockingIssue: boolean;
+  flatAlteredPixelCount?: number;
 }
 
+const ALL_SHADES: readonly Shade[] = [0, 1, 2];
+const FLAT_SHADES: readonly Shade[] = [1];
+const MAX_CACHED_PALETTE_SELECTIONS = 4;
+// Map item colors store baseIndex * 4 + shade; shade 3 only appears on maps edited outside survival.
+const UNOBTAINABLE_SHADE: Shade = 3;
+
 let baseColorLookup: Map<number, ColorShade> | null = null;
+// Keyed by mask; a flat-only conversion alternates between its flat and full-shade masks.
+const basePaletteSelections = new Map<string, BasePaletteSelection>();
+
+// `lookup` and `palette` hold what unsupported colors may convert to. `exactLookup` also keeps the colors of base
+// colors the mask leaves out, in the mask's shades, so without conversion pixels already in them stay and ask for a
+// block instead.
+interface BasePaletteSelection {
+  lookup: Map<number, ColorShade>;
+  exactLookup: Map<number, ColorShade>;
+  palette: RgbColor[];
+}
 
 function getBaseColorLookup(): Map<number, ColorShade> {
   if (baseColorLookup) return baseColorLookup;
@@ -42,15 +113,65 @@ function getBaseColorLookup(): Map<number, ColorShade> {
   return baseColorLookup;
 }
 
+function toPaletteMaskKey(mask: PaletteMask | undefined): string {
+  if (!mask) return "";
+  return [...mask].sort(([a], [b]) => a - b).map(([baseIndex, shades]) => `${baseIndex}:${[...shades].sort().join("")}`).join(",");
+}
+
+// The palette array is reused across conversions so colorDistance.ts can cache its converted coordinates. A mask
+// that leaves nothing selectable gives an empty palette.
+function getBasePaletteSelection(mask: PaletteMask | undefined): BasePaletteSelection {
+  const maskKey = toPaletteMaskKey(mask);
+  const cached = basePaletteSelections.get(maskKey);
+  if (cached) return cached;
+  const fullLookup = getBaseColorLookup();
+  const maskShades = new Set(mask ? [...mask.values()].flat() : ALL_SHADES);
+  const lookup = mask
+    ? new Map([...fullLookup].filter(([, color]) => mask.get(color.baseIndex)?.includes(color.shade)))
+    : fullLookup;
+  const exactLookup = mask
+    ? new Map([...fullLookup].filter(([, color]) => (mask.get(color.baseIndex) ?? [...maskShades]).includes(color.shade)))
+    : fullLookup;
+  const palette = [...lookup.keys()].map(key => {
+    const [r, g, b] = unpackRgb(key);
+    return { r, g, b };
+  });
+  const selection = { lookup, exactLookup, palette };
+  if (basePaletteSelections.size >= MAX_CACHED_PALETTE_SELECTIONS) {
+    basePaletteSelections.delete(basePaletteSelections.keys().next().value);
+  }
+  basePaletteSelections.set(maskKey, selection);
+  return selection;
+}
+
+// Keeps the mask's base colors but allows exactly `shades` for each; no mask means every base color.
+function withMaskShades(mask: PaletteMask | undefined, shades: readonly Shade[]): PaletteMask {
+  const baseIndices = mask ? [...mask.keys()] : BASE_COLORS.map((_, i) => i).slice(1);
+  return new Map(baseIndices.map(baseIndex => [baseIndex, shades]));
+}
+
+// Base colors with a block assigned in the preset, each limited to the given shades.
+//
+// Callers:
+// - src/Index.tsx
+// - src/lib/headlessConversion.ts
+export function buildPaletteMask(presetBlocks: Record<number, string>, shades: readonly Shade[]): PaletteMask {
+  const mask = new Map<number, readonly Shade[]>();
+  for (let i = 1; i < BASE_COLORS.length; ++i) {
+    if (presetBlocks[i]?.trim()) mask.set(i, shades);
+  }
+  return mask;
+}
+
 function createEmptyColorGrid(): ColorGrid {
   return Array.from({ length: MAP_SIZE }, () => Array<ColorData>(MAP_SIZE).fill(TRANSPARENT_COLOR));
 }
 
-function buildCustomShadeLookup(customColors: CustomColorLike[]): Map<number, ColorData> {
+function buildCustomShadeLookup(customColors: CustomColorLike[], shades: readonly Shade[]): Map<number, ColorData> {
   const lookup = new Map<number, ColorData>();
   for (const [customIndex, color] of customColors.entries()) {
     if (!color.block?.trim()) continue;
-    for (const shade of [0, 1, 2] as const) {
+    for (const shade of shades) {
       const r = Math.floor((color.r * SHADE_MULTIPLIERS[shade]) / 255);
       const g = Math.floor((color.g * SHADE_MULTIPLIERS[shade]) / 255);
       const b = Math.floor((color.b * SHADE_MULTIPLIERS[shade]) / 255);
@@ -61,17 +182,25 @@ function buildCustomShadeLookup(customColors: CustomColorLike[]): Map<number, Co
   return lookup;
 }
 
-function scanImageToColorGrid(
+function isMapSizeMultiple(size: number): boolean {
+  return size >= MAP_SIZE && size % MAP_SIZE === 0;
+}
+
+function scanImageTile(
   imageData: ImageData,
+  row: number,
+  col: number,
   baseLookup: Map<number, ColorShade>,
   customLookup: Map<number, ColorData>,
-): { colorGrid: ColorGrid; unsupportedColors: number[] } {
+  unsupported: Set<number>,
+): ColorGrid {
   const colorGrid = createEmptyColorGrid();
-  const unsupported = new Set<number>();
+  const originX = col * MAP_SIZE;
+  const originZ = row * MAP_SIZE;
 
   for (let x = 0; x < MAP_SIZE; ++x) {
     for (let z = 0; z < MAP_SIZE; ++z) {
-      const idx = (z * MAP_SIZE + x) * 4;
+      const idx = ((originZ + z) * imageData.width + originX + x) * 4;
       if (imageData.data[idx + 3] === 0) {
         colorGrid[x][z] = TRANSPARENT_COLOR;
         continue;
@@ -94,18 +223,37 @@ function scanImageToColorGrid(
     }
   }
 
-  return { colorGrid, unsupportedColors: [...unsupported] };
+  return colorGrid;
+}
+
+function scanImageToColorGridTiles(
+  imageData: ImageData,
+  baseLookup: Map<number, ColorShade>,
+  customLookup: Map<number, ColorData>,
+): { tiles: ColorGridTile[]; unsupportedColors: number[] } {
+  const tiles: ColorGridTile[] = [];
+  const unsupported = new Set<number>();
+  const rows = imageData.height / MAP_SIZE;
+  const cols = imageData.width / MAP_SIZE;
+  for (let row = 0; row < rows; ++row) {
+    for (let col = 0; col < cols; ++col) {
+      tiles.push({ row, col, colorGrid: scanImageTile(imageData, row, col, baseLookup, customLookup, unsupported) });
+    }
+  }
+  return { tiles, unsupportedColors: [...unsupported] };
 }
 
 function cloneImageData(imageData: ImageData): ImageData {
-  return new ImageData(new Uint8ClampedArray(imageData.data), imageData.width, imageData.height);
+  return createImageData(new Uint8ClampedArray(imageData.data), imageData.width, imageData.height);
 }
 
-function convertUnsupportedToNearestBasePalette(imageData: ImageData, baseLookup: Map<number, ColorShade>) {
-  const availableColors = [...baseLookup.keys()].map(key => {
-    const [r, g, b] = unpackRgb(key);
-    return { r, g, b };
-  });
+function convertUnsupportedToNearestBasePalette(
+  imageData: ImageData,
+  baseLookup: Map<number, ColorShade>,
+  palette: RgbColor[],
+  metric: ColorMetric,
+) {
+  const findNearest = createNearestColorFinder(palette, metric);
   const inputColors = new Set<number>();
   const outputColors = new Set<number>();
   const convertedColors = new Set<number>();
@@ -120,18 +268,8 @@ function convertUnsupportedToNearestBasePalette(imageData: ImageData, baseLookup
       continue;
     }
 
-    let bestDist = Infinity;
-    let bestR = 0, bestG = 0, bestB = 0;
-    for (const color of availableColors) {
-      const dr = d[i] - color.r, dg = d[i + 1] - color.g, db = d[i + 2] - color.b;
-      const dist = dr * dr + dg * dg + db * db;
-      if (dist < bestDist) {
-        bestDist = dist;
-        bestR = color.r;
-        bestG = color.g;
-        bestB = color.b;
-      }
-    }
+    const nearest = findNearest(d[i], d[i + 1], d[i + 2]);
+    const bestR = nearest.r, bestG = nearest.g, bestB = nearest.b;
 
     convertedColors.add(key);
     outputColors.add(packRgb(bestR, bestG, bestB));
@@ -147,6 +285,38 @@ function convertUnsupportedToNearestBasePalette(imageData: ImageData, baseLookup
   };
 }
 
+// Dithering quantizes the whole image, so the summary compares the result with the source instead of tracking
+// individual replacements.
+function ditherToBasePalette(
+  imageData: ImageData,
+  source: ImageData,
+  baseLookup: Map<number, ColorShade>,
+  palette: RgbColor[],
+  method: DitherMethod,
+  metric: ColorMetric,
+) {
+  ditherImageData(imageData, palette, method, metric);
+
+  const inputColors = new Set<number>();
+  const outputColors = new Set<number>();
+  const convertedColors = new Set<number>();
+  const before = source.data;
+  const after = imageData.data;
+  for (let i = 0; i < before.length; i += 4) {
+    if (before[i + 3] === 0) continue;
+    const key = packRgb(before[i], before[i + 1], before[i + 2]);
+    inputColors.add(key);
+    if (!baseLookup.has(key)) convertedColors.add(key);
+    outputColors.add(packRgb(after[i], after[i + 1], after[i + 2]));
+  }
+
+  return {
+    convertedCount: convertedColors.size,
+    totalInputColorCount: inputColors.size,
+    fewerOutputColorCount: Math.max(0, inputColors.size - outputColors.size),
+  };
+}
+
 function isTiffFile(file: File): boolean {
   const type = file.type.toLowerCase();
   const name = file.name.toLowerCase();
@@ -178,19 +348,73 @@ function loadBrowserImageData(file: File): Promise<ImageData> {
   });
 }
 
-async function loadTiffImageData(file: File): Promise<ImageData> {
+// Without a DOM (CLI, server) only the formats decoded here can be read: PNG and GIF, plus TIFF above.
+async function loadStillImageData(file: File, bytes?: Uint8Array): Promise<ImageData> {
+  if (typeof document !== "undefined") return loadBrowserImageData(file);
+  bytes ??= new Uint8Array(await file.arrayBuffer());
+  if (isPngData(bytes)) return decodePng(bytes);
+  if (isGifData(bytes)) return decodeGifFrames(bytes)[0];
+  throw new Error(messages.parsing.headlessUnsupportedFormat);
+}
+
+async function loadTiffFrames(file: File): Promise<ImageData[]> {
   const buffer = await file.arrayBuffer();
-  const ifds = UTIF.decode(buffer);
-  const ifd = ifds[0];
-  if (!ifd) throw new Error(messages.parsing.tiffNoImageData);
-  UTIF.decodeImage(buffer, ifd);
-  const rgba = UTIF.toRGBA8(ifd);
-  return new ImageData(new Uint8ClampedArray(rgba), ifd.width, ifd.height);
+  const ifds = UTIF.decode(buffer).filter(ifd => ifd.t256 !== undefined);
+  if (ifds.length === 0) throw new Error(messages.parsing.tiffNoImageData);
+  return ifds.map(ifd => {
+    UTIF.decodeImage(buffer, ifd);
+    const rgba = UTIF.toRGBA8(ifd);
+    return createImageData(new Uint8ClampedArray(rgba), ifd.width, ifd.height);
+  });
+}
+
+// Callers:
+// - src/Index.tsx
+export async function loadImageDataFromFile(file: File): Promise<ImageData> {
+  if (isTiffFile(file)) return (await loadTiffFrames(file))[0];
+  return loadStillImageData(file);
 }
 
-async function loadImageDataFromFile(file: File): Promise<ImageData> {
-  if (isTiffFile(file)) return loadTiffImageData(file);
-  return loadBrowserImageData(file);
+// Every page of a TIFF and every frame of an animated GIF or APNG, fully composited. Other formats, and still
+// GIFs and PNGs, yield a single frame.
+//
+// Callers:
+// - src/Index.tsx
+// - src/lib/headlessConversion.ts
+export async function loadImageFramesFromFile(file: File): Promise<ImageData[]> {
+  if (isTiffFile(file)) return loadTiffFrames(file);
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  if (isGifData(bytes)) {
+    const frames = decodeGifFrames(bytes);
+    if (frames.length > 1) return frames;
+  } else if (isAnimatedPng(bytes)) {
+    return decodePngFrames(bytes);
+  }
+  return [await loadStillImageData(file, bytes)];
+}
+
+// Callers:
+// - src/Index.tsx
+// - src/lib/headlessConversion.ts
+export function isMapDatFile(file: File): boolean {
+  return file.name.toLowerCase().endsWith(".dat");
+}
+
+// The `data.colors` array of a gzipped map_<id>.dat: one byte per pixel, row by row, holding baseIndex * 4 + shade.
+//
+// Callers:
+// - src/Index.tsx
+// - src/lib/headlessConversion.ts
+export async function loadMapColorsFromFile(file: File): Promise<Uint8Array> {
+  const root = readNbt(await gunzipIfNeeded(new Uint8Array(await file.arrayBuffer())));
+  const colors = isNbtCompound(root.data) ? root.data.colors : undefined;
+  if (!(colors instanceof Uint8Array) || colors.length !== MAP_SIZE * MAP_SIZE) {
+    throw new Error(messages.parsing.mapDatNoColors);
+  }
+  for (const value of colors) {
+    if (value >> 2 >= BASE_COLORS.length) throw new Error(messages.parsing.mapDatUnknownColor(value >> 2));
+  }
+  return colors;
 }
 
 function buildConversionNotices(convertedCount: number, totalInputColorCount: number, fewerOutputColorCount: number): PaletteNotice[] {
@@ -201,31 +425,23 @@ function buildConversionNotices(convertedCount: number, totalInputColorCount: nu
   return notices;
 }
 
-// Callers:
-// - src/Index.tsx
-export function convertImageToColorGrid(
+function convertToPalette(
   imageData: ImageData,
-  customColors: CustomColorLike[],
-  convertUnsupported = false,
+  customLookup: Map<number, ColorData>,
+  mask: PaletteMask | undefined,
+  convertUnsupported: boolean,
+  dither: DitherMethod,
+  metric: ColorMetric,
 ): ColorGridAnalysis {
-  const baseLookup = getBaseColorLookup();
-  const customLookup = buildCustomShadeLookup(customColors);
-  const hasSizeError = imageData.width !== MAP_SIZE || imageData.height !== MAP_SIZE;
-
-  if (hasSizeError) {
-    return {
-      imageData,
-      colorGrid: createEmptyColorGrid(),
-      paletteNotices: [messages.parsing.imageSizeNotice(imageData.width, imageData.height)],
-      hasBlockingIssue: true,
-    };
-  }
-
-  const initial = scanImageToColorGrid(imageData, baseLookup, customLookup);
+  // Without conversion, pixels already in a masked-out base color are kept so the page asks for a block for it.
+  // Conversion treats them like any other unsupported color and snaps them onto the mask's colors alone.
+  const selection = getBasePaletteSelection(mask);
+  const baseLookup = convertUnsupported ? selection.lookup : selection.exactLookup;
+  const initial = scanImageToColorGridTiles(imageData, baseLookup, customLookup);
   if (initial.unsupportedColors.length === 0 || !convertUnsupported) {
     return {
       imageData,
-      colorGrid: initial.colorGrid,
+      tiles: initial.tiles,
       paletteNotices:
         initial.unsupportedColors.length > 0
           ? [messages.parsing.unsupportedPaletteColorsNotice(initial.unsupportedColors)]
@@ -234,12 +450,23 @@ export function convertImageToColorGrid(
     };
   }
 
+  if (selection.palette.length === 0) {
+    return {
+      imageData,
+      tiles: initial.tiles,
+      paletteNotices: [messages.parsing.errorNotice(messages.parsing.emptyConversionPalette)],
+      hasBlockingIssue: true,
+    };
+  }
+
   const convertedImageData = cloneImageData(imageData);
-  const conversionSummary = convertUnsupportedToNearestBasePalette(convertedImageData, baseLookup);
-  const converted = scanImageToColorGrid(convertedImageData, baseLookup, customLookup);
+  const conversionSummary = dither === DitherMethod.None
+    ? convertUnsupportedToNearestBasePalette(convertedImageData, baseLookup, selection.palette, metric)
+    : ditherToBasePalette(convertedImageData, imageData, baseLookup, selection.palette, dither, metric);
+  const converted = scanImageToColorGridTiles(convertedImageData, baseLookup, customLookup);
   return {
     imageData: convertedImageData,
-    colorGrid: converted.colorGrid,
+    tiles: converted.tiles,
     paletteNotices:
       converted.unsupportedColors.length === 0
         ? buildConversionNotices(
@@ -252,13 +479,118 @@ export function convertImageToColorGrid(
   };
 }
 
+function countAlteredPixels(a: ImageData, b: ImageData): number {
+  let count = 0;
+  for (let i = 0; i < a.data.length; i += 4) {
+    if (a.data[i + 3] === 0) continue;
+    if (a.data[i] !== b.data[i] || a.data[i + 1] !== b.data[i + 1] || a.data[i + 2] !== b.data[i + 2]) ++count;
+  }
+  return count;
+}
+
 // Callers:
 // - src/Index.tsx
-export async function convertFileToColorGrid(
-  file: File,
+// - src/lib/headlessConversion.ts
+// - src/lib/shapeWorker.ts
+// - src/lib/shapeWorkerProtocol.ts
+export function convertImageToColorGrid(
+  imageData: ImageData,
   customColors: CustomColorLike[],
   convertUnsupported = false,
-): Promise<ColorGridAnalysis> {
-  const imageData = await loadImageDataFromFile(file);
-  return convertImageToColorGrid(imageData, customColors, convertUnsupported);
+  options: ColorConversionOptions = {},
+): ColorGridAnalysis {
+  if (options.fit) imageData = fitImageToMaps(imageData, options.fit);
+  const hasSizeError = !isMapSizeMultiple(imageData.width) || !isMapSizeMultiple(imageData.height);
+  if (hasSizeError) {
+    return {
+      imageData,
+      tiles: [],
+      paletteNotices: [messages.parsing.imageSizeNotice(imageData.width, imageData.height)],
+      hasBlockingIssue: true,
+    };
+  }
+
+  const dither = options.dither ?? DitherMethod.None;
+  const metric = options.metric ?? ColorMetric.Rgb;
+  if (!options.flatOnly) {
+    const customLookup = buildCustomShadeLookup(customColors, ALL_SHADES);
+    return convertToPalette(imageData, customLookup, options.paletteMask, convertUnsupported, dither, metric);
+  }
+
+  const flat = convertToPalette(
+    imageData,
+    buildCustomShadeLookup(customColors, FLAT_SHADES),
+    withMaskShades(options.paletteMask, FLAT_SHADES),
+    convertUnsupported,
+    dither,
+    metric,
+  );
+  const full = convertToPalette(
+    imageData,
+    buildCustomShadeLookup(customColors, ALL_SHADES),
+    withMaskShades(options.paletteMask, ALL_SHADES),
+    convertUnsupported,
+    dither,
+    metric,
+  );
+  return { ...flat, flatAlteredPixelCount: countAlteredPixels(flat.imageData, full.imageData) };
+}
+
+// Builds the color grid straight from map item colors, so the result reproduces the map exactly. Pixels in the
+// unobtainable darkest shade move to the dark shade when `convertUnsupported` is set and are left out otherwise.
+//
+// Callers:
+// - src/Index.tsx
+// - src/lib/headlessConversion.ts
+export function convertMapColorsToColorGrid(colors: Uint8Array, convertUnsupported = false): ColorGridAnalysis {
+  const colorGrid = createEmptyColorGrid();
+  const data = new Uint8ClampedArray(colors.length * 4);
+  let unobtainableCount = 0;
+  for (let i = 0; i < colors.length; ++i) {
+    const baseIndex = colors[i] >> 2;
+    if (baseIndex === 0) continue;
+    let shade = (colors[i] & 3) as Shade;
+    if (shade === UNOBTAINABLE_SHADE) {
+      ++unobtainableCount;
+      if (convertUnsupported) shade = 0;
+    }
+    data.set([...getShadedRgb({ baseIndex, shade }), 255], i * 4);
+    if (shade !== UNOBTAINABLE_SHADE) {
+      colorGrid[i % MAP_SIZE][Math.floor(i / MAP_SIZE)] = { isCustom: false, id: baseIndex, shade };
+    }
+  }
+  return {
+    imageData: createImageData(data, MAP_SIZE, MAP_SIZE),
+    tiles: [{ row: 0, col: 0, colorGrid }],
+    paletteNotices: unobtainableCount > 0
+      ? [messages.parsing.unobtainableShadeNotice(unobtainableCount, convertUnsupported)]
+      : [],
+    hasBlockingIssue: unobtainableCount > 0 && !convertUnsupported,
+  };
+}
+
+// Draws tiles as the map would show them, for sources that produce a color grid without an image.
+//
+// Callers:
+// - src/lib/structureReader.ts
+export function renderColorGridTiles(tiles: ColorGridTile[], customColors: CustomColorLike[]): ImageData {
+  const cols = Math.max(1, ...tiles.map(tile => tile.col + 1));
+  const rows = Math.max(1, ...tiles.map(tile => tile.row + 1));
+  const width = cols * MAP_SIZE;
+  const data = new Uint8ClampedArray(width * rows * MAP_SIZE * 4);
+  for (const { row, col, colorGrid } of tiles) {
+    for (let x = 0; x < MAP_SIZE; ++x) {
+      for (let z = 0; z < MAP_SIZE; ++z) {
+        const cell = colorGrid[x][z];
+        if (!cell.isCustom && cell.id === 0) continue;
+        const custom = cell.isCustom ? customColors[cell.id] : null;
+        if (cell.isCustom && !custom) continue;
+        const rgb = custom
+          ? [custom.r, custom.g, custom.b].map(c => Math.floor((c * SHADE_MULTIPLIERS[cell.shade]) / 255))
+          : getShadedRgb({ baseIndex: cell.id, shade: cell.shade });
+        data.set([...rgb, 255], (((row * MAP_SIZE + z) * width) + col * MAP_SIZE + x) * 4);
+      }
+    }
+  }
+  return createImageData(data, width, rows * MAP_SIZE);
 }
@@ -3,6 +3,7 @@
  * - MAP_SIZE
  * - ColorData
  * - ColorGrid
+ * - ColorGridTile
  * - TRANSPARENT_COLOR
  * - getColorCell()
  * - isTransparentColor()
@@ -10,26 +11,51 @@
  *
  * Callers:
  * - src/Index.tsx
+ * - src/lib/anvilWriter.ts
  * - src/lib/colorGridAnalysis.ts
  * - src/lib/colorGridParsing.ts
+ * - src/lib/headlessConversion.ts
+ * - src/lib/imageFitting.ts
+ * - src/lib/mapDatWriter.ts
+ * - src/lib/mapRenderSimulation.ts
+ * - src/lib/nbtExport.ts
+ * - src/lib/schemWriter.ts
  * - src/lib/shapeAnalysis.ts
  * - src/lib/shapeCellRules.ts
  * - src/lib/shapeGeneration.ts
  * - src/lib/shapeSubstitution.ts
+ * - src/lib/shapeWorker.ts
+ * - src/lib/shapeWorkerClient.ts
+ * - src/lib/shapeWorkerProtocol.ts
+ * - src/lib/structureReader.ts
+ * - src/lib/wallSeams.ts
+ * - src/library/index.ts
  */
 import { WATER_BASE_INDEX, type Shade } from "@/data/mapColors";
 
 // Callers:
+// - src/Index.tsx
+// - src/lib/anvilWriter.ts
 // - src/lib/colorGridAnalysis.ts
 // - src/lib/colorGridParsing.ts
+// - src/lib/imageFitting.ts
+// - src/lib/mapDatWriter.ts
+// - src/lib/mapRenderSimulation.ts
+// - src/lib/nbtExport.ts
+// - src/lib/schemWriter.ts
 // - src/lib/shapeCellRules.ts
 // - src/lib/shapeGeneration.ts
 // - src/lib/shapeSubstitution.ts
+// - src/lib/shapeWorkerProtocol.ts
+// - src/lib/structureReader.ts
+// - src/lib/wallSeams.ts
 export const MAP_SIZE = 128;
 
 // Callers:
 // - src/lib/colorGridParsing.ts
+// - src/lib/mapRenderSimulation.ts
 // - src/lib/shapeGeneration.ts
+// - src/lib/shapeWorkerProtocol.ts
 export interface ColorData {
   isCustom: boolean;
   id: number;
@@ -41,17 +67,45 @@ export interface ColorData {
 // Callers:
 // - src/lib/colorGridAnalysis.ts
 // - src/lib/colorGridParsing.ts
+// - src/lib/mapDatWriter.ts
+// - src/lib/mapRenderSimulation.ts
+// - src/lib/nbtExport.ts
 // - src/lib/shapeAnalysis.ts
 // - src/lib/shapeGeneration.ts
+// - src/lib/shapeWorkerProtocol.ts
+// - src/library/index.ts
 export type ColorGrid = ColorData[][];
+
+// One map of a multi-map wall. Row 0 is the northern (top) edge of the image, column 0 the western edge.
+//
+// Callers:
+// - src/Index.tsx
+// - src/lib/colorGridParsing.ts
+// - src/lib/headlessConversion.ts
+// - src/lib/mapRenderSimulation.ts
+// - src/lib/shapeWorker.ts
+// - src/lib/shapeWorkerClient.ts
+// - src/lib/shapeWorkerProtocol.ts
+// - src/lib/structureReader.ts
+// - src/lib/wallSeams.ts
+// - src/library/index.ts
+export interface ColorGridTile {
+  row: number;
+  col: number;
+  colorGrid: ColorGrid;
+}
+
 // Callers:
 // - src/lib/colorGridParsing.ts
+// - src/lib/mapRenderSimulation.ts
+// - src/lib/shapeWorkerProtocol.ts
 export const TRANSPARENT_COLOR: ColorData = Object.freeze({ isCustom: false, id: 0, shade: 0 });
 
 // Callers:
 // - src/lib/colorGridAnalysis.ts
 // - src/lib/shapeAnalysis.ts
 // - src/lib/shapeGeneration.ts
+// - src/lib/wallSeams.ts
 export function getColorCell(grid: ColorGrid, x: number, z: number): ColorData {
   if (x < 0 || x >= MAP_SIZE || z < 0 || z >= MAP_SIZE) return TRANSPARENT_COLOR;
   return grid[x]?.[z] ?? TRANSPARENT_COLOR;
@@ -59,8 +113,11 @@ export function getColorCell(grid: ColorGrid, x: number, z: number): ColorData {
 
 // Callers:
 // - src/lib/colorGridAnalysis.ts
+// - src/lib/mapRenderSimulation.ts
 // - src/lib/shapeAnalysis.ts
 // - src/lib/shapeGeneration.ts
+// - src/lib/structureReader.ts
+// - src/lib/wallSeams.ts
 export function isTransparentColor(cell: ColorData): boolean {
   return !cell.isCustom && cell.id === 0;
 }
@@ -68,6 +125,7 @@ export function isTransparentColor(cell: ColorData): boolean {
 // Callers:
 // - src/lib/colorGridAnalysis.ts
 // - src/lib/shapeGeneration.ts
+// - src/lib/wallSeams.ts
 export function isWaterColor(color: ColorData): boolean {
   return !color.isCustom && color.id === WATER_BASE_INDEX;
 }
@@ -9,26 +9,63 @@
  * - buildModeUsesMixSteps()
  * - buildModeUsesPaletteSeed()
  * - getBuildModeRangeMax()
+ * - getBuildModeFileSuffix()
  * - FillerAssignment
+ * - ExportFormat
+ * - getExportFormatExtension()
+ * - DitherMethod
+ * - ColorMetric
+ * - PaletteShadeSet
+ * - getPaletteShadeSetShades()
+ * - ImageFitMode
+ * - ResampleFilter
+ * - MapDimension
+ * - MinecraftVersion
  *
  * Callers:
  * - src/Index.tsx
+ * - src/cli/conversionSettings.ts
+ * - src/cli/png2nbt.ts
+ * - src/cli/png2nbtServer.ts
  * - src/data/i18n/*
+ * - src/data/javaVersions.ts
+ * - src/lib/colorDistance.ts
+ * - src/lib/colorGridParsing.ts
+ * - src/lib/dithering.ts
  * - src/lib/fillerRules.ts
+ * - src/lib/headlessConversion.ts
+ * - src/lib/imageFitting.ts
+ * - src/lib/mapDatWriter.ts
+ * - src/lib/mapRenderSimulation.ts
  * - src/lib/materialRules.ts
  * - src/lib/messages.ts
+ * - src/lib/nbtExport.ts
+ * - src/lib/projectFile.ts
  * - src/lib/shapeAnalysis.ts
  * - src/lib/shapeCellRules.ts
  * - src/lib/shapeGeneration.ts
  * - src/lib/shapeSubstitution.ts
  * - src/lib/shapeTypes.ts
+ * - src/lib/shapeWorker.ts
+ * - src/lib/shapeWorkerClient.ts
+ * - src/lib/shapeWorkerProtocol.ts
+ * - src/lib/structureReader.ts
+ * - src/library/index.ts
  */
+import type { Shade } from "@/data/mapColors";
+
 // Callers:
 // - src/Index.tsx
+// - src/cli/conversionSettings.ts
+// - src/lib/headlessConversion.ts
+// - src/lib/mapRenderSimulation.ts
 // - src/lib/materialRules.ts
+// - src/lib/projectFile.ts
 // - src/lib/shapeAnalysis.ts
 // - src/lib/shapeCellRules.ts
 // - src/lib/shapeSubstitution.ts
+// - src/lib/structureReader.ts
+// - src/library/index.ts
 export interface CustomColor {
   r: number;
   g: number;
@@ -38,9 +75,18 @@ export interface CustomColor {
 
 // Callers:
 // - src/Index.tsx
+// - src/cli/png2nbt.ts
+// - src/cli/png2nbtServer.ts
 // - src/data/i18n/*
+// - src/lib/headlessConversion.ts
 // - src/lib/messages.ts
+// - src/lib/projectFile.ts
 // - src/lib/shapeGeneration.ts
+// - src/lib/shapeWorker.ts
+// - src/lib/shapeWorkerClient.ts
+// - src/lib/shapeWorkerProtocol.ts
+// - src/lib/structureReader.ts
+// - src/library/index.ts
 export enum BuildMode {
   Flat = "flat",
   InclineUp = "incline_up",
@@ -62,11 +108,15 @@ export enum BuildMode {
 
 // Callers:
 // - src/Index.tsx
+// - src/cli/png2nbtServer.ts
 // - src/lib/fillerRules.ts
+// - src/lib/mapRenderSimulation.ts
 // - src/lib/shapeAnalysis.ts
 // - src/lib/shapeCellRules.ts
 // - src/lib/shapeGeneration.ts
 // - src/lib/shapeTypes.ts
+// - src/lib/shapeWorkerProtocol.ts
+// - src/library/index.ts
 export enum FillerRole {
   ShadeNorthRow = "shade_north_row",
   ShadeSuppress = "shade_suppress",
@@ -86,7 +136,9 @@ export enum FillerRole {
 
 // Callers:
 // - src/Index.tsx
+// - src/lib/headlessConversion.ts
 // - src/lib/shapeGeneration.ts
+// - src/lib/shapeWorker.ts
 export function isStaircaseBuildMode(buildMode: BuildMode): boolean {
   switch (buildMode) {
     case BuildMode.Flat:
@@ -126,6 +178,7 @@ export function buildModeUsesLayerGap(buildMode: BuildMode): boolean {
 
 // Callers:
 // - src/Index.tsx
+// - src/lib/headlessConversion.ts
 // - src/lib/shapeGeneration.ts
 export function buildModeUsesMixSteps(buildMode: BuildMode): boolean {
   switch (buildMode) {
@@ -139,6 +192,7 @@ export function buildModeUsesMixSteps(buildMode: BuildMode): boolean {
 
 // Callers:
 // - src/Index.tsx
+// - src/lib/headlessConversion.ts
 // - src/lib/shapeGeneration.ts
 export function buildModeUsesPaletteSeed(buildMode: BuildMode): boolean {
   return buildMode === BuildMode.StaircaseParty;
@@ -157,12 +211,220 @@ export function getBuildModeRangeMax(buildMode: BuildMode): number {
   }
 }
 
+const BUILD_MODE_FILE_SUFFIXES: Record<BuildMode, string> = {
+  [BuildMode.Flat]: "",
+  [BuildMode.InclineUp]: "-incline_up",
+  [BuildMode.InclineDown]: "-incline_down",
+  [BuildMode.StaircaseNorthline]: "-northline",
+  [BuildMode.StaircaseSouthline]: "-southline",
+  [BuildMode.StaircaseClassic]: "-classic",
+  [BuildMode.StaircaseValley]: "-valley",
+  [BuildMode.StaircaseGrouped]: "-grouped",
+  [BuildMode.StaircaseParty]: "-party",
+  [BuildMode.SuppressSplitRow]: "-split_row",
+  [BuildMode.SuppressSplitChecker]: "-split_checker",
+  [BuildMode.SuppressCheckerEW]: "-suppress_checker_EW",
+  [BuildMode.SuppressPairsEW]: "-suppress_pairs_EW",
+  [BuildMode.Suppress2Layer]: "-suppress_2layer",
+  [BuildMode.Suppress2LayerLateFillers]: "-suppress_2layer",
+  [BuildMode.Suppress2LayerLatePairs]: "-suppress_2layer",
+};
+
+// Appended to the image name of downloads so files built in different modes do not overwrite each other.
+//
+// Callers:
+// - src/Index.tsx
+// - src/lib/headlessConversion.ts
+// - src/library/index.ts
+export function getBuildModeFileSuffix(buildMode: BuildMode): string {
+  return BUILD_MODE_FILE_SUFFIXES[buildMode] ?? `-${buildMode}`;
+}
+
 // Callers:
 // - src/Index.tsx
+// - src/cli/png2nbtServer.ts
 // - src/lib/fillerRules.ts
+// - src/lib/headlessConversion.ts
 // - src/lib/shapeAnalysis.ts
 // - src/lib/shapeSubstitution.ts
+// - src/library/index.ts
 export interface FillerAssignment {
   role: FillerRole;
   block: string;
 }
+
+// Callers:
+// - src/Index.tsx
+// - src/cli/png2nbt.ts
+// - src/cli/png2nbtServer.ts
+// - src/data/i18n/*
+// - src/lib/headlessConversion.ts
+// - src/lib/messages.ts
+// - src/lib/nbtExport.ts
+// - src/lib/projectFile.ts
+// - src/library/index.ts
+export enum ExportFormat {
+  Structure = "nbt",
+  Litematic = "litematic",
+  Schematic = "schem",
+  SchematicV2 = "schem_v2",
+  Mcstructure = "mcstructure",
+  Region = "mca",
+  Datapack = "mcfunction",
+}
+
+// Callers:
+// - src/Index.tsx
+// - src/lib/nbtExport.ts
+export function getExportFormatExtension(format: ExportFormat): string {
+  switch (format) {
+    case ExportFormat.Structure:
+      return "nbt";
+    case ExportFormat.Litematic:
+      return "litematic";
+    case ExportFormat.Schematic:
+    case ExportFormat.SchematicV2:
+      return "schem";
+    case ExportFormat.Mcstructure:
+      return "mcstructure";
+    case ExportFormat.Region:
+      return "mca";
+    // A datapack is always a zip with pack.mcmeta at its root.
+    case ExportFormat.Datapack:
+      return "zip";
+  }
+}
+
+// Callers:
+// - src/Index.tsx
+// - src/cli/png2nbt.ts
+// - src/cli/png2nbtServer.ts
+// - src/lib/colorGridParsing.ts
+// - src/lib/dithering.ts
+// - src/lib/headlessConversion.ts
+// - src/lib/messages.ts
+// - src/lib/projectFile.ts
+// - src/library/index.ts
+export enum DitherMethod {
+  None = "none",
+  FloydSteinberg = "floyd_steinberg",
+  Atkinson = "atkinson",
+  JarvisJudiceNinke = "jarvis_judice_ninke",
+  Bayer2 = "bayer_2",
+  Bayer4 = "bayer_4",
+  Bayer8 = "bayer_8",
+}
+
+// Distance used when snapping unsupported colors to the map palette. Rgb is plain squared RGB distance.
+//
+// Callers:
+// - src/Index.tsx
+// - src/cli/png2nbt.ts
+// - src/cli/png2nbtServer.ts
+// - src/lib/colorDistance.ts
+// - src/lib/colorGridParsing.ts
+// - src/lib/dithering.ts
+// - src/lib/headlessConversion.ts
+// - src/lib/messages.ts
+// - src/lib/projectFile.ts
+// - src/library/index.ts
+export enum ColorMetric {
+  Rgb = "rgb",
+  Cie76 = "cie76",
+  Ciede2000 = "ciede2000",
+  Oklab = "oklab",
+}
+
+// Which shades of each preset color palette conversion may use.
+//
+// Callers:
+// - src/Index.tsx
+// - src/cli/png2nbt.ts
+// - src/cli/png2nbtServer.ts
+// - src/lib/conversionTypes.ts
+// - src/lib/headlessConversion.ts
+// - src/lib/messages.ts
+// - src/lib/projectFile.ts
+// - src/library/index.ts
+export enum PaletteShadeSet {
+  All = "all",
+  NoLight = "no_light",
+  FlatOnly = "flat_only",
+}
+
+// Callers:
+// - src/Index.tsx
+// - src/lib/headlessConversion.ts
+export function getPaletteShadeSetShades(shadeSet: PaletteShadeSet): Shade[] {
+  switch (shadeSet) {
+    case PaletteShadeSet.NoLight:
+      return [0, 1];
+    case PaletteShadeSet.FlatOnly:
+      return [1];
+    default:
+      return [0, 1, 2];
+  }
+}
+
+// How an image is brought to the map grid before conversion. None keeps the source size, which then has to be a
+// multiple of 128 already.
+//
+// Callers:
+// - src/Index.tsx
+// - src/cli/png2nbt.ts
+// - src/cli/png2nbtServer.ts
+// - src/lib/imageFitting.ts
+// - src/lib/messages.ts
+// - src/library/index.ts
+export enum ImageFitMode {
+  None = "none",
+  Fit = "fit",
+  Fill = "fill",
+  Stretch = "stretch",
+}
+
+// Callers:
+// - src/Index.tsx
+// - src/cli/png2nbt.ts
+// - src/cli/png2nbtServer.ts
+// - src/lib/imageFitting.ts
+// - src/lib/messages.ts
+// - src/library/index.ts
+export enum ResampleFilter {
+  Nearest = "nearest",
+  Bilinear = "bilinear",
+  Lanczos = "lanczos",
+}
+
+// Dimension a map item belongs to; values are the namespaced ids stored in map_<id>.dat.
+//
+// Callers:
+// - src/Index.tsx
+// - src/lib/mapDatWriter.ts
+// - src/lib/messages.ts
+export enum MapDimension {
+  Overworld = "minecraft:overworld",
+  Nether = "minecraft:the_nether",
+  End = "minecraft:the_end",
+}
+
+// Java Edition release the export targets. Latest follows the newest blocks in `BASE_COLORS`.
+//
+// Callers:
+// - src/Index.tsx
+// - src/cli/png2nbt.ts
+// - src/cli/png2nbtServer.ts
+// - src/data/javaVersions.ts
+// - src/lib/headlessConversion.ts
+// - src/lib/messages.ts
+// - src/lib/nbtExport.ts
+// - src/lib/projectFile.ts
+// - src/library/index.ts
+export enum MinecraftVersion {
+  V1_16_5 = "1.16.5",
+  V1_18_2 = "1.18.2",
+  V1_20_1 = "1.20.1",
+  V1_20_4 = "1.20.4",
+  V1_21_1 = "1.21.1",
+  Latest = "latest",
+}
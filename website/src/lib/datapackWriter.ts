@@ -0,0 +1,139 @@
+/**
+ * Public API:
+ * - DatapackGroup
+ * - DatapackOptions
+ * - DEFAULT_MAX_COMMAND_CHAIN_LENGTH
+ * - writeDatapack()
+ *
+ * Callers:
+ * - src/Index.tsx
+ * - src/lib/nbtExport.ts
+ *
+ * Notes:
+ * - Writes the files of a datapack that rebuilds the art with `setblock` and `fill`, relative to whoever runs
+ *   `function mapart:<name>/build`. Runs of the same block along X become one `fill`.
+ * - Blocks go in from the bottom up and fragile blocks (carpets, plates, plants, ...) go in last, so every
+ *   support is placed before what rests on it.
+ * - Commands are split into `part_<n>` functions that each fit in one command chain and run one tick apart.
+ *   An invisible marker armor stand remembers the build position between ticks and is removed at the end.
+ */
+import { isFragileBlock } from "@/data/fragileBlocks";
+import { normalizeBlockId } from "./blockId";
+import type { BlockEntry } from "./nbtWriter";
+
+// One build function. Several groups (split halves, suppress steps) each get their own `<group>/build`.
+//
+// Callers:
+// - src/lib/nbtExport.ts
+export interface DatapackGroup {
+  name: string;
+  blocks: BlockEntry[];
+}
+
+// Callers:
+// - src/lib/nbtExport.ts
+export interface DatapackOptions {
+  name: string;
+  packFormat: number;
+  maxCommandChainLength: number;
+}
+
+// The `maxCommandChainLength` game rule default.
+//
+// Callers:
+// - src/Index.tsx
+// - src/lib/nbtExport.ts
+export const DEFAULT_MAX_COMMAND_CHAIN_LENGTH = 65536;
+
+const NAMESPACE = "mapart";
+// Datapacks read `function/` instead of `functions/` since 1.21 (pack format 45).
+const SINGULAR_FOLDER_PACK_FORMAT = 45;
+// Commands a tick spends outside the part itself: build, step and scheduling commands.
+const STEP_OVERHEAD = 8;
+
+function toResourceName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9_.-]+/g, "_").replace(/^_+|_+$/g, "") || NAMESPACE;
+}
+
+function relative(value: number): string {
+  return value === 0 ? "~" : `~${value}`;
+}
+
+// Bottom-up, then north to south and west to east; fragile blocks wait until everything else is in.
+function sortForPlacement(blocks: BlockEntry[]): BlockEntry[] {
+  const fragile = new Map<string, boolean>();
+  const isFragile = (blockName: string) => {
+    let value = fragile.get(blockName);
+    if (value === undefined) fragile.set(blockName, value = isFragileBlock(normalizeBlockId(blockName)));
+    return value;
+  };
+  return [...blocks].sort((a, b) =>
+    Number(isFragile(a.blockName)) - Number(isFragile(b.blockName)) || a.y - b.y || a.z - b.z || a.x - b.x,
+  );
+}
+
+function buildCommands(blocks: BlockEntry[]): string[] {
+  const sorted = sortForPlacement(blocks);
+  const commands: string[] = [];
+  for (let i = 0; i < sorted.length;) {
+    const start = sorted[i];
+    let end = i;
+    while (
+      end + 1 < sorted.length &&
+      sorted[end + 1].blockName === start.blockName &&
+      sorted[end + 1].y === start.y &&
+      sorted[end + 1].z === start.z &&
+      sorted[end + 1].x === sorted[end].x + 1
+    ) ++end;
+    const from = `${relative(start.x)} ${relative(start.y)} ${relative(start.z)}`;
+    commands.push(end === i
+      ? `setblock ${from} ${start.blockName}`
+      : `fill ${from} ${relative(sorted[end].x)} ${relative(start.y)} ${relative(start.z)} ${start.blockName}`);
+    i = end + 1;
+  }
+  return commands;
+}
+
+function toLines(lines: string[]): Uint8Array {
+  return new TextEncoder().encode(`${lines.join("\n")}\n`);
+}
+
+// Blocks are relative to the executor: 0, 0, 0 is the block at its feet, with +X east and +Z south.
+//
+// Callers:
+// - src/lib/nbtExport.ts
+export function writeDatapack(groups: DatapackGroup[], options: DatapackOptions): { name: string; data: Uint8Array }[] {
+  const name = toResourceName(options.name);
+  const folder = options.packFormat >= SINGULAR_FOLDER_PACK_FORMAT ? "function" : "functions";
+  const tag = `${NAMESPACE}.${name}`;
+  const marker = `@e[type=minecraft:armor_stand,tag=${tag}]`;
+  const partSize = Math.max(1, options.maxCommandChainLength - STEP_OVERHEAD);
+  const files: { name: string; data: Uint8Array }[] = [{
+    name: "pack.mcmeta",
+    data: new TextEncoder().encode(`${JSON.stringify({
+      pack: { pack_format: options.packFormat, description: `Map art: ${options.name}` },
+    }, null, 2)}\n`),
+  }];
+
+  for (const group of groups) {
+    const path = groups.length > 1 ? `${name}/${toResourceName(group.name)}` : name;
+    const id = (fn: string) => `${NAMESPACE}:${path}/${fn}`;
+    const file = (fn: string, lines: string[]) => ({ name: `data/${NAMESPACE}/${folder}/${path}/${fn}.mcfunction`, data: toLines(lines) });
+    const commands = buildCommands(group.blocks);
+    const partCount = Math.max(1, Math.ceil(commands.length / partSize));
+    files.push(file("build", [
+      `# Builds ${options.name}${groups.length > 1 ? ` (${group.name})` : ""} with its lowest north-west block at your feet.`,
+      `kill ${marker}`,
+      `execute align xyz run summon minecraft:armor_stand ~ ~ ~ {Marker:1b,Invisible:1b,NoGravity:1b,Tags:["${tag}"]}`,
+      `function ${id("step_1")}`,
+    ]));
+    for (let part = 1; part <= partCount; ++part) {
+      files.push(file(`part_${part}`, commands.slice((part - 1) * partSize, part * partSize)));
+      files.push(file(`step_${part}`, [
+        `execute as ${marker} at @s run function ${id(`part_${part}`)}`,
+        part < partCount ? `schedule function ${id(`step_${part + 1}`)} 1t` : `kill ${marker}`,
+      ]));
+    }
+  }
+  return files;
+}
@@ -0,0 +1,140 @@
+/**
+ * Public API:
+ * - ditherImageData()
+ *
+ * Callers:
+ * - src/lib/colorGridParsing.ts
+ *
+ * Notes:
+ * - Error diffusion scans rows left to right and never spreads error into or out of transparent pixels.
+ * - Ordered (Bayer) dithering offsets each channel by the threshold map before picking the nearest color.
+ */
+import { type RgbColor, createNearestColorFinder } from "./colorDistance";
+import { ColorMetric, DitherMethod } from "./conversionTypes";
+
+interface DiffusionKernel {
+  divisor: number;
+  // [dx, dy, weight]
+  taps: [number, number, number][];
+}
+
+const DIFFUSION_KERNELS: Partial<Record<DitherMethod, DiffusionKernel>> = {
+  [DitherMethod.FloydSteinberg]: {
+    divisor: 16,
+    taps: [[1, 0, 7], [-1, 1, 3], [0, 1, 5], [1, 1, 1]],
+  },
+  // Atkinson only passes on 6/8 of the error, which keeps highlights and shadows clean.
+  [DitherMethod.Atkinson]: {
+    divisor: 8,
+    taps: [[1, 0, 1], [2, 0, 1], [-1, 1, 1], [0, 1, 1], [1, 1, 1], [0, 2, 1]],
+  },
+  [DitherMethod.JarvisJudiceNinke]: {
+    divisor: 48,
+    taps: [
+      [1, 0, 7], [2, 0, 5],
+      [-2, 1, 3], [-1, 1, 5], [0, 1, 7], [1, 1, 5], [2, 1, 3],
+      [-2, 2, 1], [-1, 2, 3], [0, 2, 5], [1, 2, 3], [2, 2, 1],
+    ],
+  },
+};
+
+const BAYER_SIZES: Partial<Record<DitherMethod, number>> = {
+  [DitherMethod.Bayer2]: 2,
+  [DitherMethod.Bayer4]: 4,
+  [DitherMethod.Bayer8]: 8,
+};
+
+// Channel offset range for ordered dithering; roughly the gap between neighboring shades of one map color.
+const ORDERED_DITHER_SPREAD = 32;
+
+function buildBayerMatrix(size: number): number[][] {
+  if (size === 1) return [[0]];
+  const half = buildBayerMatrix(size / 2);
+  const matrix = Array.from({ length: size }, () => Array<number>(size).fill(0));
+  for (let y = 0; y < size / 2; ++y) {
+    for (let x = 0; x < size / 2; ++x) {
+      const v = half[y][x] * 4;
+      matrix[y][x] = v;
+      matrix[y][x + size / 2] = v + 2;
+      matrix[y + size / 2][x] = v + 3;
+      matrix[y + size / 2][x + size / 2] = v + 1;
+    }
+  }
+  return matrix;
+}
+
+function clampChannel(value: number): number {
+  return value < 0 ? 0 : value > 255 ? 255 : Math.round(value);
+}
+
+function diffuseErrors(imageData: ImageData, kernel: DiffusionKernel, findNearest: ReturnType<typeof createNearestColorFinder>) {
+  const { width, height, data } = imageData;
+  const work = new Float32Array(width * height * 3);
+  for (let i = 0, j = 0; i < data.length; i += 4, j += 3) {
+    work[j] = data[i];
+    work[j + 1] = data[i + 1];
+    work[j + 2] = data[i + 2];
+  }
+
+  for (let y = 0; y < height; ++y) {
+    for (let x = 0; x < width; ++x) {
+      const pixel = y * width + x;
+      if (data[pixel * 4 + 3] === 0) continue;
+      const w = pixel * 3;
+      const r = clampChannel(work[w]), g = clampChannel(work[w + 1]), b = clampChannel(work[w + 2]);
+      const nearest = findNearest(r, g, b);
+      data[pixel * 4] = nearest.r;
+      data[pixel * 4 + 1] = nearest.g;
+      data[pixel * 4 + 2] = nearest.b;
+
+      const er = work[w] - nearest.r, eg = work[w + 1] - nearest.g, eb = work[w + 2] - nearest.b;
+      for (const [dx, dy, weight] of kernel.taps) {
+        const tx = x + dx, ty = y + dy;
+        if (tx < 0 || tx >= width || ty >= height) continue;
+        const target = ty * width + tx;
+        if (data[target * 4 + 3] === 0) continue;
+        const f = weight / kernel.divisor;
+        work[target * 3] += er * f;
+        work[target * 3 + 1] += eg * f;
+        work[target * 3 + 2] += eb * f;
+      }
+    }
+  }
+}
+
+function applyOrderedDither(imageData: ImageData, size: number, findNearest: ReturnType<typeof createNearestColorFinder>) {
+  const { width, height, data } = imageData;
+  const matrix = buildBayerMatrix(size);
+  const levels = size * size;
+  for (let y = 0; y < height; ++y) {
+    for (let x = 0; x < width; ++x) {
+      const i = (y * width + x) * 4;
+      if (data[i + 3] === 0) continue;
+      const offset = ((matrix[y % size][x % size] + 0.5) / levels - 0.5) * ORDERED_DITHER_SPREAD;
+      const nearest = findNearest(clampChannel(data[i] + offset), clampChannel(data[i + 1] + offset), clampChannel(data[i + 2] + offset));
+      data[i] = nearest.r;
+      data[i + 1] = nearest.g;
+      data[i + 2] = nearest.b;
+    }
+  }
+}
+
+// Quantizes every visible pixel of imageData in place to the given palette. DitherMethod.None snaps each pixel to
+// its nearest color.
+//
+// Callers:
+// - src/lib/colorGridParsing.ts
+export function ditherImageData(
+  imageData: ImageData,
+  palette: RgbColor[],
+  method: DitherMethod,
+  metric: ColorMetric = ColorMetric.Rgb,
+): void {
+  const findNearest = createNearestColorFinder(palette, metric);
+  const kernel = DIFFUSION_KERNELS[method];
+  if (kernel) {
+    diffuseErrors(imageData, kernel, findNearest);
+    return;
+  }
+  applyOrderedDither(imageData, BAYER_SIZES[method] ?? 1, findNearest);
+}
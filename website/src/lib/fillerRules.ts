@@ -7,9 +7,14 @@
  * - resolveAssignedFillerName()
  * - resolveCellAssignedRole()
  * - resolveCellFillerName()
+ * - DEFAULT_FILLER_BLOCKS
+ * - createFillerAssignments()
  *
  * Callers:
  * - src/Index.tsx
+ * - src/cli/png2nbtServer.ts
+ * - src/lib/headlessConversion.ts
+ * - src/lib/projectFile.ts
  * - src/lib/shapeAnalysis.ts
  * - src/lib/shapeSubstitution.ts
  */
@@ -17,6 +22,7 @@ import { BASE_COLORS } from "../data/mapColors";
 import { normalizeBlockId } from "./blockId";
 import { FillerRole, type FillerAssignment } from "./conversionTypes";
 import { resolveBlockName } from "./materialRules";
+import { SupportMode } from "./uiTypes";
 
 const TRANSPARENT_FILLER_BLOCKS = new Set<string>(BASE_COLORS[0].blocks.map(normalizeBlockId));
 const DISABLED_FILLER_ALIASES = new Set<string>(["air", "none", "n/a", "na"]);
@@ -108,3 +114,80 @@ export function resolveCellFillerName(
   }
   return null;
 }
+
+// Filler blocks a fresh page starts with.
+//
+// Callers:
+// - src/Index.tsx
+// - src/cli/png2nbtServer.ts
+// - src/lib/headlessConversion.ts
+// - src/lib/projectFile.ts
+export const DEFAULT_FILLER_BLOCKS = {
+  support: "resin_block",
+  shade: "resin_block",
+  suppress2LayerLate: "slime_block",
+  dominateVoid: "slime_block",
+  recessiveVoid: "honey_block",
+} as const;
+
+// Role assignments for the chosen filler blocks and support mode. Empty void and late fillers fall back to the
+// shade filler.
+//
+// Callers:
+// - src/Index.tsx
+// - src/lib/headlessConversion.ts
+export function createFillerAssignments(
+  supportFillerBlock: string,
+  shadeFillerBlock: string,
+  dominateVoidFillerBlock: string,
+  recessiveVoidFillerBlock: string,
+  suppress2LayerLateFillerBlock: string,
+  supportMode: SupportMode,
+  usesDirectWaterBlock: boolean,
+  usesIceWaterBlock: boolean,
+): FillerAssignment[] {
+  const assignments: FillerAssignment[] = [
+    { role: FillerRole.ShadeSuppress, block: shadeFillerBlock },
+    { role: FillerRole.ShadeNorthRow, block: shadeFillerBlock },
+    { role: FillerRole.ShadeVoidDominant, block: dominateVoidFillerBlock || shadeFillerBlock },
+    { role: FillerRole.ShadeVoidRecessive, block: recessiveVoidFillerBlock || shadeFillerBlock },
+    { role: FillerRole.ShadeSuppressLate, block: suppress2LayerLateFillerBlock || shadeFillerBlock },
+  ];
+  switch (supportMode) {
+    case SupportMode.Steps:
+      assignments.push({ role: FillerRole.StairStep, block: supportFillerBlock });
+      assignments.push({ role: FillerRole.WaterPath, block: supportFillerBlock });
+      break;
+    case SupportMode.All:
+      assignments.push({ role: FillerRole.SupportAll, block: supportFillerBlock });
+      if (usesDirectWaterBlock) {
+        assignments.push({ role: FillerRole.SupportWaterSides, block: supportFillerBlock });
+        assignments.push({ role: FillerRole.SupportWaterSidesCovered, block: supportFillerBlock });
+      }
+      assignments.push({ role: FillerRole.WaterPath, block: supportFillerBlock });
+      break;
+    case SupportMode.Fragile:
+      assignments.push({ role: FillerRole.SupportFragile, block: supportFillerBlock });
+      break;
+    case SupportMode.Water:
+      if (usesDirectWaterBlock) {
+        assignments.push({ role: FillerRole.SupportWaterSides, block: supportFillerBlock });
+        assignments.push({ role: FillerRole.SupportWaterSidesCovered, block: supportFillerBlock });
+      } else {
+        // Already handled by SupportWaterSidesCovered, so can be safely else-gated
+        assignments.push({ role: FillerRole.SupportWaterBase, block: supportFillerBlock });
+      }
+      assignments.push({ role: FillerRole.WaterPath, block: supportFillerBlock });
+      break;
+    case SupportMode.None:
+      break;
+  }
+  if (
+    supportMode !== SupportMode.None &&
+    usesIceWaterBlock &&
+    !assignments.some(({ role }) => role === FillerRole.SupportWaterBase)
+  ) {
+    assignments.push({ role: FillerRole.SupportWaterBase, block: supportFillerBlock });
+  }
+  return assignments;
+}
@@ -0,0 +1,222 @@
+/**
+ * Public API:
+ * - isGifData()
+ * - decodeGifFrames()
+ *
+ * Callers:
+ * - src/lib/colorGridParsing.ts
+ *
+ * Notes:
+ * - Every frame is returned fully composited at the logical screen size, honoring each frame's disposal method,
+ *   so frames can be converted independently.
+ * - Frame delays are ignored; map walls show one frame per map.
+ */
+import { createImageData } from "./imageData";
+import { messages } from "./messages";
+
+interface GraphicControl {
+  disposal: number;
+  transparentIndex: number | null;
+}
+
+class GifReader {
+  pos = 0;
+
+  constructor(readonly bytes: Uint8Array) {}
+
+  byte(): number {
+    if (this.pos >= this.bytes.length) throw new Error(messages.parsing.gifTruncated);
+    return this.bytes[this.pos++];
+  }
+
+  u16(): number {
+    const lo = this.byte();
+    return lo | (this.byte() << 8);
+  }
+
+  take(length: number): Uint8Array {
+    if (this.pos + length > this.bytes.length) throw new Error(messages.parsing.gifTruncated);
+    const out = this.bytes.subarray(this.pos, this.pos + length);
+    this.pos += length;
+    return out;
+  }
+
+  colorTable(size: number): Uint8Array {
+    return this.take(size * 3);
+  }
+
+  subBlocks(): Uint8Array {
+    const chunks: Uint8Array[] = [];
+    let total = 0;
+    for (let size = this.byte(); size !== 0; size = this.byte()) {
+      const chunk = this.take(size);
+      chunks.push(chunk);
+      total += chunk.length;
+    }
+    const out = new Uint8Array(total);
+    let offset = 0;
+    for (const chunk of chunks) {
+      out.set(chunk, offset);
+      offset += chunk.length;
+    }
+    return out;
+  }
+
+  skipSubBlocks(): void {
+    for (let size = this.byte(); size !== 0; size = this.byte()) this.take(size);
+  }
+}
+
+function decodeLzw(data: Uint8Array, minCodeSize: number, pixelCount: number): Uint8Array {
+  const out = new Uint8Array(pixelCount);
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  const prefix = new Int32Array(4096);
+  const suffix = new Uint8Array(4096);
+  const firstByte = new Uint8Array(4096);
+  const stack = new Uint8Array(4097);
+  for (let i = 0; i < clearCode; ++i) {
+    suffix[i] = i;
+    firstByte[i] = i;
+  }
+
+  let codeSize = minCodeSize + 1;
+  let nextCode = endCode + 1;
+  let previous = -1;
+  let bitBuffer = 0, bitCount = 0, bytePos = 0, outPos = 0;
+  while (outPos < pixelCount) {
+    while (bitCount < codeSize) {
+      if (bytePos >= data.length) return out;
+      bitBuffer |= data[bytePos++] << bitCount;
+      bitCount += 8;
+    }
+    const code = bitBuffer & ((1 << codeSize) - 1);
+    bitBuffer >>>= codeSize;
+    bitCount -= codeSize;
+
+    if (code === clearCode) {
+      codeSize = minCodeSize + 1;
+      nextCode = endCode + 1;
+      previous = -1;
+      continue;
+    }
+    if (code === endCode) break;
+
+    let current = code;
+    let stackSize = 0;
+    if (previous !== -1 && code >= nextCode) {
+      // KwKwK case: the code being defined is the previous string plus its own first byte.
+      stack[stackSize++] = firstByte[previous];
+      current = previous;
+    }
+    while (current >= clearCode) {
+      stack[stackSize++] = suffix[current];
+      current = prefix[current];
+    }
+    stack[stackSize++] = current;
+
+    if (previous !== -1 && nextCode < 4096) {
+      prefix[nextCode] = previous;
+      suffix[nextCode] = current;
+      firstByte[nextCode] = firstByte[previous];
+      ++nextCode;
+      if (nextCode === 1 << codeSize && codeSize < 12) ++codeSize;
+    }
+    previous = code;
+    while (stackSize > 0 && outPos < pixelCount) out[outPos++] = stack[--stackSize];
+  }
+  return out;
+}
+
+// Maps each decoded row to its position in an interlaced image (passes of every 8th, 8th+4, 4th+2, 2nd+1 row).
+function getInterlacedRows(height: number): number[] {
+  const rows: number[] = [];
+  for (const [start, step] of [[0, 8], [4, 8], [2, 4], [1, 2]]) {
+    for (let y = start; y < height; y += step) rows.push(y);
+  }
+  return rows;
+}
+
+// Callers:
+// - src/lib/colorGridParsing.ts
+export function isGifData(bytes: Uint8Array): boolean {
+  return bytes.length >= 6 && String.fromCharCode(...bytes.subarray(0, 6)).startsWith("GIF8");
+}
+
+// Callers:
+// - src/lib/colorGridParsing.ts
+export function decodeGifFrames(bytes: Uint8Array): ImageData[] {
+  if (!isGifData(bytes)) throw new Error(messages.parsing.gifInvalid);
+  const reader = new GifReader(bytes);
+  reader.take(6);
+  const width = reader.u16();
+  const height = reader.u16();
+  const screenFlags = reader.byte();
+  reader.byte(); // background color index; disposal to background clears to transparent like browsers do
+  reader.byte(); // pixel aspect ratio
+  const globalTable = screenFlags & 0x80 ? reader.colorTable(2 << (screenFlags & 7)) : null;
+
+  const canvas = new Uint8ClampedArray(width * height * 4);
+  const frames: ImageData[] = [];
+  let control: GraphicControl = { disposal: 0, transparentIndex: null };
+
+  for (;;) {
+    const introducer = reader.pos < bytes.length ? reader.byte() : 0x3b;
+    if (introducer === 0x3b) break;
+    if (introducer === 0x21) {
+      const label = reader.byte();
+      if (label === 0xf9) {
+        const block = reader.subBlocks();
+        control = {
+          disposal: (block[0] >> 2) & 7,
+          transparentIndex: block[0] & 1 ? block[3] : null,
+        };
+      } else {
+        reader.skipSubBlocks();
+      }
+      continue;
+    }
+    if (introducer !== 0x2c) throw new Error(messages.parsing.gifInvalid);
+
+    const left = reader.u16();
+    const top = reader.u16();
+    const frameWidth = reader.u16();
+    const frameHeight = reader.u16();
+    const flags = reader.byte();
+    const table = flags & 0x80 ? reader.colorTable(2 << (flags & 7)) : globalTable;
+    if (!table) throw new Error(messages.parsing.gifInvalid);
+    const minCodeSize = reader.byte();
+    const indices = decodeLzw(reader.subBlocks(), minCodeSize, frameWidth * frameHeight);
+
+    const previous = control.disposal === 3 ? canvas.slice() : null;
+    const rows = flags & 0x40 ? getInterlacedRows(frameHeight) : null;
+    for (let row = 0; row < frameHeight; ++row) {
+      const y = top + (rows ? rows[row] : row);
+      if (y >= height) continue;
+      for (let col = 0; col < frameWidth; ++col) {
+        const x = left + col;
+        if (x >= width) continue;
+        const index = indices[row * frameWidth + col];
+        if (index === control.transparentIndex) continue;
+        const o = (y * width + x) * 4;
+        canvas[o] = table[index * 3];
+        canvas[o + 1] = table[index * 3 + 1];
+        canvas[o + 2] = table[index * 3 + 2];
+        canvas[o + 3] = 255;
+      }
+    }
+    frames.push(createImageData(canvas.slice(), width, height));
+
+    if (control.disposal === 2) {
+      for (let y = top; y < Math.min(height, top + frameHeight); ++y) {
+        canvas.fill(0, (y * width + left) * 4, (y * width + Math.min(width, left + frameWidth)) * 4);
+      }
+    } else if (previous) {
+      canvas.set(previous);
+    }
+    control = { disposal: 0, transparentIndex: null };
+  }
+
+  if (frames.length === 0) throw new Error(messages.parsing.gifInvalid);
+  return frames;
+}
@@ -0,0 +1,366 @@
+/**
+ * Public API:
+ * - FillerBlocks
+ * - HeadlessConversionSettings
+ * - HeadlessConversionResult
+ * - HeadlessAnalysisResult
+ * - ShapedTiles
+ * - convertImageFrames()
+ * - shapeColorGridTiles()
+ * - resolveExportOptions()
+ * - exportShapedFrames()
+ * - convertImageFile()
+ * - analyzeImageFile()
+ *
+ * Callers:
+ * - src/cli/png2nbt.ts
+ * - src/cli/png2nbtServer.ts
+ * - src/lib/projectFile.ts
+ * - src/library/index.ts
+ *
+ * Notes:
+ * - Runs the page's pipeline without React or a DOM: decode, palette conversion, shape generation and export.
+ *   Settings that are left out take the values a fresh page starts with.
+ * - Modes follow the page: a map without any height change is built flat, other modes are built even where they
+ *   collapse into another one, and map walls are seam-aligned for staircase modes.
+ */
+import { BASE_COLORS, WATER_BASE_INDEX } from "@/data/mapColors";
+import { getAvailableBlockMapping } from "@/data/javaVersions";
+import type { Preset } from "@/data/presets";
+import { normalizeBlockId } from "./blockId";
+import { computeWallColorGridStats } from "./colorGridAnalysis";
+import {
+  type ColorGridAnalysis,
+  buildPaletteMask,
+  convertImageToColorGrid,
+  convertMapColorsToColorGrid,
+  isMapDatFile,
+  loadImageFramesFromFile,
+  loadMapColorsFromFile,
+} from "./colorGridParsing";
+import type { ColorGridTile } from "./colorGridTypes";
+import {
+  BuildMode,
+  type ColorMetric,
+  type CustomColor,
+  type DitherMethod,
+  ExportFormat,
+  type FillerAssignment,
+  MinecraftVersion,
+  PaletteShadeSet,
+  buildModeUsesMixSteps,
+  buildModeUsesPaletteSeed,
+  getBuildModeFileSuffix,
+  getPaletteShadeSetShades,
+  isStaircaseBuildMode,
+} from "./conversionTypes";
+import { DEFAULT_FILLER_BLOCKS, createFillerAssignments } from "./fillerRules";
+import { DEFAULT_IMAGE_FIT, type ImageFitOptions, fitOffGridImage } from "./imageFitting";
+import { findRenderMismatchNotice } from "./mapRenderSimulation";
+import { messages, type PaletteNotice } from "./messages";
+import { type ExportResult, convertFramesToNbt, convertToNbt, convertWallToNbt } from "./nbtExport";
+import { analyzeMaterialNeeds, combineMaterialNeeds, hasColorHeightVariance } from "./shapeAnalysis";
+import { type GeneratedShape, generateShapeForMode, generateShapeMap, getPaletteSeedOffset } from "./shapeGeneration";
+import { SupportMode } from "./uiTypes";
+import { alignWallSeams } from "./wallSeams";
+
+type ExportOptions = Parameters<typeof convertToNbt>[1];
+
+const DEFAULT_LAYER_GAP = 5;
+
+// Callers:
+// - src/cli/png2nbt.ts
+// - src/cli/png2nbtServer.ts
+// - src/lib/headlessConversion.ts
+// - src/lib/projectFile.ts
+// - src/library/index.ts
+export type FillerBlocks = { -readonly [K in keyof typeof DEFAULT_FILLER_BLOCKS]: string };
+
+// Callers:
+// - src/cli/png2nbt.ts
+// - src/cli/png2nbtServer.ts
+// - src/library/index.ts
+export interface HeadlessConversionSettings {
+  preset: Preset;
+  customColors?: CustomColor[];
+  buildMode?: BuildMode;
+  supportMode?: SupportMode;
+  // Empty void and late fillers fall back to the shade filler, as on the page.
+  fillers?: Partial<FillerBlocks>;
+  // Replaces the assignments built from `fillers` and `supportMode`.
+  fillerAssignments?: FillerAssignment[];
+  layerGap?: number;
+  mixSteps?: boolean;
+  paletteSeed?: boolean;
+  // Snaps colors missing from the palette to the nearest one instead of refusing the image; on by default.
+  convertUnsupported?: boolean;
+  dither?: DitherMethod;
+  metric?: ColorMetric;
+  paletteShadeSet?: PaletteShadeSet;
+  // Off-grid images are letterboxed onto the nearest map count when no fit mode is chosen.
+  fit?: ImageFitOptions;
+  format?: ExportFormat;
+  version?: MinecraftVersion;
+  // Leaves out fillers below the lowest layer of the art; on by default.
+  assumeFloor?: boolean;
+  forceZ129?: boolean;
+  structureBlockTiles?: boolean;
+  maxCommandChainLength?: number;
+  // Builds only these columns or suppress steps, as the page's range sliders do.
+  columnRange?: [number, number];
+  stepRange?: [number, number];
+  mapDat?: ExportOptions["mapDat"];
+  region?: ExportOptions["region"];
+}
+
+// `buildMode` is the mode the file was built in, which is Flat for maps without any height change.
+//
+// Callers:
+// - src/cli/png2nbt.ts
+// - src/cli/png2nbtServer.ts
+export interface HeadlessConversionResult extends ExportResult {
+  buildMode: BuildMode;
+  fileName: string;
+}
+
+// Callers:
+// - src/cli/png2nbtServer.ts
+export interface HeadlessAnalysisResult {
+  buildMode: BuildMode;
+  tiles: { row: number; col: number }[];
+  stats: ReturnType<typeof computeWallColorGridStats>;
+  materials: ReturnType<typeof analyzeMaterialNeeds>;
+  paletteNotices: PaletteNotice[];
+}
+
+// Callers:
+// - src/lib/headlessConversion.ts
+// - src/library/index.ts
+export interface ShapedTiles {
+  requestedMode: BuildMode;
+  buildMode: BuildMode;
+  shapes: GeneratedShape[];
+  shapeOptions: Parameters<typeof generateShapeForMode>[2];
+}
+
+// Palette conversion of decoded frames; every frame is fitted like the first one.
+//
+// Callers:
+// - src/lib/headlessConversion.ts
+// - src/library/index.ts
+export function convertImageFrames(frames: ImageData[], settings: HeadlessConversionSettings): ColorGridAnalysis[] {
+  const shadeSet = settings.paletteShadeSet ?? PaletteShadeSet.All;
+  const options = {
+    dither: settings.dither,
+    metric: settings.metric,
+    paletteMask: buildPaletteMask(
+      getAvailableBlockMapping(settings.preset.blocks, settings.version ?? MinecraftVersion.Latest),
+      getPaletteShadeSetShades(shadeSet),
+    ),
+    flatOnly: shadeSet === PaletteShadeSet.FlatOnly,
+    fit: fitOffGridImage(frames[0], settings.fit ?? DEFAULT_IMAGE_FIT),
+  };
+  return frames.map(frame =>
+    convertImageToColorGrid(frame, settings.customColors ?? [], settings.convertUnsupported ?? true, options),
+  );
+}
+
+async function loadFrames(file: File, settings: HeadlessConversionSettings): Promise<ColorGridAnalysis[]> {
+  if (isMapDatFile(file)) {
+    return [convertMapColorsToColorGrid(await loadMapColorsFromFile(file), settings.convertUnsupported ?? true)];
+  }
+  return convertImageFrames(await loadImageFramesFromFile(file), settings);
+}
+
+function shapeTiles(
+  tiles: ColorGridTile[],
+  buildMode: BuildMode,
+  shapeMaps: Partial<Record<BuildMode, GeneratedShape>>[] | null,
+  options: Parameters<typeof generateShapeForMode>[2],
+): GeneratedShape[] {
+  const shapes = tiles.map((tile, i) => shapeMaps?.[i][buildMode] ?? generateShapeForMode(tile.colorGrid, buildMode, options));
+  return tiles.length > 1 && isStaircaseBuildMode(buildMode) ? alignWallSeams(tiles, shapes) : shapes;
+}
+
+interface PreparedConversion extends ShapedTiles {
+  frames: ColorGridAnalysis[];
+  stats: ReturnType<typeof computeWallColorGridStats>;
+  options: ExportOptions;
+}
+
+function getWaterBlockUsage(blockMapping: Record<number, string>): { usesWaterForWater: boolean; usesIceForWater: boolean } {
+  const waterBlock = normalizeBlockId(blockMapping[WATER_BASE_INDEX] || BASE_COLORS[WATER_BASE_INDEX].blocks[0] || "");
+  return { usesWaterForWater: waterBlock === "water", usesIceForWater: waterBlock === "ice" };
+}
+
+// Flat maps reuse the northline shapes, which are flat wherever a map allows it.
+function getShapeMode(buildMode: BuildMode): BuildMode {
+  return buildMode === BuildMode.Flat ? BuildMode.StaircaseNorthline : buildMode;
+}
+
+// Shapes one frame's tiles in the requested mode. `buildMode` is Flat when no tile has any height change; asking for
+// Flat when some tile has one throws.
+//
+// Callers:
+// - src/lib/headlessConversion.ts
+// - src/library/index.ts
+export function shapeColorGridTiles(
+  tiles: ColorGridTile[],
+  settings: HeadlessConversionSettings,
+  stats: ReturnType<typeof computeWallColorGridStats> = computeWallColorGridStats(tiles.map(tile => tile.colorGrid)),
+): ShapedTiles {
+  const blockMapping = settings.preset.blocks;
+  const supportMode = settings.supportMode ?? SupportMode.None;
+  const { usesWaterForWater, usesIceForWater } = getWaterBlockUsage(blockMapping);
+  const usesBelowOnlyWaterSupport =
+    (supportMode === SupportMode.Water && !usesWaterForWater) || (supportMode !== SupportMode.None && usesIceForWater);
+  const requestedMode = settings.buildMode ?? BuildMode.StaircaseClassic;
+  const minLayerGap = supportMode === SupportMode.Fragile || supportMode === SupportMode.All ? 3 : 2;
+  const shapeOptions = {
+    layerGap: Math.max(minLayerGap, settings.layerGap ?? DEFAULT_LAYER_GAP),
+    mixSteps: buildModeUsesMixSteps(requestedMode) && stats.hasStepMixOpportunity && (settings.mixSteps ?? false),
+    paletteSeed: buildModeUsesPaletteSeed(requestedMode) && settings.paletteSeed ? getPaletteSeedOffset(blockMapping) : 0,
+    waterFillerOffset: stats.hasNonLightWater && usesBelowOnlyWaterSupport,
+  };
+  const shapeMaps = tiles.map(tile => generateShapeMap(tile.colorGrid, shapeOptions, {
+    hasWater: stats.hasWater,
+    hasTransparency: stats.hasTransparency,
+    uniformNonFlatDirection: stats.uniformNonFlatDirection,
+    hasTwoLayerLateVoidNeed: stats.voidShadowStats.dominant > 0,
+  }));
+  const hasHeightChange = tiles.some((tile, i) => hasColorHeightVariance(
+    shapeMaps[i][BuildMode.StaircaseNorthline] ?? generateShapeForMode(tile.colorGrid, BuildMode.StaircaseNorthline, shapeOptions),
+  ));
+  // Like the page, Flat is only offered for maps that are flat; anything else would still be built as a staircase.
+  if (requestedMode === BuildMode.Flat && hasHeightChange) throw new Error(messages.parsing.flatModeUnavailable);
+  const buildMode = hasHeightChange ? requestedMode : BuildMode.Flat;
+  return {
+    requestedMode,
+    buildMode,
+    shapes: shapeTiles(tiles, getShapeMode(buildMode), shapeMaps, shapeOptions),
+    shapeOptions,
+  };
+}
+
+// Callers:
+// - src/lib/headlessConversion.ts
+// - src/library/index.ts
+export function resolveExportOptions(settings: HeadlessConversionSettings, baseName: string): ExportOptions {
+  const blockMapping = settings.preset.blocks;
+  const { usesWaterForWater, usesIceForWater } = getWaterBlockUsage(blockMapping);
+  const fillers = { ...DEFAULT_FILLER_BLOCKS, ...settings.fillers };
+  return {
+    blockMapping,
+    fillerAssignments: settings.fillerAssignments ?? createFillerAssignments(
+      fillers.support,
+      fillers.shade,
+      fillers.dominateVoid,
+      fillers.recessiveVoid,
+      fillers.suppress2LayerLate,
+      settings.supportMode ?? SupportMode.None,
+      usesWaterForWater,
+      usesIceForWater,
+    ),
+    assumeFloor: settings.assumeFloor ?? true,
+    forceZ129: settings.forceZ129 ?? false,
+    customColors: settings.customColors ?? [],
+    baseName,
+    format: settings.format ?? ExportFormat.Structure,
+    version: settings.version ?? MinecraftVersion.Latest,
+    mapDat: settings.mapDat,
+    region: settings.region,
+    structureBlockTiles: settings.structureBlockTiles ?? false,
+    maxCommandChainLength: settings.maxCommandChainLength,
+    columnRange: settings.columnRange,
+    stepRange: settings.stepRange,
+  };
+}
+
+// Writes shaped frames as one file: a single map, a map wall, or one build per frame. Staircase builds of the
+// first frame are checked against the image first.
+//
+// Callers:
+// - src/lib/headlessConversion.ts
+// - src/library/index.ts
+export async function exportShapedFrames(
+  frames: ColorGridTile[][],
+  frameShapes: GeneratedShape[][],
+  buildMode: BuildMode,
+  options: ExportOptions,
+): Promise<ExportResult> {
+  const tiles = frames[0];
+  const mismatch = isStaircaseBuildMode(buildMode) ? findRenderMismatchNotice(tiles, frameShapes[0], options) : null;
+  const wallFrames = frames.map((frame, i) => frame.map((tile, j) => ({ ...tile, shape: frameShapes[i][j] })));
+  const result = wallFrames.length > 1
+    ? await convertFramesToNbt(wallFrames, options)
+    : tiles.length > 1
+    ? await convertWallToNbt(wallFrames[0], options)
+    : await convertToNbt(frameShapes[0][0], options, tiles[0].colorGrid);
+  return { ...result, paletteNotices: [...(mismatch ? [mismatch] : []), ...result.paletteNotices] };
+}
+
+// Everything both a conversion and an analysis need: the converted frames, the image stats, the first frame's
+// shapes and the export options.
+async function prepareConversion(file: File, settings: HeadlessConversionSettings): Promise<PreparedConversion> {
+  const frames = await loadFrames(file, settings);
+  const blockedIndex = frames.findIndex(frame => frame.hasBlockingIssue);
+  if (blockedIndex >= 0) {
+    const notices = frames[blockedIndex].paletteNotices.map(messages.parsing.noticeText);
+    throw new Error([...(blockedIndex > 0 ? [messages.parsing.frameRejected(blockedIndex + 1)] : []), ...notices].join(" "));
+  }
+  const stats = computeWallColorGridStats(frames[0].tiles.map(tile => tile.colorGrid));
+  // Like the page, colors without a block in the target version stop the build instead of being left out.
+  const version = settings.version ?? MinecraftVersion.Latest;
+  const available = getAvailableBlockMapping(settings.preset.blocks, version);
+  const missing = [...stats.usedBaseColors].filter(idx => idx > 0 && !available[idx]);
+  if (missing.length > 0) {
+    const versionMissing = missing.filter(idx => !!settings.preset.blocks[idx]).length;
+    throw new Error([
+      ...(missing.length > versionMissing ? [messages.preview.missingBlockAssignments(missing.length - versionMissing)] : []),
+      ...(versionMissing > 0 ? [messages.preview.versionUnavailableAssignments(versionMissing, version)] : []),
+    ].join(" "));
+  }
+  return {
+    ...shapeColorGridTiles(frames[0].tiles, settings, stats),
+    frames,
+    stats,
+    options: resolveExportOptions(settings, file.name.replace(/\.[^/.]+$/, "")),
+  };
+}
+
+// Converts an image (PNG, GIF, TIFF; animated and multi-page files become one build per frame) or a map_<id>.dat.
+// Images the page would refuse throw with the page's notices as the message.
+//
+// Callers:
+// - src/cli/png2nbt.ts
+// - src/cli/png2nbtServer.ts
+// - src/library/index.ts
+export async function convertImageFile(file: File, settings: HeadlessConversionSettings): Promise<HeadlessConversionResult> {
+  const { frames, requestedMode, buildMode, shapes, shapeOptions, options } = await prepareConversion(file, settings);
+  const shapeMode = getShapeMode(buildMode);
+  const frameShapes = frames.map((frame, i) => i === 0 ? shapes : shapeTiles(frame.tiles, shapeMode, null, shapeOptions));
+  const result = await exportShapedFrames(frames.map(frame => frame.tiles), frameShapes, buildMode, options);
+  return {
+    ...result,
+    paletteNotices: [...frames[0].paletteNotices, ...result.paletteNotices],
+    buildMode,
+    fileName: `${options.baseName}${getBuildModeFileSuffix(requestedMode)}.${result.fileExtension}`,
+  };
+}
+
+// Image stats and the material list of the first frame, as the page's material table shows them.
+//
+// Callers:
+// - src/cli/png2nbtServer.ts
+// - src/library/index.ts
+export async function analyzeImageFile(file: File, settings: HeadlessConversionSettings): Promise<HeadlessAnalysisResult> {
+  const { frames, stats, buildMode, shapes, options } = await prepareConversion(file, settings);
+  const tiles = frames[0].tiles;
+  return {
+    buildMode,
+    tiles: tiles.map(({ row, col }) => ({ row, col })),
+    stats,
+    materials: combineMaterialNeeds(tiles.map((tile, i) => analyzeMaterialNeeds(tile.colorGrid, shapes[i], options))),
+    paletteNotices: frames[0].paletteNotices,
+  };
+}
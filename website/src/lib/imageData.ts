@@ -0,0 +1,26 @@
+/**
+ * Public API:
+ * - createImageData()
+ *
+ * Callers:
+ * - src/lib/colorGridParsing.ts
+ * - src/lib/gifDecoder.ts
+ * - src/lib/imageFitting.ts
+ * - src/lib/pngDecoder.ts
+ * - src/library/index.ts
+ *
+ * Notes:
+ * - Node and Bun have no `ImageData`. The conversion code only reads `data`, `width` and `height`, so outside the
+ *   browser a plain object with those fields stands in for it.
+ */
+
+// Callers:
+// - src/lib/colorGridParsing.ts
+// - src/lib/gifDecoder.ts
+// - src/lib/imageFitting.ts
+// - src/lib/pngDecoder.ts
+// - src/library/index.ts
+export function createImageData(data: ImageData["data"], width: number, height: number): ImageData {
+  if (typeof ImageData !== "undefined") return new ImageData(data, width, height);
+  return { data, width, height, colorSpace: "srgb" } as ImageData;
+}
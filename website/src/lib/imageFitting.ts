@@ -0,0 +1,344 @@
+/**
+ * Public API:
+ * - ImageCropInsets
+ * - ImageFitOptions
+ * - DEFAULT_IMAGE_FIT
+ * - MAX_FIT_MAPS
+ * - fitImageToMaps()
+ * - fitOffGridImage()
+ * - normalizeImageFitOptions()
+ *
+ * Callers:
+ * - src/Index.tsx
+ * - src/cli/png2nbt.ts
+ * - src/cli/png2nbtServer.ts
+ * - src/lib/colorGridParsing.ts
+ * - src/lib/headlessConversion.ts
+ * - src/lib/projectFile.ts
+ * - src/library/index.ts
+ *
+ * Notes:
+ * - Runs before palette conversion: crop, then scale into the N×M map target, then pad. The output is always a
+ *   multiple of 128 on both axes unless the mode is `ImageFitMode.None`.
+ * - Resampling works on premultiplied alpha so transparent pixels do not bleed their color into the edges. The
+ *   result alpha is thresholded at 50%, since a map pixel is either drawn or transparent.
+ */
+import { type RgbColor } from "./colorDistance";
+import { MAP_SIZE } from "./colorGridTypes";
+import { ImageFitMode, ResampleFilter } from "./conversionTypes";
+import { createImageData } from "./imageData";
+
+// Pixels trimmed from each source edge before scaling.
+//
+// Callers:
+// - src/Index.tsx
+// - src/lib/imageFitting.ts
+export interface ImageCropInsets {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+}
+
+// `padColor` fills the letterbox bars of `ImageFitMode.Fit`; null leaves them transparent.
+//
+// Callers:
+// - src/Index.tsx
+// - src/lib/colorGridParsing.ts
+// - src/lib/headlessConversion.ts
+// - src/lib/projectFile.ts
+// - src/library/index.ts
+export interface ImageFitOptions {
+  mode: ImageFitMode;
+  mapsWide: number;
+  mapsTall: number;
+  filter: ResampleFilter;
+  crop: ImageCropInsets;
+  padColor: RgbColor | null;
+}
+
+// Callers:
+// - src/Index.tsx
+// - src/cli/png2nbt.ts
+// - src/cli/png2nbtServer.ts
+// - src/lib/headlessConversion.ts
+// - src/library/index.ts
+export const DEFAULT_IMAGE_FIT: ImageFitOptions = {
+  mode: ImageFitMode.None,
+  mapsWide: 1,
+  mapsTall: 1,
+  filter: ResampleFilter.Lanczos,
+  crop: { left: 0, top: 0, right: 0, bottom: 0 },
+  padColor: null,
+};
+
+// Callers:
+// - src/Index.tsx
+// - src/cli/png2nbt.ts
+// - src/cli/png2nbtServer.ts
+// - src/lib/imageFitting.ts
+export const MAX_FIT_MAPS = 16;
+
+// Fit options read back from storage or a project file: unknown modes and filters fall back to the defaults, map
+// counts and crop insets are clamped.
+//
+// Callers:
+// - src/Index.tsx
+// - src/lib/projectFile.ts
+export function normalizeImageFitOptions(raw: unknown): ImageFitOptions {
+  const stored = (raw && typeof raw === "object" ? raw : {}) as Partial<ImageFitOptions>;
+  const clampMaps = (value: unknown) => Math.max(1, Math.min(MAX_FIT_MAPS, Math.floor(Number(value)) || 1));
+  const clampInset = (value: unknown) => Math.max(0, Math.floor(Number(value)) || 0);
+  const crop = (stored.crop ?? {}) as Partial<ImageFitOptions["crop"]>;
+  const pad = stored.padColor;
+  return {
+    mode: Object.values(ImageFitMode).includes(stored.mode) ? stored.mode : DEFAULT_IMAGE_FIT.mode,
+    mapsWide: clampMaps(stored.mapsWide),
+    mapsTall: clampMaps(stored.mapsTall),
+    filter: Object.values(ResampleFilter).includes(stored.filter) ? stored.filter : DEFAULT_IMAGE_FIT.filter,
+    crop: {
+      left: clampInset(crop.left),
+      top: clampInset(crop.top),
+      right: clampInset(crop.right),
+      bottom: clampInset(crop.bottom),
+    },
+    padColor: pad && typeof pad === "object" ? { r: pad.r & 255, g: pad.g & 255, b: pad.b & 255 } : null,
+  };
+}
+
+interface SourceRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+interface FilterKernel {
+  radius: number;
+  weight: (x: number) => number;
+}
+
+const LANCZOS_LOBES = 3;
+
+function sinc(x: number): number {
+  if (x === 0) return 1;
+  const px = Math.PI * x;
+  return Math.sin(px) / px;
+}
+
+const FILTER_KERNELS: Record<Exclude<ResampleFilter, ResampleFilter.Nearest>, FilterKernel> = {
+  [ResampleFilter.Bilinear]: { radius: 1, weight: x => Math.max(0, 1 - Math.abs(x)) },
+  [ResampleFilter.Lanczos]: {
+    radius: LANCZOS_LOBES,
+    weight: x => (Math.abs(x) < LANCZOS_LOBES ? sinc(x) * sinc(x / LANCZOS_LOBES) : 0),
+  },
+};
+
+function toPremultiplied(imageData: ImageData): Float32Array {
+  const { data } = imageData;
+  const out = new Float32Array(data.length);
+  for (let i = 0; i < data.length; i += 4) {
+    const a = data[i + 3] / 255;
+    out[i] = data[i] * a;
+    out[i + 1] = data[i + 1] * a;
+    out[i + 2] = data[i + 2] * a;
+    out[i + 3] = data[i + 3];
+  }
+  return out;
+}
+
+// Contributions of source samples [min, max] to each destination sample along one axis.
+function buildAxisWeights(
+  start: number,
+  length: number,
+  destLength: number,
+  min: number,
+  max: number,
+  kernel: FilterKernel,
+): { first: number; weights: Float32Array }[] {
+  const scale = length / destLength;
+  // Widening the kernel when shrinking averages every covered source pixel instead of skipping some.
+  const stretch = Math.max(1, scale);
+  const support = kernel.radius * stretch;
+  const axis: { first: number; weights: Float32Array }[] = [];
+  for (let d = 0; d < destLength; ++d) {
+    const center = start + (d + 0.5) * scale - 0.5;
+    const first = Math.max(min, Math.ceil(center - support));
+    const last = Math.min(max, Math.floor(center + support));
+    const weights = new Float32Array(Math.max(0, last - first + 1));
+    let total = 0;
+    for (let s = first; s <= last; ++s) {
+      const w = kernel.weight((s - center) / stretch);
+      weights[s - first] = w;
+      total += w;
+    }
+    if (total !== 0) for (let i = 0; i < weights.length; ++i) weights[i] /= total;
+    axis.push({ first, weights });
+  }
+  return axis;
+}
+
+function resampleWithKernel(
+  source: ImageData,
+  rect: SourceRect,
+  destWidth: number,
+  destHeight: number,
+  kernel: FilterKernel,
+): Float32Array {
+  const src = toPremultiplied(source);
+  const minX = Math.max(0, Math.floor(rect.x));
+  const maxX = Math.min(source.width - 1, Math.ceil(rect.x + rect.width) - 1);
+  const minY = Math.max(0, Math.floor(rect.y));
+  const maxY = Math.min(source.height - 1, Math.ceil(rect.y + rect.height) - 1);
+  const xAxis = buildAxisWeights(rect.x, rect.width, destWidth, minX, maxX, kernel);
+  const yAxis = buildAxisWeights(rect.y, rect.height, destHeight, minY, maxY, kernel);
+
+  // Horizontal pass over the source rows the vertical pass will read.
+  const rows = maxY - minY + 1;
+  const horizontal = new Float32Array(rows * destWidth * 4);
+  for (let y = 0; y < rows; ++y) {
+    const srcRow = (minY + y) * source.width;
+    for (let x = 0; x < destWidth; ++x) {
+      const { first, weights } = xAxis[x];
+      let r = 0, g = 0, b = 0, a = 0;
+      for (let i = 0; i < weights.length; ++i) {
+        const s = (srcRow + first + i) * 4;
+        const w = weights[i];
+        r += src[s] * w;
+        g += src[s + 1] * w;
+        b += src[s + 2] * w;
+        a += src[s + 3] * w;
+      }
+      const o = (y * destWidth + x) * 4;
+      horizontal[o] = r;
+      horizontal[o + 1] = g;
+      horizontal[o + 2] = b;
+      horizontal[o + 3] = a;
+    }
+  }
+
+  const out = new Float32Array(destWidth * destHeight * 4);
+  for (let y = 0; y < destHeight; ++y) {
+    const { first, weights } = yAxis[y];
+    for (let x = 0; x < destWidth; ++x) {
+      let r = 0, g = 0, b = 0, a = 0;
+      for (let i = 0; i < weights.length; ++i) {
+        const s = ((first - minY + i) * destWidth + x) * 4;
+        const w = weights[i];
+        r += horizontal[s] * w;
+        g += horizontal[s + 1] * w;
+        b += horizontal[s + 2] * w;
+        a += horizontal[s + 3] * w;
+      }
+      const o = (y * destWidth + x) * 4;
+      out[o] = r;
+      out[o + 1] = g;
+      out[o + 2] = b;
+      out[o + 3] = a;
+    }
+  }
+  return out;
+}
+
+function resampleNearest(source: ImageData, rect: SourceRect, destWidth: number, destHeight: number): Float32Array {
+  const src = toPremultiplied(source);
+  const out = new Float32Array(destWidth * destHeight * 4);
+  for (let y = 0; y < destHeight; ++y) {
+    const sy = Math.min(source.height - 1, Math.floor(rect.y + ((y + 0.5) * rect.height) / destHeight));
+    for (let x = 0; x < destWidth; ++x) {
+      const sx = Math.min(source.width - 1, Math.floor(rect.x + ((x + 0.5) * rect.width) / destWidth));
+      out.set(src.subarray((sy * source.width + sx) * 4, (sy * source.width + sx) * 4 + 4), (y * destWidth + x) * 4);
+    }
+  }
+  return out;
+}
+
+function getCropRect(imageData: ImageData, crop: ImageCropInsets): SourceRect {
+  const left = Math.max(0, Math.floor(crop.left));
+  const top = Math.max(0, Math.floor(crop.top));
+  const right = Math.max(0, Math.floor(crop.right));
+  const bottom = Math.max(0, Math.floor(crop.bottom));
+  // Insets that would leave nothing are ignored on that axis.
+  const width = imageData.width - left - right;
+  const height = imageData.height - top - bottom;
+  return {
+    x: width > 0 ? left : 0,
+    y: height > 0 ? top : 0,
+    width: width > 0 ? width : imageData.width,
+    height: height > 0 ? height : imageData.height,
+  };
+}
+
+function clampByte(value: number): number {
+  return value < 0 ? 0 : value > 255 ? 255 : Math.round(value);
+}
+
+// Returns imageData unchanged for `ImageFitMode.None`; otherwise a new image sized mapsWide×mapsTall maps.
+//
+// Callers:
+// - src/lib/colorGridParsing.ts
+export function fitImageToMaps(imageData: ImageData, options: ImageFitOptions): ImageData {
+  if (options.mode === ImageFitMode.None) return imageData;
+  const targetWidth = Math.max(1, Math.floor(options.mapsWide)) * MAP_SIZE;
+  const targetHeight = Math.max(1, Math.floor(options.mapsTall)) * MAP_SIZE;
+  const crop = getCropRect(imageData, options.crop);
+
+  let rect = crop;
+  let destWidth = targetWidth, destHeight = targetHeight;
+  if (options.mode === ImageFitMode.Fit) {
+    const scale = Math.min(targetWidth / crop.width, targetHeight / crop.height);
+    destWidth = Math.max(1, Math.min(targetWidth, Math.round(crop.width * scale)));
+    destHeight = Math.max(1, Math.min(targetHeight, Math.round(crop.height * scale)));
+  } else if (options.mode === ImageFitMode.Fill) {
+    const scale = Math.max(targetWidth / crop.width, targetHeight / crop.height);
+    const width = targetWidth / scale, height = targetHeight / scale;
+    rect = { x: crop.x + (crop.width - width) / 2, y: crop.y + (crop.height - height) / 2, width, height };
+  }
+
+  const resampled = options.filter === ResampleFilter.Nearest
+    ? resampleNearest(imageData, rect, destWidth, destHeight)
+    : resampleWithKernel(imageData, rect, destWidth, destHeight, FILTER_KERNELS[options.filter]);
+
+  const out = new Uint8ClampedArray(targetWidth * targetHeight * 4);
+  if (options.padColor) {
+    const { r, g, b } = options.padColor;
+    for (let i = 0; i < out.length; i += 4) out.set([r, g, b, 255], i);
+  }
+  const offsetX = Math.floor((targetWidth - destWidth) / 2);
+  const offsetY = Math.floor((targetHeight - destHeight) / 2);
+  for (let y = 0; y < destHeight; ++y) {
+    for (let x = 0; x < destWidth; ++x) {
+      const i = (y * destWidth + x) * 4;
+      const o = ((offsetY + y) * targetWidth + offsetX + x) * 4;
+      const a = resampled[i + 3];
+      if (a < 128) {
+        // Transparent source pixels stay transparent; padColor only fills the letterbox bars.
+        out.fill(0, o, o + 4);
+        continue;
+      }
+      const unpremultiply = 255 / a;
+      out[o] = clampByte(resampled[i] * unpremultiply);
+      out[o + 1] = clampByte(resampled[i + 1] * unpremultiply);
+      out[o + 2] = clampByte(resampled[i + 2] * unpremultiply);
+      out[o + 3] = 255;
+    }
+  }
+  return createImageData(out, targetWidth, targetHeight);
+}
+
+// Off-grid images are letterboxed onto the nearest map count instead of being rejected. Returns `options` itself
+// when the image needs no fitting or a fit mode is already chosen.
+//
+// Callers:
+// - src/Index.tsx
+// - src/lib/headlessConversion.ts
+export function fitOffGridImage(imageData: ImageData, options: ImageFitOptions): ImageFitOptions {
+  if (options.mode !== ImageFitMode.None) return options;
+  if (imageData.width % MAP_SIZE === 0 && imageData.height % MAP_SIZE === 0) return options;
+  return {
+    ...options,
+    mode: ImageFitMode.Fit,
+    mapsWide: Math.max(1, Math.min(MAX_FIT_MAPS, Math.round(imageData.width / MAP_SIZE))),
+    mapsTall: Math.max(1, Math.min(MAX_FIT_MAPS, Math.round(imageData.height / MAP_SIZE))),
+  };
+}
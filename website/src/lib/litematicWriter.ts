@@ -0,0 +1,162 @@
+/**
+ * Public API:
+ * - LitematicRegion
+ * - LitematicMetadata
+ * - writeLitematic()
+ *
+ * Callers:
+ * - src/lib/nbtExport.ts
+ *
+ * Notes:
+ * - Writes Litematica schematic version 6. Region block states are packed with `LitematicaBitArray`
+ *   semantics: at least 2 bits per entry, entries may straddle two longs, index = (y * sizeZ + z) * sizeX + x.
+ */
+import {
+  type BlockEntry,
+  NbtWriter,
+  TAG,
+  buildBlockPalette,
+  writeBlockStateCompound,
+} from "./nbtWriter";
+import { canonicalizeBlockEntry } from "./blockId";
+
+const LITEMATIC_VERSION = 6;
+const LITEMATIC_SUB_VERSION = 1;
+const AIR_BLOCK = "minecraft:air";
+
+// Blocks use the same normalized coordinates as the enclosing box; each region is cropped to its own blocks.
+//
+// Callers:
+// - src/lib/nbtExport.ts
+export interface LitematicRegion {
+  name: string;
+  blocks: BlockEntry[];
+}
+
+// Callers:
+// - src/lib/nbtExport.ts
+export interface LitematicMetadata {
+  name: string;
+  author: string;
+  description?: string;
+}
+
+interface Vec3 {
+  x: number;
+  y: number;
+  z: number;
+}
+
+function writeVec3Compound(w: NbtWriter, name: string, v: Vec3) {
+  w.beginCompound(name);
+  w.intTag("x", v.x);
+  w.intTag("y", v.y);
+  w.intTag("z", v.z);
+  w.endCompound();
+}
+
+function measureRegion(blocks: BlockEntry[]): { position: Vec3; size: Vec3 } {
+  if (blocks.length === 0) return { position: { x: 0, y: 0, z: 0 }, size: { x: 1, y: 1, z: 1 } };
+  let minX = Infinity, minY = Infinity, minZ = Infinity;
+  let maxX = -Infinity, maxY = -Infinity, maxZ = -Infinity;
+  for (const b of blocks) {
+    if (b.x < minX) minX = b.x;
+    if (b.y < minY) minY = b.y;
+    if (b.z < minZ) minZ = b.z;
+    if (b.x > maxX) maxX = b.x;
+    if (b.y > maxY) maxY = b.y;
+    if (b.z > maxZ) maxZ = b.z;
+  }
+  return {
+    position: { x: minX, y: minY, z: minZ },
+    size: { x: maxX - minX + 1, y: maxY - minY + 1, z: maxZ - minZ + 1 },
+  };
+}
+
+function packBlockStates(values: Uint32Array, paletteSize: number): Uint32Array {
+  const bits = Math.max(2, Math.ceil(Math.log2(paletteSize)));
+  const longCount = Math.ceil((values.length * bits) / 64);
+  const words = new Uint32Array(longCount * 2);
+  for (let i = 0; i < values.length; ++i) {
+    const value = values[i];
+    if (value === 0) continue;
+    const bitIndex = i * bits;
+    const word = bitIndex >>> 5;
+    const offset = bitIndex & 31;
+    words[word] |= value << offset;
+    if (offset + bits > 32) words[word + 1] |= value >>> (32 - offset);
+  }
+  return words;
+}
+
+function writeRegion(w: NbtWriter, region: LitematicRegion): { volume: number; blockCount: number } {
+  const { position, size } = measureRegion(region.blocks);
+  const { palette, indexOf } = buildBlockPalette(region.blocks, [AIR_BLOCK]);
+  const values = new Uint32Array(size.x * size.y * size.z);
+  let blockCount = 0;
+  for (const b of region.blocks) {
+    const index = ((b.y - position.y) * size.z + (b.z - position.z)) * size.x + (b.x - position.x);
+    const state = indexOf.get(canonicalizeBlockEntry(b.blockName))!;
+    if (values[index] === 0 && state !== 0) ++blockCount;
+    values[index] = state;
+  }
+
+  w.beginCompound(region.name);
+  writeVec3Compound(w, "Position", position);
+  writeVec3Compound(w, "Size", size);
+  w.beginList("BlockStatePalette", TAG.Compound, palette.length);
+  for (const entry of palette) writeBlockStateCompound(w, entry);
+  w.longArrayTag("BlockStates", packBlockStates(values, palette.length));
+  w.beginList("TileEntities", TAG.Compound, 0);
+  w.beginList("Entities", TAG.Compound, 0);
+  w.beginList("PendingBlockTicks", TAG.Compound, 0);
+  w.beginList("PendingFluidTicks", TAG.Compound, 0);
+  w.endCompound();
+
+  return { volume: values.length, blockCount };
+}
+
+// Callers:
+// - src/lib/nbtExport.ts
+export function writeLitematic(
+  regions: LitematicRegion[],
+  enclosingSize: Vec3,
+  metadata: LitematicMetadata,
+  dataVersion: number,
+): Uint8Array {
+  // Metadata totals depend on every region, so regions are written to a separate buffer first.
+  const regionWriter = new NbtWriter();
+  let totalVolume = 0;
+  let totalBlocks = 0;
+  for (const region of regions) {
+    const { volume, blockCount } = writeRegion(regionWriter, region);
+    totalVolume += volume;
+    totalBlocks += blockCount;
+  }
+  const now = BigInt(Date.now());
+
+  const w = new NbtWriter();
+  w.beginCompound("");
+  w.intTag("MinecraftDataVersion", dataVersion);
+  w.intTag("Version", LITEMATIC_VERSION);
+  w.intTag("SubVersion", LITEMATIC_SUB_VERSION);
+
+  w.beginCompound("Metadata");
+  w.stringTag("Name", metadata.name);
+  w.stringTag("Author", metadata.author);
+  w.stringTag("Description", metadata.description ?? "");
+  w.intTag("RegionCount", regions.length);
+  w.intTag("TotalVolume", totalVolume);
+  w.intTag("TotalBlocks", totalBlocks);
+  w.longTag("TimeCreated", now);
+  w.longTag("TimeModified", now);
+  writeVec3Compound(w, "EnclosingSize", enclosingSize);
+  w.endCompound();
+
+  w.beginCompound("Regions");
+  w.writeBytes(regionWriter.toUint8Array());
+  w.endCompound();
+
+  w.endCompound();
+  return w.toUint8Array();
+}
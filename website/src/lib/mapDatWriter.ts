@@ -0,0 +1,106 @@
+/**
+ * Public API:
+ * - MapItemData
+ * - MapDatOptions
+ * - MAX_MAP_SCALE
+ * - getMapSpan()
+ * - writeMapDat()
+ *
+ * Callers:
+ * - src/Index.tsx
+ * - src/lib/nbtExport.ts
+ *
+ * Notes:
+ * - Writes the uncompressed NBT of a `map_<id>.dat`; nbtExport.ts gzips it like every other Java file.
+ * - Maps are written locked, so the game never redraws them from the terrain around their center.
+ * - Custom colors carry no base color id, so they are stored as the base color closest to their RGB.
+ */
+import { BASE_COLORS } from "@/data/mapColors";
+import { type ColorGrid, MAP_SIZE } from "./colorGridTypes";
+import { MapDimension } from "./conversionTypes";
+import { NbtWriter, TAG } from "./nbtWriter";
+
+// Callers:
+// - src/lib/mapDatWriter.ts
+export interface MapItemData {
+  scale: number;
+  dimension: MapDimension;
+  centerX: number;
+  centerZ: number;
+}
+
+// `centerX`/`centerZ` belong to the first map; the other maps of a wall are offset by one map span per tile.
+//
+// Callers:
+// - src/Index.tsx
+// - src/lib/nbtExport.ts
+export interface MapDatOptions extends MapItemData {
+  firstMapId: number;
+}
+
+// Callers:
+// - src/Index.tsx
+// - src/lib/mapDatWriter.ts
+export const MAX_MAP_SCALE = 4;
+
+// Blocks covered by one map along each axis at the given zoom level.
+//
+// Callers:
+// - src/lib/nbtExport.ts
+export function getMapSpan(scale: number): number {
+  return MAP_SIZE << Math.max(0, Math.min(MAX_MAP_SCALE, scale));
+}
+
+function findBaseColorIndex(color: { r: number; g: number; b: number }): number {
+  let best = 1;
+  let bestDist = Infinity;
+  for (let i = 1; i < BASE_COLORS.length; ++i) {
+    const dr = BASE_COLORS[i].r - color.r, dg = BASE_COLORS[i].g - color.g, db = BASE_COLORS[i].b - color.b;
+    const dist = dr * dr + dg * dg + db * db;
+    if (dist < bestDist) {
+      bestDist = dist;
+      best = i;
+    }
+  }
+  return best;
+}
+
+// `colors` is row by row (index x + z * 128), each byte holding baseIndex * 4 + shade; transparent stays 0.
+//
+// Callers:
+// - src/lib/nbtExport.ts
+export function writeMapDat(
+  colorGrid: ColorGrid,
+  customColors: { r: number; g: number; b: number }[],
+  item: MapItemData,
+  dataVersion: number,
+): Uint8Array {
+  const customBaseIndices = customColors.map(findBaseColorIndex);
+  const colors = new Uint8Array(MAP_SIZE * MAP_SIZE);
+  for (let x = 0; x < MAP_SIZE; ++x) {
+    for (let z = 0; z < MAP_SIZE; ++z) {
+      const cell = colorGrid[x]?.[z];
+      if (!cell || (!cell.isCustom && cell.id === 0)) continue;
+      const baseIndex = cell.isCustom ? customBaseIndices[cell.id] : cell.id;
+      colors[z * MAP_SIZE + x] = baseIndex * 4 + cell.shade;
+    }
+  }
+
+  const nbt = new NbtWriter();
+  nbt.beginCompound("");
+  nbt.beginCompound("data");
+  nbt.byteTag("scale", Math.max(0, Math.min(MAX_MAP_SCALE, item.scale)));
+  nbt.stringTag("dimension", item.dimension);
+  nbt.byteTag("trackingPosition", 0);
+  nbt.byteTag("unlimitedTracking", 0);
+  nbt.byteTag("locked", 1);
+  nbt.intTag("xCenter", item.centerX);
+  nbt.intTag("zCenter", item.centerZ);
+  nbt.beginList("banners", TAG.Compound, 0);
+  nbt.beginList("frames", TAG.Compound, 0);
+  nbt.byteArrayTag("colors", colors);
+  nbt.endCompound();
+  nbt.intTag("DataVersion", dataVersion);
+  nbt.endCompound();
+  return nbt.toUint8Array();
+}
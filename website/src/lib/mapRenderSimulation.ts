@@ -0,0 +1,297 @@
+/**
+ * Public API:
+ * - MapRenderMismatchKind
+ * - MapRenderMismatch
+ * - MapRenderResult
+ * - simulateMapRender()
+ * - verifyMapRender()
+ * - verifyShapeMapRender()
+ * - findRenderMismatchNotice()
+ *
+ * Callers:
+ * - src/lib/headlessConversion.ts
+ * - src/lib/shapeWorker.ts
+ * - src/lib/structureReader.ts
+ *
+ * Notes:
+ * - Mirrors vanilla `MapItem.update()` at scale 0: the top non-NONE block of each column picks the color,
+ *   water shade comes from column depth and pixel parity, and every other shade from the height difference
+ *   against the pixel directly north (the z = -1 row for the first map row).
+ * - Suppress build modes are built in phases with map updates in between, so a single block snapshot of
+ *   those parts is not expected to render the source image.
+ */
+import { BASE_COLORS, WATER_BASE_INDEX, type Shade } from "@/data/mapColors";
+import { stripBlockNamespace } from "./blockId";
+import {
+  MAP_SIZE,
+  TRANSPARENT_COLOR,
+  isTransparentColor,
+  type ColorData,
+  type ColorGrid,
+  type ColorGridTile,
+} from "./colorGridTypes";
+import { FillerRole, type CustomColor } from "./conversionTypes";
+import { messages, type PaletteNotice } from "./messages";
+import type { BlockEntry } from "./nbtWriter";
+import type { GeneratedShape } from "./shapeGeneration";
+import { materializeShapeParts, type SubstitutionOptions } from "./shapeSubstitution";
+import { isShapeFillerCell, toShapeCoordKey, type ShapeColor } from "./shapeTypes";
+
+// Callers:
+// - src/lib/mapRenderSimulation.ts
+export enum MapRenderMismatchKind {
+  Transparency = "transparency",
+  Color = "color",
+  Shade = "shade",
+  VoidShadow = "void_shadow",
+}
+
+// Callers:
+// - src/lib/mapRenderSimulation.ts
+export interface MapRenderMismatch {
+  x: number;
+  z: number;
+  kind: MapRenderMismatchKind;
+  expected: ColorData;
+  actual: ColorData;
+}
+
+// Callers:
+// - src/lib/mapRenderSimulation.ts
+export interface MapRenderResult {
+  rendered: ColorGrid;
+  // Y of the block that colored each pixel, or null for pixels with no visible block.
+  heights: (number | null)[][];
+  mismatches: MapRenderMismatch[];
+  unresolvedBlocks: string[];
+}
+
+interface BlockColorOptions {
+  blockMapping: Record<number, string>;
+  customColors: CustomColor[];
+}
+
+interface ColumnBlock {
+  y: number;
+  color: ShapeColor | null;
+}
+
+const NONE_COLOR: ShapeColor = Object.freeze({ isCustom: false, id: 0 });
+
+function toBlockStateKey(raw: string): string {
+  const stripped = stripBlockNamespace(raw).toLowerCase();
+  const bracketIdx = stripped.indexOf("[");
+  if (bracketIdx < 0) return stripped;
+  const name = stripped.slice(0, bracketIdx);
+  const props = stripped
+    .slice(bracketIdx + 1, stripped.endsWith("]") ? -1 : undefined)
+    .split(",")
+    .map(part => part.trim())
+    .filter(part => part && part !== "persistent=true" && part !== "axis=y")
+    .sort();
+  return props.length > 0 ? `${name}[${props.join(",")}]` : name;
+}
+
+function buildBlockColorLookup(options: BlockColorOptions): Map<string, ShapeColor> {
+  const lookup = new Map<string, ShapeColor>();
+  const add = (block: string, color: ShapeColor) => {
+    const key = toBlockStateKey(block);
+    if (key && !lookup.has(key)) lookup.set(key, color);
+  };
+
+  // The active mapping wins so blocks listed under several colors (ice as water) resolve the way the
+  // structure was generated.
+  for (const [id, block] of Object.entries(options.blockMapping)) {
+    if (block) add(block, { isCustom: false, id: Number(id) });
+  }
+  options.customColors.forEach((custom, id) => {
+    if (custom.block) add(custom.block, { isCustom: true, id });
+  });
+  BASE_COLORS.forEach((base, id) => {
+    for (const block of base.blocks) add(block, { isCustom: false, id });
+  });
+  return lookup;
+}
+
+function resolveBlockColor(blockName: string, lookup: Map<string, ShapeColor>): ShapeColor | null {
+  const key = toBlockStateKey(blockName);
+  const direct = lookup.get(key);
+  if (direct) return direct;
+  // Horizontal logs share a map color regardless of facing.
+  if (key.includes("axis=z")) {
+    const alongX = lookup.get(key.replace("axis=z", "axis=x"));
+    if (alongX) return alongX;
+  }
+  return lookup.get(key.split("[")[0]) ?? null;
+}
+
+function isNoneColor(color: ShapeColor | null): boolean {
+  return color !== null && !color.isCustom && color.id === 0;
+}
+
+function isWaterBlockColor(color: ShapeColor | null): boolean {
+  return color !== null && !color.isCustom && color.id === WATER_BASE_INDEX;
+}
+
+function getWaterShade(depth: number, x: number, z: number): Shade {
+  const value = depth * 0.1 + ((x + z) & 1) * 0.2;
+  if (value < 0.5) return 2;
+  if (value > 0.9) return 0;
+  return 1;
+}
+
+function getHeightShade(height: number, northHeight: number, x: number, z: number): Shade {
+  const value = ((height - northHeight) * 4.0) / 5 + ((((x + z) & 1) - 0.5) * 0.4);
+  if (value > 0.6) return 2;
+  if (value < -0.6) return 0;
+  return 1;
+}
+
+// Blocks are expected in shape coordinates (x and z in [0, 128), plus the z = -1 north row), i.e. the output
+// of materializeShapeParts() before normalizeAndMeasure() shifts them.
+//
+// Callers:
+// - src/lib/mapRenderSimulation.ts
+// - src/lib/structureReader.ts
+export function simulateMapRender(
+  blocks: BlockEntry[],
+  options: BlockColorOptions,
+): Pick<MapRenderResult, "rendered" | "heights" | "unresolvedBlocks"> {
+  const lookup = buildBlockColorLookup(options);
+  const unresolved = new Set<string>();
+  const columns = new Map<number, ColumnBlock[]>();
+  const toColumnKey = (x: number, z: number) => (z + 1) * MAP_SIZE + x;
+
+  for (const block of blocks) {
+    if (block.x < 0 || block.x >= MAP_SIZE || block.z < -1 || block.z >= MAP_SIZE) continue;
+    const color = resolveBlockColor(block.blockName, lookup);
+    if (!color) unresolved.add(stripBlockNamespace(block.blockName));
+    const key = toColumnKey(block.x, block.z);
+    const column = columns.get(key);
+    if (column) column.push({ y: block.y, color });
+    else columns.set(key, [{ y: block.y, color }]);
+  }
+
+  const rendered: ColorGrid = Array.from({ length: MAP_SIZE }, () => Array<ColorData>(MAP_SIZE).fill(TRANSPARENT_COLOR));
+  const heights: (number | null)[][] = Array.from({ length: MAP_SIZE }, () => Array<number | null>(MAP_SIZE).fill(null));
+
+  for (let x = 0; x < MAP_SIZE; ++x) {
+    // Empty columns fall through to the bottom of the world, so anything built south of them reads as higher.
+    let northHeight = -Infinity;
+    for (let z = -1; z < MAP_SIZE; ++z) {
+      const column = (columns.get(toColumnKey(x, z)) ?? []).sort((a, b) => b.y - a.y);
+      const topIndex = column.findIndex(entry => !isNoneColor(entry.color));
+      if (topIndex < 0) {
+        northHeight = -Infinity;
+        continue;
+      }
+
+      const top = column[topIndex];
+      if (z >= 0) {
+        heights[x][z] = top.y;
+        // Unknown blocks still occupy height, but have no color we can predict.
+        if (top.color) {
+          let shade: Shade;
+          if (isWaterBlockColor(top.color)) {
+            let depth = 1;
+            for (let i = topIndex + 1; i < column.length; ++i) {
+              if (column[i].y !== top.y - depth || !isWaterBlockColor(column[i].color)) break;
+              ++depth;
+            }
+            shade = getWaterShade(depth, x, z);
+          } else {
+            shade = getHeightShade(top.y, northHeight, x, z);
+          }
+          rendered[x][z] = { isCustom: top.color.isCustom, id: top.color.id, shade };
+        }
+      }
+      northHeight = top.y;
+    }
+  }
+
+  return { rendered, heights, unresolvedBlocks: [...unresolved].sort() };
+}
+
+function classifyMismatch(expected: ColorData, actual: ColorData): MapRenderMismatchKind | null {
+  const expectedTransparent = isTransparentColor(expected);
+  if (expectedTransparent !== isTransparentColor(actual)) return MapRenderMismatchKind.Transparency;
+  if (expectedTransparent) return null;
+  if (expected.isCustom !== actual.isCustom || expected.id !== actual.id) return MapRenderMismatchKind.Color;
+  if (expected.shade !== actual.shade) return MapRenderMismatchKind.Shade;
+  return null;
+}
+
+// Callers:
+// - src/lib/mapRenderSimulation.ts
+export function verifyMapRender(colorGrid: ColorGrid, blocks: BlockEntry[], options: BlockColorOptions): MapRenderResult {
+  const simulated = simulateMapRender(blocks, options);
+  const mismatches: MapRenderMismatch[] = [];
+  for (let z = 0; z < MAP_SIZE; ++z) {
+    for (let x = 0; x < MAP_SIZE; ++x) {
+      const expected = colorGrid[x][z];
+      const actual = simulated.rendered[x][z];
+      const kind = classifyMismatch(expected, actual);
+      if (kind) mismatches.push({ x, z, kind, expected, actual });
+    }
+  }
+  return { ...simulated, mismatches };
+}
+
+// Materializes a single-phase shape and verifies it. Void shadow fillers knowingly sit in transparent pixels
+// (they are suppressed by hand after building), so those pixels are reported as VoidShadow instead. On a map wall,
+// the last row of the map to the north stands in for the z = -1 row.
+//
+// Callers:
+// - src/lib/mapRenderSimulation.ts
+export function verifyShapeMapRender(
+  colorGrid: ColorGrid,
+  shape: GeneratedShape,
+  options: SubstitutionOptions,
+  northShape?: GeneratedShape,
+): MapRenderResult {
+  const blocks = materializeShapeParts(shape, options).flat();
+  if (northShape) {
+    for (const block of materializeShapeParts(northShape, options).flat()) {
+      if (block.z === MAP_SIZE - 1) blocks.push({ ...block, z: -1 });
+    }
+  }
+  const result = verifyMapRender(colorGrid, blocks, options);
+
+  for (const mismatch of result.mismatches) {
+    if (mismatch.kind !== MapRenderMismatchKind.Transparency || !isTransparentColor(mismatch.expected)) continue;
+    const y = result.heights[mismatch.x][mismatch.z];
+    if (y === null) continue;
+    const key = toShapeCoordKey(mismatch.x, y, mismatch.z);
+    const isVoidShadow = shape.parts.some(part => {
+      const cell = part.cells.get(key);
+      return cell !== undefined && isShapeFillerCell(cell) && (
+        cell.includes(FillerRole.ShadeVoidDominant) || cell.includes(FillerRole.ShadeVoidRecessive)
+      );
+    });
+    if (isVoidShadow) mismatch.kind = MapRenderMismatchKind.VoidShadow;
+  }
+  return result;
+}
+
+// Checks a shaped map or wall against its image; positions are whole-image pixels so they can be found on walls too.
+// Suppress modes are built in phases, so only single-pass staircases can be checked this way.
+//
+// Callers:
+// - src/lib/headlessConversion.ts
+// - src/lib/shapeWorker.ts
+export function findRenderMismatchNotice(
+  tiles: ColorGridTile[],
+  shapes: GeneratedShape[],
+  options: SubstitutionOptions,
+): PaletteNotice | null {
+  const mismatches = tiles.flatMap((tile, i) => {
+    const northIndex = tiles.findIndex(other => other.row === tile.row - 1 && other.col === tile.col);
+    return verifyShapeMapRender(tile.colorGrid, shapes[i], options, northIndex >= 0 ? shapes[northIndex] : undefined)
+      .mismatches
+      .filter(mismatch => mismatch.kind !== MapRenderMismatchKind.VoidShadow)
+      .map(mismatch => ({ ...mismatch, x: tile.col * MAP_SIZE + mismatch.x, z: tile.row * MAP_SIZE + mismatch.z }));
+  });
+  return mismatches.length > 0
+    ? messages.parsing.renderMismatchNotice(mismatches.length, mismatches[0].x, mismatches[0].z)
+    : null;
+}
@@ -0,0 +1,100 @@
+/**
+ * Public API:
+ * - writeMcstructure()
+ *
+ * Callers:
+ * - src/lib/nbtExport.ts
+ *
+ * Notes:
+ * - Bedrock `.mcstructure` files are uncompressed little-endian NBT. `block_indices` holds two layers indexed
+ *   as (x * sizeY + y) * sizeZ + z: layer 0 is the block, layer 1 the water of waterlogged blocks, -1 is empty.
+ */
+import { type BedrockBlockState, toBedrockBlockState } from "@/data/bedrockBlocks";
+import { type BlockEntry, NbtWriter, TAG } from "./nbtWriter";
+
+const MCSTRUCTURE_FORMAT_VERSION = 1;
+// Block-state version stamped on palette entries (1.21.40); newer clients upgrade older states on load.
+const BEDROCK_BLOCK_VERSION = (1 << 24) | (21 << 16) | (40 << 8);
+const WATER_BLOCK: BedrockBlockState = { name: "water", states: { liquid_depth: 0 } };
+
+function toPaletteKey(block: BedrockBlockState): string {
+  return `${block.name}${JSON.stringify(block.states ?? {})}`;
+}
+
+function writeStateValue(w: NbtWriter, name: string, value: string | number | boolean) {
+  if (typeof value === "boolean") w.byteTag(name, value ? 1 : 0);
+  else if (typeof value === "number") w.intTag(name, value);
+  else w.stringTag(name, value);
+}
+
+function writeIntList(w: NbtWriter, name: string, values: ArrayLike<number>) {
+  w.beginList(name, TAG.Int, values.length);
+  for (let i = 0; i < values.length; ++i) w.writeInt(values[i]);
+}
+
+// Blocks must already be normalized by normalizeAndMeasure(). Blocks with no Bedrock equivalent are left out;
+// callers flag them before export.
+//
+// Callers:
+// - src/lib/nbtExport.ts
+export function writeMcstructure(blocks: BlockEntry[], sizeX: number, sizeY: number, sizeZ: number): Uint8Array {
+  const paletteIndex = new Map<string, number>();
+  const palette: BedrockBlockState[] = [];
+  const indexOf = (block: BedrockBlockState) => {
+    const key = toPaletteKey(block);
+    let index = paletteIndex.get(key);
+    if (index === undefined) {
+      index = palette.length;
+      paletteIndex.set(key, index);
+      palette.push(block);
+    }
+    return index;
+  };
+
+  const volume = sizeX * sizeY * sizeZ;
+  const primaryLayer = new Int32Array(volume).fill(-1);
+  const liquidLayer = new Int32Array(volume).fill(-1);
+  for (const b of blocks) {
+    const { block, waterlogged } = toBedrockBlockState(b.blockName);
+    if (!block) continue;
+    const index = (b.x * sizeY + b.y) * sizeZ + b.z;
+    primaryLayer[index] = indexOf(block);
+    if (waterlogged) liquidLayer[index] = indexOf(WATER_BLOCK);
+  }
+
+  const w = new NbtWriter(true);
+  w.beginCompound("");
+  w.intTag("format_version", MCSTRUCTURE_FORMAT_VERSION);
+  writeIntList(w, "size", [sizeX, sizeY, sizeZ]);
+
+  w.beginCompound("structure");
+  w.beginList("block_indices", TAG.List, 2);
+  for (const layer of [primaryLayer, liquidLayer]) {
+    w.writeByte(TAG.Int);
+    w.writeInt(layer.length);
+    for (const value of layer) w.writeInt(value);
+  }
+  w.beginList("entities", TAG.Compound, 0);
+
+  w.beginCompound("palette");
+  w.beginCompound("default");
+  w.beginList("block_palette", TAG.Compound, palette.length);
+  for (const block of palette) {
+    w.stringTag("name", `minecraft:${block.name}`);
+    w.beginCompound("states");
+    for (const [name, value] of Object.entries(block.states ?? {})) writeStateValue(w, name, value);
+    w.endCompound();
+    w.intTag("version", BEDROCK_BLOCK_VERSION);
+    w.endCompoundElement();
+  }
+  w.beginCompound("block_position_data");
+  w.endCompound();
+  w.endCompound();
+  w.endCompound();
+  w.endCompound();
+
+  writeIntList(w, "structure_world_origin", [0, 0, 0]);
+  w.endCompound();
+
+  return w.toUint8Array();
+}
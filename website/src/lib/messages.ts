@@ -6,7 +6,17 @@
  *
  * Callers:
  * - src/Index.tsx
+ * - src/cli/png2nbt.ts
+ * - src/cli/png2nbtServer.ts
  * - src/lib/colorGridParsing.ts
+ * - src/lib/headlessConversion.ts
+ * - src/lib/mapRenderSimulation.ts
+ * - src/lib/nbtExport.ts
+ * - src/lib/projectFile.ts
+ * - src/lib/shapeWorker.ts
+ * - src/lib/shapeWorkerClient.ts
+ * - src/lib/structureReader.ts
+ * - src/library/index.ts
  *
  * Notes:
  * - Selects the active locale catalog and applies interpolation/plural formatting at runtime.
@@ -15,7 +25,17 @@
 import { unpackRgb, type Shade } from "@/data/mapColors";
 import { enCatalog, type MessageCatalog } from "@/data/i18n/en";
 import { esCatalog } from "@/data/i18n/es";
-import { BuildMode } from "@/lib/conversionTypes";
+import {
+  BuildMode,
+  type ColorMetric,
+  type DitherMethod,
+  type ExportFormat,
+  type ImageFitMode,
+  type MapDimension,
+  type MinecraftVersion,
+  type PaletteShadeSet,
+  type ResampleFilter,
+} from "@/lib/conversionTypes";
 import { type BlockDisplayMode, type ColumnId, SupportMode } from "@/lib/uiTypes";
 
 type TemplateValues = Record<string, string | number>;
@@ -91,22 +111,49 @@ export enum PaletteNoticeKind {
   ConvertedPaletteColors = "converted_palette_colors",
   ReducedUniqueColors = "reduced_unique_colors",
   LossyFormatHint = "lossy_format_hint",
+  RenderMismatch = "render_mismatch",
+  BedrockUnavailableBlocks = "bedrock_unavailable_blocks",
+  BedrockMapColorMismatch = "bedrock_map_color_mismatch",
+  UnobtainableShade = "unobtainable_shade",
+  UnresolvedStructureBlocks = "unresolved_structure_blocks",
+  VersionUnavailableBlocks = "version_unavailable_blocks",
 }
 
 // Callers:
 // - src/Index.tsx
 // - src/lib/colorGridParsing.ts
+// - src/lib/headlessConversion.ts
+// - src/lib/mapRenderSimulation.ts
+// - src/lib/nbtExport.ts
+// - src/lib/structureReader.ts
+// - src/library/index.ts
 export type PaletteNotice =
   | { kind: PaletteNoticeKind.Freeform; tone: "info" | "warning" | "error"; text: string }
   | { kind: PaletteNoticeKind.SizeError; width: number; height: number }
   | { kind: PaletteNoticeKind.UnsupportedPaletteColors; colors: number[] }
   | { kind: PaletteNoticeKind.ConvertedPaletteColors; convertedCount: number; totalInputColorCount: number }
   | { kind: PaletteNoticeKind.ReducedUniqueColors; fewerOutputColorCount: number }
-  | { kind: PaletteNoticeKind.LossyFormatHint; formatLabel: string };
+  | { kind: PaletteNoticeKind.LossyFormatHint; formatLabel: string }
+  | { kind: PaletteNoticeKind.RenderMismatch; mismatchCount: number; x: number; z: number }
+  | { kind: PaletteNoticeKind.BedrockUnavailableBlocks; blocks: string[] }
+  | { kind: PaletteNoticeKind.BedrockMapColorMismatch; blocks: string[] }
+  | { kind: PaletteNoticeKind.UnobtainableShade; pixelCount: number; converted: boolean }
+  | { kind: PaletteNoticeKind.UnresolvedStructureBlocks; blocks: string[] }
+  | { kind: PaletteNoticeKind.VersionUnavailableBlocks; blocks: string[]; version: MinecraftVersion };
 
 // Callers:
 // - src/Index.tsx
+// - src/cli/png2nbt.ts
+// - src/cli/png2nbtServer.ts
 // - src/lib/colorGridParsing.ts
+// - src/lib/headlessConversion.ts
+// - src/lib/mapRenderSimulation.ts
+// - src/lib/nbtExport.ts
+// - src/lib/projectFile.ts
+// - src/lib/shapeWorker.ts
+// - src/lib/shapeWorkerClient.ts
+// - src/lib/structureReader.ts
+// - src/library/index.ts
 export const messages = {
   common: catalog.common,
   app: catalog.app,
@@ -118,6 +165,12 @@ export const messages = {
         tooltip: catalog.blocks.iceWaterTooltip,
       });
     },
+    unavailableOptionTitle(blockId: string, version: MinecraftVersion): string {
+      return formatTemplate(catalog.blocks.unavailableOptionTitle, {
+        blockId,
+        version: getLookupValue(catalog.upload.targetVersionLabels, version, version),
+      });
+    },
   },
   presets: {
     ...catalog.presets,
@@ -225,16 +278,103 @@ export const messages = {
     title: catalog.upload.title,
     placeholder: catalog.upload.placeholder,
     removeButton: catalog.upload.removeButton,
-    convertButton(isConverting: boolean, isZip: boolean): string {
+    saveProjectButton: catalog.upload.saveProjectButton,
+    saveProjectTooltip: catalog.upload.saveProjectTooltip,
+    convertButton(isConverting: boolean, extension: string): string {
       if (isConverting) return catalog.upload.convertButtonConverting;
-      return isZip ? catalog.upload.convertButtonZip : catalog.upload.convertButtonNbt;
+      return formatTemplate(catalog.upload.convertButtonFile, { extension });
+    },
+    exportFormatLabel: catalog.upload.exportFormatLabel,
+    exportFormatTooltip: catalog.upload.exportFormatTooltip,
+    exportFormatOption(format: ExportFormat | string): string {
+      return getLookupValue(catalog.upload.exportFormatLabels, format, format);
+    },
+    ditherLabel: catalog.upload.ditherLabel,
+    ditherTooltip: catalog.upload.ditherTooltip,
+    ditherOption(method: DitherMethod | string): string {
+      return getLookupValue(catalog.upload.ditherMethodLabels, method, method);
+    },
+    colorMetricLabel: catalog.upload.colorMetricLabel,
+    colorMetricTooltip: catalog.upload.colorMetricTooltip,
+    colorMetricOption(metric: ColorMetric | string): string {
+      return getLookupValue(catalog.upload.colorMetricLabels, metric, metric);
+    },
+    paletteShadeSetLabel: catalog.upload.paletteShadeSetLabel,
+    paletteShadeSetTooltip: catalog.upload.paletteShadeSetTooltip,
+    paletteShadeSetOption(shadeSet: PaletteShadeSet | string): string {
+      return getLookupValue(catalog.upload.paletteShadeSetLabels, shadeSet, shadeSet);
+    },
+    imageFitLabel: catalog.upload.imageFitLabel,
+    imageFitTooltip: catalog.upload.imageFitTooltip,
+    imageFitOption(mode: ImageFitMode | string): string {
+      return getLookupValue(catalog.upload.imageFitLabels, mode, mode);
+    },
+    mapsWideLabel: catalog.upload.mapsWideLabel,
+    mapsTallLabel: catalog.upload.mapsTallLabel,
+    mapsUnit: catalog.upload.mapsUnit,
+    resampleFilterLabel: catalog.upload.resampleFilterLabel,
+    resampleFilterTooltip: catalog.upload.resampleFilterTooltip,
+    resampleFilterOption(filter: ResampleFilter | string): string {
+      return getLookupValue(catalog.upload.resampleFilterLabels, filter, filter);
+    },
+    padColorLabel: catalog.upload.padColorLabel,
+    padColorTooltip: catalog.upload.padColorTooltip,
+    cropLabel: catalog.upload.cropLabel,
+    cropTooltip: catalog.upload.cropTooltip,
+    cropEdgeLabel(edge: "left" | "top" | "right" | "bottom"): string {
+      return catalog.upload.cropEdgeLabels[edge];
+    },
+    structureBlockTilesLabel: catalog.upload.structureBlockTilesLabel,
+    structureBlockTilesTooltip: catalog.upload.structureBlockTilesTooltip,
+    mapDatLabel: catalog.upload.mapDatLabel,
+    mapDatTooltip: catalog.upload.mapDatTooltip,
+    mapIdLabel: catalog.upload.mapIdLabel,
+    mapScaleLabel: catalog.upload.mapScaleLabel,
+    mapScaleOption(scale: number): string {
+      return catalog.upload.mapScaleLabels[scale] ?? `1:${2 ** scale}`;
+    },
+    mapDimensionLabel: catalog.upload.mapDimensionLabel,
+    mapDimensionOption(dimension: MapDimension | string): string {
+      return getLookupValue(catalog.upload.mapDimensionLabels, dimension, dimension);
+    },
+    mapCenterLabel: catalog.upload.mapCenterLabel,
+    mapCenterTooltip: catalog.upload.mapCenterTooltip,
+    mapCenterXLabel: catalog.upload.mapCenterXLabel,
+    mapCenterZLabel: catalog.upload.mapCenterZLabel,
+    regionPlacementLabel: catalog.upload.regionPlacementLabel,
+    regionPlacementTooltip: catalog.upload.regionPlacementTooltip,
+    regionMapXLabel: catalog.upload.regionMapXLabel,
+    regionMapZLabel: catalog.upload.regionMapZLabel,
+    regionBaseYLabel: catalog.upload.regionBaseYLabel,
+    regionCornerText(x: number, z: number): string {
+      return formatTemplate(catalog.upload.regionCornerText, { x, z });
+    },
+    commandChainLabel: catalog.upload.commandChainLabel,
+    commandChainTooltip: catalog.upload.commandChainTooltip,
+    targetVersionLabel: catalog.upload.targetVersionLabel,
+    targetVersionTooltip: catalog.upload.targetVersionTooltip,
+    targetVersionOption(version: MinecraftVersion | string): string {
+      return getLookupValue(catalog.upload.targetVersionLabels, version, version);
     },
   },
   preview: {
     missingBlockAssignments(count: number): string {
       return formatPlural(catalog.preview.missingBlockAssignments, count);
     },
+    versionUnavailableAssignments(count: number, version: MinecraftVersion): string {
+      return formatPlural(catalog.preview.versionUnavailableAssignments, count, {
+        version: getLookupValue(catalog.upload.targetVersionLabels, version, version),
+      });
+    },
     northRowAlignmentInfo: catalog.preview.northRowAlignmentInfo,
+    animationFramesInfo(count: number): string {
+      return formatPlural(catalog.preview.animationFramesInfo, count);
+    },
+    flatAlteredPixelsInfo(count: number, totalPixels: number): string {
+      return formatPlural(catalog.preview.flatAlteredPixelsInfo, count, {
+        percent: totalPixels > 0 ? ((count / totalPixels) * 100).toFixed(1) : "0.0",
+      });
+    },
     iceConversionInfo: catalog.preview.iceConversionInfo,
     noFillerNorthRowLine: catalog.preview.noFillerNorthRowLine,
     noFillerSuppressLine: catalog.preview.noFillerSuppressLine,
@@ -310,9 +450,44 @@ export const messages = {
     unableToCreateImageCanvas: catalog.parsing.unableToCreateImageCanvas,
     failedToDecodeImage: catalog.parsing.failedToDecodeImage,
     browserDecodeFailure: catalog.parsing.browserDecodeFailure,
+    headlessUnsupportedFormat: catalog.parsing.headlessUnsupportedFormat,
+    flatModeUnavailable: catalog.parsing.flatModeUnavailable,
     tiffNoImageData: catalog.parsing.tiffNoImageData,
+    gifInvalid: catalog.parsing.gifInvalid,
+    gifTruncated: catalog.parsing.gifTruncated,
+    pngInvalid: catalog.parsing.pngInvalid,
+    nbtInvalid: catalog.parsing.nbtInvalid,
+    nbtTruncated: catalog.parsing.nbtTruncated,
+    mapDatNoColors: catalog.parsing.mapDatNoColors,
+    mapDatUnknownColor(id: number): string {
+      return formatTemplate(catalog.parsing.mapDatUnknownColor, { id });
+    },
+    unknownPreset(name: string, names: readonly string[]): string {
+      return formatTemplate(catalog.parsing.unknownPreset, { name, names: names.join(", ") });
+    },
+    structureInvalid: catalog.parsing.structureInvalid,
+    projectInvalid: catalog.parsing.projectInvalid,
+    projectTooNew(version: number): string {
+      return formatTemplate(catalog.parsing.projectTooNew, { version });
+    },
+    structureTooLarge: catalog.parsing.structureTooLarge,
+    structureEmpty: catalog.parsing.structureEmpty,
+    regionUnsupportedVersion: catalog.parsing.regionUnsupportedVersion,
+    regionUnsupportedShape: catalog.parsing.regionUnsupportedShape,
+    regionOutOfBounds(minY: number, maxY: number, worldMinY: number, worldMaxY: number): string {
+      return formatTemplate(catalog.parsing.regionOutOfBounds, { minY, maxY, worldMinY, worldMaxY });
+    },
+    datapackUnsupportedShape: catalog.parsing.datapackUnsupportedShape,
+    frameRejected(frame: number): string {
+      return formatTemplate(catalog.parsing.frameRejected, { frame });
+    },
+    frameMapCountMismatch(frame: number, count: number, firstCount: number): string {
+      return formatTemplate(catalog.parsing.frameMapCountMismatch, { frame, count, firstCount });
+    },
+    emptyConversionPalette: catalog.parsing.emptyConversionPalette,
     genericDecodeFailure: catalog.parsing.genericDecodeFailure,
     conversionFailed: catalog.parsing.conversionFailed,
+    workerFailed: catalog.parsing.workerFailed,
     imageSizeNotice(width: number, height: number): PaletteNotice {
       return { kind: PaletteNoticeKind.SizeError, width, height };
     },
@@ -328,6 +503,24 @@ export const messages = {
     lossyFormatHintNotice(formatLabel: string): PaletteNotice {
       return { kind: PaletteNoticeKind.LossyFormatHint, formatLabel };
     },
+    renderMismatchNotice(mismatchCount: number, x: number, z: number): PaletteNotice {
+      return { kind: PaletteNoticeKind.RenderMismatch, mismatchCount, x, z };
+    },
+    bedrockUnavailableBlocksNotice(blocks: string[]): PaletteNotice {
+      return { kind: PaletteNoticeKind.BedrockUnavailableBlocks, blocks };
+    },
+    bedrockMapColorMismatchNotice(blocks: string[]): PaletteNotice {
+      return { kind: PaletteNoticeKind.BedrockMapColorMismatch, blocks };
+    },
+    unobtainableShadeNotice(pixelCount: number, converted: boolean): PaletteNotice {
+      return { kind: PaletteNoticeKind.UnobtainableShade, pixelCount, converted };
+    },
+    unresolvedStructureBlocksNotice(blocks: string[]): PaletteNotice {
+      return { kind: PaletteNoticeKind.UnresolvedStructureBlocks, blocks };
+    },
+    versionUnavailableBlocksNotice(blocks: string[], version: MinecraftVersion): PaletteNotice {
+      return { kind: PaletteNoticeKind.VersionUnavailableBlocks, blocks, version };
+    },
     errorNotice(text: string): PaletteNotice {
       return { kind: PaletteNoticeKind.Freeform, tone: "error", text };
     },
@@ -362,6 +555,30 @@ export const messages = {
           });
         case PaletteNoticeKind.LossyFormatHint:
           return formatTemplate(catalog.parsing.lossyFormatHint, { formatLabel: notice.formatLabel });
+        case PaletteNoticeKind.RenderMismatch:
+          return formatPlural(catalog.parsing.renderMismatch, notice.mismatchCount, { x: notice.x, z: notice.z });
+        case PaletteNoticeKind.BedrockUnavailableBlocks:
+          return formatPlural(catalog.parsing.bedrockUnavailableBlocks, notice.blocks.length, {
+            blocks: notice.blocks.join(", "),
+          });
+        case PaletteNoticeKind.BedrockMapColorMismatch:
+          return formatPlural(catalog.parsing.bedrockMapColorMismatch, notice.blocks.length, {
+            blocks: notice.blocks.join(", "),
+          });
+        case PaletteNoticeKind.UnobtainableShade:
+          return formatPlural(
+            notice.converted ? catalog.parsing.unobtainableShadeConverted : catalog.parsing.unobtainableShade,
+            notice.pixelCount,
+          );
+        case PaletteNoticeKind.UnresolvedStructureBlocks:
+          return formatPlural(catalog.parsing.unresolvedStructureBlocks, notice.blocks.length, {
+            blocks: notice.blocks.join(", "),
+          });
+        case PaletteNoticeKind.VersionUnavailableBlocks:
+          return formatPlural(catalog.parsing.versionUnavailableBlocks, notice.blocks.length, {
+            blocks: notice.blocks.join(", "),
+            version: getLookupValue(catalog.upload.targetVersionLabels, notice.version, notice.version),
+          });
       }
     },
     noticeTone(notice: PaletteNotice): "info" | "warning" | "error" {
@@ -374,7 +591,14 @@ export const messages = {
           return "error";
         case PaletteNoticeKind.ConvertedPaletteColors:
         case PaletteNoticeKind.LossyFormatHint:
+        case PaletteNoticeKind.RenderMismatch:
+        case PaletteNoticeKind.BedrockUnavailableBlocks:
+        case PaletteNoticeKind.BedrockMapColorMismatch:
+        case PaletteNoticeKind.UnresolvedStructureBlocks:
+        case PaletteNoticeKind.VersionUnavailableBlocks:
           return "warning";
+        case PaletteNoticeKind.UnobtainableShade:
+          return notice.converted ? "warning" : "error";
       }
     },
     bannerTone(notices: PaletteNotice[]): "info" | "warning" | "error" {
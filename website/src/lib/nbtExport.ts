@@ -1,47 +1,520 @@
 /**
  * Public API:
+ * - WallTileShape
+ * - ExportResult
  * - convertToNbt()
+ * - convertToDatapack()
+ * - convertWallToNbt()
+ * - convertFramesToNbt()
  *
  * Callers:
- * - src/Index.tsx
+ * - src/lib/headlessConversion.ts
+ * - src/lib/shapeWorker.ts
+ * - src/lib/shapeWorkerClient.ts
+ * - src/lib/shapeWorkerProtocol.ts
  */
+import { hasBedrockMapColorDifference, toBedrockBlockState } from "@/data/bedrockBlocks";
+import { getDataVersion, getDatapackFormat, isBlockAvailable, toVersionBlockName } from "@/data/javaVersions";
 import type { GeneratedShape } from "./shapeGeneration";
+import { type RegionPlacement, WORLD_MAX_Y, WORLD_MIN_Y, getMapGridCorner, writeAnvilRegions } from "./anvilWriter";
+import { stripBlockNamespace } from "./blockId";
+import { type ColorGrid, MAP_SIZE } from "./colorGridTypes";
+import { DEFAULT_MAX_COMMAND_CHAIN_LENGTH, writeDatapack } from "./datapackWriter";
+import { ExportFormat, MinecraftVersion, getExportFormatExtension } from "./conversionTypes";
+import { writeLitematic } from "./litematicWriter";
+import { type MapDatOptions, getMapSpan, writeMapDat } from "./mapDatWriter";
+import { writeMcstructure } from "./mcstructureWriter";
+import { messages, type PaletteNotice } from "./messages";
 import { type BlockEntry, gzipCompress, writeStructureNbt } from "./nbtWriter";
+import { writeSpongeSchematic } from "./schemWriter";
 import { materializeShapeParts, normalizeAndMeasure, type SubstitutionOptions } from "./shapeSubstitution";
 import { createZip } from "./zip";
 
 interface ExportOptions extends SubstitutionOptions {
   baseName: string;
+  format?: ExportFormat;
+  author?: string;
+  // Java formats are written for this release (DataVersion and renamed blocks); defaults to the latest.
+  version?: MinecraftVersion;
+  // Adds a locked map_<id>.dat per map with the exact colors of its tile. Ignored for datapacks.
+  mapDat?: MapDatOptions;
+  // Where ExportFormat.Region builds the art; defaults to map grid cell 0, 0 at Y 64.
+  region?: RegionPlacement;
+  // Splits .nbt files into pieces a structure block can load (at most 48 blocks along each axis).
+  structureBlockTiles?: boolean;
+  // Commands ExportFormat.Datapack may run in one tick; defaults to the game rule default.
+  maxCommandChainLength?: number;
 }
 
-async function buildSplitZip(
+// Callers:
+// - src/lib/nbtExport.ts
+export interface WallTileShape {
+  row: number;
+  col: number;
+  shape: GeneratedShape;
+  colorGrid: ColorGrid;
+}
+
+// Callers:
+// - src/lib/headlessConversion.ts
+// - src/lib/shapeWorker.ts
+// - src/lib/shapeWorkerClient.ts
+// - src/lib/shapeWorkerProtocol.ts
+export interface ExportResult {
+  data: Uint8Array;
+  isZip: boolean;
+  fileExtension: string;
+  paletteNotices: PaletteNotice[];
+}
+
+// `origin` is the shape coordinate (y, z) that ends up at the file's 0,0,0 once normalized.
+interface ExportFile {
+  name: string;
+  data: Uint8Array;
+  origin: { x: number; y: number; z: number };
+}
+
+interface WallPlacement {
+  file: string;
+  row: number;
+  col: number;
+  x: number;
+  y: number;
+  z: number;
+}
+
+function measureFileOrigin(blocks: BlockEntry[], forceZ129: boolean): ExportFile["origin"] {
+  let minY = Infinity;
+  let minZ = Infinity;
+  for (const block of blocks) {
+    if (block.y < minY) minY = block.y;
+    if (block.z < minZ) minZ = block.z;
+  }
+  return { x: 0, y: minY === Infinity ? 0 : minY, z: minZ < 0 || forceZ129 ? -1 : 0 };
+}
+
+function getExportDataVersion(options: ExportOptions): number {
+  return getDataVersion(options.version ?? MinecraftVersion.Latest);
+}
+
+// Encodes one standalone structure file for formats that hold a single box of blocks.
+async function encodeStructureFile(blocks: BlockEntry[], format: ExportFormat, options: ExportOptions): Promise<Uint8Array> {
+  const { sizeX, sizeY, sizeZ } = normalizeAndMeasure(blocks, options.forceZ129 === true);
+  switch (format) {
+    case ExportFormat.Schematic:
+    case ExportFormat.SchematicV2:
+      return gzipCompress(writeSpongeSchematic(blocks, sizeX, sizeY, sizeZ, {
+        version: format === ExportFormat.SchematicV2 ? 2 : 3,
+        name: options.baseName,
+        dataVersion: getExportDataVersion(options),
+      }));
+    case ExportFormat.Mcstructure:
+      return writeMcstructure(blocks, sizeX, sizeY, sizeZ);
+    default:
+      return gzipCompress(writeStructureNbt(blocks, sizeX, sizeY, sizeZ, getExportDataVersion(options)));
+  }
+}
+
+// Structure blocks only load up to 48 blocks along each axis through their UI.
+const STRUCTURE_BLOCK_LIMIT = 48;
+
+// Pieces are named by their offset inside the normalized structure (`name-x48y0z0.nbt`); empty pieces are skipped.
+async function buildStructureBlockTiles(blocks: BlockEntry[], options: ExportOptions, baseName: string): Promise<ExportFile[]> {
+  const forceZ129 = options.forceZ129 === true;
+  const origin = measureFileOrigin(blocks, forceZ129);
+  const size = normalizeAndMeasure(blocks, forceZ129);
+  const pieces = new Map<string, { offset: [number, number, number]; blocks: BlockEntry[] }>();
+  for (const b of blocks) {
+    const offset: [number, number, number] = [b.x, b.y, b.z].map(v => v - (v % STRUCTURE_BLOCK_LIMIT)) as [number, number, number];
+    const key = offset.join(",");
+    let piece = pieces.get(key);
+    if (!piece) pieces.set(key, piece = { offset, blocks: [] });
+    piece.blocks.push({ x: b.x - offset[0], y: b.y - offset[1], z: b.z - offset[2], blockName: b.blockName });
+  }
+  const sorted = [...pieces.values()].sort((a, b) => a.offset[1] - b.offset[1] || a.offset[2] - b.offset[2] || a.offset[0] - b.offset[0]);
+  return Promise.all(sorted.map(async ({ offset: [x, y, z], blocks: pieceBlocks }) => ({
+    name: `${baseName}-x${x}y${y}z${z}.nbt`,
+    data: await gzipCompress(writeStructureNbt(
+      pieceBlocks,
+      Math.min(STRUCTURE_BLOCK_LIMIT, size.sizeX - x),
+      Math.min(STRUCTURE_BLOCK_LIMIT, size.sizeY - y),
+      Math.min(STRUCTURE_BLOCK_LIMIT, size.sizeZ - z),
+      getExportDataVersion(options),
+    )),
+    origin: { x: origin.x + x, y: origin.y + y, z: origin.z + z },
+  })));
+}
+
+// One line per piece with its corner relative to the lowest north-west piece, for single maps and frames.
+// Walls list their pieces in the placement manifest instead.
+function withTileManifest(files: ExportFile[], options: ExportOptions, format: ExportFormat): { name: string; data: Uint8Array }[] {
+  if (format !== ExportFormat.Structure || !options.structureBlockTiles) return files;
+  const base = ["x", "y", "z"].map(axis => Math.min(...files.map(file => file.origin[axis as "x" | "y" | "z"])));
+  const lines = files.map(file =>
+    `${file.name} ${file.origin.x - base[0]} ${file.origin.y - base[1]} ${file.origin.z - base[2]}`,
+  );
+  const text = `# file x y z\n${lines.join("\n")}\n`;
+  return [...files, { name: `${options.baseName}-tiles.txt`, data: new TextEncoder().encode(text) }];
+}
+
+async function buildSplitFiles(
   parts: BlockEntry[][],
   options: ExportOptions,
+  format: ExportFormat,
   names: [string, string],
-): Promise<{ data: Uint8Array; isZip: boolean }> {
-  const toNbt = async (blocks: BlockEntry[]) => {
-    const { sizeX, sizeY, sizeZ } = normalizeAndMeasure(blocks, options.forceZ129 === true);
-    return gzipCompress(writeStructureNbt(blocks, sizeX, sizeY, sizeZ));
-  };
-
-  const [firstData, secondData] = await Promise.all([toNbt(parts[0] ?? []), toNbt(parts[1] ?? [])]);
-  const zipEntries = [
-    { name: `${options.baseName}-${names[0]}.nbt`, data: firstData },
-    { name: `${options.baseName}-${names[1]}.nbt`, data: secondData },
+): Promise<ExportFile[]> {
+  const extension = getExportFormatExtension(format);
+  const forceZ129 = options.forceZ129 === true;
+  const [first, second] = [parts[0] ?? [], parts[1] ?? []];
+  const [firstOrigin, secondOrigin] = [measureFileOrigin(first, forceZ129), measureFileOrigin(second, forceZ129)];
+  const [firstData, secondData] = await Promise.all([
+    encodeStructureFile(first, format, options),
+    encodeStructureFile(second, format, options),
+  ]);
+  return [
+    { name: `${options.baseName}-${names[0]}.${extension}`, data: firstData, origin: firstOrigin },
+    { name: `${options.baseName}-${names[1]}.${extension}`, data: secondData, origin: secondOrigin },
   ];
-  return { data: createZip(zipEntries), isZip: true };
 }
 
+// Split halves and suppress steps become sub-regions of one file. All parts are normalized together so steps
+// keep their relative heights and split halves overlap in place.
+async function buildLitematic(
+  shape: GeneratedShape,
+  parts: BlockEntry[][],
+  options: ExportOptions,
+): Promise<Uint8Array> {
+  const { sizeX, sizeY, sizeZ } = normalizeAndMeasure(parts.flat(), options.forceZ129 === true);
+  const regionNames =
+    shape.splitExportNames ??
+    (parts.length > 1 ? parts.map((_, i) => `step_${i + 1}`) : [options.baseName]);
+  const regions = parts.map((blocks, i) => ({ name: regionNames[i], blocks }));
+  const data = writeLitematic(
+    regions,
+    { x: sizeX, y: sizeY, z: sizeZ },
+    { name: options.baseName, author: options.author ?? "" },
+    getExportDataVersion(options),
+  );
+  return gzipCompress(data);
+}
+
+// Encodes the files for one map, named after options.baseName.
+async function encodeShapeFiles(
+  shape: GeneratedShape,
+  parts: BlockEntry[][],
+  options: ExportOptions,
+  format: ExportFormat,
+): Promise<ExportFile[]> {
+  const name = `${options.baseName}.${getExportFormatExtension(format)}`;
+  if (format === ExportFormat.Structure && options.structureBlockTiles) {
+    const groups: [string, BlockEntry[]][] = shape.splitExportNames
+      ? shape.splitExportNames.map((suffix, i) => [`${options.baseName}-${suffix}`, parts[i] ?? []])
+      : [[options.baseName, parts.flat()]];
+    return (await Promise.all(groups.map(([baseName, blocks]) => buildStructureBlockTiles(blocks, options, baseName)))).flat();
+  }
+  if (format !== ExportFormat.Litematic && shape.splitExportNames) {
+    return buildSplitFiles(parts, options, format, shape.splitExportNames);
+  }
+  const origin = measureFileOrigin(parts.flat(), options.forceZ129 === true);
+  const data = format === ExportFormat.Litematic
+    ? await buildLitematic(shape, parts, options)
+    : await encodeStructureFile(parts.flat(), format, options);
+  return [{ name, data, origin }];
+}
+
+// Java formats get the block ids of options.version; Bedrock ids are translated by the mcstructure writer.
+function materializeExportParts(shape: GeneratedShape, options: ExportOptions, format: ExportFormat): BlockEntry[][] {
+  const parts = materializeShapeParts(shape, options);
+  if (format === ExportFormat.Mcstructure) return parts;
+  const version = options.version ?? MinecraftVersion.Latest;
+  return parts.map(blocks => blocks.map(b => ({ ...b, blockName: toVersionBlockName(b.blockName, version) })));
+}
+
+function buildBedrockNotices(parts: BlockEntry[][]): PaletteNotice[] {
+  const unavailable = new Set<string>();
+  const recolored = new Set<string>();
+  for (const blocks of parts) {
+    for (const b of blocks) {
+      const name = stripBlockNamespace(b.blockName);
+      if (!toBedrockBlockState(b.blockName).block) unavailable.add(name);
+      else if (hasBedrockMapColorDifference(b.blockName)) recolored.add(name);
+    }
+  }
+  const notices: PaletteNotice[] = [];
+  if (unavailable.size > 0) notices.push(messages.parsing.bedrockUnavailableBlocksNotice([...unavailable].sort()));
+  if (recolored.size > 0) notices.push(messages.parsing.bedrockMapColorMismatchNotice([...recolored].sort()));
+  return notices;
+}
+
+// Filler and custom blocks are not filtered by the target version, so they are reported instead.
+function buildVersionNotices(parts: BlockEntry[][], version: MinecraftVersion): PaletteNotice[] {
+  const unavailable = new Set<string>();
+  for (const blocks of parts) {
+    for (const b of blocks) {
+      if (!isBlockAvailable(b.blockName, version)) unavailable.add(stripBlockNamespace(b.blockName));
+    }
+  }
+  return unavailable.size > 0 ? [messages.parsing.versionUnavailableBlocksNotice([...unavailable].sort(), version)] : [];
+}
+
+function buildExportNotices(parts: BlockEntry[][], format: ExportFormat, options: ExportOptions): PaletteNotice[] {
+  return format === ExportFormat.Mcstructure
+    ? buildBedrockNotices(parts)
+    : buildVersionNotices(parts, options.version ?? MinecraftVersion.Latest);
+}
+
+// Map ids run from `firstMapId` in tile order, continuing at `idOffset` for later animation frames.
+async function encodeMapDatFiles(
+  tiles: { row: number; col: number; colorGrid: ColorGrid }[],
+  options: ExportOptions,
+  idOffset = 0,
+): Promise<{ name: string; data: Uint8Array }[]> {
+  const mapDat = options.mapDat;
+  if (!mapDat) return [];
+  const span = getMapSpan(mapDat.scale);
+  return Promise.all(tiles.map(async (tile, i) => ({
+    name: `map_${mapDat.firstMapId + idOffset + i}.dat`,
+    data: await gzipCompress(writeMapDat(tile.colorGrid, options.customColors, {
+      ...mapDat,
+      centerX: mapDat.centerX + tile.col * span,
+      centerZ: mapDat.centerZ + tile.row * span,
+    }, getExportDataVersion(options))),
+  })));
+}
+
+const DEFAULT_REGION_PLACEMENT: RegionPlacement = { mapX: 0, mapZ: 0, baseY: 64 };
+
+// Region files hold the finished build in world coordinates, so step-by-step suppress modes cannot be written.
+// Seam-aligned wall tiles keep their relative heights; the lowest block of the whole wall lands on baseY.
+async function encodeRegionFiles(
+  tiles: { row: number; col: number; shape: GeneratedShape }[],
+  options: ExportOptions,
+  allParts: BlockEntry[][],
+): Promise<{ name: string; data: Uint8Array }[]> {
+  const version = options.version ?? MinecraftVersion.Latest;
+  if (version === MinecraftVersion.V1_16_5) throw new Error(messages.parsing.regionUnsupportedVersion);
+  if (tiles.some(tile => tile.shape.parts.length !== 1)) throw new Error(messages.parsing.regionUnsupportedShape);
+
+  const placement = options.region ?? DEFAULT_REGION_PLACEMENT;
+  const tileBlocks = tiles.map(tile => materializeExportParts(tile.shape, options, ExportFormat.Region)[0]);
+  allParts.push(...tileBlocks);
+  let minY = Infinity;
+  let maxY = -Infinity;
+  for (const blocks of tileBlocks) {
+    for (const b of blocks) {
+      if (b.y < minY) minY = b.y;
+      if (b.y > maxY) maxY = b.y;
+    }
+  }
+  if (minY === Infinity) return [];
+  const [top, bottom] = [placement.baseY, placement.baseY + maxY - minY];
+  if (top < WORLD_MIN_Y || bottom >= WORLD_MAX_Y) {
+    throw new Error(messages.parsing.regionOutOfBounds(top, bottom, WORLD_MIN_Y, WORLD_MAX_Y - 1));
+  }
+
+  const originX = getMapGridCorner(placement.mapX);
+  const originZ = getMapGridCorner(placement.mapZ);
+  const worldBlocks = tiles.flatMap((tile, i) => tileBlocks[i].map(b => ({
+    x: originX + tile.col * MAP_SIZE + b.x,
+    y: placement.baseY + b.y - minY,
+    z: originZ + tile.row * MAP_SIZE + b.z,
+    blockName: b.blockName,
+  })));
+  const regions = await writeAnvilRegions(worldBlocks, getExportDataVersion(options));
+  return regions.map(file => ({ name: `region/${file.name}`, data: file.data }));
+}
+
+// Seam-aligned wall tiles keep their relative heights. The lowest block of the whole build lands at the executor's
+// feet, with the north-west corner (z = -1 north row included) at its position. Multi-part shapes get one build
+// function per split half or suppress step, named like the litematic sub-regions.
+function encodeDatapackFiles(
+  tiles: { row: number; col: number; shape: GeneratedShape }[],
+  options: ExportOptions,
+  allParts: BlockEntry[][],
+): { name: string; data: Uint8Array }[] {
+  const tileParts = tiles.map(tile => materializeExportParts(tile.shape, options, ExportFormat.Datapack));
+  allParts.push(...tileParts.flat());
+  let minY = Infinity;
+  let minZ = 0;
+  for (const blocks of tileParts.flat()) {
+    for (const b of blocks) {
+      if (b.y < minY) minY = b.y;
+      if (b.z < minZ) minZ = b.z;
+    }
+  }
+  const zShift = minZ < 0 || options.forceZ129 === true ? 1 : 0;
+  const partCount = Math.max(...tiles.map(tile => tile.shape.parts.length));
+  const groupNames =
+    tiles[0].shape.splitExportNames ??
+    (partCount > 1 ? Array.from({ length: partCount }, (_, i) => `step_${i + 1}`) : [options.baseName]);
+  const groups = groupNames.map((name, i) => ({
+    name,
+    blocks: tiles.flatMap((tile, t) => (tileParts[t][i] ?? []).map(b => ({
+      x: tile.col * MAP_SIZE + b.x,
+      y: b.y - minY,
+      z: tile.row * MAP_SIZE + b.z + zShift,
+      blockName: b.blockName,
+    }))),
+  }));
+  return writeDatapack(groups, {
+    name: options.baseName,
+    packFormat: getDatapackFormat(options.version ?? MinecraftVersion.Latest),
+    maxCommandChainLength: options.maxCommandChainLength ?? DEFAULT_MAX_COMMAND_CHAIN_LENGTH,
+  });
+}
+
+// Region files are always zipped: their names (`region/r.0.0.mca`) are what the game looks for.
+async function toExportResult(
+  files: { name: string; data: Uint8Array }[],
+  format: ExportFormat,
+  paletteNotices: PaletteNotice[],
+): Promise<ExportResult> {
+  if (files.length === 1 && format !== ExportFormat.Region) {
+    return { data: files[0].data, isZip: false, fileExtension: getExportFormatExtension(format), paletteNotices };
+  }
+  return { data: await createZip(files), isZip: true, fileExtension: "zip", paletteNotices };
+}
+
+// `colorGrid` is only needed when options.mapDat is set; the map file then turns the download into a zip. Datapacks
+// never carry map files.
+//
 // Callers:
-// - src/Index.tsx
+// - src/lib/headlessConversion.ts
+// - src/lib/shapeWorker.ts
+// - src/lib/shapeWorkerProtocol.ts
 export async function convertToNbt(
   shape: GeneratedShape,
   options: ExportOptions,
-): Promise<{ data: Uint8Array; isZip: boolean }> {
-  const parts = materializeShapeParts(shape, options);
-  if (shape.splitExportNames) return buildSplitZip(parts, options, shape.splitExportNames);
+  colorGrid?: ColorGrid,
+): Promise<ExportResult> {
+  const format = options.format ?? ExportFormat.Structure;
+  if (format === ExportFormat.Datapack) return convertToDatapack(shape, options);
+  const allParts: BlockEntry[][] = [];
+  let files: { name: string; data: Uint8Array }[];
+  if (format === ExportFormat.Region) {
+    files = await encodeRegionFiles([{ row: 0, col: 0, shape }], options, allParts);
+  } else {
+    const parts = materializeExportParts(shape, options, format);
+    allParts.push(...parts);
+    files = withTileManifest(await encodeShapeFiles(shape, parts, options, format), options, format);
+  }
+  if (colorGrid) files.push(...await encodeMapDatFiles([{ row: 0, col: 0, colorGrid }], options));
+  return toExportResult(files, format, buildExportNotices(allParts, format, options));
+}
 
-  const blocks = parts.flat();
-  const { sizeX, sizeY, sizeZ } = normalizeAndMeasure(blocks, options.forceZ129 === true);
-  return { data: await gzipCompress(writeStructureNbt(blocks, sizeX, sizeY, sizeZ)), isZip: false };
+// Builds the map with commands instead of a structure file, for worlds without structure blocks. The zip is the
+// datapack itself: drop it into the save's datapacks/ folder and run `/function mapart:<name>/build`. Map items are
+// left out, since the game only reads them from the world's data/ folder.
+//
+// Callers:
+// - src/lib/nbtExport.ts
+export async function convertToDatapack(shape: GeneratedShape, options: ExportOptions): Promise<ExportResult> {
+  const allParts: BlockEntry[][] = [];
+  const files = encodeDatapackFiles([{ row: 0, col: 0, shape }], options, allParts);
+  const paletteNotices = buildExportNotices(allParts, ExportFormat.Datapack, options);
+  return { data: await createZip(files), isZip: true, fileExtension: "zip", paletteNotices };
+}
+
+function encodePlacementManifest(placements: WallPlacement[], rows: number, cols: number): Uint8Array {
+  const baseY = Math.min(...placements.map(placement => placement.y));
+  const files = placements.map(placement => ({ ...placement, y: placement.y - baseY }));
+  return new TextEncoder().encode(`${JSON.stringify({ rows, cols, files }, null, 2)}\n`);
+}
+
+// Encodes every tile of a wall plus its placement manifest. `allParts` collects the materialized blocks for
+// export notices.
+async function encodeWallFiles(
+  tiles: WallTileShape[],
+  options: ExportOptions,
+  format: ExportFormat,
+  allParts: BlockEntry[][],
+): Promise<{ name: string; data: Uint8Array }[]> {
+  const files: ExportFile[] = [];
+  const placements: WallPlacement[] = [];
+  for (const tile of tiles) {
+    const parts = materializeExportParts(tile.shape, options, format);
+    allParts.push(...parts);
+    const tileOptions = {
+      ...options,
+      baseName: `${options.baseName}-r${tile.row}c${tile.col}`,
+      forceZ129: options.forceZ129 === true && tile.row === 0,
+    };
+    for (const file of await encodeShapeFiles(tile.shape, parts, tileOptions, format)) {
+      files.push(file);
+      placements.push({
+        file: file.name,
+        row: tile.row,
+        col: tile.col,
+        x: tile.col * MAP_SIZE + file.origin.x,
+        y: file.origin.y,
+        z: tile.row * MAP_SIZE + file.origin.z,
+      });
+    }
+  }
+  const rows = Math.max(...tiles.map(tile => tile.row)) + 1;
+  const cols = Math.max(...tiles.map(tile => tile.col)) + 1;
+  const manifest = { name: `${options.baseName}-placement.json`, data: encodePlacementManifest(placements, rows, cols) };
+  return [...files, manifest];
+}
+
+// Every tile of a map wall is exported as its own map, named by its position (`name-r0c2.nbt`), in one zip.
+// A placement manifest lists where each file's 0,0,0 corner goes relative to the wall's north-west corner, since
+// seam-aligned tiles no longer share one height. Only the top row keeps forceZ129; lower rows are placed flush.
+// Region files and datapacks build the whole wall at once instead.
+//
+// Callers:
+// - src/lib/headlessConversion.ts
+// - src/lib/shapeWorker.ts
+export async function convertWallToNbt(
+  tiles: WallTileShape[],
+  options: ExportOptions,
+): Promise<ExportResult> {
+  const format = options.format ?? ExportFormat.Structure;
+  const allParts: BlockEntry[][] = [];
+  const files = format === ExportFormat.Datapack
+    ? encodeDatapackFiles(tiles, options, allParts)
+    : [
+        ...format === ExportFormat.Region
+          ? await encodeRegionFiles(tiles, options, allParts)
+          : await encodeWallFiles(tiles, options, format, allParts),
+        ...await encodeMapDatFiles(tiles, options),
+      ];
+  const paletteNotices = buildExportNotices(allParts, format, options);
+  return { data: await createZip(files), isZip: true, fileExtension: "zip", paletteNotices };
+}
+
+// Animation frames are numbered from 1 (`name-f01.nbt`, or `name-f01-r0c0.nbt` for walls) so item-frame
+// rotations can load them in order. Every frame is a complete map or wall on its own.
+//
+// Callers:
+// - src/lib/headlessConversion.ts
+// - src/lib/shapeWorker.ts
+export async function convertFramesToNbt(
+  frames: WallTileShape[][],
+  options: ExportOptions,
+): Promise<ExportResult> {
+  const format = options.format ?? ExportFormat.Structure;
+  if (format === ExportFormat.Region) throw new Error(messages.parsing.regionUnsupportedShape);
+  if (format === ExportFormat.Datapack) throw new Error(messages.parsing.datapackUnsupportedShape);
+  // Map ids are numbered frame by frame, so every frame must cover the same maps.
+  const mismatched = frames.findIndex(tiles => tiles.length === 0 || tiles.length !== frames[0].length);
+  if (mismatched >= 0) {
+    throw new Error(messages.parsing.frameMapCountMismatch(mismatched + 1, frames[mismatched].length, frames[0].length));
+  }
+  const digits = Math.max(2, String(frames.length).length);
+  const files: { name: string; data: Uint8Array }[] = [];
+  const allParts: BlockEntry[][] = [];
+  for (const [i, tiles] of frames.entries()) {
+    const frameOptions = { ...options, baseName: `${options.baseName}-f${String(i + 1).padStart(digits, "0")}` };
+    if (tiles.length > 1) {
+      files.push(...await encodeWallFiles(tiles, frameOptions, format, allParts));
+    } else {
+      const parts = materializeExportParts(tiles[0].shape, frameOptions, format);
+      allParts.push(...parts);
+      files.push(...withTileManifest(await encodeShapeFiles(tiles[0].shape, parts, frameOptions, format), frameOptions, format));
+    }
+    files.push(...await encodeMapDatFiles(tiles, frameOptions, i * tiles.length));
+  }
+  const paletteNotices = buildExportNotices(allParts, format, options);
+  return { data: await createZip(files), isZip: true, fileExtension: "zip", paletteNotices };
 }
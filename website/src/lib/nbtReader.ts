@@ -0,0 +1,185 @@
+/**
+ * Public API:
+ * - NbtValue
+ * - NbtCompound
+ * - NbtReader
+ * - isNbtCompound()
+ * - readNbt()
+ * - gunzipIfNeeded()
+ *
+ * Callers:
+ * - src/lib/colorGridParsing.ts
+ * - src/lib/structureReader.ts
+ *
+ * Notes:
+ * - Counterpart to `NbtWriter` in nbtWriter.ts. Tags are decoded into plain values: numeric tags become numbers
+ *   (longs become bigint), lists become arrays and compounds become objects keyed by tag name.
+ * - Byte arrays are returned as unsigned `Uint8Array` views; callers that need signed values reinterpret them.
+ */
+import { messages } from "./messages";
+import { TAG } from "./nbtWriter";
+
+// Callers:
+// - src/lib/nbtReader.ts
+// - src/lib/structureReader.ts
+export type NbtValue =
+  | number
+  | bigint
+  | string
+  | Uint8Array
+  | Int32Array
+  | BigInt64Array
+  | NbtValue[]
+  | NbtCompound;
+
+// Callers:
+// - src/lib/nbtReader.ts
+// - src/lib/structureReader.ts
+export interface NbtCompound {
+  [name: string]: NbtValue;
+}
+
+// Java Edition NBT is big-endian; Bedrock files use the same layout in little-endian.
+//
+// Callers:
+// - src/lib/nbtReader.ts
+export class NbtReader {
+  private pos = 0;
+  private readonly view: DataView;
+
+  constructor(private readonly bytes: Uint8Array, private readonly littleEndian = false) {
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  }
+
+  private ensure(length: number) {
+    if (length < 0 || this.pos + length > this.bytes.length) throw new Error(messages.parsing.nbtTruncated);
+  }
+
+  readByte(): number {
+    this.ensure(1);
+    return this.view.getInt8(this.pos++);
+  }
+
+  readShort(): number {
+    this.ensure(2);
+    const v = this.view.getInt16(this.pos, this.littleEndian);
+    this.pos += 2;
+    return v;
+  }
+
+  readInt(): number {
+    this.ensure(4);
+    const v = this.view.getInt32(this.pos, this.littleEndian);
+    this.pos += 4;
+    return v;
+  }
+
+  readLong(): bigint {
+    this.ensure(8);
+    const v = this.view.getBigInt64(this.pos, this.littleEndian);
+    this.pos += 8;
+    return v;
+  }
+
+  readFloat(): number {
+    this.ensure(4);
+    const v = this.view.getFloat32(this.pos, this.littleEndian);
+    this.pos += 4;
+    return v;
+  }
+
+  readDouble(): number {
+    this.ensure(8);
+    const v = this.view.getFloat64(this.pos, this.littleEndian);
+    this.pos += 8;
+    return v;
+  }
+
+  readBytes(length: number): Uint8Array {
+    this.ensure(length);
+    const out = this.bytes.subarray(this.pos, this.pos + length);
+    this.pos += length;
+    return out;
+  }
+
+  readString(): string {
+    const length = this.readShort() & 0xFFFF;
+    return new TextDecoder().decode(this.readBytes(length));
+  }
+
+  readPayload(type: number): NbtValue {
+    switch (type) {
+      case TAG.Byte: return this.readByte();
+      case TAG.Short: return this.readShort();
+      case TAG.Int: return this.readInt();
+      case TAG.Long: return this.readLong();
+      case TAG.Float: return this.readFloat();
+      case TAG.Double: return this.readDouble();
+      case TAG.ByteArray: return this.readBytes(this.readInt());
+      case TAG.String: return this.readString();
+      case TAG.List: {
+        const elemType = this.readByte();
+        const count = this.readInt();
+        const items: NbtValue[] = [];
+        for (let i = 0; i < count; ++i) items.push(this.readPayload(elemType));
+        return items;
+      }
+      case TAG.Compound: return this.readCompound();
+      case TAG.IntArray: {
+        const count = this.readInt();
+        this.ensure(count * 4);
+        const values = new Int32Array(count);
+        for (let i = 0; i < count; ++i) values[i] = this.readInt();
+        return values;
+      }
+      case TAG.LongArray: {
+        const count = this.readInt();
+        this.ensure(count * 8);
+        const values = new BigInt64Array(count);
+        for (let i = 0; i < count; ++i) values[i] = this.readLong();
+        return values;
+      }
+      default:
+        throw new Error(messages.parsing.nbtInvalid);
+    }
+  }
+
+  readCompound(): NbtCompound {
+    const compound: NbtCompound = {};
+    for (let type = this.readByte(); type !== TAG.End; type = this.readByte()) {
+      const name = this.readString();
+      compound[name] = this.readPayload(type);
+    }
+    return compound;
+  }
+}
+
+// Callers:
+// - src/lib/colorGridParsing.ts
+// - src/lib/structureReader.ts
+export function isNbtCompound(value: NbtValue | undefined): value is NbtCompound {
+  return typeof value === "object" && value !== null && !Array.isArray(value) && !ArrayBuffer.isView(value);
+}
+
+// Reads an uncompressed file whose root tag is a compound; the root name is discarded.
+//
+// Callers:
+// - src/lib/colorGridParsing.ts
+// - src/lib/structureReader.ts
+export function readNbt(bytes: Uint8Array, littleEndian = false): NbtCompound {
+  const reader = new NbtReader(bytes, littleEndian);
+  if (reader.readByte() !== TAG.Compound) throw new Error(messages.parsing.nbtInvalid);
+  reader.readString();
+  return reader.readCompound();
+}
+
+// Java saves most NBT gzipped but some tools write it raw; the gzip magic bytes decide.
+//
+// Callers:
+// - src/lib/colorGridParsing.ts
+// - src/lib/structureReader.ts
+export async function gunzipIfNeeded(bytes: Uint8Array): Promise<Uint8Array> {
+  if (bytes.length < 2 || bytes[0] !== 0x1f || bytes[1] !== 0x8b) return bytes;
+  const stream = new Blob([bytes as BlobPart]).stream().pipeThrough(new DecompressionStream("gzip"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
@@ -1,33 +1,71 @@
 /**
  * Public API:
+ * - NbtWriter
+ * - TAG
  * - BlockEntry
+ * - BlockPaletteEntry
+ * - buildBlockPalette()
+ * - writeBlockStateCompound()
  * - writeStructureNbt()
  * - gzipCompress()
+ * - zlibCompress()
+ * - deflateRawCompress()
  *
  * Callers:
+ * - src/lib/anvilWriter.ts
+ * - src/lib/litematicWriter.ts
+ * - src/lib/mapDatWriter.ts
+ * - src/lib/mapRenderSimulation.ts
+ * - src/lib/mcstructureWriter.ts
  * - src/lib/nbtExport.ts
+ * - src/lib/nbtReader.ts
+ * - src/lib/schemWriter.ts
  * - src/lib/shapeSubstitution.ts
+ * - src/lib/structureReader.ts
+ * - src/lib/zip.ts
  */
 import { canonicalizeBlockEntry } from "./blockId";
 
-class NbtWriter {
+// Java Edition NBT is big-endian; Bedrock files use the same layout in little-endian.
+//
+// Callers:
+// - src/lib/anvilWriter.ts
+// - src/lib/litematicWriter.ts
+// - src/lib/mapDatWriter.ts
+// - src/lib/mcstructureWriter.ts
+// - src/lib/schemWriter.ts
+export class NbtWriter {
   private data: number[] = [];
 
+  constructor(private readonly littleEndian = false) {}
+
   writeByte(v: number) {
     this.data.push(v & 0xFF);
   }
 
   writeShort(v: number) {
-    this.data.push((v >> 8) & 0xFF, v & 0xFF);
+    if (this.littleEndian) this.data.push(v & 0xFF, (v >> 8) & 0xFF);
+    else this.data.push((v >> 8) & 0xFF, v & 0xFF);
   }
 
   writeInt(v: number) {
     const buf = new ArrayBuffer(4);
-    new DataView(buf).setInt32(0, v, false);
+    new DataView(buf).setInt32(0, v, this.littleEndian);
+    const bytes = new Uint8Array(buf);
+    for (const b of bytes) this.data.push(b);
+  }
+
+  writeLong(v: bigint) {
+    const buf = new ArrayBuffer(8);
+    new DataView(buf).setBigInt64(0, v, this.littleEndian);
     const bytes = new Uint8Array(buf);
     for (const b of bytes) this.data.push(b);
   }
 
+  writeBytes(bytes: Uint8Array) {
+    for (const b of bytes) this.data.push(b);
+  }
+
   writeString(v: string) {
     const encoded = new TextEncoder().encode(v);
     this.writeShort(encoded.length);
@@ -41,7 +79,10 @@ class NbtWriter {
 
   beginCompound(name: string) { this.tagHeader(10, name); }
   endCompound() { this.writeByte(0); }
+  byteTag(name: string, v: number) { this.tagHeader(1, name); this.writeByte(v); }
+  shortTag(name: string, v: number) { this.tagHeader(2, name); this.writeShort(v); }
   intTag(name: string, v: number) { this.tagHeader(3, name); this.writeInt(v); }
+  longTag(name: string, v: bigint) { this.tagHeader(4, name); this.writeLong(v); }
   stringTag(name: string, v: string) { this.tagHeader(8, name); this.writeString(v); }
 
   beginList(name: string, elemType: number, count: number) {
@@ -50,6 +91,29 @@ class NbtWriter {
     this.writeInt(count);
   }
 
+  byteArrayTag(name: string, bytes: Uint8Array) {
+    this.tagHeader(7, name);
+    this.writeInt(bytes.length);
+    this.writeBytes(bytes);
+  }
+
+  intArrayTag(name: string, values: readonly number[]) {
+    this.tagHeader(11, name);
+    this.writeInt(values.length);
+    for (const v of values) this.writeInt(v);
+  }
+
+  // Long arrays are passed as 32-bit words, low word first, so callers can bit-pack without BigInt.
+  longArrayTag(name: string, words: Uint32Array) {
+    this.tagHeader(12, name);
+    this.writeInt(words.length >> 1);
+    for (let i = 0; i < words.length; i += 2) {
+      const [first, second] = this.littleEndian ? [words[i], words[i + 1]] : [words[i + 1], words[i]];
+      this.writeInt(first | 0);
+      this.writeInt(second | 0);
+    }
+  }
+
   endCompoundElement() { this.writeByte(0); }
 
   toUint8Array(): Uint8Array {
@@ -57,14 +121,27 @@ class NbtWriter {
   }
 }
 
-const TAG = {
+// Callers:
+// - src/lib/anvilWriter.ts
+// - src/lib/litematicWriter.ts
+// - src/lib/mapDatWriter.ts
+// - src/lib/mcstructureWriter.ts
+// - src/lib/nbtReader.ts
+// - src/lib/schemWriter.ts
+export const TAG = {
   End: 0, Byte: 1, Short: 2, Int: 3, Long: 4, Float: 5, Double: 6,
   ByteArray: 7, String: 8, List: 9, Compound: 10, IntArray: 11, LongArray: 12,
 } as const;
 
 // Callers:
+// - src/lib/anvilWriter.ts
+// - src/lib/litematicWriter.ts
+// - src/lib/mapRenderSimulation.ts
+// - src/lib/mcstructureWriter.ts
 // - src/lib/nbtExport.ts
+// - src/lib/schemWriter.ts
 // - src/lib/shapeSubstitution.ts
+// - src/lib/structureReader.ts
 export interface BlockEntry {
   x: number;
   y: number;
@@ -86,30 +163,70 @@ function parseBlockId(id: string): { name: string; props: Record<string, string>
   return { name, props };
 }
 
+// Callers:
+// - src/lib/litematicWriter.ts
+export interface BlockPaletteEntry {
+  name: string;
+  props: Record<string, string>;
+}
+
+// Palette keys are the canonical block strings (including properties); `leadingBlocks` reserve the first
+// indices, e.g. air for formats that treat index 0 as empty space.
+//
+// Callers:
+// - src/lib/anvilWriter.ts
+// - src/lib/litematicWriter.ts
+// - src/lib/schemWriter.ts
+export function buildBlockPalette(
+  blocks: BlockEntry[],
+  leadingBlocks: string[] = [],
+): { palette: BlockPaletteEntry[]; indexOf: Map<string, number> } {
+  const indexOf = new Map<string, number>();
+  const palette: BlockPaletteEntry[] = [];
+  const add = (raw: string) => {
+    const blockName = canonicalizeBlockEntry(raw);
+    if (indexOf.has(blockName)) return;
+    indexOf.set(blockName, palette.length);
+    palette.push(parseBlockId(blockName));
+  };
+  for (const blockName of leadingBlocks) add(blockName);
+  for (const b of blocks) add(b.blockName);
+  return { palette, indexOf };
+}
+
+// Writes one palette entry as the body of a list element (`Name` plus optional `Properties`).
+//
+// Callers:
+// - src/lib/anvilWriter.ts
+// - src/lib/litematicWriter.ts
+export function writeBlockStateCompound(w: NbtWriter, entry: BlockPaletteEntry) {
+  w.stringTag("Name", entry.name);
+  const propKeys = Object.keys(entry.props);
+  if (propKeys.length > 0) {
+    w.beginCompound("Properties");
+    for (const k of propKeys) {
+      w.stringTag(k, entry.props[k]);
+    }
+    w.endCompound();
+  }
+  w.endCompoundElement();
+}
+
 // Callers:
 // - src/lib/nbtExport.ts
 export function writeStructureNbt(
   blocks: BlockEntry[],
   sizeX: number,
   sizeY: number,
-  sizeZ: number
+  sizeZ: number,
+  dataVersion: number,
 ): Uint8Array {
-  // Build palette with properties support
-  // Key is the full blockName string (including properties)
-  const paletteMap = new Map<string, number>();
-  const palette: { name: string; props: Record<string, string> }[] = [];
-  for (const b of blocks) {
-    const blockName = canonicalizeBlockEntry(b.blockName);
-    if (!paletteMap.has(blockName)) {
-      paletteMap.set(blockName, palette.length);
-      palette.push(parseBlockId(blockName));
-    }
-  }
+  const { palette, indexOf: paletteMap } = buildBlockPalette(blocks);
 
   const w = new NbtWriter();
 
   w.beginCompound("");
-  w.intTag("DataVersion", 3837);
+  w.intTag("DataVersion", dataVersion);
 
   w.beginList("size", TAG.Int, 3);
   w.writeInt(sizeX);
@@ -117,18 +234,7 @@ export function writeStructureNbt(
   w.writeInt(sizeZ);
 
   w.beginList("palette", TAG.Compound, palette.length);
-  for (const entry of palette) {
-    w.stringTag("Name", entry.name);
-    const propKeys = Object.keys(entry.props);
-    if (propKeys.length > 0) {
-      w.beginCompound("Properties");
-      for (const k of propKeys) {
-        w.stringTag(k, entry.props[k]);
-      }
-      w.endCompound();
-    }
-    w.endCompoundElement();
-  }
+  for (const entry of palette) writeBlockStateCompound(w, entry);
 
   w.beginList("blocks", TAG.Compound, blocks.length);
   for (const b of blocks) {
@@ -147,12 +253,10 @@ export function writeStructureNbt(
   return w.toUint8Array();
 }
 
-// Callers:
-// - src/lib/nbtExport.ts
-export async function gzipCompress(data: Uint8Array): Promise<Uint8Array> {
+async function compressWith(data: Uint8Array, format: CompressionFormat): Promise<Uint8Array> {
   const blob = new Blob([data.buffer as ArrayBuffer]);
   const stream = blob.stream();
-  const compressed = stream.pipeThrough(new CompressionStream("gzip"));
+  const compressed = stream.pipeThrough(new CompressionStream(format));
   const reader = compressed.getReader();
   const chunks: Uint8Array[] = [];
   while (true) {
@@ -169,3 +273,25 @@ export async function gzipCompress(data: Uint8Array): Promise<Uint8Array> {
   }
   return result;
 }
+
+// Callers:
+// - src/lib/nbtExport.ts
+export function gzipCompress(data: Uint8Array): Promise<Uint8Array> {
+  return compressWith(data, "gzip");
+}
+
+// zlib-wrapped deflate, the compression type 2 used for chunks in region files.
+//
+// Callers:
+// - src/lib/anvilWriter.ts
+export function zlibCompress(data: Uint8Array): Promise<Uint8Array> {
+  return compressWith(data, "deflate");
+}
+
+// Bare deflate without a header or checksum, as stored in zip entries.
+//
+// Callers:
+// - src/lib/zip.ts
+export function deflateRawCompress(data: Uint8Array): Promise<Uint8Array> {
+  return compressWith(data, "deflate-raw");
+}
@@ -0,0 +1,324 @@
+/**
+ * Public API:
+ * - isPngData()
+ * - isAnimatedPng()
+ * - decodePng()
+ * - decodePngFrames()
+ *
+ * Callers:
+ * - src/lib/colorGridParsing.ts
+ *
+ * Notes:
+ * - Pure JS apart from `DecompressionStream`, so it also runs outside the browser. Supports every PNG color type,
+ *   bit depths 1-16 and Adam7 interlacing; 16-bit samples are reduced to their high byte.
+ * - APNG frames are composited onto the full canvas with their dispose/blend ops, one ImageData per frame. When
+ *   the default image is not part of the animation it is skipped, as players do.
+ */
+import { createImageData } from "./imageData";
+import { messages } from "./messages";
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+const ADAM7_PASSES: [number, number, number, number][] = [
+  [0, 0, 8, 8], [4, 0, 8, 8], [0, 4, 4, 8], [2, 0, 4, 4], [0, 2, 2, 4], [1, 0, 2, 2], [0, 1, 1, 2],
+];
+
+interface PngHeader {
+  width: number;
+  height: number;
+  bitDepth: number;
+  colorType: number;
+  interlaced: boolean;
+}
+
+interface PngChunk {
+  type: string;
+  data: Uint8Array;
+}
+
+interface FrameControl {
+  width: number;
+  height: number;
+  x: number;
+  y: number;
+  disposeOp: number;
+  blendOp: number;
+}
+
+interface PngFrame {
+  control: FrameControl;
+  data: Uint8Array[];
+}
+
+function readU32(bytes: Uint8Array, offset: number): number {
+  return ((bytes[offset] << 24) | (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3]) >>> 0;
+}
+
+function readChunks(bytes: Uint8Array): PngChunk[] {
+  if (!isPngData(bytes)) throw new Error(messages.parsing.pngInvalid);
+  const chunks: PngChunk[] = [];
+  let pos = PNG_SIGNATURE.length;
+  while (pos + 8 <= bytes.length) {
+    const length = readU32(bytes, pos);
+    const type = String.fromCharCode(...bytes.subarray(pos + 4, pos + 8));
+    if (pos + 12 + length > bytes.length) throw new Error(messages.parsing.pngInvalid);
+    chunks.push({ type, data: bytes.subarray(pos + 8, pos + 8 + length) });
+    pos += 12 + length;
+    if (type === "IEND") break;
+  }
+  return chunks;
+}
+
+function readHeader(chunks: PngChunk[]): PngHeader {
+  const ihdr = chunks[0]?.type === "IHDR" ? chunks[0].data : null;
+  if (!ihdr) throw new Error(messages.parsing.pngInvalid);
+  return {
+    width: readU32(ihdr, 0),
+    height: readU32(ihdr, 4),
+    bitDepth: ihdr[8],
+    colorType: ihdr[9],
+    interlaced: ihdr[12] === 1,
+  };
+}
+
+async function inflate(parts: Uint8Array[]): Promise<Uint8Array> {
+  const stream = new Blob(parts as BlobPart[]).stream().pipeThrough(new DecompressionStream("deflate"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+function getChannelCount(colorType: number): number {
+  switch (colorType) {
+    case 0: return 1;
+    case 2: return 3;
+    case 3: return 1;
+    case 4: return 2;
+    case 6: return 4;
+    default: throw new Error(messages.parsing.pngInvalid);
+  }
+}
+
+function paeth(a: number, b: number, c: number): number {
+  const p = a + b - c;
+  const pa = Math.abs(p - a), pb = Math.abs(p - b), pc = Math.abs(p - c);
+  return pa <= pb && pa <= pc ? a : pb <= pc ? b : c;
+}
+
+// Reverses the per-row filters in place and returns the offset just past the pass.
+function unfilter(data: Uint8Array, offset: number, rowBytes: number, rows: number, bpp: number): number {
+  let prev = -1;
+  for (let y = 0; y < rows; ++y) {
+    const filter = data[offset];
+    const row = offset + 1;
+    for (let i = 0; i < rowBytes; ++i) {
+      const a = i >= bpp ? data[row + i - bpp] : 0;
+      const b = prev >= 0 ? data[prev + i] : 0;
+      const c = prev >= 0 && i >= bpp ? data[prev + i - bpp] : 0;
+      switch (filter) {
+        case 1: data[row + i] += a; break;
+        case 2: data[row + i] += b; break;
+        case 3: data[row + i] += (a + b) >> 1; break;
+        case 4: data[row + i] += paeth(a, b, c); break;
+      }
+    }
+    prev = row;
+    offset = row + rowBytes;
+  }
+  return offset;
+}
+
+function createSampleReader(data: Uint8Array, bitDepth: number): (rowStart: number, index: number) => number {
+  if (bitDepth === 8) return (rowStart, index) => data[rowStart + index];
+  if (bitDepth === 16) return (rowStart, index) => data[rowStart + index * 2];
+  const perByte = 8 / bitDepth;
+  const mask = (1 << bitDepth) - 1;
+  return (rowStart, index) => {
+    const byte = data[rowStart + Math.floor(index / perByte)];
+    return (byte >> ((perByte - 1 - (index % perByte)) * bitDepth)) & mask;
+  };
+}
+
+function decodePixels(
+  raw: Uint8Array,
+  width: number,
+  height: number,
+  header: PngHeader,
+  palette: Uint8Array | null,
+  transparency: Uint8Array | null,
+): Uint8ClampedArray<ArrayBuffer> {
+  const { bitDepth, colorType } = header;
+  const channels = getChannelCount(colorType);
+  const bitsPerPixel = channels * bitDepth;
+  const bpp = Math.max(1, bitsPerPixel >> 3);
+  const readSample = createSampleReader(raw, bitDepth);
+  // Scales low-bit-depth gray to 0-255; palette indices are left as-is.
+  const grayScale = colorType === 0 && bitDepth < 8 ? 255 / ((1 << bitDepth) - 1) : 1;
+  const transparentGray = colorType === 0 && transparency ? (transparency[0] << 8) | transparency[1] : -1;
+  const transparentRgb = colorType === 2 && transparency
+    ? [0, 2, 4].map(i => (transparency[i] << 8) | transparency[i + 1])
+    : null;
+  const rawSample = (rowStart: number, index: number) => bitDepth === 16
+    ? (raw[rowStart + index * 2] << 8) | raw[rowStart + index * 2 + 1]
+    : readSample(rowStart, index);
+
+  const out = new Uint8ClampedArray(width * height * 4);
+  const passes: [number, number, number, number][] = header.interlaced ? ADAM7_PASSES : [[0, 0, 1, 1]];
+  let offset = 0;
+  for (const [startX, startY, stepX, stepY] of passes) {
+    const passWidth = Math.ceil((width - startX) / stepX);
+    const passHeight = Math.ceil((height - startY) / stepY);
+    if (passWidth <= 0 || passHeight <= 0) continue;
+    const rowBytes = Math.ceil((passWidth * bitsPerPixel) / 8);
+    const passStart = offset;
+    offset = unfilter(raw, offset, rowBytes, passHeight, bpp);
+    for (let py = 0; py < passHeight; ++py) {
+      const rowStart = passStart + py * (rowBytes + 1) + 1;
+      const y = startY + py * stepY;
+      for (let px = 0; px < passWidth; ++px) {
+        const o = (y * width + startX + px * stepX) * 4;
+        const s = px * channels;
+        switch (colorType) {
+          case 0: {
+            const v = readSample(rowStart, s) * grayScale;
+            out[o] = out[o + 1] = out[o + 2] = v;
+            out[o + 3] = rawSample(rowStart, s) === transparentGray ? 0 : 255;
+            break;
+          }
+          case 2:
+            out[o] = readSample(rowStart, s);
+            out[o + 1] = readSample(rowStart, s + 1);
+            out[o + 2] = readSample(rowStart, s + 2);
+            out[o + 3] = transparentRgb && transparentRgb.every((t, i) => rawSample(rowStart, s + i) === t) ? 0 : 255;
+            break;
+          case 3: {
+            const index = readSample(rowStart, s);
+            out[o] = palette?.[index * 3] ?? 0;
+            out[o + 1] = palette?.[index * 3 + 1] ?? 0;
+            out[o + 2] = palette?.[index * 3 + 2] ?? 0;
+            out[o + 3] = transparency && index < transparency.length ? transparency[index] : 255;
+            break;
+          }
+          case 4:
+            out[o] = out[o + 1] = out[o + 2] = readSample(rowStart, s);
+            out[o + 3] = readSample(rowStart, s + 1);
+            break;
+          case 6:
+            out[o] = readSample(rowStart, s);
+            out[o + 1] = readSample(rowStart, s + 1);
+            out[o + 2] = readSample(rowStart, s + 2);
+            out[o + 3] = readSample(rowStart, s + 3);
+            break;
+        }
+      }
+    }
+  }
+  return out;
+}
+
+function readFrameControl(data: Uint8Array): FrameControl {
+  return {
+    width: readU32(data, 4),
+    height: readU32(data, 8),
+    x: readU32(data, 12),
+    y: readU32(data, 16),
+    disposeOp: data[24],
+    blendOp: data[25],
+  };
+}
+
+// Groups image data by frame. The default image (IDAT) belongs to the first frame only when an fcTL precedes it.
+function collectFrames(chunks: PngChunk[]): PngFrame[] {
+  const frames: PngFrame[] = [];
+  let current: PngFrame | null = null;
+  for (const chunk of chunks) {
+    if (chunk.type === "fcTL") {
+      current = { control: readFrameControl(chunk.data), data: [] };
+      frames.push(current);
+    } else if (chunk.type === "IDAT") {
+      current?.data.push(chunk.data);
+    } else if (chunk.type === "fdAT") {
+      // Skip the sequence number.
+      current?.data.push(chunk.data.subarray(4));
+    }
+  }
+  return frames;
+}
+
+function blendOver(canvas: Uint8ClampedArray, canvasWidth: number, frame: Uint8ClampedArray, control: FrameControl) {
+  for (let y = 0; y < control.height; ++y) {
+    for (let x = 0; x < control.width; ++x) {
+      const s = (y * control.width + x) * 4;
+      const o = ((control.y + y) * canvasWidth + control.x + x) * 4;
+      const srcA = frame[s + 3] / 255;
+      if (control.blendOp === 0 || srcA === 1) {
+        canvas.set(frame.subarray(s, s + 4), o);
+        continue;
+      }
+      if (srcA === 0) continue;
+      const dstA = canvas[o + 3] / 255;
+      const outA = srcA + dstA * (1 - srcA);
+      for (let c = 0; c < 3; ++c) {
+        canvas[o + c] = (frame[s + c] * srcA + canvas[o + c] * dstA * (1 - srcA)) / outA;
+      }
+      canvas[o + 3] = outA * 255;
+    }
+  }
+}
+
+function clearRegion(canvas: Uint8ClampedArray, canvasWidth: number, control: FrameControl) {
+  for (let y = control.y; y < control.y + control.height; ++y) {
+    canvas.fill(0, (y * canvasWidth + control.x) * 4, (y * canvasWidth + control.x + control.width) * 4);
+  }
+}
+
+// Callers:
+// - src/lib/colorGridParsing.ts
+// - src/lib/pngDecoder.ts
+export function isPngData(bytes: Uint8Array): boolean {
+  return bytes.length >= PNG_SIGNATURE.length && PNG_SIGNATURE.every((b, i) => bytes[i] === b);
+}
+
+// Callers:
+// - src/lib/colorGridParsing.ts
+export function isAnimatedPng(bytes: Uint8Array): boolean {
+  return isPngData(bytes) && readChunks(bytes).some(chunk => chunk.type === "acTL");
+}
+
+// Decodes the default image; animation chunks are ignored.
+//
+// Callers:
+// - src/lib/colorGridParsing.ts
+export async function decodePng(bytes: Uint8Array): Promise<ImageData> {
+  const chunks = readChunks(bytes);
+  const header = readHeader(chunks);
+  const palette = chunks.find(chunk => chunk.type === "PLTE")?.data ?? null;
+  const transparency = chunks.find(chunk => chunk.type === "tRNS")?.data ?? null;
+  const raw = await inflate(chunks.filter(chunk => chunk.type === "IDAT").map(chunk => chunk.data));
+  const pixels = decodePixels(raw, header.width, header.height, header, palette, transparency);
+  return createImageData(pixels, header.width, header.height);
+}
+
+// Callers:
+// - src/lib/colorGridParsing.ts
+export async function decodePngFrames(bytes: Uint8Array): Promise<ImageData[]> {
+  const chunks = readChunks(bytes);
+  const header = readHeader(chunks);
+  if (!chunks.some(chunk => chunk.type === "acTL")) return [await decodePng(bytes)];
+  const palette = chunks.find(chunk => chunk.type === "PLTE")?.data ?? null;
+  const transparency = chunks.find(chunk => chunk.type === "tRNS")?.data ?? null;
+  const frames = collectFrames(chunks);
+
+  const canvas = new Uint8ClampedArray(header.width * header.height * 4);
+  const images: ImageData[] = [];
+  for (const frame of frames) {
+    const control = frame.control;
+    if (frame.data.length === 0) continue;
+    const raw = await inflate(frame.data);
+    const pixels = decodePixels(raw, control.width, control.height, header, palette, transparency);
+    const previous = control.disposeOp === 2 ? canvas.slice() : null;
+    blendOver(canvas, header.width, pixels, control);
+    images.push(createImageData(canvas.slice(), header.width, header.height));
+    if (control.disposeOp === 1) clearRegion(canvas, header.width, control);
+    else if (previous) canvas.set(previous);
+  }
+  if (images.length === 0) return [await decodePng(bytes)];
+  return images;
+}
@@ -0,0 +1,247 @@
+/**
+ * Public API:
+ * - PROJECT_FILE_EXTENSION
+ * - PROJECT_FILE_VERSION
+ * - ProjectSource
+ * - ProjectRange
+ * - MapArtProject
+ * - isProjectFile()
+ * - createProjectSource()
+ * - projectSourceToFile()
+ * - serializeProject()
+ * - parseProjectFile()
+ *
+ * Callers:
+ * - src/Index.tsx
+ *
+ * Notes:
+ * - A .mapart.json project holds the source file and every setting that decides the build, so a map can be opened
+ *   again and rebuilt block for block. View settings (table columns, sorting, theme) stay in localStorage.
+ * - The source is the file exactly as it was opened (image, map_<id>.dat or structure .nbt), base64 encoded. Its
+ *   color grid follows from the file and the saved settings.
+ * - Every file carries the `version` it was written with. Loading upgrades older versions one step at a time
+ *   through MIGRATIONS, then reads each setting leniently: missing or unknown values take the page defaults, so
+ *   files keep loading as settings are added. Files from a newer version are refused.
+ */
+import { BUILTIN_PRESET_NAMES, type Preset, canonicalizePreset, getBuiltinPreset } from "@/data/presets";
+import { canonicalizeBlockEntry } from "./blockId";
+import {
+  BuildMode,
+  ColorMetric,
+  type CustomColor,
+  DitherMethod,
+  ExportFormat,
+  MinecraftVersion,
+  PaletteShadeSet,
+} from "./conversionTypes";
+import { DEFAULT_FILLER_BLOCKS } from "./fillerRules";
+import type { FillerBlocks } from "./headlessConversion";
+import { type ImageFitOptions, normalizeImageFitOptions } from "./imageFitting";
+import { messages } from "./messages";
+import { SupportMode } from "./uiTypes";
+
+// Callers:
+// - src/Index.tsx
+// - src/lib/projectFile.ts
+export const PROJECT_FILE_EXTENSION = ".mapart.json";
+
+// Bump when a saved field changes meaning or moves, and add the step that upgrades the previous version to
+// MIGRATIONS. New optional fields need no bump.
+//
+// Callers:
+// - src/lib/projectFile.ts
+export const PROJECT_FILE_VERSION = 1;
+
+const PROJECT_FILE_FORMAT = "png-to-nbt-project";
+
+// Callers:
+// - src/lib/projectFile.ts
+export interface ProjectSource {
+  name: string;
+  type: string;
+  // Base64 of the file's bytes.
+  data: string;
+}
+
+// Inclusive; columns, or suppress steps in the modes that build by step.
+//
+// Callers:
+// - src/Index.tsx
+// - src/lib/projectFile.ts
+export interface ProjectRange {
+  start: number;
+  end: number;
+}
+
+// Callers:
+// - src/Index.tsx
+// - src/lib/projectFile.ts
+export interface MapArtProject {
+  source: ProjectSource | null;
+  preset: Preset;
+  customColors: CustomColor[];
+  fillers: FillerBlocks;
+  supportMode: SupportMode;
+  buildMode: BuildMode;
+  layerGap: number;
+  mixSteps: boolean;
+  paletteSeed: boolean;
+  range: ProjectRange | null;
+  ditherMethod: DitherMethod;
+  colorMetric: ColorMetric;
+  paletteShadeSet: PaletteShadeSet;
+  imageFit: ImageFitOptions;
+  exportFormat: ExportFormat;
+  targetVersion: MinecraftVersion;
+  forceZ129: boolean;
+  assumeFloor: boolean;
+}
+
+type JsonObject = Record<string, unknown>;
+
+// MIGRATIONS[n] upgrades a version n file to version n + 1.
+const MIGRATIONS: Record<number, (project: JsonObject) => JsonObject> = {};
+
+const MAX_LAYER_GAP = 64;
+
+function isJsonObject(value: unknown): value is JsonObject {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+function readEnum<T extends string>(values: Record<string, T>, raw: unknown, fallback: T): T {
+  return Object.values(values).includes(raw as T) ? (raw as T) : fallback;
+}
+
+function readBoolean(raw: unknown, fallback: boolean): boolean {
+  return typeof raw === "boolean" ? raw : fallback;
+}
+
+function readBlock(raw: unknown, fallback: string): string {
+  return typeof raw === "string" ? canonicalizeBlockEntry(raw) : fallback;
+}
+
+function readPreset(raw: unknown): Preset {
+  if (isJsonObject(raw) && isJsonObject(raw.blocks)) {
+    const blocks = Object.fromEntries(
+      Object.entries(raw.blocks).filter(([baseIndex, block]) => /^\d+$/.test(baseIndex) && typeof block === "string"),
+    ) as Record<number, string>;
+    return canonicalizePreset({ name: typeof raw.name === "string" && raw.name ? raw.name : "Custom", blocks });
+  }
+  return canonicalizePreset(getBuiltinPreset(BUILTIN_PRESET_NAMES[0])!);
+}
+
+function readCustomColors(raw: unknown): CustomColor[] {
+  if (!Array.isArray(raw)) return [];
+  return raw.flatMap(color => {
+    if (!isJsonObject(color) || typeof color.block !== "string") return [];
+    const [r, g, b] = [color.r, color.g, color.b].map(channel => Math.trunc(Number(channel)));
+    const block = canonicalizeBlockEntry(color.block);
+    return [r, g, b].every(channel => channel >= 0 && channel <= 255) && block ? [{ r, g, b, block }] : [];
+  });
+}
+
+function readFillers(raw: unknown): FillerBlocks {
+  const stored = isJsonObject(raw) ? raw : {};
+  return {
+    support: readBlock(stored.support, DEFAULT_FILLER_BLOCKS.support),
+    shade: readBlock(stored.shade, DEFAULT_FILLER_BLOCKS.shade),
+    suppress2LayerLate: readBlock(stored.suppress2LayerLate, DEFAULT_FILLER_BLOCKS.suppress2LayerLate),
+    dominateVoid: readBlock(stored.dominateVoid, DEFAULT_FILLER_BLOCKS.dominateVoid),
+    recessiveVoid: readBlock(stored.recessiveVoid, DEFAULT_FILLER_BLOCKS.recessiveVoid),
+  };
+}
+
+function readRange(raw: unknown): ProjectRange | null {
+  if (!isJsonObject(raw)) return null;
+  const start = Math.trunc(Number(raw.start));
+  const end = Math.trunc(Number(raw.end));
+  return Number.isFinite(start) && Number.isFinite(end) && start >= 0 && end >= start ? { start, end } : null;
+}
+
+function readSource(raw: unknown): ProjectSource | null {
+  if (!isJsonObject(raw) || typeof raw.name !== "string" || typeof raw.data !== "string") return null;
+  return { name: raw.name, type: typeof raw.type === "string" ? raw.type : "", data: raw.data };
+}
+
+function encodeBase64(bytes: Uint8Array): string {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return btoa(binary);
+}
+
+function decodeBase64(text: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(text);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; ++i) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+// Callers:
+// - src/Index.tsx
+export function isProjectFile(file: File): boolean {
+  return file.name.toLowerCase().endsWith(PROJECT_FILE_EXTENSION);
+}
+
+// Callers:
+// - src/Index.tsx
+export async function createProjectSource(file: File): Promise<ProjectSource> {
+  return { name: file.name, type: file.type, data: encodeBase64(new Uint8Array(await file.arrayBuffer())) };
+}
+
+// Callers:
+// - src/Index.tsx
+export function projectSourceToFile(source: ProjectSource): File {
+  return new File([decodeBase64(source.data)], source.name, { type: source.type });
+}
+
+// Callers:
+// - src/Index.tsx
+export function serializeProject(project: MapArtProject): string {
+  return JSON.stringify({ format: PROJECT_FILE_FORMAT, version: PROJECT_FILE_VERSION, ...project }, null, 2);
+}
+
+// Throws with a readable message for files that are not projects or come from a newer version.
+//
+// Callers:
+// - src/Index.tsx
+export function parseProjectFile(text: string): MapArtProject {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error(messages.parsing.projectInvalid);
+  }
+  if (!isJsonObject(parsed) || parsed.format !== PROJECT_FILE_FORMAT || !Number.isInteger(parsed.version)) {
+    throw new Error(messages.parsing.projectInvalid);
+  }
+  let version = parsed.version as number;
+  if (version < 1) throw new Error(messages.parsing.projectInvalid);
+  if (version > PROJECT_FILE_VERSION) throw new Error(messages.parsing.projectTooNew(version));
+  let project = parsed;
+  for (; version < PROJECT_FILE_VERSION; ++version) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) throw new Error(messages.parsing.projectInvalid);
+    project = migrate(project);
+  }
+
+  return {
+    source: readSource(project.source),
+    preset: readPreset(project.preset),
+    customColors: readCustomColors(project.customColors),
+    fillers: readFillers(project.fillers),
+    supportMode: readEnum(SupportMode, project.supportMode, SupportMode.None),
+    buildMode: readEnum(BuildMode, project.buildMode, BuildMode.StaircaseClassic),
+    layerGap: Math.max(2, Math.min(MAX_LAYER_GAP, Math.trunc(Number(project.layerGap)) || 5)),
+    mixSteps: readBoolean(project.mixSteps, false),
+    paletteSeed: readBoolean(project.paletteSeed, false),
+    range: readRange(project.range),
+    ditherMethod: readEnum(DitherMethod, project.ditherMethod, DitherMethod.None),
+    colorMetric: readEnum(ColorMetric, project.colorMetric, ColorMetric.Rgb),
+    paletteShadeSet: readEnum(PaletteShadeSet, project.paletteShadeSet, PaletteShadeSet.All),
+    imageFit: normalizeImageFitOptions(project.imageFit),
+    exportFormat: readEnum(ExportFormat, project.exportFormat, ExportFormat.Structure),
+    targetVersion: readEnum(MinecraftVersion, project.targetVersion, MinecraftVersion.Latest),
+    forceZ129: readBoolean(project.forceZ129, false),
+    assumeFloor: readBoolean(project.assumeFloor, true),
+  };
+}
@@ -0,0 +1,112 @@
+/**
+ * Public API:
+ * - SpongeSchematicVersion
+ * - writeSpongeSchematic()
+ *
+ * Callers:
+ * - src/lib/nbtExport.ts
+ *
+ * Notes:
+ * - Block data is one unsigned LEB128 varint per block, index = (y * Length + z) * Width + x, with air at
+ *   palette index 0 for empty space.
+ * - WorldEdit pastes the clipboard origin at the player. The origin is placed on the first map row, so the
+ *   z = -1 north row (when present) lands one block north of the player: v3 stores this in `Offset`, v2 in
+ *   the `WEOffset*` metadata that WorldEdit reads alongside an `Offset` of zero.
+ */
+import { canonicalizeBlockEntry } from "./blockId";
+import { MAP_SIZE } from "./colorGridTypes";
+import { type BlockEntry, NbtWriter, TAG, buildBlockPalette } from "./nbtWriter";
+
+const AIR_BLOCK = "minecraft:air";
+
+// Callers:
+// - src/lib/nbtExport.ts
+export type SpongeSchematicVersion = 2 | 3;
+
+function toBlockStateString(entry: { name: string; props: Record<string, string> }): string {
+  const propKeys = Object.keys(entry.props);
+  return propKeys.length > 0
+    ? `${entry.name}[${propKeys.map(key => `${key}=${entry.props[key]}`).join(",")}]`
+    : entry.name;
+}
+
+function encodeVarints(values: Uint32Array): Uint8Array {
+  const bytes: number[] = [];
+  for (let value of values) {
+    while (value >= 0x80) {
+      bytes.push((value & 0x7F) | 0x80);
+      value >>>= 7;
+    }
+    bytes.push(value);
+  }
+  return new Uint8Array(bytes);
+}
+
+// Blocks must already be normalized by normalizeAndMeasure().
+//
+// Callers:
+// - src/lib/nbtExport.ts
+export function writeSpongeSchematic(
+  blocks: BlockEntry[],
+  sizeX: number,
+  sizeY: number,
+  sizeZ: number,
+  options: { version: SpongeSchematicVersion; name: string; dataVersion: number },
+): Uint8Array {
+  const { palette, indexOf } = buildBlockPalette(blocks, [AIR_BLOCK]);
+  const states = new Uint32Array(sizeX * sizeY * sizeZ);
+  for (const b of blocks) {
+    states[(b.y * sizeZ + b.z) * sizeX + b.x] = indexOf.get(canonicalizeBlockEntry(b.blockName))!;
+  }
+  const blockData = encodeVarints(states);
+  const northRowOffset = sizeZ - MAP_SIZE;
+
+  const writePalette = (w: NbtWriter) => {
+    w.beginCompound("Palette");
+    palette.forEach((entry, index) => w.intTag(toBlockStateString(entry), index));
+    w.endCompound();
+  };
+
+  const w = new NbtWriter();
+  if (options.version === 3) {
+    w.beginCompound("");
+    w.beginCompound("Schematic");
+  } else {
+    w.beginCompound("Schematic");
+  }
+  w.intTag("Version", options.version);
+  w.intTag("DataVersion", options.dataVersion);
+
+  w.beginCompound("Metadata");
+  w.stringTag("Name", options.name);
+  w.longTag("Date", BigInt(Date.now()));
+  if (options.version === 2) {
+    w.intTag("WEOffsetX", 0);
+    w.intTag("WEOffsetY", 0);
+    w.intTag("WEOffsetZ", -northRowOffset);
+  }
+  w.endCompound();
+
+  w.shortTag("Width", sizeX);
+  w.shortTag("Height", sizeY);
+  w.shortTag("Length", sizeZ);
+
+  if (options.version === 3) {
+    w.intArrayTag("Offset", [0, 0, -northRowOffset]);
+    w.beginCompound("Blocks");
+    writePalette(w);
+    w.byteArrayTag("Data", blockData);
+    w.beginList("BlockEntities", TAG.Compound, 0);
+    w.endCompound();
+    w.endCompound();
+  } else {
+    w.intArrayTag("Offset", [0, 0, 0]);
+    w.intTag("PaletteMax", palette.length);
+    writePalette(w);
+    w.byteArrayTag("BlockData", blockData);
+    w.beginList("BlockEntities", TAG.Compound, 0);
+  }
+  w.endCompound();
+
+  return w.toUint8Array();
+}
@@ -4,9 +4,14 @@
  * - northRowIsSingleLine()
  * - hasColorHeightVariance()
  * - analyzeMaterialNeeds()
+ * - combineMaterialNeeds()
  *
  * Callers:
  * - src/Index.tsx
+ * - src/lib/headlessConversion.ts
+ * - src/lib/shapeWorker.ts
+ * - src/lib/shapeWorkerProtocol.ts
+ * - src/library/index.ts
  */
 import { type ColorGrid, getColorCell, isTransparentColor } from "./colorGridTypes";
 import { FillerRole, type CustomColor, type FillerAssignment } from "./conversionTypes";
@@ -23,6 +28,7 @@ interface FillerNeedStats {
 interface MaterialNeedStats {
   blockCounts: Record<string, number>;
   baseColorCounts: Record<number, number>;
+  visibleColorKeys: Set<string>;
   numUniqueColorShadesForPart: number;
   usedShadesByBase: Map<number, Set<number>>;
   fillerRoleCounts: Map<FillerRole, number>;
@@ -166,6 +172,7 @@ export function northRowIsSingleLine(shape: GeneratedShape): boolean {
 
 // Callers:
 // - src/Index.tsx
+// - src/lib/headlessConversion.ts
 export function hasColorHeightVariance(shape: GeneratedShape): boolean {
   let firstY: number | undefined;
   for (const part of shape.parts) {
@@ -180,7 +187,10 @@ export function hasColorHeightVariance(shape: GeneratedShape): boolean {
 }
 
 // Callers:
-// - src/Index.tsx
+// - src/lib/headlessConversion.ts
+// - src/lib/shapeWorker.ts
+// - src/lib/shapeWorkerProtocol.ts
+// - src/library/index.ts
 export function analyzeMaterialNeeds(
   colorGrid: ColorGrid,
   shape: GeneratedShape,
@@ -212,6 +222,7 @@ export function analyzeMaterialNeeds(
     return {
       blockCounts,
       baseColorCounts,
+      visibleColorKeys,
       numUniqueColorShadesForPart: visibleColorKeys.size,
       usedShadesByBase,
       fillerRoleCounts,
@@ -240,6 +251,42 @@ export function analyzeMaterialNeeds(
   return {
     blockCounts,
     baseColorCounts,
+    visibleColorKeys,
+    numUniqueColorShadesForPart: visibleColorKeys.size,
+    usedShadesByBase,
+    fillerRoleCounts,
+  };
+}
+
+// Sums the material needs of separately built maps, e.g. the tiles of a map wall.
+//
+// Callers:
+// - src/lib/headlessConversion.ts
+// - src/lib/shapeWorker.ts
+// - src/library/index.ts
+export function combineMaterialNeeds(stats: MaterialNeedStats[]): MaterialNeedStats {
+  const blockCounts: Record<string, number> = {};
+  const baseColorCounts: Record<number, number> = {};
+  const visibleColorKeys = new Set<string>();
+  const usedShadesByBase = new Map<number, Set<number>>();
+  const fillerRoleCounts = new Map<FillerRole, number>();
+
+  for (const tile of stats) {
+    for (const [key, count] of Object.entries(tile.blockCounts)) addCount(blockCounts, key, count);
+    for (const [key, count] of Object.entries(tile.baseColorCounts)) {
+      baseColorCounts[Number(key)] = (baseColorCounts[Number(key)] || 0) + count;
+    }
+    for (const key of tile.visibleColorKeys) visibleColorKeys.add(key);
+    for (const [baseIndex, shades] of tile.usedShadesByBase) {
+      for (const shade of shades) addUsedShade(usedShadesByBase, baseIndex, shade);
+    }
+    for (const [role, count] of tile.fillerRoleCounts) addRoleCount(fillerRoleCounts, role, count);
+  }
+
+  return {
+    blockCounts,
+    baseColorCounts,
+    visibleColorKeys,
     numUniqueColorShadesForPart: visibleColorKeys.size,
     usedShadesByBase,
     fillerRoleCounts,
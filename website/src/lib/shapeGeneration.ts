@@ -2,12 +2,22 @@
  * Public API:
  * - GeneratedShape
  * - generateShapeMap()
+ * - generateShapeForMode()
+ * - getPaletteSeedOffset()
  *
  * Callers:
  * - src/Index.tsx
+ * - src/lib/headlessConversion.ts
+ * - src/lib/mapRenderSimulation.ts
  * - src/lib/nbtExport.ts
  * - src/lib/shapeAnalysis.ts
  * - src/lib/shapeSubstitution.ts
+ * - src/lib/shapeWorker.ts
+ * - src/lib/shapeWorkerClient.ts
+ * - src/lib/shapeWorkerProtocol.ts
+ * - src/lib/structureReader.ts
+ * - src/lib/wallSeams.ts
+ * - src/library/index.ts
  */
 import {
   BuildMode,
@@ -17,14 +27,24 @@ import {
   isStaircaseBuildMode,
 } from "./conversionTypes";
 import { FillerRole } from "./conversionTypes";
+import { BASE_COLORS } from "../data/mapColors";
 import { MAP_SIZE, type ColorData, type ColorGrid, getColorCell, isTransparentColor, isWaterColor } from "./colorGridTypes";
 import { PixelParity, UniformNonFlatDirection, getPixelParity } from "./colorGridAnalysis";
 import { ShapePartType, type ShapeCell, type ShapeColor, type ShapeCoordKey, type ShapePart, parseShapeCoordKey, toShapeCoordKey } from "./shapeTypes";
 
 // Callers:
+// - src/Index.tsx
+// - src/lib/headlessConversion.ts
+// - src/lib/mapRenderSimulation.ts
 // - src/lib/nbtExport.ts
 // - src/lib/shapeAnalysis.ts
 // - src/lib/shapeSubstitution.ts
+// - src/lib/shapeWorker.ts
+// - src/lib/shapeWorkerClient.ts
+// - src/lib/shapeWorkerProtocol.ts
+// - src/lib/structureReader.ts
+// - src/lib/wallSeams.ts
+// - src/library/index.ts
 export interface GeneratedShape {
   parts: ShapePart[];
   partType: ShapePartType;
@@ -51,6 +71,12 @@ interface RawShapePart {
   fillerCandidates: FillerCandidate[];
   bounds: ShapeBounds;
 }
+interface ShapeGenerationOptions {
+  layerGap: number;
+  mixSteps?: boolean;
+  paletteSeed?: number;
+  waterFillerOffset?: boolean;
+}
 interface ShapeGenerationStats {
   hasWater: boolean;
   hasTransparency: boolean;
@@ -2028,10 +2054,12 @@ function getGeneratedShape(
 }
 
 // Callers:
-// - src/Index.tsx
+// - src/lib/headlessConversion.ts
+// - src/lib/shapeWorker.ts
+// - src/lib/shapeWorkerProtocol.ts
 export function generateShapeMap(
   colorGrid: ColorGrid,
-  options: { layerGap: number; mixSteps?: boolean; paletteSeed?: number; waterFillerOffset?: boolean },
+  options: ShapeGenerationOptions,
   modeStats?: ShapeGenerationStats,
 ): Partial<Record<BuildMode, GeneratedShape>> {
   const mixSteps = options.mixSteps ?? false;
@@ -2067,3 +2095,43 @@ export function generateShapeMap(
 
   return shapes;
 }
+
+// Builds one mode directly, bypassing the duplicate-shape filtering of generateShapeMap(). Map walls use this so
+// every tile has a shape for the chosen mode even when that mode collapses into another one on some tiles.
+//
+// Callers:
+// - src/lib/headlessConversion.ts
+// - src/lib/shapeWorker.ts
+export function generateShapeForMode(
+  colorGrid: ColorGrid,
+  buildMode: BuildMode,
+  options: ShapeGenerationOptions,
+): GeneratedShape {
+  return getGeneratedShape(
+    colorGrid,
+    getCanonicalBuildMode(buildMode),
+    options.layerGap,
+    options.mixSteps ?? false,
+    options.paletteSeed ?? 0,
+    options.waterFillerOffset ?? false,
+  ).shape;
+}
+
+function hashString32(input: string): number {
+  let h = 2166136261 >>> 0;
+  for (let i = 0; i < input.length; ++i) {
+    h ^= input.charCodeAt(i);
+    h = Math.imul(h, 16777619) >>> 0;
+  }
+  return h >>> 0;
+}
+
+// Party staircases shuffle per palette, so the same image keeps its layout until the block mapping changes.
+//
+// Callers:
+// - src/Index.tsx
+// - src/lib/headlessConversion.ts
+export function getPaletteSeedOffset(blockMapping: Record<number, string>): number {
+  const serialized = Array.from({ length: BASE_COLORS.length - 1 }, (_, i) => `${i + 1}:${blockMapping[i + 1] ?? ""}`).join("|");
+  return hashString32(serialized);
+}
@@ -5,6 +5,7 @@
  * - materializeShapeParts()
  *
  * Callers:
+ * - src/lib/mapRenderSimulation.ts
  * - src/lib/nbtExport.ts
  */
 import { MAP_SIZE } from "./colorGridTypes";
@@ -17,6 +18,7 @@ import { isShapeColorCell, isShapeFillerCell, parseShapeCoordKey, type ShapePart
 import { isWithinShapeBounds, shouldIncludeFragileSupportCell } from "./shapeCellRules";
 
 // Callers:
+// - src/lib/mapRenderSimulation.ts
 // - src/lib/nbtExport.ts
 export interface SubstitutionOptions {
   blockMapping: Record<number, string>;
@@ -92,6 +94,7 @@ export function normalizeAndMeasure(blocks: BlockEntry[], forceZ129 = false): {
 }
 
 // Callers:
+// - src/lib/mapRenderSimulation.ts
 // - src/lib/nbtExport.ts
 export function materializeShapeParts(shape: GeneratedShape, options: SubstitutionOptions): BlockEntry[][] {
   return shape.parts.map(part => materializePart(part, options));
@@ -12,11 +12,15 @@
  *
  * Callers:
  * - src/Index.tsx
+ * - src/lib/mapRenderSimulation.ts
  * - src/lib/materialRules.ts
  * - src/lib/shapeAnalysis.ts
  * - src/lib/shapeCellRules.ts
  * - src/lib/shapeGeneration.ts
  * - src/lib/shapeSubstitution.ts
+ * - src/lib/shapeWorkerProtocol.ts
+ * - src/lib/structureReader.ts
+ * - src/lib/wallSeams.ts
  */
 import { FillerRole } from "./conversionTypes";
 
@@ -29,6 +33,7 @@ export enum ShapePartType {
 }
 
 // Callers:
+// - src/lib/mapRenderSimulation.ts
 // - src/lib/materialRules.ts
 // - src/lib/shapeCellRules.ts
 // - src/lib/shapeGeneration.ts
@@ -39,18 +44,23 @@ export interface ShapeColor {
 
 // Callers:
 // - src/lib/shapeGeneration.ts
+// - src/lib/shapeWorkerProtocol.ts
+// - src/lib/wallSeams.ts
 export type ShapeCell = ShapeColor | FillerRole[];
 
 // Callers:
 // - src/lib/shapeAnalysis.ts
 // - src/lib/shapeCellRules.ts
 // - src/lib/shapeSubstitution.ts
+// - src/lib/structureReader.ts
+// - src/lib/wallSeams.ts
 export function isShapeColorCell(cell: ShapeCell): cell is ShapeColor {
   return !Array.isArray(cell);
 }
 
 // Callers:
 // - src/Index.tsx
+// - src/lib/mapRenderSimulation.ts
 // - src/lib/shapeAnalysis.ts
 // - src/lib/shapeSubstitution.ts
 export function isShapeFillerCell(cell: ShapeCell): cell is FillerRole[] {
@@ -67,8 +77,10 @@ const SHAPE_COORD_Z_SIZE = 512;
 const SHAPE_COORD_Y_SIZE = 8192;
 
 // Callers:
+// - src/lib/mapRenderSimulation.ts
 // - src/lib/shapeCellRules.ts
 // - src/lib/shapeGeneration.ts
+// - src/lib/wallSeams.ts
 export function toShapeCoordKey(x: number, y: number, z: number): ShapeCoordKey {
   return ((x + 1) * SHAPE_COORD_Y_SIZE + (y + SHAPE_COORD_Y_OFFSET)) * SHAPE_COORD_Z_SIZE + (z + SHAPE_COORD_Z_OFFSET);
 }
@@ -79,6 +91,8 @@ export function toShapeCoordKey(x: number, y: number, z: number): ShapeCoordKey
 // - src/lib/shapeCellRules.ts
 // - src/lib/shapeGeneration.ts
 // - src/lib/shapeSubstitution.ts
+// - src/lib/structureReader.ts
+// - src/lib/wallSeams.ts
 export function parseShapeCoordKey(key: ShapeCoordKey): [number, number, number] {
   const z = (key % SHAPE_COORD_Z_SIZE) - SHAPE_COORD_Z_OFFSET;
   const yBlock = Math.floor(key / SHAPE_COORD_Z_SIZE);
@@ -92,6 +106,8 @@ export function parseShapeCoordKey(key: ShapeCoordKey): [number, number, number]
 // - src/lib/shapeCellRules.ts
 // - src/lib/shapeGeneration.ts
 // - src/lib/shapeSubstitution.ts
+// - src/lib/shapeWorkerProtocol.ts
+// - src/lib/wallSeams.ts
 export interface ShapePart {
   cells: Map<ShapeCoordKey, ShapeCell>;
   bounds: {
@@ -0,0 +1,158 @@
+/**
+ * Public API:
+ * - none; started as a module worker by `ShapeWorkerClient`
+ *
+ * Callers:
+ * - src/lib/shapeWorkerClient.ts
+ *
+ * Notes:
+ * - Runs shape generation, material analysis and export off the page thread, along with the palette conversion of
+ *   animation frames and the render check of the download. Decoded tile sets are kept so the
+ *   shape generator's per-grid caches survive between requests for the same image.
+ * - Long requests yield between tiles and modes so a `cancel` message can stop them; cancelled requests answer
+ *   with `cancelled` instead of a result.
+ */
+import { convertImageToColorGrid } from "./colorGridParsing";
+import { BuildMode, isStaircaseBuildMode } from "./conversionTypes";
+import type { ColorGridTile } from "./colorGridTypes";
+import { findRenderMismatchNotice } from "./mapRenderSimulation";
+import { messages } from "./messages";
+import { convertFramesToNbt, convertToNbt, convertWallToNbt } from "./nbtExport";
+import { analyzeMaterialNeeds, combineMaterialNeeds } from "./shapeAnalysis";
+import { type GeneratedShape, generateShapeForMode, generateShapeMap } from "./shapeGeneration";
+import {
+  type EncodedTile,
+  type ShapeWorkerRequest,
+  type ShapeWorkerResponse,
+  decodeShape,
+  decodeTiles,
+  encodeShape,
+  getTransferables,
+} from "./shapeWorkerProtocol";
+import { alignWallSeams } from "./wallSeams";
+
+// Must match the client, which resends a tile set once it would have been dropped here.
+const MAX_TILE_SETS = 4;
+
+const tileSets = new Map<number, ColorGridTile[]>();
+const inFlight = new Set<number>();
+const cancelled = new Set<number>();
+
+class RequestCancelled {}
+
+function storeTiles(tilesKey: number, tiles: EncodedTile[] | undefined): ColorGridTile[] {
+  if (tiles) {
+    tileSets.set(tilesKey, decodeTiles(tiles));
+    if (tileSets.size > MAX_TILE_SETS) tileSets.delete(tileSets.keys().next().value!);
+  }
+  const stored = tileSets.get(tilesKey);
+  if (!stored) throw new Error(`Unknown tile set ${tilesKey}`);
+  return stored;
+}
+
+// Lets queued messages (cancellations above all) run, then stops if this request was cancelled meanwhile.
+async function checkpoint(id: number) {
+  await new Promise(resolve => setTimeout(resolve, 0));
+  if (cancelled.has(id)) throw new RequestCancelled();
+}
+
+// A wall offers every mode that is distinct on at least one tile. Tiles where that mode collapses into another
+// one still get their own shape for it.
+async function handleShapes(request: Extract<ShapeWorkerRequest, { type: "shapes" }>): Promise<ShapeWorkerResponse> {
+  const tiles = storeTiles(request.tilesKey, request.tiles);
+  const tileShapeMaps: Partial<Record<BuildMode, GeneratedShape>>[] = [];
+  for (const tile of tiles) {
+    await checkpoint(request.id);
+    tileShapeMaps.push(generateShapeMap(tile.colorGrid, request.options, request.modeStats));
+  }
+  const modes = [...new Set(tileShapeMaps.flatMap(shapeMap => Object.keys(shapeMap) as BuildMode[]))];
+  const tileShapes: Partial<Record<BuildMode, ReturnType<typeof encodeShape>[]>> = {};
+  for (const mode of modes) {
+    await checkpoint(request.id);
+    tileShapes[mode] = tiles.map((tile, i) =>
+      encodeShape(tileShapeMaps[i][mode] ?? generateShapeForMode(tile.colorGrid, mode, request.options)),
+    );
+  }
+  return { type: "shapes", id: request.id, modes, tileShapes };
+}
+
+async function handleAnalyze(request: Extract<ShapeWorkerRequest, { type: "analyze" }>): Promise<ShapeWorkerResponse> {
+  const tiles = storeTiles(request.tilesKey, request.tiles);
+  const shapes = request.shapes.map(decodeShape);
+  const stats = [];
+  for (const options of request.optionSets) {
+    await checkpoint(request.id);
+    stats.push(combineMaterialNeeds(tiles.map((tile, i) => analyzeMaterialNeeds(tile.colorGrid, shapes[i], options))));
+  }
+  return { type: "analyze", id: request.id, stats };
+}
+
+// Later animation frames are converted like the first and shaped in `mode`, or in northline when the first frame
+// is flat, which is flat wherever a frame allows it; walls are seam-aligned like the preview.
+async function handleExport(request: Extract<ShapeWorkerRequest, { type: "export" }>): Promise<ShapeWorkerResponse> {
+  const { customColors, convertUnsupported, options: conversionOptions } = request.frameConversion;
+  const shapeMode = request.mode === BuildMode.Flat ? BuildMode.StaircaseNorthline : request.mode;
+  const tiles = decodeTiles(request.tiles);
+  const shapes = request.shapes.map(decodeShape);
+  const frames = [tiles.map((tile, i) => ({ ...tile, shape: shapes[i] }))];
+  for (const [i, image] of request.frames.entries()) {
+    await checkpoint(request.id);
+    const analysis = convertImageToColorGrid(image, customColors, convertUnsupported, conversionOptions);
+    if (analysis.hasBlockingIssue) {
+      const notices = analysis.paletteNotices.map(messages.parsing.noticeText);
+      throw new Error([messages.parsing.frameRejected(i + 2), ...notices].join(" "));
+    }
+    let frameShapes = analysis.tiles.map(tile => generateShapeForMode(tile.colorGrid, shapeMode, request.shapeOptions));
+    if (analysis.tiles.length > 1 && isStaircaseBuildMode(shapeMode)) frameShapes = alignWallSeams(analysis.tiles, frameShapes);
+    frames.push(analysis.tiles.map((tile, j) => ({ ...tile, shape: frameShapes[j] })));
+  }
+  await checkpoint(request.id);
+  const mismatch = isStaircaseBuildMode(request.mode) ? findRenderMismatchNotice(tiles, shapes, request.options) : null;
+  const result = frames.length > 1
+    ? await convertFramesToNbt(frames, request.options)
+    : frames[0].length > 1
+    ? await convertWallToNbt(frames[0], request.options)
+    : await convertToNbt(frames[0][0].shape, request.options, frames[0][0].colorGrid);
+  return {
+    type: "export",
+    id: request.id,
+    result: { ...result, paletteNotices: [...(mismatch ? [mismatch] : []), ...result.paletteNotices] },
+  };
+}
+
+async function handle(request: Exclude<ShapeWorkerRequest, { type: "cancel" }>): Promise<ShapeWorkerResponse> {
+  switch (request.type) {
+    case "shapes":
+      return handleShapes(request);
+    case "analyze":
+      return handleAnalyze(request);
+    case "export":
+      return handleExport(request);
+  }
+}
+
+self.addEventListener("message", async (event: MessageEvent<ShapeWorkerRequest>) => {
+  const request = event.data;
+  if (request.type === "cancel") {
+    // A request that already answered has nothing left to stop.
+    if (inFlight.has(request.id)) cancelled.add(request.id);
+    return;
+  }
+  inFlight.add(request.id);
+  let response: ShapeWorkerResponse;
+  try {
+    response = await handle(request);
+  } catch (e: unknown) {
+    response = e instanceof RequestCancelled
+      ? { type: "cancelled", id: request.id }
+      : { type: "error", id: request.id, message: (e as Error).message || String(e) };
+  }
+  inFlight.delete(request.id);
+  cancelled.delete(request.id);
+  try {
+    self.postMessage(response, { transfer: getTransferables(response) });
+  } catch (e: unknown) {
+    // Still answer, so the page does not wait for a result that could not be sent.
+    self.postMessage({ type: "error", id: request.id, message: (e as Error).message || String(e) } satisfies ShapeWorkerResponse);
+  }
+});
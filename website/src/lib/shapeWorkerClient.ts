@@ -0,0 +1,184 @@
+/**
+ * Public API:
+ * - ShapeSet
+ * - ShapeWorkerClient
+ *
+ * Callers:
+ * - src/Index.tsx
+ *
+ * Notes:
+ * - Page side of the shape worker. Each kind of request (shapes, analysis, export) keeps only its newest call:
+ *   starting another one cancels the previous request in the worker and resolves its promise with null.
+ * - Tile sets are sent once and then referenced by key; a set is sent again after the worker would have dropped it.
+ * - A worker that fails to load or throws outside a request fails every open request and is replaced by a fresh
+ *   one for the next call.
+ */
+import type { BuildMode } from "./conversionTypes";
+import type { ColorGridTile } from "./colorGridTypes";
+import type { ExportResult } from "./nbtExport";
+import { messages } from "./messages";
+import type { GeneratedShape } from "./shapeGeneration";
+import {
+  type EncodedShape,
+  type ShapeWorkerRequest,
+  type ShapeWorkerResponse,
+  decodeShape,
+  encodeShape,
+  encodeTiles,
+  getTransferables,
+} from "./shapeWorkerProtocol";
+
+type ShapesRequest = Extract<ShapeWorkerRequest, { type: "shapes" }>;
+type AnalyzeRequest = Extract<ShapeWorkerRequest, { type: "analyze" }>;
+type ExportRequest = Extract<ShapeWorkerRequest, { type: "export" }>;
+type MaterialNeedStats = Extract<ShapeWorkerResponse, { type: "analyze" }>["stats"][number];
+
+// Shapes of every offered mode for each tile. Modes are listed in the order generateShapeMap() offers them;
+// shapes are decoded the first time a mode is asked for.
+//
+// Callers:
+// - src/Index.tsx
+// - src/lib/shapeWorkerClient.ts
+export interface ShapeSet {
+  modes: BuildMode[];
+  getTileShapes(mode: BuildMode): GeneratedShape[] | null;
+}
+
+// Must match the worker's limit.
+const MAX_TILE_SETS = 4;
+
+function createShapeSet(modes: BuildMode[], tileShapes: Partial<Record<BuildMode, EncodedShape[]>>): ShapeSet {
+  const decoded = new Map<BuildMode, GeneratedShape[]>();
+  return {
+    modes,
+    getTileShapes(mode) {
+      const encoded = tileShapes[mode];
+      if (!encoded) return null;
+      let shapes = decoded.get(mode);
+      if (!shapes) decoded.set(mode, shapes = encoded.map(decodeShape));
+      return shapes;
+    },
+  };
+}
+
+// Callers:
+// - src/Index.tsx
+export class ShapeWorkerClient {
+  private nextId = 1;
+  private pending = new Map<number, { resolve: (response: ShapeWorkerResponse | null) => void; reject: (error: Error) => void }>();
+  private latest = new Map<ShapeWorkerRequest["type"], number>();
+  private tileKeys = new WeakMap<ColorGridTile[], number>();
+  private sentTileSets: number[] = [];
+  private worker: Worker | null = null;
+
+  private getWorker(): Worker {
+    if (this.worker) return this.worker;
+    const worker = new Worker(new URL("./shapeWorker.ts", import.meta.url), { type: "module" });
+    worker.addEventListener("message", (event: MessageEvent<ShapeWorkerResponse>) => {
+      const response = event.data;
+      const pending = this.pending.get(response.id);
+      if (!pending) return;
+      this.pending.delete(response.id);
+      if (response.type === "error") pending.reject(new Error(response.message));
+      else pending.resolve(response.type === "cancelled" ? null : response);
+    });
+    worker.addEventListener("error", event => {
+      event.preventDefault();
+      this.rejectPending(event.message || messages.parsing.workerFailed);
+      worker.terminate();
+      if (this.worker === worker) this.worker = null;
+      this.sentTileSets = [];
+    });
+    // The response could not be read, and with it which request it answered.
+    worker.addEventListener("messageerror", () => this.rejectPending(messages.parsing.workerFailed));
+    return this.worker = worker;
+  }
+
+  private rejectPending(message: string) {
+    for (const pending of this.pending.values()) pending.reject(new Error(message));
+    this.pending.clear();
+  }
+
+  private getTiles(tiles: ColorGridTile[]): Pick<ShapesRequest, "tilesKey" | "tiles"> {
+    let tilesKey = this.tileKeys.get(tiles);
+    if (tilesKey === undefined) this.tileKeys.set(tiles, tilesKey = this.nextId++);
+    if (this.sentTileSets.includes(tilesKey)) return { tilesKey };
+    this.sentTileSets.push(tilesKey);
+    if (this.sentTileSets.length > MAX_TILE_SETS) this.sentTileSets.shift();
+    return { tilesKey, tiles: encodeTiles(tiles) };
+  }
+
+  // Posts a request after cancelling the previous one of the same type.
+  private send<T extends ShapeWorkerResponse["type"]>(
+    request: Exclude<ShapeWorkerRequest, { type: "cancel" }>,
+  ): Promise<Extract<ShapeWorkerResponse, { type: T }> | null> {
+    const previous = this.latest.get(request.type);
+    if (previous !== undefined && this.pending.has(previous)) {
+      this.getWorker().postMessage({ type: "cancel", id: previous } satisfies ShapeWorkerRequest);
+      this.pending.get(previous)!.resolve(null);
+      this.pending.delete(previous);
+    }
+    this.latest.set(request.type, request.id);
+    return new Promise((resolve, reject) => {
+      this.pending.set(request.id, { resolve: resolve as (response: ShapeWorkerResponse | null) => void, reject });
+      this.getWorker().postMessage(request, { transfer: getTransferables(request) });
+    });
+  }
+
+  async generateShapes(
+    tiles: ColorGridTile[],
+    options: ShapesRequest["options"],
+    modeStats?: ShapesRequest["modeStats"],
+  ): Promise<ShapeSet | null> {
+    const response = await this.send<"shapes">({ type: "shapes", id: this.nextId++, ...this.getTiles(tiles), options, modeStats });
+    return response && createShapeSet(response.modes, response.tileShapes);
+  }
+
+  // One combined result per option set, summed over the tiles.
+  async analyze(
+    tiles: ColorGridTile[],
+    shapes: GeneratedShape[],
+    optionSets: AnalyzeRequest["optionSets"],
+  ): Promise<MaterialNeedStats[] | null> {
+    const response = await this.send<"analyze">({
+      type: "analyze",
+      id: this.nextId++,
+      ...this.getTiles(tiles),
+      shapes: shapes.map(encodeShape),
+      optionSets,
+    });
+    return response && response.stats;
+  }
+
+  // Several tiles export a wall. `frames` are the images of an animation's later frames, converted in the worker
+  // with `frameConversion`; `mode` is the mode the shapes were built in, Flat for flat maps.
+  async export(
+    tiles: ColorGridTile[],
+    shapes: GeneratedShape[],
+    frames: ImageData[],
+    frameConversion: ExportRequest["frameConversion"],
+    mode: BuildMode,
+    shapeOptions: ExportRequest["shapeOptions"],
+    options: ExportRequest["options"],
+  ): Promise<ExportResult | null> {
+    const response = await this.send<"export">({
+      type: "export",
+      id: this.nextId++,
+      tiles: encodeTiles(tiles),
+      shapes: shapes.map(encodeShape),
+      frames,
+      frameConversion,
+      mode,
+      shapeOptions,
+      options,
+    });
+    return response && response.result;
+  }
+
+  terminate() {
+    this.worker?.terminate();
+    this.worker = null;
+    for (const pending of this.pending.values()) pending.resolve(null);
+    this.pending.clear();
+  }
+}
@@ -0,0 +1,224 @@
+/**
+ * Public API:
+ * - EncodedTile
+ * - EncodedShape
+ * - ShapeWorkerRequest
+ * - ShapeWorkerResponse
+ * - encodeTiles()
+ * - decodeTiles()
+ * - encodeShape()
+ * - decodeShape()
+ * - getTransferables()
+ *
+ * Callers:
+ * - src/lib/shapeWorker.ts
+ * - src/lib/shapeWorkerClient.ts
+ *
+ * Notes:
+ * - Messages between the page and the shape worker. Color grids and shape cells travel as typed arrays whose
+ *   buffers are transferred, so neither side pays for cloning thousands of small objects.
+ * - A color cell packs into 16 bits: custom flag, palette id and shade. A shape cell packs into 32 bits: either a
+ *   color (custom flag and id) or, with the top bit set, an index into the shape's list of filler role sets.
+ */
+import type { convertImageToColorGrid } from "./colorGridParsing";
+import { BuildMode, FillerRole } from "./conversionTypes";
+import { type ColorData, type ColorGrid, type ColorGridTile, MAP_SIZE, TRANSPARENT_COLOR } from "./colorGridTypes";
+import type { ExportResult, convertToNbt } from "./nbtExport";
+import type { analyzeMaterialNeeds } from "./shapeAnalysis";
+import type { GeneratedShape, generateShapeMap } from "./shapeGeneration";
+import type { ShapeCell, ShapePart } from "./shapeTypes";
+
+type ShapeGenerationOptions = Parameters<typeof generateShapeMap>[1];
+type ShapeGenerationStats = NonNullable<Parameters<typeof generateShapeMap>[2]>;
+type MaterialAnalysisOptions = Parameters<typeof analyzeMaterialNeeds>[2];
+type MaterialNeedStats = ReturnType<typeof analyzeMaterialNeeds>;
+type ExportOptions = Parameters<typeof convertToNbt>[1];
+type FrameConversion = {
+  customColors: Parameters<typeof convertImageToColorGrid>[1];
+  convertUnsupported: boolean;
+  options: NonNullable<Parameters<typeof convertImageToColorGrid>[3]>;
+};
+
+// Callers:
+// - src/lib/shapeWorker.ts
+// - src/lib/shapeWorkerClient.ts
+export interface EncodedTile {
+  row: number;
+  col: number;
+  colors: Uint16Array;
+}
+
+// Callers:
+// - src/lib/shapeWorker.ts
+// - src/lib/shapeWorkerClient.ts
+export interface EncodedShape {
+  partType: GeneratedShape["partType"];
+  splitExportNames: GeneratedShape["splitExportNames"];
+  fillerRoleSets: FillerRole[][];
+  parts: { keys: Uint32Array; cells: Uint32Array; bounds: ShapePart["bounds"] }[];
+}
+
+// Tile sets are sent once under `tilesKey` and reused by later requests until the worker drops them.
+// `shapes` asks for every offered mode of every tile; `analyze` runs one material analysis per option set;
+// `export` builds the download from the shown tiles and shapes; the later frames of an animation are sent as images
+// and converted with `frameConversion`.
+//
+// Callers:
+// - src/lib/shapeWorker.ts
+// - src/lib/shapeWorkerClient.ts
+export type ShapeWorkerRequest =
+  | {
+      type: "shapes";
+      id: number;
+      tilesKey: number;
+      tiles?: EncodedTile[];
+      options: ShapeGenerationOptions;
+      modeStats?: ShapeGenerationStats;
+    }
+  | {
+      type: "analyze";
+      id: number;
+      tilesKey: number;
+      tiles?: EncodedTile[];
+      shapes: EncodedShape[];
+      optionSets: MaterialAnalysisOptions[];
+    }
+  | {
+      type: "export";
+      id: number;
+      tiles: EncodedTile[];
+      shapes: EncodedShape[];
+      frames: ImageData[];
+      frameConversion: FrameConversion;
+      mode: BuildMode;
+      shapeOptions: ShapeGenerationOptions;
+      options: ExportOptions;
+    }
+  | { type: "cancel"; id: number };
+
+// Callers:
+// - src/lib/shapeWorker.ts
+// - src/lib/shapeWorkerClient.ts
+export type ShapeWorkerResponse =
+  | { type: "shapes"; id: number; modes: BuildMode[]; tileShapes: Partial<Record<BuildMode, EncodedShape[]>> }
+  | { type: "analyze"; id: number; stats: MaterialNeedStats[] }
+  | { type: "export"; id: number; result: ExportResult }
+  | { type: "cancelled"; id: number }
+  | { type: "error"; id: number; message: string };
+
+const CUSTOM_COLOR_FLAG = 0x8000;
+const FILLER_CELL_FLAG = 0x80000000;
+
+function encodeColorGrid(grid: ColorGrid): Uint16Array {
+  const colors = new Uint16Array(MAP_SIZE * MAP_SIZE);
+  for (let x = 0; x < MAP_SIZE; ++x) {
+    for (let z = 0; z < MAP_SIZE; ++z) {
+      const cell = grid[x]?.[z];
+      if (cell) colors[x * MAP_SIZE + z] = (cell.isCustom ? CUSTOM_COLOR_FLAG : 0) | (cell.id << 2) | cell.shade;
+    }
+  }
+  return colors;
+}
+
+// Equal cells share one object, as grids built by the parser do.
+function decodeColorGrid(colors: Uint16Array): ColorGrid {
+  const cells = new Map<number, ColorData>([[0, TRANSPARENT_COLOR]]);
+  const grid: ColorGrid = [];
+  for (let x = 0; x < MAP_SIZE; ++x) {
+    const column: ColorData[] = [];
+    for (let z = 0; z < MAP_SIZE; ++z) {
+      const code = colors[x * MAP_SIZE + z];
+      let cell = cells.get(code);
+      if (!cell) {
+        cell = { isCustom: (code & CUSTOM_COLOR_FLAG) !== 0, id: (code & ~CUSTOM_COLOR_FLAG) >> 2, shade: (code & 3) as ColorData["shade"] };
+        cells.set(code, cell);
+      }
+      column.push(cell);
+    }
+    grid.push(column);
+  }
+  return grid;
+}
+
+// Callers:
+// - src/lib/shapeWorkerClient.ts
+export function encodeTiles(tiles: ColorGridTile[]): EncodedTile[] {
+  return tiles.map(tile => ({ row: tile.row, col: tile.col, colors: encodeColorGrid(tile.colorGrid) }));
+}
+
+// Callers:
+// - src/lib/shapeWorker.ts
+export function decodeTiles(tiles: EncodedTile[]): ColorGridTile[] {
+  return tiles.map(tile => ({ row: tile.row, col: tile.col, colorGrid: decodeColorGrid(tile.colors) }));
+}
+
+// Callers:
+// - src/lib/shapeWorker.ts
+// - src/lib/shapeWorkerClient.ts
+export function encodeShape(shape: GeneratedShape): EncodedShape {
+  const fillerRoleSets: FillerRole[][] = [];
+  const roleSetIndex = new Map<string, number>();
+  const encodeCell = (cell: ShapeCell) => {
+    if (!Array.isArray(cell)) return (cell.id << 1) | (cell.isCustom ? 1 : 0);
+    const key = cell.join(",");
+    let index = roleSetIndex.get(key);
+    if (index === undefined) {
+      roleSetIndex.set(key, index = fillerRoleSets.length);
+      fillerRoleSets.push([...cell]);
+    }
+    return (FILLER_CELL_FLAG | index) >>> 0;
+  };
+  const parts = shape.parts.map(part => {
+    const keys = new Uint32Array(part.cells.size);
+    const cells = new Uint32Array(part.cells.size);
+    let i = 0;
+    for (const [key, cell] of part.cells) {
+      keys[i] = key;
+      cells[i++] = encodeCell(cell);
+    }
+    return { keys, cells, bounds: { ...part.bounds } };
+  });
+  return { partType: shape.partType, splitExportNames: shape.splitExportNames, fillerRoleSets, parts };
+}
+
+// Every cell gets its own object so decoded shapes can be edited like generated ones.
+//
+// Callers:
+// - src/lib/shapeWorker.ts
+// - src/lib/shapeWorkerClient.ts
+export function decodeShape(encoded: EncodedShape): GeneratedShape {
+  const parts = encoded.parts.map(part => {
+    const cells = new Map<number, ShapeCell>();
+    for (let i = 0; i < part.keys.length; ++i) {
+      const code = part.cells[i];
+      cells.set(part.keys[i], code & FILLER_CELL_FLAG
+        ? [...encoded.fillerRoleSets[code & ~FILLER_CELL_FLAG]]
+        : { id: code >>> 1, isCustom: (code & 1) === 1 });
+    }
+    return { cells, bounds: { ...part.bounds } };
+  });
+  return { parts, partType: encoded.partType, splitExportNames: encoded.splitExportNames };
+}
+
+// Images are copied rather than moved, since the page keeps showing and exporting them.
+function addBuffers(value: unknown, buffers: Set<ArrayBuffer>) {
+  if (typeof ImageData !== "undefined" && value instanceof ImageData) return;
+  if (ArrayBuffer.isView(value)) {
+    if (value.buffer instanceof ArrayBuffer) buffers.add(value.buffer);
+  } else if (Array.isArray(value)) {
+    for (const item of value) addBuffers(item, buffers);
+  } else if (value && typeof value === "object" && !(value instanceof Map) && !(value instanceof Set)) {
+    for (const item of Object.values(value)) addBuffers(item, buffers);
+  }
+}
+
+// Buffers of every typed array in a message, for `postMessage(message, { transfer })`.
+//
+// Callers:
+// - src/lib/shapeWorker.ts
+// - src/lib/shapeWorkerClient.ts
+export function getTransferables(message: ShapeWorkerRequest | ShapeWorkerResponse): ArrayBuffer[] {
+  const buffers = new Set<ArrayBuffer>();
+  addBuffers(message, buffers);
+  return [...buffers];
+}
@@ -0,0 +1,173 @@
+/**
+ * Public API:
+ * - StructureImport
+ * - isStructureFile()
+ * - loadStructureFromFile()
+ * - matchStructureBuildMode()
+ *
+ * Callers:
+ * - src/Index.tsx
+ *
+ * Notes:
+ * - Reads vanilla structure `.nbt` files, including the ones written by `writeStructureNbt()`, and rebuilds the
+ *   map each 128×128 block area would draw with `simulateMapRender()`. The color grid comes straight from the
+ *   blocks, so the preset can be swapped afterwards without changing the image.
+ * - A Z size of 128n + 1 means the file starts with the z = -1 north row exported by forceZ129.
+ * - Blocks the palette does not know still occupy height but leave their pixel transparent; they are reported.
+ */
+import { stripBlockNamespace } from "./blockId";
+import { type ColorGridAnalysis, renderColorGridTiles } from "./colorGridParsing";
+import { type ColorGridTile, MAP_SIZE, isTransparentColor } from "./colorGridTypes";
+import { BuildMode, type CustomColor } from "./conversionTypes";
+import { simulateMapRender } from "./mapRenderSimulation";
+import { messages, type PaletteNotice } from "./messages";
+import { type NbtCompound, type NbtValue, gunzipIfNeeded, isNbtCompound, readNbt } from "./nbtReader";
+import type { BlockEntry } from "./nbtWriter";
+import type { GeneratedShape } from "./shapeGeneration";
+import { isShapeColorCell, parseShapeCoordKey } from "./shapeTypes";
+
+// `heights[i][x][z]` is the Y of the block that colors each pixel of tiles[i], or null where nothing shows.
+//
+// Callers:
+// - src/Index.tsx
+export interface StructureImport extends ColorGridAnalysis {
+  heights: (number | null)[][][];
+}
+
+interface StructureColorOptions {
+  blockMapping: Record<number, string>;
+  customColors: CustomColor[];
+}
+
+const MAX_STRUCTURE_MAPS = 16;
+const EMPTY_BLOCKS = new Set(["air", "cave_air", "void_air", "structure_void"]);
+
+function toIntList(value: NbtValue | undefined): number[] | null {
+  if (value instanceof Int32Array) return [...value];
+  if (Array.isArray(value) && value.every(item => typeof item === "number")) return value as number[];
+  return null;
+}
+
+function toBlockName(entry: NbtValue): string {
+  if (!isNbtCompound(entry) || typeof entry.Name !== "string") throw new Error(messages.parsing.structureInvalid);
+  const props = isNbtCompound(entry.Properties) ? Object.entries(entry.Properties) : [];
+  return props.length > 0 ? `${entry.Name}[${props.map(([key, value]) => `${key}=${value}`).join(",")}]` : entry.Name;
+}
+
+// Resolves palette indices to block states. Files with several palettes (`palettes`) use the first one.
+function readStructureBlocks(root: NbtCompound): { size: number[]; blocks: BlockEntry[] } {
+  const size = toIntList(root.size);
+  const palette = Array.isArray(root.palette)
+    ? root.palette
+    : Array.isArray(root.palettes) && Array.isArray(root.palettes[0]) ? root.palettes[0] : null;
+  if (!size || size.length !== 3 || !palette || !Array.isArray(root.blocks)) {
+    throw new Error(messages.parsing.structureInvalid);
+  }
+  const names = palette.map(toBlockName);
+  const blocks: BlockEntry[] = [];
+  for (const block of root.blocks) {
+    if (!isNbtCompound(block)) continue;
+    const pos = toIntList(block.pos);
+    const name = typeof block.state === "number" ? names[block.state] : undefined;
+    if (!pos || pos.length !== 3 || !name) continue;
+    if (EMPTY_BLOCKS.has(stripBlockNamespace(name).split("[")[0])) continue;
+    blocks.push({ x: pos[0], y: pos[1], z: pos[2], blockName: name });
+  }
+  return { size, blocks };
+}
+
+// Callers:
+// - src/Index.tsx
+export function isStructureFile(file: File): boolean {
+  return file.name.toLowerCase().endsWith(".nbt");
+}
+
+// Callers:
+// - src/Index.tsx
+export async function loadStructureFromFile(file: File, options: StructureColorOptions): Promise<StructureImport> {
+  const { size, blocks } = readStructureBlocks(readNbt(await gunzipIfNeeded(new Uint8Array(await file.arrayBuffer()))));
+  const northRow = size[2] % MAP_SIZE === 1 ? 1 : 0;
+  const cols = Math.max(1, Math.floor(size[0] / MAP_SIZE));
+  const rows = Math.max(1, Math.floor((size[2] - northRow) / MAP_SIZE));
+  if (cols > MAX_STRUCTURE_MAPS || rows > MAX_STRUCTURE_MAPS) throw new Error(messages.parsing.structureTooLarge);
+
+  // Each tile also receives the last row of the tile to its north as its z = -1 row.
+  const tileBlocks: BlockEntry[][] = Array.from({ length: rows * cols }, () => []);
+  for (const block of blocks) {
+    const col = Math.floor(block.x / MAP_SIZE);
+    if (col < 0 || col >= cols) continue;
+    const z = block.z - northRow;
+    for (const row of new Set([Math.floor(z / MAP_SIZE), Math.floor((z + 1) / MAP_SIZE)])) {
+      if (row < 0 || row >= rows) continue;
+      tileBlocks[row * cols + col].push({ ...block, x: block.x - col * MAP_SIZE, z: z - row * MAP_SIZE });
+    }
+  }
+
+  const tiles: ColorGridTile[] = [];
+  const heights: (number | null)[][][] = [];
+  const unresolved = new Set<string>();
+  for (const [i, tileEntries] of tileBlocks.entries()) {
+    const render = simulateMapRender(tileEntries, options);
+    tiles.push({ row: Math.floor(i / cols), col: i % cols, colorGrid: render.rendered });
+    heights.push(render.heights);
+    for (const block of render.unresolvedBlocks) unresolved.add(block);
+  }
+
+  const isEmpty = tiles.every(tile => tile.colorGrid.every(column => column.every(isTransparentColor)));
+  const paletteNotices: PaletteNotice[] = [];
+  if (isEmpty) paletteNotices.push(messages.parsing.errorNotice(messages.parsing.structureEmpty));
+  if (unresolved.size > 0) paletteNotices.push(messages.parsing.unresolvedStructureBlocksNotice([...unresolved].sort()));
+  return {
+    imageData: renderColorGridTiles(tiles, options.customColors),
+    tiles,
+    heights,
+    paletteNotices,
+    hasBlockingIssue: isEmpty,
+  };
+}
+
+function getColorHeights(shape: GeneratedShape): (number | null)[][] {
+  const heights: (number | null)[][] = Array.from({ length: MAP_SIZE }, () => Array<number | null>(MAP_SIZE).fill(null));
+  for (const [key, cell] of shape.parts[0].cells) {
+    if (!isShapeColorCell(cell)) continue;
+    const [x, y, z] = parseShapeCoordKey(key);
+    if (z < 0 || z >= MAP_SIZE) continue;
+    const current = heights[x][z];
+    if (current === null || y > current) heights[x][z] = y;
+  }
+  return heights;
+}
+
+// Finds the single-pass mode whose generated heights match the imported ones up to a constant offset. Suppress
+// modes are built in phases and are never matched; null means no offered mode reproduces the structure.
+//
+// Callers:
+// - src/Index.tsx
+export function matchStructureBuildMode(
+  heights: (number | null)[][],
+  shapes: Partial<Record<BuildMode, GeneratedShape>>,
+): BuildMode | null {
+  const visible = heights.flat().filter((y): y is number => y !== null);
+  if (visible.length > 0 && visible.every(y => y === visible[0])) return BuildMode.Flat;
+  for (const [mode, shape] of Object.entries(shapes) as [BuildMode, GeneratedShape][]) {
+    if (shape.parts.length !== 1) continue;
+    const generated = getColorHeights(shape);
+    let offset: number | null = null;
+    let matches = true;
+    for (let x = 0; x < MAP_SIZE && matches; ++x) {
+      for (let z = 0; z < MAP_SIZE; ++z) {
+        // Pixels only one side colors (void-shadow fillers, unknown blocks) say nothing about the staircase.
+        const imported = heights[x][z];
+        const expected = generated[x][z];
+        if (imported === null || expected === null) continue;
+        if (offset !== null && imported - expected !== offset) {
+          matches = false;
+          break;
+        }
+        offset = imported - expected;
+      }
+    }
+    if (matches && offset !== null) return mode;
+  }
+  return null;
+}
@@ -5,15 +5,27 @@
  * - BlockDisplayMode
  *
  * Callers:
+ * - src/cli/png2nbt.ts
+ * - src/cli/png2nbtServer.ts
  * - src/data/i18n/*
  * - src/Index.tsx
+ * - src/lib/fillerRules.ts
+ * - src/lib/headlessConversion.ts
  * - src/lib/messages.ts
+ * - src/lib/projectFile.ts
+ * - src/library/index.ts
  */
 
 // Callers:
+// - src/cli/png2nbt.ts
+// - src/cli/png2nbtServer.ts
 // - src/data/i18n/*
 // - src/Index.tsx
+// - src/lib/fillerRules.ts
+// - src/lib/headlessConversion.ts
 // - src/lib/messages.ts
+// - src/lib/projectFile.ts
+// - src/library/index.ts
 export enum SupportMode {
   None = "none",
   Steps = "steps",
@@ -0,0 +1,90 @@
+/**
+ * Public API:
+ * - alignWallSeams()
+ *
+ * Callers:
+ * - src/Index.tsx
+ * - src/lib/headlessConversion.ts
+ * - src/lib/shapeWorker.ts
+ *
+ * Notes:
+ * - On a wall, the `FillerRole.ShadeNorthRow` row of a southern map lands on the last pixel row of the map north
+ *   of it. Instead of that filler row, each southern column is shifted so its first pixel sits at the right
+ *   height against the real block of the northern map.
+ * - Only single-phase staircase shapes can be shifted per column. Columns whose northern pixel is transparent keep
+ *   their filler, since there is no real block to shade against.
+ */
+import { MAP_SIZE, type ColorGridTile, getColorCell, isTransparentColor, isWaterColor } from "./colorGridTypes";
+import type { GeneratedShape } from "./shapeGeneration";
+import { isShapeColorCell, parseShapeCoordKey, toShapeCoordKey, type ShapeCell, type ShapePart } from "./shapeTypes";
+
+// Height of the first southern pixel relative to the northern block for each shade.
+const SHADE_HEIGHT_DELTA = [-1, 0, 1];
+
+function getTopColorHeights(part: ShapePart, z: number): Map<number, number> {
+  const heights = new Map<number, number>();
+  for (const [coord, cell] of part.cells) {
+    if (!isShapeColorCell(cell)) continue;
+    const [x, y, cellZ] = parseShapeCoordKey(coord);
+    if (cellZ !== z) continue;
+    const current = heights.get(x);
+    if (current === undefined || y > current) heights.set(x, y);
+  }
+  return heights;
+}
+
+function alignPartToNorthPart(part: ShapePart, northPart: ShapePart, tile: ColorGridTile): ShapePart {
+  const northHeights = getTopColorHeights(northPart, MAP_SIZE - 1);
+  const firstRowHeights = getTopColorHeights(part, 0);
+  const columnShifts = new Map<number, number>();
+  for (const [x, y] of firstRowHeights) {
+    const northY = northHeights.get(x);
+    const color = getColorCell(tile.colorGrid, x, 0);
+    if (northY === undefined || isTransparentColor(color) || isWaterColor(color)) continue;
+    columnShifts.set(x, northY + SHADE_HEIGHT_DELTA[color.shade] - y);
+  }
+  if (columnShifts.size === 0) return part;
+
+  const cells = new Map<number, ShapeCell>();
+  let minY = Infinity, maxY = -Infinity, minZ = Infinity, maxZ = -Infinity;
+  for (const [coord, cell] of part.cells) {
+    const [x, y, z] = parseShapeCoordKey(coord);
+    const shift = columnShifts.get(x);
+    // The northern map's last row replaces this column's north row.
+    if (shift !== undefined && z < 0) continue;
+    const shiftedY = y + (shift ?? 0);
+    cells.set(toShapeCoordKey(x, shiftedY, z), cell);
+    // Bounds follow the cells that were inside them before shifting.
+    if (y < part.bounds.minY || y > part.bounds.maxY || z < part.bounds.minZ || z > part.bounds.maxZ) continue;
+    if (shiftedY < minY) minY = shiftedY;
+    if (shiftedY > maxY) maxY = shiftedY;
+    if (z < minZ) minZ = z;
+    if (z > maxZ) maxZ = z;
+  }
+  return {
+    cells,
+    bounds: minY === Infinity ? part.bounds : { minY, maxY, minZ, maxZ },
+  };
+}
+
+// Tiles are aligned from north to south, so every map shades against the already shifted map above it. Returns
+// new shapes; the cached input shapes are left untouched.
+//
+// Callers:
+// - src/Index.tsx
+// - src/lib/headlessConversion.ts
+// - src/lib/shapeWorker.ts
+export function alignWallSeams(tiles: ColorGridTile[], shapes: GeneratedShape[]): GeneratedShape[] {
+  const aligned = [...shapes];
+  const order = tiles.map((_, i) => i).sort((a, b) => tiles[a].row - tiles[b].row);
+  for (const i of order) {
+    const tile = tiles[i];
+    const northIndex = tiles.findIndex(other => other.row === tile.row - 1 && other.col === tile.col);
+    if (northIndex < 0) continue;
+    const shape = aligned[i];
+    const northShape = aligned[northIndex];
+    if (shape.parts.length !== 1 || northShape.parts.length !== 1) continue;
+    aligned[i] = { ...shape, parts: [alignPartToNorthPart(shape.parts[0], northShape.parts[0], tile)] };
+  }
+  return aligned;
+}
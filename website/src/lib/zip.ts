@@ -1,98 +1,245 @@
 /**
  * Public API:
+ * - ZipEntry
  * - createZip()
  *
  * Callers:
  * - src/lib/nbtExport.ts
+ *
+ * Notes:
+ * - Entries are deflated and kept stored when deflate does not make them smaller, which is the case for files
+ *   that are already compressed (gzipped .nbt files, region chunks).
+ * - The archive is assembled from typed-array chunks and joined once at the end.
+ * - Sizes or offsets past 4 GiB and more than 65535 entries switch to ZIP64 records.
  */
+import { deflateRawCompress } from "./nbtWriter";
+
+// Callers:
+// - src/lib/nbtExport.ts
+// - src/lib/zip.ts
+export interface ZipEntry {
+  name: string;
+  data: Uint8Array;
+  // Defaults to the time the archive is created.
+  modified?: Date;
+}
+
+interface CentralRecord {
+  name: Uint8Array;
+  method: number;
+  time: number;
+  date: number;
+  crc: number;
+  compressedSize: number;
+  size: number;
+  offset: number;
+}
+
+const METHOD_STORE = 0;
+const METHOD_DEFLATE = 8;
+// General purpose flag bit 11: names are UTF-8.
+const FLAG_UTF8 = 0x0800;
+const VERSION_DEFAULT = 20;
+const VERSION_ZIP64 = 45;
+const ZIP64_EXTRA_ID = 0x0001;
+const UINT16_MAX = 0xFFFF;
+const UINT32_MAX = 0xFFFFFFFF;
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; ++n) {
+    let c = n;
+    for (let k = 0; k < 8; ++k) c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
 function crc32(data: Uint8Array): number {
   let crc = 0xFFFFFFFF;
-  for (let i = 0; i < data.length; ++i) {
-    crc ^= data[i];
-    for (let j = 0; j < 8; ++j) {
-      crc = (crc >>> 1) ^ (crc & 1 ? 0xEDB88320 : 0);
-    }
-  }
+  for (let i = 0; i < data.length; ++i) crc = CRC_TABLE[(crc ^ data[i]) & 0xFF] ^ (crc >>> 8);
   return (crc ^ 0xFFFFFFFF) >>> 0;
 }
 
-function writeU16LE(arr: number[], v: number) {
-  arr.push(v & 0xFF, (v >> 8) & 0xFF);
+// MS-DOS time and date in local time, with 2-second precision. Dates before 1980 cannot be stored.
+function toDosDateTime(value: Date): { time: number; date: number } {
+  if (value.getFullYear() < 1980) return { time: 0, date: (1 << 5) | 1 };
+  return {
+    time: (value.getHours() << 11) | (value.getMinutes() << 5) | (value.getSeconds() >> 1),
+    date: ((value.getFullYear() - 1980) << 9) | ((value.getMonth() + 1) << 5) | value.getDate(),
+  };
 }
 
-function writeU32LE(arr: number[], v: number) {
-  arr.push(v & 0xFF, (v >> 8) & 0xFF, (v >> 16) & 0xFF, (v >> 24) & 0xFF);
+// Little-endian record with a fixed size.
+class RecordWriter {
+  readonly bytes: Uint8Array;
+  private view: DataView;
+  private offset = 0;
+
+  constructor(size: number) {
+    this.bytes = new Uint8Array(size);
+    this.view = new DataView(this.bytes.buffer);
+  }
+
+  u16(value: number): this {
+    this.view.setUint16(this.offset, value, true);
+    this.offset += 2;
+    return this;
+  }
+
+  u32(value: number): this {
+    this.view.setUint32(this.offset, value, true);
+    this.offset += 4;
+    return this;
+  }
+
+  u64(value: number): this {
+    this.view.setBigUint64(this.offset, BigInt(value), true);
+    this.offset += 8;
+    return this;
+  }
+
+  raw(data: Uint8Array): this {
+    this.bytes.set(data, this.offset);
+    this.offset += data.length;
+    return this;
+  }
 }
 
-interface ZipEntry {
-  name: string;
-  data: Uint8Array;
+// ZIP64 extra field holding the given 64-bit values; empty when none overflowed.
+function zip64Extra(values: number[]): Uint8Array {
+  if (values.length === 0) return new Uint8Array(0);
+  const w = new RecordWriter(4 + values.length * 8).u16(ZIP64_EXTRA_ID).u16(values.length * 8);
+  for (const value of values) w.u64(value);
+  return w.bytes;
 }
 
-// Callers:
-// - src/lib/nbtExport.ts
-export function createZip(entries: ZipEntry[]): Uint8Array {
-  const out: number[] = [];
-  const centralDir: { offset: number; name: Uint8Array; crc: number; size: number }[] = [];
-  const enc = new TextEncoder();
-
-  for (const entry of entries) {
-    const nameBytes = enc.encode(entry.name);
-    const crc = crc32(entry.data);
-    const offset = out.length;
-
-    // Local file header
-    writeU32LE(out, 0x04034B50); // signature
-    writeU16LE(out, 20);         // version needed
-    writeU16LE(out, 0);          // flags
-    writeU16LE(out, 0);          // compression (store)
-    writeU16LE(out, 0);          // mod time
-    writeU16LE(out, 0);          // mod date
-    writeU32LE(out, crc);
-    writeU32LE(out, entry.data.length); // compressed size
-    writeU32LE(out, entry.data.length); // uncompressed size
-    writeU16LE(out, nameBytes.length);
-    writeU16LE(out, 0);          // extra field length
-    for (const b of nameBytes) out.push(b);
-    for (const b of entry.data) out.push(b);
-
-    centralDir.push({ offset, name: nameBytes, crc, size: entry.data.length });
+class ZipWriter {
+  private chunks: Uint8Array[] = [];
+  private records: CentralRecord[] = [];
+  private offset = 0;
+
+  private push(chunk: Uint8Array) {
+    this.chunks.push(chunk);
+    this.offset += chunk.length;
   }
 
-  const cdOffset = out.length;
-
-  for (const cd of centralDir) {
-    writeU32LE(out, 0x02014B50); // central dir signature
-    writeU16LE(out, 20);         // version made by
-    writeU16LE(out, 20);         // version needed
-    writeU16LE(out, 0);          // flags
-    writeU16LE(out, 0);          // compression
-    writeU16LE(out, 0);          // mod time
-    writeU16LE(out, 0);          // mod date
-    writeU32LE(out, cd.crc);
-    writeU32LE(out, cd.size);    // compressed
-    writeU32LE(out, cd.size);    // uncompressed
-    writeU16LE(out, cd.name.length);
-    writeU16LE(out, 0);          // extra
-    writeU16LE(out, 0);          // comment
-    writeU16LE(out, 0);          // disk
-    writeU16LE(out, 0);          // internal attrs
-    writeU32LE(out, 0);          // external attrs
-    writeU32LE(out, cd.offset);
-    for (const b of cd.name) out.push(b);
+  async add(entry: ZipEntry, modified: Date) {
+    const deflated = entry.data.length > 0 ? await deflateRawCompress(entry.data) : entry.data;
+    const method = deflated.length < entry.data.length ? METHOD_DEFLATE : METHOD_STORE;
+    const payload = method === METHOD_DEFLATE ? deflated : entry.data;
+    const record: CentralRecord = {
+      name: new TextEncoder().encode(entry.name),
+      method,
+      ...toDosDateTime(entry.modified ?? modified),
+      crc: crc32(entry.data),
+      compressedSize: payload.length,
+      size: entry.data.length,
+      offset: this.offset,
+    };
+    // The local ZIP64 field, when present, must hold both sizes.
+    const isZip64 = record.size >= UINT32_MAX || record.compressedSize >= UINT32_MAX;
+    const extra = zip64Extra(isZip64 ? [record.size, record.compressedSize] : []);
+    this.push(new RecordWriter(30 + record.name.length + extra.length)
+      .u32(0x04034B50)
+      .u16(isZip64 ? VERSION_ZIP64 : VERSION_DEFAULT)
+      .u16(FLAG_UTF8)
+      .u16(record.method)
+      .u16(record.time)
+      .u16(record.date)
+      .u32(record.crc)
+      .u32(isZip64 ? UINT32_MAX : record.compressedSize)
+      .u32(isZip64 ? UINT32_MAX : record.size)
+      .u16(record.name.length)
+      .u16(extra.length)
+      .raw(record.name)
+      .raw(extra)
+      .bytes);
+    this.push(payload);
+    this.records.push(record);
   }
 
-  const cdSize = out.length - cdOffset;
+  private writeCentralRecord(record: CentralRecord) {
+    const overflow = [record.size, record.compressedSize, record.offset].map(value => value >= UINT32_MAX);
+    const extra = zip64Extra([record.size, record.compressedSize, record.offset].filter((_, i) => overflow[i]));
+    const version = extra.length > 0 ? VERSION_ZIP64 : VERSION_DEFAULT;
+    this.push(new RecordWriter(46 + record.name.length + extra.length)
+      .u32(0x02014B50)
+      .u16(version)           // version made by (MS-DOS)
+      .u16(version)           // version needed
+      .u16(FLAG_UTF8)
+      .u16(record.method)
+      .u16(record.time)
+      .u16(record.date)
+      .u32(record.crc)
+      .u32(overflow[1] ? UINT32_MAX : record.compressedSize)
+      .u32(overflow[0] ? UINT32_MAX : record.size)
+      .u16(record.name.length)
+      .u16(extra.length)
+      .u16(0)                 // comment
+      .u16(0)                 // disk
+      .u16(0)                 // internal attrs
+      .u32(0)                 // external attrs
+      .u32(overflow[2] ? UINT32_MAX : record.offset)
+      .raw(record.name)
+      .raw(extra)
+      .bytes);
+  }
+
+  finish(): Uint8Array {
+    const cdOffset = this.offset;
+    for (const record of this.records) this.writeCentralRecord(record);
+    const cdSize = this.offset - cdOffset;
+    const count = this.records.length;
 
-  // End of central directory
-  writeU32LE(out, 0x06054B50);
-  writeU16LE(out, 0);             // disk number
-  writeU16LE(out, 0);             // cd start disk
-  writeU16LE(out, centralDir.length);
-  writeU16LE(out, centralDir.length);
-  writeU32LE(out, cdSize);
-  writeU32LE(out, cdOffset);
-  writeU16LE(out, 0);             // comment length
+    const isZip64 = count >= UINT16_MAX || cdSize >= UINT32_MAX || cdOffset >= UINT32_MAX;
+    if (isZip64) {
+      const zip64EndOffset = this.offset;
+      this.push(new RecordWriter(56)
+        .u32(0x06064B50)
+        .u64(44)              // size of the rest of this record
+        .u16(VERSION_ZIP64)
+        .u16(VERSION_ZIP64)
+        .u32(0)               // disk number
+        .u32(0)               // cd start disk
+        .u64(count)
+        .u64(count)
+        .u64(cdSize)
+        .u64(cdOffset)
+        .bytes);
+      this.push(new RecordWriter(20)
+        .u32(0x07064B50)
+        .u32(0)               // disk with the ZIP64 end record
+        .u64(zip64EndOffset)
+        .u32(1)               // total disks
+        .bytes);
+    }
+    this.push(new RecordWriter(22)
+      .u32(0x06054B50)
+      .u16(0)                 // disk number
+      .u16(0)                 // cd start disk
+      .u16(Math.min(count, UINT16_MAX))
+      .u16(Math.min(count, UINT16_MAX))
+      .u32(Math.min(cdSize, UINT32_MAX))
+      .u32(Math.min(cdOffset, UINT32_MAX))
+      .u16(0)                 // comment length
+      .bytes);
 
-  return new Uint8Array(out);
+    const out = new Uint8Array(this.offset);
+    let offset = 0;
+    for (const chunk of this.chunks) {
+      out.set(chunk, offset);
+      offset += chunk.length;
+    }
+    return out;
+  }
+}
+
+// Callers:
+// - src/lib/nbtExport.ts
+export async function createZip(entries: ZipEntry[]): Promise<Uint8Array> {
+  const modified = new Date();
+  const writer = new ZipWriter();
+  for (const entry of entries) await writer.add(entry, modified);
+  return writer.finish();
 }
@@ -0,0 +1,325 @@
+/**
+ * Public API:
+ * - LIBRARY_VERSION
+ * - MapArtOptions
+ * - ImageInput
+ * - PixelData
+ * - ConvertedFile
+ * - ColorGridConversion
+ * - ShapeSet
+ * - MaterialList
+ * - ImageAnalysis
+ * - convertImage()
+ * - analyzeImage()
+ * - imageToColorGrid()
+ * - generateShapes()
+ * - analyzeMaterials()
+ * - exportShapes()
+ * - re-exported enums and types the options and results use
+ *
+ * Callers:
+ * - package.json
+ *
+ * Notes:
+ * - The library façade: the converter for other tools, built with `bun run build:lib` into dist-lib. Everything a
+ *   caller may rely on is exported from here; the modules behind it may change in any release.
+ * - Every call takes one MapArtOptions object, the settings the page keeps in its controls. Left-out settings take
+ *   the values a fresh page starts with, so `convertImage({ image })` builds what the page would.
+ * - `convertImage` and `analyzeImage` run the whole pipeline on an image file. The step functions run it in pieces:
+ *   imageToColorGrid → generateShapes → analyzeMaterials / exportShapes.
+ * - LIBRARY_VERSION follows semver together with package.json: removing or changing anything exported here is a
+ *   major release, additions are minor.
+ * - Errors are thrown as Error with a readable message; notices that do not stop a conversion come back as text.
+ */
+import { BUILTIN_PRESET_NAMES, type Preset, canonicalizePreset, getBuiltinPreset } from "@/data/presets";
+import type { ColorGridTile } from "@/lib/colorGridTypes";
+import {
+  BuildMode,
+  type ColorMetric,
+  type CustomColor,
+  type DitherMethod,
+  type ExportFormat,
+  type FillerAssignment,
+  type FillerRole,
+  type MinecraftVersion,
+  type PaletteShadeSet,
+  getBuildModeFileSuffix,
+} from "@/lib/conversionTypes";
+import {
+  type FillerBlocks,
+  type HeadlessConversionSettings,
+  analyzeImageFile,
+  convertImageFile,
+  convertImageFrames,
+  exportShapedFrames,
+  resolveExportOptions,
+  shapeColorGridTiles,
+} from "@/lib/headlessConversion";
+import { createImageData } from "@/lib/imageData";
+import { DEFAULT_IMAGE_FIT, type ImageFitOptions } from "@/lib/imageFitting";
+import { messages, type PaletteNotice } from "@/lib/messages";
+import { analyzeMaterialNeeds, combineMaterialNeeds } from "@/lib/shapeAnalysis";
+import type { GeneratedShape } from "@/lib/shapeGeneration";
+import type { SupportMode } from "@/lib/uiTypes";
+
+export { BUILTIN_PRESET_NAMES, type Preset } from "@/data/presets";
+export type { ColorGrid, ColorGridTile as MapTile } from "@/lib/colorGridTypes";
+export {
+  BuildMode,
+  ColorMetric,
+  type CustomColor,
+  DitherMethod,
+  ExportFormat,
+  type FillerAssignment,
+  FillerRole,
+  ImageFitMode,
+  MinecraftVersion,
+  PaletteShadeSet,
+  ResampleFilter,
+} from "@/lib/conversionTypes";
+export type { FillerBlocks } from "@/lib/headlessConversion";
+export type { ImageFitOptions } from "@/lib/imageFitting";
+export type { GeneratedShape as MapShape } from "@/lib/shapeGeneration";
+export { SupportMode } from "@/lib/uiTypes";
+
+// Bumped with the package version.
+//
+// Callers:
+// - package.json
+export const LIBRARY_VERSION = "1.0.0";
+
+// Callers:
+// - package.json
+export interface MapArtOptions {
+  // A built-in preset name (BUILTIN_PRESET_NAMES) or a preset as the page saves it; defaults to the first built-in.
+  preset?: string | Preset;
+  // Extra colors the image may use, each built from its own block.
+  customColors?: CustomColor[];
+  // Defaults to BuildMode.StaircaseClassic. Maps without any height change are built flat; Flat is refused for
+  // maps with one.
+  buildMode?: BuildMode;
+  // Defaults to SupportMode.None.
+  supportMode?: SupportMode;
+  // Filler blocks by page control; the void and late fillers fall back to the shade filler when empty.
+  fillers?: Partial<FillerBlocks>;
+  // Replaces the assignments built from `fillers` and `supportMode`.
+  fillerAssignments?: FillerAssignment[];
+  // Gap of the two-layer suppress modes; defaults to 5.
+  layerGap?: number;
+  mixSteps?: boolean;
+  paletteSeed?: boolean;
+  // Snaps colors the palette lacks to the nearest one instead of refusing the image; defaults to true.
+  convertUnsupported?: boolean;
+  dither?: DitherMethod;
+  metric?: ColorMetric;
+  paletteShadeSet?: PaletteShadeSet;
+  // Resizing onto a map grid. Off-grid images are letterboxed onto the nearest map count when no mode is given.
+  fit?: Partial<ImageFitOptions>;
+  // Defaults to ExportFormat.Structure (.nbt).
+  format?: ExportFormat;
+  // Defaults to MinecraftVersion.Latest.
+  version?: MinecraftVersion;
+  // Builds only these columns or suppress steps (inclusive), as the page's range sliders do.
+  columnRange?: [number, number];
+  stepRange?: [number, number];
+  // Leaves out fillers below the lowest layer of the art; defaults to true.
+  assumeFloor?: boolean;
+  forceZ129?: boolean;
+  structureBlockTiles?: boolean;
+  maxCommandChainLength?: number;
+}
+
+// A PNG, GIF or TIFF file (animated and multi-page files too) or a map_<id>.dat. `fileName` names the output and
+// picks the decoder for raw bytes; a File brings its own name.
+//
+// Callers:
+// - package.json
+export interface ImageInput {
+  image: Blob | ArrayBuffer | Uint8Array<ArrayBuffer>;
+  fileName?: string;
+}
+
+// Decoded RGBA pixels, e.g. a browser ImageData.
+//
+// Callers:
+// - package.json
+export interface PixelData {
+  data: Uint8ClampedArray<ArrayBuffer>;
+  width: number;
+  height: number;
+}
+
+// Callers:
+// - package.json
+export interface ConvertedFile {
+  fileName: string;
+  data: Uint8Array;
+  isZip: boolean;
+  // The mode the file was built in.
+  buildMode: BuildMode;
+  notices: string[];
+}
+
+// One tile per map, 128×128 colors each. A blocked image has colors the palette cannot show.
+//
+// Callers:
+// - package.json
+export interface ColorGridConversion {
+  tiles: ColorGridTile[];
+  blocked: boolean;
+  notices: string[];
+}
+
+// One shape per tile, in tile order.
+//
+// Callers:
+// - package.json
+export interface ShapeSet {
+  buildMode: BuildMode;
+  shapes: GeneratedShape[];
+}
+
+// Counts of everything a build takes. `fillers` counts filler blocks by the role they fill.
+//
+// Callers:
+// - package.json
+export interface MaterialList {
+  blocks: Record<string, number>;
+  fillers: Partial<Record<FillerRole, number>>;
+  baseColors: Record<number, number>;
+  uniqueColorShades: number;
+}
+
+// Callers:
+// - package.json
+export interface ImageAnalysis {
+  buildMode: BuildMode;
+  tiles: { row: number; col: number }[];
+  materials: MaterialList;
+  usedBaseColors: number[];
+  uniqueShadeCount: number;
+  uniqueBaseColorCount: number;
+  hasTransparency: boolean;
+  hasWater: boolean;
+  notices: string[];
+}
+
+function resolvePreset(preset: MapArtOptions["preset"]): Preset {
+  if (typeof preset === "object") return canonicalizePreset(preset);
+  const builtin = getBuiltinPreset(preset ?? BUILTIN_PRESET_NAMES[0]);
+  if (!builtin) throw new Error(messages.parsing.unknownPreset(String(preset), BUILTIN_PRESET_NAMES));
+  return canonicalizePreset(builtin);
+}
+
+function toSettings(options: MapArtOptions): HeadlessConversionSettings {
+  return {
+    ...options,
+    preset: resolvePreset(options.preset),
+    fit: options.fit && { ...DEFAULT_IMAGE_FIT, ...options.fit },
+  };
+}
+
+function toFile({ image, fileName }: ImageInput): File {
+  if (image instanceof File && !fileName) return image;
+  return new File([image], fileName ?? (image instanceof File ? image.name : "image.png"));
+}
+
+function toNoticeTexts(notices: PaletteNotice[]): string[] {
+  return notices.map(messages.parsing.noticeText);
+}
+
+function toMaterialList(materials: ReturnType<typeof analyzeMaterialNeeds>): MaterialList {
+  return {
+    blocks: materials.blockCounts,
+    fillers: Object.fromEntries(materials.fillerRoleCounts),
+    baseColors: materials.baseColorCounts,
+    uniqueColorShades: materials.numUniqueColorShadesForPart,
+  };
+}
+
+// Converts an image file into a build file, exactly as the page's download button would.
+//
+// Callers:
+// - package.json
+export async function convertImage(options: MapArtOptions & ImageInput): Promise<ConvertedFile> {
+  const result = await convertImageFile(toFile(options), toSettings(options));
+  return {
+    fileName: result.fileName,
+    data: result.data,
+    isZip: result.isZip,
+    buildMode: result.buildMode,
+    notices: toNoticeTexts(result.paletteNotices),
+  };
+}
+
+// The material list and image stats of an image file's first frame.
+//
+// Callers:
+// - package.json
+export async function analyzeImage(options: MapArtOptions & ImageInput): Promise<ImageAnalysis> {
+  const result = await analyzeImageFile(toFile(options), toSettings(options));
+  return {
+    buildMode: result.buildMode,
+    tiles: result.tiles,
+    materials: toMaterialList(result.materials),
+    usedBaseColors: [...result.stats.usedBaseColors].sort((a, b) => a - b),
+    uniqueShadeCount: result.stats.imageInfo.uniqueShadeCount,
+    uniqueBaseColorCount: result.stats.imageInfo.uniqueBaseColorCount,
+    hasTransparency: result.stats.hasTransparency,
+    hasWater: result.stats.hasWater,
+    notices: toNoticeTexts(result.paletteNotices),
+  };
+}
+
+// Snaps decoded pixels onto the preset's palette and cuts them into map tiles.
+//
+// Callers:
+// - package.json
+export function imageToColorGrid(options: MapArtOptions & { pixels: PixelData }): ColorGridConversion {
+  const { pixels } = options;
+  const [result] = convertImageFrames([createImageData(pixels.data, pixels.width, pixels.height)], toSettings(options));
+  return { tiles: result.tiles, blocked: result.hasBlockingIssue, notices: toNoticeTexts(result.paletteNotices) };
+}
+
+// Shapes the tiles of imageToColorGrid in the chosen build mode.
+//
+// Callers:
+// - package.json
+export function generateShapes(options: MapArtOptions & { tiles: ColorGridTile[] }): ShapeSet {
+  const { buildMode, shapes } = shapeColorGridTiles(options.tiles, toSettings(options));
+  return { buildMode, shapes };
+}
+
+// The material list of shaped tiles; shapes are generated from the options when `shapeSet` is left out.
+//
+// Callers:
+// - package.json
+export function analyzeMaterials(options: MapArtOptions & { tiles: ColorGridTile[]; shapeSet?: ShapeSet }): MaterialList {
+  const { tiles } = options;
+  const settings = toSettings(options);
+  const { shapes } = options.shapeSet ?? shapeColorGridTiles(tiles, settings);
+  const exportOptions = resolveExportOptions(settings, "");
+  return toMaterialList(combineMaterialNeeds(tiles.map((tile, i) => analyzeMaterialNeeds(tile.colorGrid, shapes[i], exportOptions))));
+}
+
+// Writes shaped tiles as one file named after `name`; shapes are generated from the options when `shapeSet` is
+// left out.
+//
+// Callers:
+// - package.json
+export async function exportShapes(
+  options: MapArtOptions & { tiles: ColorGridTile[]; shapeSet?: ShapeSet; name?: string },
+): Promise<ConvertedFile> {
+  const { tiles } = options;
+  const settings = toSettings(options);
+  const { buildMode, shapes } = options.shapeSet ?? shapeColorGridTiles(tiles, settings);
+  const exportOptions = resolveExportOptions(settings, options.name ?? "map");
+  const result = await exportShapedFrames([tiles], [shapes], buildMode, exportOptions);
+  return {
+    fileName: `${exportOptions.baseName}${getBuildModeFileSuffix(options.buildMode ?? BuildMode.StaircaseClassic)}.${result.fileExtension}`,
+    data: result.data,
+    isZip: result.isZip,
+    buildMode,
+    notices: toNoticeTexts(result.paletteNotices),
+  };
+}
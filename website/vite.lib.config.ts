@@ -0,0 +1,23 @@
+import { defineConfig } from "vite";
+import path from "path";
+
+// Library build of src/library/index.ts; `bun run build:lib` also writes the type declarations next to it.
+export default defineConfig({
+  publicDir: false,
+  build: {
+    outDir: "dist-lib",
+    lib: {
+      entry: path.resolve(__dirname, "./src/library/index.ts"),
+      formats: ["es"],
+      fileName: "png2nbt",
+    },
+    rollupOptions: {
+      external: ["utif"],
+    },
+  },
+  resolve: {
+    alias: {
+      "@": path.resolve(__dirname, "./src"),
+    },
+  },
+});